@@ -0,0 +1,494 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import {
+  ArrowLeft, LogOut, Loader2, Monitor, ShieldCheck, Trash2, UserCircle, KeyRound, Users, UserPlus,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ROLES, can, type Role } from "@/lib/permissions";
+
+interface AccountSession {
+  id: string;
+  createdAt: number;
+  lastSeenAt: number;
+  expiresAt: number;
+  userAgent?: string;
+  ip?: string;
+  current?: boolean;
+}
+
+interface AccountUser {
+  username: string;
+  role: Role;
+  createdAt?: number;
+}
+
+interface AccountState {
+  user: AccountUser;
+  sessions: AccountSession[];
+  users?: AccountUser[];
+}
+
+const ROLE_BADGE: Record<Role, string> = {
+  viewer: "bg-zinc-700/50 text-zinc-300",
+  operator: "bg-sky-500/20 text-sky-400",
+  admin: "bg-amber-500/20 text-amber-400",
+};
+
+const inputClass =
+  "w-full bg-zinc-800 border border-zinc-700 rounded-lg px-3 py-2 text-sm text-zinc-100 placeholder-zinc-500 focus:outline-none focus:ring-2 focus:ring-emerald-500/50";
+
+function formatSeen(ts: number): string {
+  const diff = Date.now() - ts;
+  const minutes = Math.floor(diff / 60000);
+  const hours = Math.floor(minutes / 60);
+  if (minutes < 5) return "Active now";
+  if (minutes < 60) return `${minutes}m ago`;
+  if (hours < 24) return `${hours}h ago`;
+  return `${Math.floor(hours / 24)}d ago`;
+}
+
+function describeAgent(ua?: string): string {
+  if (!ua) return "Unknown device";
+  const browser = /Firefox\//.test(ua)
+    ? "Firefox"
+    : /Edg\//.test(ua)
+      ? "Edge"
+      : /Chrome\//.test(ua)
+        ? "Chrome"
+        : /Safari\//.test(ua)
+          ? "Safari"
+          : "Browser";
+  const os = /iPhone|iPad/.test(ua)
+    ? "iOS"
+    : /Android/.test(ua)
+      ? "Android"
+      : /Mac OS X/.test(ua)
+        ? "macOS"
+        : /Windows/.test(ua)
+          ? "Windows"
+          : /Linux/.test(ua)
+            ? "Linux"
+            : "";
+  return os ? `${browser} on ${os}` : browser;
+}
+
+async function authAction(body: Record<string, unknown>) {
+  const res = await fetch("/api/auth", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+  const data = await res.json();
+  if (!res.ok || !data.ok) throw new Error(data.error || "Request failed");
+  return data;
+}
+
+export default function AccountPage() {
+  const [account, setAccount] = useState<AccountState | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [currentPassword, setCurrentPassword] = useState("");
+  const [newPassword, setNewPassword] = useState("");
+  const [message, setMessage] = useState<{ ok: boolean; text: string } | null>(null);
+  const [newUsername, setNewUsername] = useState("");
+  const [newUserPassword, setNewUserPassword] = useState("");
+  const [newUserRole, setNewUserRole] = useState<Role>("viewer");
+
+  const load = useCallback(async () => {
+    try {
+      const res = await fetch("/api/auth?sessions=true&users=true");
+      const data = await res.json();
+      if (!data.authenticated) {
+        window.location.replace("/login?next=/account");
+        return;
+      }
+      setAccount({ user: data.user, sessions: data.sessions || [], users: data.users });
+    } catch (err) {
+      console.error("Failed to load account:", err);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const handleLogout = async () => {
+    setBusy("logout");
+    try {
+      await authAction({ action: "logout" });
+    } finally {
+      window.location.replace("/login");
+    }
+  };
+
+  const handleRevoke = async (session: AccountSession) => {
+    setBusy(session.id);
+    try {
+      await authAction({ action: "revoke-session", sessionId: session.id });
+      if (session.current) {
+        window.location.replace("/login");
+        return;
+      }
+      await load();
+    } catch (err) {
+      setMessage({ ok: false, text: err instanceof Error ? err.message : String(err) });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleRevokeOthers = async () => {
+    setBusy("others");
+    try {
+      const data = await authAction({ action: "revoke-other-sessions" });
+      setMessage({ ok: true, text: `Signed out ${data.removed} other session(s)` });
+      await load();
+    } catch (err) {
+      setMessage({ ok: false, text: err instanceof Error ? err.message : String(err) });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleChangePassword = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setBusy("password");
+    setMessage(null);
+    try {
+      await authAction({ action: "change-password", currentPassword, newPassword });
+      setCurrentPassword("");
+      setNewPassword("");
+      setMessage({ ok: true, text: "Password changed. Other sessions were signed out." });
+      await load();
+    } catch (err) {
+      setMessage({ ok: false, text: err instanceof Error ? err.message : String(err) });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleCreateUser = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setBusy("create-user");
+    setMessage(null);
+    try {
+      await authAction({
+        action: "create-user",
+        username: newUsername,
+        password: newUserPassword,
+        role: newUserRole,
+      });
+      setMessage({ ok: true, text: `Created ${newUsername.trim()} (${newUserRole})` });
+      setNewUsername("");
+      setNewUserPassword("");
+      setNewUserRole("viewer");
+      await load();
+    } catch (err) {
+      setMessage({ ok: false, text: err instanceof Error ? err.message : String(err) });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleSetRole = async (username: string, role: Role) => {
+    setBusy(`role-${username}`);
+    setMessage(null);
+    try {
+      await authAction({ action: "set-role", username, role });
+      await load();
+    } catch (err) {
+      setMessage({ ok: false, text: err instanceof Error ? err.message : String(err) });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleDeleteUser = async (username: string) => {
+    if (!window.confirm(`Delete ${username}? Their sessions will be signed out.`)) return;
+    setBusy(`delete-${username}`);
+    setMessage(null);
+    try {
+      await authAction({ action: "delete-user", username });
+      await load();
+    } catch (err) {
+      setMessage({ ok: false, text: err instanceof Error ? err.message : String(err) });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const otherSessions = account?.sessions.filter((s) => !s.current).length ?? 0;
+  const isAdmin = can(account?.user.role, "users.manage");
+
+  return (
+    <div className="space-y-6">
+      <header className="flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <Link href="/" className="p-2 rounded-lg bg-zinc-900 border border-zinc-800 hover:bg-zinc-800">
+            <ArrowLeft className="w-5 h-5" strokeWidth={1.5} />
+          </Link>
+          <div>
+            <h1 className="text-2xl font-bold">Account</h1>
+            <p className="text-sm text-zinc-400 flex items-center gap-2">
+              {account?.user.username ?? "…"}
+              {account && (
+                <Badge className={`text-xs border-0 ${ROLE_BADGE[account.user.role]}`}>
+                  {account.user.role}
+                </Badge>
+              )}
+            </p>
+          </div>
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={handleLogout}
+          disabled={busy === "logout"}
+          className="text-red-400 border-red-500/30 hover:bg-red-500/10 hover:text-red-300"
+        >
+          {busy === "logout" ? <Loader2 className="w-4 h-4 animate-spin" /> : <LogOut className="w-4 h-4" />}
+          Sign out
+        </Button>
+      </header>
+
+      {message && (
+        <div
+          className={
+            message.ok
+              ? "text-sm text-emerald-300 bg-emerald-500/10 border border-emerald-500/20 rounded-lg px-3 py-2"
+              : "text-sm text-red-400 bg-red-500/10 border border-red-500/20 rounded-lg px-3 py-2"
+          }
+        >
+          {message.text}
+        </div>
+      )}
+
+      {/* Active sessions */}
+      <section className="space-y-3">
+        <div className="flex items-center justify-between">
+          <h2 className="text-xs font-medium text-zinc-500 uppercase tracking-wider flex items-center gap-2">
+            <ShieldCheck className="w-4 h-4" />
+            Signed-in devices
+          </h2>
+          {otherSessions > 0 && (
+            <button
+              onClick={handleRevokeOthers}
+              disabled={busy === "others"}
+              className="text-xs text-zinc-400 hover:text-red-400 transition-colors disabled:opacity-50"
+            >
+              Sign out all others
+            </button>
+          )}
+        </div>
+
+        {loading ? (
+          <>
+            <Skeleton className="h-16 skeleton-shimmer rounded-xl" />
+            <Skeleton className="h-16 skeleton-shimmer rounded-xl" />
+          </>
+        ) : (
+          account?.sessions.map((s) => (
+            <div
+              key={s.id}
+              className="bg-zinc-900 rounded-xl border border-zinc-800 p-3 sm:p-4 flex items-center gap-3"
+            >
+              <Monitor className="w-5 h-5 text-zinc-500 shrink-0" />
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2 flex-wrap">
+                  <span className="font-medium text-sm truncate">{describeAgent(s.userAgent)}</span>
+                  {s.current && (
+                    <Badge className="text-xs bg-emerald-500/20 text-emerald-400 border-0">This device</Badge>
+                  )}
+                </div>
+                <div className="text-xs text-zinc-500 mt-0.5">
+                  {s.ip ? `${s.ip} · ` : ""}
+                  {formatSeen(s.lastSeenAt)} · signed in {new Date(s.createdAt).toLocaleDateString()}
+                </div>
+              </div>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => handleRevoke(s)}
+                disabled={busy === s.id}
+                className="h-8 w-8 p-0 text-zinc-500 border-zinc-700 hover:text-red-400 hover:border-red-500/30 hover:bg-red-500/10"
+                title="Revoke session"
+              >
+                {busy === s.id ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Trash2 className="w-3.5 h-3.5" />}
+              </Button>
+            </div>
+          ))
+        )}
+      </section>
+
+      {/* Change password */}
+      <section className="space-y-3">
+        <h2 className="text-xs font-medium text-zinc-500 uppercase tracking-wider flex items-center gap-2">
+          <KeyRound className="w-4 h-4" />
+          Change password
+        </h2>
+        <form
+          onSubmit={handleChangePassword}
+          className="bg-zinc-900 rounded-xl border border-zinc-800 p-4 space-y-3"
+        >
+          <input
+            type="password"
+            value={currentPassword}
+            onChange={(e) => setCurrentPassword(e.target.value)}
+            placeholder="Current password"
+            autoComplete="current-password"
+            className={inputClass}
+          />
+          <input
+            type="password"
+            value={newPassword}
+            onChange={(e) => setNewPassword(e.target.value)}
+            placeholder="New password (min 8 characters)"
+            autoComplete="new-password"
+            className={inputClass}
+          />
+          <Button
+            type="submit"
+            disabled={busy === "password" || !currentPassword || newPassword.length < 8}
+            className="w-full bg-emerald-500 hover:bg-emerald-600 text-white"
+          >
+            {busy === "password" ? <Loader2 className="w-4 h-4 animate-spin" /> : "Update password"}
+          </Button>
+        </form>
+      </section>
+
+      {/* User management (admin only) */}
+      {isAdmin && account?.users && (
+        <section className="space-y-3">
+          <h2 className="text-xs font-medium text-zinc-500 uppercase tracking-wider flex items-center gap-2">
+            <Users className="w-4 h-4" />
+            Users
+          </h2>
+
+          <div className="space-y-2">
+            {account.users.map((u) => {
+              const isSelf = u.username === account.user.username;
+              return (
+                <div
+                  key={u.username}
+                  className="bg-zinc-900 rounded-xl border border-zinc-800 p-3 sm:p-4 flex items-center gap-3"
+                >
+                  <UserCircle className="w-5 h-5 text-zinc-500 shrink-0" />
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium text-sm truncate">{u.username}</span>
+                      {isSelf && (
+                        <Badge className="text-xs bg-emerald-500/20 text-emerald-400 border-0">You</Badge>
+                      )}
+                    </div>
+                    {u.createdAt && (
+                      <div className="text-xs text-zinc-500 mt-0.5">
+                        Added {new Date(u.createdAt).toLocaleDateString()}
+                      </div>
+                    )}
+                  </div>
+                  <select
+                    value={u.role}
+                    onChange={(e) => handleSetRole(u.username, e.target.value as Role)}
+                    disabled={busy === `role-${u.username}`}
+                    className="bg-zinc-800 border border-zinc-700 rounded-lg px-2 py-1.5 text-xs text-zinc-100 focus:outline-none focus:ring-2 focus:ring-emerald-500/50"
+                    aria-label={`Role for ${u.username}`}
+                  >
+                    {ROLES.map((r) => (
+                      <option key={r} value={r}>
+                        {r}
+                      </option>
+                    ))}
+                  </select>
+                  {!isSelf && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handleDeleteUser(u.username)}
+                      disabled={busy === `delete-${u.username}`}
+                      className="h-8 w-8 p-0 text-zinc-500 border-zinc-700 hover:text-red-400 hover:border-red-500/30 hover:bg-red-500/10"
+                      title="Delete user"
+                    >
+                      {busy === `delete-${u.username}` ? (
+                        <Loader2 className="w-3.5 h-3.5 animate-spin" />
+                      ) : (
+                        <Trash2 className="w-3.5 h-3.5" />
+                      )}
+                    </Button>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+
+          <form
+            onSubmit={handleCreateUser}
+            className="bg-zinc-900 rounded-xl border border-zinc-800 p-4 space-y-3"
+          >
+            <input
+              type="text"
+              value={newUsername}
+              onChange={(e) => setNewUsername(e.target.value)}
+              placeholder="Username"
+              autoComplete="off"
+              autoCapitalize="none"
+              className={inputClass}
+            />
+            <input
+              type="password"
+              value={newUserPassword}
+              onChange={(e) => setNewUserPassword(e.target.value)}
+              placeholder="Initial password (min 8 characters)"
+              autoComplete="new-password"
+              className={inputClass}
+            />
+            <div className="flex gap-2">
+              {ROLES.map((r) => (
+                <button
+                  key={r}
+                  type="button"
+                  onClick={() => setNewUserRole(r)}
+                  className={
+                    newUserRole === r
+                      ? "flex-1 rounded-lg border border-emerald-500/50 bg-emerald-500/10 px-3 py-1.5 text-xs text-emerald-300"
+                      : "flex-1 rounded-lg border border-zinc-700 px-3 py-1.5 text-xs text-zinc-400 hover:bg-zinc-800"
+                  }
+                >
+                  {r}
+                </button>
+              ))}
+            </div>
+            <p className="text-xs text-zinc-500">
+              Viewers can only read. Operators can run cron jobs and scripts and edit contacts.
+              Admins can also change config, access control, skills and users.
+            </p>
+            <Button
+              type="submit"
+              disabled={busy === "create-user" || !newUsername.trim() || newUserPassword.length < 8}
+              className="w-full bg-emerald-500 hover:bg-emerald-600 text-white"
+            >
+              {busy === "create-user" ? (
+                <Loader2 className="w-4 h-4 animate-spin" />
+              ) : (
+                <>
+                  <UserPlus className="w-4 h-4" />
+                  Add user
+                </>
+              )}
+            </Button>
+          </form>
+        </section>
+      )}
+
+      <div className="flex items-center gap-2 text-xs text-zinc-600">
+        <UserCircle className="w-4 h-4" />
+        Credentials are stored outside the agent workspace, in the command-center auth directory.
+      </div>
+    </div>
+  );
+}
@@ -1,55 +1,61 @@
 "use client";
 
 import { useEffect, useState, useCallback } from "react";
+import Link from "next/link";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
-import { ScrollArea } from "@/components/ui/scroll-area";
 import {
   Play, Pause, RefreshCw, Clock, Loader2, Info, CheckCircle, XCircle,
   AlertCircle, FileCode, Star, Zap, ChevronDown, ChevronUp, X, Plus,
-  Trash2, CalendarClock, ScrollText, Eraser, Terminal, Radio, Search,
-  Users,
+  Trash2, CalendarClock, ScrollText, Eraser, Terminal,
+  Users, Pencil, ArrowRight, History, AlertTriangle,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { useLocalStorage } from "@/lib/use-local-storage";
+import { useCurrentUser } from "@/lib/use-auth";
+import { useLiveRefresh } from "@/lib/use-live-events";
+import { useAgents } from "@/lib/use-agent";
 import {
   getCronJobs,
   getCronStatus,
   runCronJob,
-  toggleCronJob,
+  updateCronJob,
   createCronJob,
   deleteCronJob,
   type CronJob,
+  type CronJobPatch,
   type CronStatus,
   type CronCreateParams,
 } from "@/lib/gateway-api";
+import { describeCron, isValidTimeZone, validateCron } from "@/lib/cron-expr";
+import { CronPreview } from "@/components/cron-preview";
+import { CronRunHistory } from "@/components/cron-run-history";
+import { ScriptRunOutput } from "@/components/script-run-output";
+import { ScriptRunHistory } from "@/components/script-run-history";
+import { ScriptEditor } from "@/components/script-editor";
+import { WorkflowsPanel } from "@/components/workflows-panel";
+import { SessionBulkActions } from "@/components/session-actions";
+import { buildSessionTree, SessionTree } from "@/components/session-tree";
+import { ActivityFeed } from "@/components/activity-feed";
+import type { ScriptRunSummary } from "@/lib/script-runs";
+import type { ScriptRunListItem } from "@/lib/script-history";
+import { SECRET_MASK, validateScriptParams, type ScriptParam } from "@/lib/script-header";
 
 // ─────────────────────────────────────────────────────────────
 // Cron helpers
 // ─────────────────────────────────────────────────────────────
 
-function humanizeCron(expr: string): string {
-  const parts = expr.split(" ");
-  if (parts.length !== 5) return expr;
-  const [min, hour, dom, mon, dow] = parts;
-  if (min.startsWith("*/") && hour === "*" && dom === "*" && mon === "*" && dow === "*") {
-    return `Every ${min.slice(2)} minutes`;
-  }
-  if (!min.includes("*") && hour === "*" && dom === "*" && mon === "*" && dow === "*") {
-    return `Hourly at :${min.padStart(2, "0")}`;
-  }
-  if (!min.includes("*") && !hour.includes("*") && dom === "*" && mon === "*" && dow === "*") {
-    return `Daily at ${hour.padStart(2, "0")}:${min.padStart(2, "0")}`;
-  }
-  return expr;
-}
-
-function formatSchedule(job: CronJob): { short: string; human: string } {
+function formatSchedule(job: Pick<CronJob, "schedule">): { short: string; human: string } {
   const { schedule } = job;
   if (schedule.kind === "cron" && schedule.expr) {
-    return { short: schedule.expr, human: humanizeCron(schedule.expr) };
+    const tz = schedule.tz ? ` (${schedule.tz})` : "";
+    return { short: `${schedule.expr}${tz}`, human: `${describeCron(schedule.expr)}${tz}` };
+  }
+  if (schedule.kind === "at" && schedule.atMs) {
+    const when = new Date(schedule.atMs).toLocaleString();
+    return { short: when, human: `Once at ${when}` };
   }
   if (schedule.kind === "every" && schedule.everyMs) {
     const minutes = Math.floor(schedule.everyMs / 60000);
@@ -84,13 +90,66 @@ function formatLastRun(ms?: number): string {
   return `${Math.floor(hours / 24)}d ago`;
 }
 
-function getPayloadDescription(job: CronJob): string {
+function getPayloadDescription(job: Pick<CronJob, "payload">): string {
   const { payload } = job;
   if (payload.kind === "systemEvent") return payload.text || payload.message || "System event";
   if (payload.kind === "agentTurn") return payload.message || payload.text || "Agent turn";
   return payload.kind;
 }
 
+// ─── Edit diff ───
+
+const PATCH_FIELDS = ["name", "enabled", "schedule", "payload", "sessionTarget", "wakeMode"] as const;
+
+const PATCH_LABELS: Record<(typeof PATCH_FIELDS)[number], string> = {
+  name: "Name",
+  enabled: "Enabled",
+  schedule: "Schedule",
+  payload: "Payload",
+  sessionTarget: "Session",
+  wakeMode: "Wake mode",
+};
+
+interface CronChange {
+  field: string;
+  before: string;
+  after: string;
+}
+
+function describeField(field: (typeof PATCH_FIELDS)[number], value: CronCreateParams[typeof field]): string {
+  if (value === undefined) return "—";
+  if (field === "schedule") return formatSchedule({ schedule: value as CronJob["schedule"] }).human;
+  if (field === "payload") {
+    const payload = value as CronJob["payload"];
+    return `${payload.kind}: ${getPayloadDescription({ payload })}`;
+  }
+  if (field === "enabled") return value ? "On" : "Off";
+  return String(value);
+}
+
+/** Only the fields the draft actually changes, plus a readable before/after. */
+function diffCronJob(job: CronJob, draft: CronCreateParams): { patch: CronJobPatch; changes: CronChange[] } {
+  const patch: CronJobPatch = {};
+  const changes: CronChange[] = [];
+  for (const field of PATCH_FIELDS) {
+    const next = draft[field];
+    if (next === undefined || JSON.stringify(next) === JSON.stringify(job[field])) continue;
+    Object.assign(patch, { [field]: next });
+    changes.push({
+      field: PATCH_LABELS[field],
+      before: describeField(field, job[field]),
+      after: describeField(field, next),
+    });
+  }
+  return { patch, changes };
+}
+
+function toDateTimeLocal(ms?: number): string {
+  if (!ms) return "";
+  const d = new Date(ms - new Date(ms).getTimezoneOffset() * 60000);
+  return d.toISOString().slice(0, 16);
+}
+
 function getStatusIcon(status?: string) {
   if (!status) return null;
   if (status === "ok" || status === "success") return <CheckCircle className="w-3.5 h-3.5 text-green-500" />;
@@ -109,13 +168,17 @@ interface Script {
   sizeKb?: number;
   modifiedAt?: string;
   source?: "workspace" | "openclaw";
+  /** From a "# timeout:" header line; the server default applies otherwise. */
+  timeoutMs?: number;
+  /** From "# @param" header lines; scripts with params are run through a form. */
+  params?: ScriptParam[];
+  paramErrors?: string[];
 }
 
-interface ExecResult {
-  success: boolean;
-  stdout: string;
-  stderr: string;
-  error?: string;
+/** What a run is started with: free-form args, or values for declared params. */
+interface ScriptRunInput {
+  args?: string[];
+  params?: Record<string, string>;
 }
 
 // ─────────────────────────────────────────────────────────────
@@ -169,6 +232,31 @@ interface SystemCronEntry {
   command: string;
   comment?: string;
   raw: string;
+  /** CRON_TZ in effect for the line, if the crontab sets one. */
+  tz?: string;
+  nextRunAtMs?: number;
+  enabled: boolean;
+  /** Written by the command center; other lines can only be changed with force. */
+  managed: boolean;
+  script?: string;
+}
+
+/** A crontab change waiting for the user to confirm it. */
+interface CrontabConfirm {
+  title: string;
+  message: string;
+  body: Record<string, unknown>;
+  destructive?: boolean;
+}
+
+type ScheduleTarget = "openclaw" | "crontab";
+
+/** System crontab has no interval schedules; express presets as cron. */
+function everyMsToCron(everyMs: number): string {
+  const minutes = Math.max(1, Math.round(everyMs / 60000));
+  if (minutes < 60) return `*/${minutes} * * * *`;
+  const hours = Math.round(minutes / 60);
+  return hours === 1 ? "0 * * * *" : `0 */${hours} * * *`;
 }
 
 function formatModifiedDate(dateStr?: string): string {
@@ -186,6 +274,12 @@ function formatModifiedDate(dateStr?: string): string {
   }
 }
 
+function formatTimeout(ms: number): string {
+  if (ms % 3_600_000 === 0) return `${ms / 3_600_000}h timeout`;
+  if (ms % 60_000 === 0) return `${ms / 60_000}m timeout`;
+  return `${Math.round(ms / 1000)}s timeout`;
+}
+
 // ─────────────────────────────────────────────────────────────
 // Schedule presets for the schedule modal
 // ─────────────────────────────────────────────────────────────
@@ -216,44 +310,8 @@ interface SessionEntry {
   model?: string;
   active: boolean;
   contactName?: string;
-}
-
-// ─────────────────────────────────────────────────────────────
-// Activity log types (for Activity tab - server-side logs)
-// ─────────────────────────────────────────────────────────────
-
-interface ActivityLogEntry {
-  ts: number;
-  type: "cron" | "session";
-  source: string;
-  summary: string;
-  status?: string;
-  durationMs?: number;
-  sessionKey?: string;
-}
-
-function formatActivityTime(ts: number): string {
-  const now = Date.now();
-  const diff = now - ts;
-  const minutes = Math.floor(diff / 60000);
-  const hours = Math.floor(minutes / 60);
-  const days = Math.floor(hours / 24);
-
-  const date = new Date(ts);
-  const time = date.toLocaleTimeString("en-US", {
-    hour: "numeric",
-    minute: "2-digit",
-    hour12: true,
-  });
-  const dayPart = date.toLocaleDateString("en-US", { day: "numeric", month: "short" });
-
-  if (days === 0) {
-    if (minutes < 1) return `Just now`;
-    if (minutes < 60) return `${minutes}m ago · ${time}`;
-    return `${hours}h ago · ${time}`;
-  }
-  if (days === 1) return `Yesterday · ${time}`;
-  return `${dayPart} · ${time}`;
+  cronJobId?: string;
+  parentKey?: string;
 }
 
 function formatSessionAge(ts: number): string {
@@ -272,16 +330,27 @@ function formatSessionAge(ts: number): string {
 // ─────────────────────────────────────────────────────────────
 
 export default function ActionsPage() {
+  const { can } = useCurrentUser();
+  const { selected: agentId, defaultId: defaultAgentId, ownsCronJob } = useAgents();
+
   // Shared state
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
 
   // Cron state
-  const [cronJobs, setCronJobs] = useState<CronJob[]>([]);
+  const [allCronJobs, setCronJobs] = useState<CronJob[]>([]);
+  // Only the selected agent's jobs; the gateway lists every agent's
+  const cronJobs = allCronJobs.filter(ownsCronJob);
   const [cronStatus, setCronStatus] = useState<CronStatus | null>(null);
   const [busyJobId, setBusyJobId] = useState<string | null>(null);
   const [expandedJob, setExpandedJob] = useState<string | null>(null);
   const [showCreateCron, setShowCreateCron] = useState(false);
+  const [editingJob, setEditingJob] = useState<CronJob | null>(null);
+  const [historyJob, setHistoryJob] = useState<CronJob | null>(null);
+  const [cronError, setCronError] = useState<string | null>(null);
+  const [busyCrontabId, setBusyCrontabId] = useState<string | null>(null);
+  const [editingCrontab, setEditingCrontab] = useState<SystemCronEntry | null>(null);
+  const [confirmCrontab, setConfirmCrontab] = useState<CrontabConfirm | null>(null);
   const [confirmDeleteJob, setConfirmDeleteJob] = useState<string | null>(null);
 
   // System crontab state
@@ -290,7 +359,12 @@ export default function ActionsPage() {
   // Script state
   const [scripts, setScripts] = useState<Script[]>([]);
   const [runningScript, setRunningScript] = useState<string | null>(null);
-  const [result, setResult] = useState<{ script: string; result: ExecResult } | null>(null);
+  const [activeRun, setActiveRun] = useState<ScriptRunSummary | null>(null);
+  const [scriptError, setScriptError] = useState<string | null>(null);
+  const [historyScript, setHistoryScript] = useState<string | null>(null);
+  // null: closed; "": new script; otherwise the script being edited
+  const [editingScript, setEditingScript] = useState<string | null>(null);
+  const [paramsForm, setParamsForm] = useState<{ script: Script; initial?: Record<string, string> } | null>(null);
   const [favorites, setFavorites] = useLocalStorage<string[]>("pinned-scripts", []);
   const [scheduleScript, setScheduleScript] = useState<string | null>(null);
   const [confirmDeleteScript, setConfirmDeleteScript] = useState<string | null>(null);
@@ -304,12 +378,6 @@ export default function ActionsPage() {
   const [sessionsLoading, setSessionsLoading] = useState(false);
   const [sessionFilter, setSessionFilter] = useState<"all" | "active" | "recent">("all");
 
-  // Activity tab state (server-side logs)
-  const [activityLogs, setActivityLogs] = useState<ActivityLogEntry[]>([]);
-  const [activityLoading, setActivityLoading] = useState(false);
-  const [activityFilter, setActivityFilter] = useState<"all" | "cron" | "sessions">("all");
-  const [activitySearch, setActivitySearch] = useState("");
-  const [activityAutoRefresh, setActivityAutoRefresh] = useState(false);
 
   const addLogEntry = useCallback(
     (entry: Omit<ActionLogEntry, "id">) => {
@@ -348,7 +416,7 @@ export default function ActionsPage() {
   const fetchSessions = useCallback(async () => {
     setSessionsLoading(true);
     try {
-      const res = await fetch("/api/sessions?limit=50");
+      const res = await fetch("/api/sessions?limit=200");
       const data = await res.json();
       setSessions(data.sessions || []);
     } catch (err) {
@@ -358,33 +426,14 @@ export default function ActionsPage() {
     }
   }, []);
 
-  const fetchActivity = useCallback(async () => {
-    setActivityLoading(true);
-    try {
-      const params = new URLSearchParams({ limit: "50", type: activityFilter });
-      if (activitySearch) params.set("search", activitySearch);
-      const res = await fetch(`/api/logs?${params}`);
-      const data = await res.json();
-      setActivityLogs(data.entries || []);
-    } catch (err) {
-      console.error("Failed to fetch activity:", err);
-    } finally {
-      setActivityLoading(false);
-    }
-  }, [activityFilter, activitySearch]);
-
   useEffect(() => {
     refresh();
     fetchSessions();
-    fetchActivity();
-  }, [refresh, fetchSessions, fetchActivity]);
+  }, [refresh, fetchSessions]);
 
-  // Activity auto-refresh
-  useEffect(() => {
-    if (!activityAutoRefresh) return;
-    const interval = setInterval(fetchActivity, 15000);
-    return () => clearInterval(interval);
-  }, [activityAutoRefresh, fetchActivity]);
+  // Live updates: cron runs change job state and spawn sessions
+  useLiveRefresh(["cron"], refresh);
+  useLiveRefresh(["sessions", "cron"], fetchSessions);
 
   // ─────────────────────────────────────────────────────────────
   // Cron handlers
@@ -419,18 +468,34 @@ export default function ActionsPage() {
     }
   };
 
-  const handleToggleCron = async (jobId: string, enabled: boolean) => {
-    setBusyJobId(jobId);
+  // Optimistic: show the patched job straight away, put the old one back if
+  // the gateway rejects the update
+  const handleUpdateCron = async (job: CronJob, patch: CronJobPatch) => {
+    setBusyJobId(job.id);
+    setCronError(null);
+    setCronJobs((jobs) => jobs.map((j) => (j.id === job.id ? { ...j, ...patch } : j)));
     try {
-      await toggleCronJob(jobId, enabled);
+      await updateCronJob(job.id, patch);
       await refresh();
     } catch (err) {
-      console.error("Failed to toggle job:", err);
+      setCronJobs((jobs) => jobs.map((j) => (j.id === job.id ? job : j)));
+      setCronError(`Couldn't update "${job.name}": ${err instanceof Error ? err.message : String(err)}`);
+      console.error("Failed to update job:", err);
     } finally {
       setBusyJobId(null);
     }
   };
 
+  const handleToggleCron = async (jobId: string, enabled: boolean) => {
+    const job = cronJobs.find((j) => j.id === jobId);
+    if (job) await handleUpdateCron(job, { enabled });
+  };
+
+  const handleEditCron = async (job: CronJob, patch: CronJobPatch) => {
+    setEditingJob(null);
+    await handleUpdateCron(job, patch);
+  };
+
   const handleDeleteCron = async (jobId: string) => {
     setBusyJobId(jobId);
     try {
@@ -447,7 +512,7 @@ export default function ActionsPage() {
 
   const handleCreateCron = async (params: CronCreateParams) => {
     try {
-      await createCronJob(params);
+      await createCronJob(agentId && agentId !== defaultAgentId ? { ...params, agentId } : params);
       setShowCreateCron(false);
       await refresh();
     } catch (err) {
@@ -459,45 +524,84 @@ export default function ActionsPage() {
   // Script handlers
   // ─────────────────────────────────────────────────────────────
 
-  const runScript = async (scriptName: string) => {
+  // Starts the run and opens its live output; the log entry is written on exit.
+  // Resolves to the server's per-parameter errors when it rejects the input.
+  const runScript = async (
+    scriptName: string,
+    input: ScriptRunInput = {}
+  ): Promise<Record<string, string> | null> => {
     setRunningScript(scriptName);
-    setResult(null);
-    const start = Date.now();
+    setScriptError(null);
     try {
       const res = await fetch("/api/exec", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ script: scriptName }),
-      });
-      const data: ExecResult = await res.json();
-      setResult({ script: scriptName, result: data });
-      addLogEntry({
-        type: "script",
-        name: scriptName,
-        timestamp: Date.now(),
-        success: data.success,
-        durationMs: Date.now() - start,
-        error: data.error,
-        output: (data.stdout || data.stderr || "").slice(0, 200),
+        body: JSON.stringify({ script: scriptName, ...input }),
       });
+      const data = await res.json();
+      if (data.fieldErrors) {
+        setRunningScript(null);
+        return data.fieldErrors;
+      }
+      if (!res.ok || !data.run) throw new Error(data.error || "Failed to start script");
+      setActiveRun(data.run);
+      return null;
     } catch (err) {
-      setResult({
-        script: scriptName,
-        result: { success: false, stdout: "", stderr: "", error: String(err) },
-      });
+      const message = err instanceof Error ? err.message : String(err);
+      setScriptError(`${scriptName}: ${message}`);
+      setRunningScript(null);
       addLogEntry({
         type: "script",
         name: scriptName,
         timestamp: Date.now(),
         success: false,
-        durationMs: Date.now() - start,
-        error: String(err),
+        error: message,
       });
-    } finally {
-      setRunningScript(null);
+      return null;
     }
   };
 
+  // Scripts with declared params go through the form first
+  const handleRunScript = (script: Script) => {
+    if (script.params?.length) setParamsForm({ script });
+    else runScript(script.name);
+  };
+
+  const handleRerun = (run: ScriptRunListItem) => {
+    setHistoryScript(null);
+    const script = scripts.find((s) => s.name === run.script);
+    if (script?.params?.length) {
+      // Secrets aren't stored, so those fields start empty
+      const initial = Object.fromEntries(
+        Object.entries(run.params || {}).filter(([, value]) => value !== SECRET_MASK)
+      );
+      setParamsForm({ script, initial });
+    } else {
+      runScript(run.script, { args: run.args });
+    }
+  };
+
+  const handleScriptExit = useCallback(
+    (run: ScriptRunSummary, output: string) => {
+      setRunningScript((current) => (current === run.script ? null : current));
+      addLogEntry({
+        type: "script",
+        name: run.script,
+        timestamp: run.finishedAt ?? Date.now(),
+        success: run.status === "ok",
+        durationMs: (run.finishedAt ?? Date.now()) - run.startedAt,
+        error: run.error,
+        output: output.slice(0, 200),
+      });
+    },
+    [addLogEntry]
+  );
+
+  const closeScriptRun = () => {
+    setActiveRun(null);
+    setRunningScript(null);
+  };
+
   const toggleFavorite = (scriptName: string) => {
     setFavorites((prev) => {
       if (prev.includes(scriptName)) return prev.filter((s) => s !== scriptName);
@@ -506,11 +610,74 @@ export default function ActionsPage() {
     });
   };
 
+  // ─── System crontab ───
+
+  const crontabRequest = async (body: Record<string, unknown>): Promise<boolean> => {
+    const id = typeof body.id === "string" ? body.id : "new";
+    setBusyCrontabId(id);
+    setCronError(null);
+    try {
+      const res = await fetch("/api/crontab", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || `HTTP ${res.status}`);
+      setSystemCronEntries(data.entries || []);
+      return true;
+    } catch (err) {
+      setCronError(`Crontab: ${err instanceof Error ? err.message : String(err)}`);
+      return false;
+    } finally {
+      setBusyCrontabId(null);
+    }
+  };
+
+  // Lines the command center didn't write are only changed after a confirm, with force
+  const unmanagedWarning =
+    "This line wasn't added by the command center. Changing it may break something else that relies on it.";
+
+  const handleToggleCrontab = (entry: SystemCronEntry) => {
+    const body = { action: "toggle", id: entry.id, enabled: !entry.enabled };
+    if (entry.managed) {
+      crontabRequest(body);
+      return;
+    }
+    setConfirmCrontab({
+      title: entry.enabled ? "Disable crontab line" : "Enable crontab line",
+      message: unmanagedWarning,
+      body: { ...body, force: true },
+    });
+  };
+
+  const handleDeleteCrontab = (entry: SystemCronEntry) => {
+    setConfirmCrontab({
+      title: "Delete crontab line",
+      message: `${entry.managed ? "" : `${unmanagedWarning} `}The previous crontab is backed up before the change.`,
+      body: { action: "delete", id: entry.id, force: !entry.managed },
+      destructive: true,
+    });
+  };
+
+  const handleSaveCrontab = async (entry: SystemCronEntry, changes: { expr: string; label: string; script?: string }) => {
+    const ok = await crontabRequest({ action: "update", id: entry.id, ...changes, force: !entry.managed });
+    if (ok) setEditingCrontab(null);
+  };
+
   const handleScheduleScript = async (
     scriptName: string,
-    schedule: CronCreateParams["schedule"]
+    schedule: CronCreateParams["schedule"],
+    target: ScheduleTarget
   ) => {
     const displayName = scriptName.replace(".sh", "");
+    if (target === "crontab") {
+      const expr = schedule.kind === "cron" ? schedule.expr! : everyMsToCron(schedule.everyMs || 0);
+      if (await crontabRequest({ action: "add", expr, script: scriptName, label: `Run ${displayName}` })) {
+        setScheduleScript(null);
+      }
+      return;
+    }
     await handleCreateCron({
       name: `Run ${displayName}`,
       schedule,
@@ -593,7 +760,7 @@ export default function ActionsPage() {
             <Users className="w-4 h-4 mr-1 sm:mr-2 shrink-0" />
             <span className="truncate">Sessions</span>
           </TabsTrigger>
-          <TabsTrigger value="activity" className="data-[state=active]:bg-zinc-800 text-xs sm:text-sm px-1 sm:px-3" onClick={() => fetchActivity()}>
+          <TabsTrigger value="activity" className="data-[state=active]:bg-zinc-800 text-xs sm:text-sm px-1 sm:px-3">
             <ScrollText className="w-4 h-4 mr-1 sm:mr-2 shrink-0" />
             <span className="truncate">Activity</span>
           </TabsTrigger>
@@ -627,14 +794,16 @@ export default function ActionsPage() {
                       )}
                     </div>
                   </div>
-                  <Button
-                    size="sm"
-                    onClick={() => setShowCreateCron(true)}
-                    className="h-8 px-3 bg-emerald-500 hover:bg-emerald-600 text-white shrink-0"
-                  >
-                    <Plus className="w-4 h-4 mr-1" />
-                    New
-                  </Button>
+                  {can("cron.manage") && (
+                    <Button
+                      size="sm"
+                      onClick={() => setShowCreateCron(true)}
+                      className="h-8 px-3 bg-emerald-500 hover:bg-emerald-600 text-white shrink-0"
+                    >
+                      <Plus className="w-4 h-4 mr-1" />
+                      New
+                    </Button>
+                  )}
                 </div>
               </div>
             );
@@ -648,6 +817,16 @@ export default function ActionsPage() {
             </span>
           </div>
 
+          {cronError && (
+            <div className="flex items-start gap-2 text-sm text-red-400 bg-red-500/10 border border-red-500/20 rounded-lg px-3 py-2">
+              <XCircle className="w-4 h-4 shrink-0 mt-0.5" />
+              <span className="flex-1 break-words">{cronError}</span>
+              <button onClick={() => setCronError(null)} className="p-0.5 rounded hover:bg-zinc-800">
+                <X className="w-3.5 h-3.5" />
+              </button>
+            </div>
+          )}
+
           {/* Jobs List */}
           <section className="space-y-3">
             {loading ? (
@@ -705,7 +884,7 @@ export default function ActionsPage() {
                           size="sm"
                           variant="outline"
                           onClick={() => handleToggleCron(job.id, !job.enabled)}
-                          disabled={busyJobId === job.id}
+                          disabled={busyJobId === job.id || !can("cron.manage")}
                           className="h-8 w-8 p-0"
                           title={job.enabled ? "Disable schedule" : "Enable schedule"}
                         >
@@ -721,7 +900,7 @@ export default function ActionsPage() {
                           size="sm"
                           variant="default"
                           onClick={() => handleRunCron(job.id)}
-                          disabled={busyJobId === job.id}
+                          disabled={busyJobId === job.id || !can("cron.run")}
                           className="h-8 px-3 bg-emerald-500 hover:bg-emerald-600 text-white"
                           title="Run now (one-off)"
                         >
@@ -767,18 +946,35 @@ export default function ActionsPage() {
                             </pre>
                           </div>
                         )}
-                        {/* Delete button */}
-                        <div className="pt-2">
-                          <Button
-                            variant="outline"
-                            size="sm"
-                            className="text-red-400 border-red-500/30 hover:bg-red-500/10 hover:text-red-300"
-                            onClick={() => setConfirmDeleteJob(job.id)}
-                            disabled={busyJobId === job.id}
-                          >
-                            <Trash2 className="w-4 h-4 mr-2" />
-                            Delete Job
+                        {/* History / edit / delete buttons */}
+                        <div className="pt-2 flex flex-wrap gap-2">
+                          <Button variant="outline" size="sm" onClick={() => setHistoryJob(job)}>
+                            <History className="w-4 h-4 mr-2" />
+                            Run History
                           </Button>
+                          {can("cron.manage") && (
+                            <>
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => setEditingJob(job)}
+                                disabled={busyJobId === job.id}
+                              >
+                                <Pencil className="w-4 h-4 mr-2" />
+                                Edit Job
+                              </Button>
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                className="text-red-400 border-red-500/30 hover:bg-red-500/10 hover:text-red-300"
+                                onClick={() => setConfirmDeleteJob(job.id)}
+                                disabled={busyJobId === job.id}
+                              >
+                                <Trash2 className="w-4 h-4 mr-2" />
+                                Delete Job
+                              </Button>
+                            </>
+                          )}
                         </div>
                       </div>
                     )}
@@ -800,38 +996,98 @@ export default function ActionsPage() {
               <div className="flex items-start gap-2 text-xs text-zinc-500 bg-zinc-900/50 rounded-lg p-3 border border-zinc-800/50">
                 <Info className="w-4 h-4 shrink-0 mt-0.5" />
                 <span>
-                  These jobs run via the OS cron scheduler, not OpenClaw. They are read-only here.
+                  These jobs run via the OS cron scheduler, not OpenClaw. Lines scheduled from the
+                  Scripts tab can be edited here; other lines need an admin to force changes.
                 </span>
               </div>
-              {systemCronEntries.map((entry) => (
-                <div
-                  key={entry.id}
-                  className="bg-zinc-900 rounded-xl border border-zinc-800/50 p-4"
-                >
-                  <div className="flex items-start gap-3">
-                    <Terminal className="w-5 h-5 text-zinc-500 shrink-0 mt-0.5" />
-                    <div className="flex-1 min-w-0">
-                      <div className="flex items-center gap-2 flex-wrap">
-                        <h3 className="font-medium text-sm">
-                          {entry.comment || "System Job"}
-                        </h3>
-                        <Badge variant="outline" className="text-xs text-zinc-500">
-                          System
-                        </Badge>
-                      </div>
-                      <div className="text-sm text-emerald-400 mt-1">
-                        {humanizeCron(entry.expr)}
-                      </div>
-                      <code className="block text-xs text-zinc-500 mt-2 font-mono break-all bg-zinc-800/50 rounded px-2 py-1">
-                        {entry.command}
-                      </code>
-                      <div className="text-xs text-zinc-600 mt-1">
-                        <code>{entry.expr}</code>
+              {systemCronEntries.map((entry) => {
+                const editable = entry.managed ? can("cron.manage") : can("crontab.force");
+                const busy = busyCrontabId === entry.id;
+                return (
+                  <div
+                    key={entry.id}
+                    className={cn(
+                      "bg-zinc-900 rounded-xl border border-zinc-800/50 p-4",
+                      !entry.enabled && "opacity-60"
+                    )}
+                  >
+                    <div className="flex items-start gap-3">
+                      <Terminal className="w-5 h-5 text-zinc-500 shrink-0 mt-0.5" />
+                      <div className="flex-1 min-w-0">
+                        <div className="flex items-center gap-2 flex-wrap">
+                          <h3 className="font-medium text-sm">
+                            {entry.comment || "System Job"}
+                          </h3>
+                          <Badge variant="outline" className="text-xs text-zinc-500">
+                            {entry.managed ? "Command center" : "System"}
+                          </Badge>
+                          {!entry.enabled && (
+                            <Badge variant="secondary" className="text-xs">
+                              Off
+                            </Badge>
+                          )}
+                        </div>
+                        <div className="text-sm text-emerald-400 mt-1">
+                          {describeCron(entry.expr)}
+                          {entry.tz && <span className="text-zinc-500"> ({entry.tz})</span>}
+                        </div>
+                        {entry.nextRunAtMs && (
+                          <div className="flex items-center gap-1 text-xs text-zinc-400 mt-1">
+                            <Clock className="w-3 h-3" />
+                            Next run in {formatNextRun(entry.nextRunAtMs)}
+                          </div>
+                        )}
+                        <code className="block text-xs text-zinc-500 mt-2 font-mono break-all bg-zinc-800/50 rounded px-2 py-1">
+                          {entry.command}
+                        </code>
+                        <div className="text-xs text-zinc-600 mt-1">
+                          <code>{entry.expr}</code>
+                        </div>
                       </div>
+                      {editable && (
+                        <div className="flex gap-2 shrink-0">
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => handleToggleCrontab(entry)}
+                            disabled={busy}
+                            className="h-8 w-8 p-0"
+                            title={entry.enabled ? "Disable line" : "Enable line"}
+                          >
+                            {busy ? (
+                              <Loader2 className="w-4 h-4 animate-spin" />
+                            ) : entry.enabled ? (
+                              <Pause className="w-4 h-4" />
+                            ) : (
+                              <Play className="w-4 h-4" />
+                            )}
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => setEditingCrontab(entry)}
+                            disabled={busy}
+                            className="h-8 w-8 p-0"
+                            title="Edit line"
+                          >
+                            <Pencil className="w-4 h-4" />
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => handleDeleteCrontab(entry)}
+                            disabled={busy}
+                            className="h-8 w-8 p-0 text-red-400 border-red-500/30 hover:bg-red-500/10 hover:text-red-300"
+                            title="Delete line"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        </div>
+                      )}
                     </div>
                   </div>
-                </div>
-              ))}
+                  );
+              })}
             </section>
           )}
         </TabsContent>
@@ -840,15 +1096,37 @@ export default function ActionsPage() {
         {/* SCRIPTS TAB */}
         {/* ═══════════════════════════════════════════════════════════ */}
         <TabsContent value="manual" className="space-y-4">
+          {scriptError && (
+            <div className="flex items-start gap-2 text-sm text-red-400 bg-red-500/10 border border-red-500/20 rounded-lg px-3 py-2">
+              <XCircle className="w-4 h-4 shrink-0 mt-0.5" />
+              <span className="flex-1 break-words">{scriptError}</span>
+              <button onClick={() => setScriptError(null)} className="p-0.5 rounded hover:bg-zinc-800">
+                <X className="w-3.5 h-3.5" />
+              </button>
+            </div>
+          )}
+
           {/* Info Banner */}
           <div className="flex items-start gap-2 text-xs text-zinc-500 bg-zinc-900/50 rounded-lg p-3 border border-zinc-800/50">
             <Info className="w-4 h-4 shrink-0 mt-0.5" />
-            <span>
+            <span className="flex-1">
               <Star className="w-3 h-3 inline text-emerald-400" /> Pin to Dashboard ·{" "}
               <CalendarClock className="w-3 h-3 inline text-sky-400" /> Schedule as cron job
             </span>
+            {can("scripts.edit") && (
+              <Button
+                size="sm"
+                onClick={() => setEditingScript("")}
+                className="h-7 px-2 -my-1 bg-emerald-500 hover:bg-emerald-600 text-white text-xs shrink-0"
+              >
+                <Plus className="w-3.5 h-3.5 mr-1" />
+                New Script
+              </Button>
+            )}
           </div>
 
+          <WorkflowsPanel />
+
           {/* Scripts Grid */}
           <section className="space-y-3">
             {loading ? (
@@ -912,8 +1190,20 @@ export default function ActionsPage() {
                         <p className="text-xs sm:text-sm text-zinc-400 mt-1.5 sm:mt-2 leading-relaxed break-words line-clamp-2 sm:line-clamp-3">
                           {script.description}
                         </p>
+                        {script.paramErrors && (
+                          <p className="flex items-start gap-1 text-xs text-amber-400 mt-1.5">
+                            <AlertTriangle className="w-3.5 h-3.5 shrink-0 mt-px" />
+                            <span className="break-words">Ignored @param lines: {script.paramErrors.join("; ")}</span>
+                          </p>
+                        )}
                         <div className="flex items-center gap-3 mt-1.5 sm:mt-2 text-xs text-zinc-500">
                           {script.modifiedAt && <span>Modified {formatModifiedDate(script.modifiedAt)}</span>}
+                          {script.timeoutMs !== undefined && (
+                            <span className="flex items-center gap-1">
+                              <Clock className="w-3 h-3" />
+                              {formatTimeout(script.timeoutMs)}
+                            </span>
+                          )}
                           <span className="text-zinc-600 truncate hidden sm:inline">
                             {script.source === "openclaw"
                               ? "~/.openclaw/scripts/"
@@ -927,8 +1217,8 @@ export default function ActionsPage() {
                     <div className="flex items-center gap-2 mt-3 ml-8 sm:ml-11 flex-wrap">
                       <Button
                         size="sm"
-                        onClick={() => runScript(script.name)}
-                        disabled={runningScript === script.name}
+                        onClick={() => handleRunScript(script)}
+                        disabled={runningScript === script.name || !can("scripts.run")}
                         className="h-8 px-3 bg-emerald-500 hover:bg-emerald-600 text-white text-xs"
                       >
                         {runningScript === script.name ? (
@@ -940,25 +1230,51 @@ export default function ActionsPage() {
                           </>
                         )}
                       </Button>
+                      {can("cron.manage") && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => setScheduleScript(script.name)}
+                          className="h-8 px-2 sm:px-3 text-xs text-sky-400 border-sky-500/30 hover:bg-sky-500/10"
+                          title="Schedule as cron job"
+                        >
+                          <CalendarClock className="w-3.5 h-3.5 mr-1" />
+                          Schedule
+                        </Button>
+                      )}
+                      {can("scripts.edit") && script.source !== "openclaw" && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => setEditingScript(script.name)}
+                          className="h-8 px-2 sm:px-3 text-xs text-zinc-400 border-zinc-700 hover:bg-zinc-800"
+                          title="Edit script"
+                        >
+                          <Pencil className="w-3.5 h-3.5 mr-1" />
+                          Edit
+                        </Button>
+                      )}
                       <Button
                         size="sm"
                         variant="outline"
-                        onClick={() => setScheduleScript(script.name)}
-                        className="h-8 px-2 sm:px-3 text-xs text-sky-400 border-sky-500/30 hover:bg-sky-500/10"
-                        title="Schedule as cron job"
-                      >
-                        <CalendarClock className="w-3.5 h-3.5 mr-1" />
-                        Schedule
-                      </Button>
-                      <Button
-                        size="sm"
-                        variant="outline"
-                        onClick={() => setConfirmDeleteScript(script.name)}
-                        className="h-8 w-8 p-0 text-zinc-500 border-zinc-700 hover:text-red-400 hover:border-red-500/30 hover:bg-red-500/10"
-                        title="Delete script"
+                        onClick={() => setHistoryScript(script.name)}
+                        className="h-8 px-2 sm:px-3 text-xs text-zinc-400 border-zinc-700 hover:bg-zinc-800"
+                        title="Run history"
                       >
-                        <Trash2 className="w-3.5 h-3.5" />
+                        <History className="w-3.5 h-3.5 mr-1" />
+                        History
                       </Button>
+                      {can("scripts.delete") && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => setConfirmDeleteScript(script.name)}
+                          className="h-8 w-8 p-0 text-zinc-500 border-zinc-700 hover:text-red-400 hover:border-red-500/30 hover:bg-red-500/10"
+                          title="Delete script"
+                        >
+                          <Trash2 className="w-3.5 h-3.5" />
+                        </Button>
+                      )}
                     </div>
                   </div>
                 );
@@ -996,6 +1312,8 @@ export default function ActionsPage() {
             </button>
           </div>
 
+          <SessionBulkActions onDone={fetchSessions} />
+
           <section className="space-y-2">
             {sessionsLoading && sessions.length === 0 ? (
               <>
@@ -1027,9 +1345,11 @@ export default function ActionsPage() {
                   );
                 }
 
-                // Group: active first
-                const activeSessions = filtered.filter((s) => s.active);
-                const inactiveSessions = filtered.filter((s) => !s.active);
+                // Group: active first, with spawned sessions under their parent
+                const tree = buildSessionTree(filtered);
+                const activeSessions = tree.filter((n) => n.branchActive);
+                const inactiveSessions = tree.filter((n) => !n.branchActive);
+                const renderSession = (s: SessionEntry) => <SessionCard session={s} />;
 
                 return (
                   <>
@@ -1038,17 +1358,13 @@ export default function ActionsPage() {
                         Active ({activeSessions.length})
                       </div>
                     )}
-                    {activeSessions.map((s) => (
-                      <SessionCard key={s.key} session={s} />
-                    ))}
+                    <SessionTree nodes={activeSessions} renderSession={renderSession} />
                     {inactiveSessions.length > 0 && activeSessions.length > 0 && (
                       <div className="text-xs font-medium text-zinc-500 uppercase tracking-wider mt-3 mb-1">
                         Recent
                       </div>
                     )}
-                    {inactiveSessions.map((s) => (
-                      <SessionCard key={s.key} session={s} />
-                    ))}
+                    <SessionTree nodes={inactiveSessions} renderSession={renderSession} />
                   </>
                 );
               })()
@@ -1060,127 +1376,17 @@ export default function ActionsPage() {
         {/* ACTIVITY TAB (Server-side aggregated logs) */}
         {/* ═══════════════════════════════════════════════════════════ */}
         <TabsContent value="activity" className="space-y-4">
-          {/* Filters row */}
-          <div className="flex items-center gap-2 flex-wrap">
-            {(["all", "cron", "sessions"] as const).map((f) => (
-              <button
-                key={f}
-                onClick={() => setActivityFilter(f)}
-                className={cn(
-                  "px-3 py-1.5 rounded-lg text-xs transition-colors capitalize",
-                  activityFilter === f
-                    ? "bg-emerald-500/20 text-emerald-400 border border-emerald-500/30"
-                    : "bg-zinc-800 text-zinc-400 hover:text-zinc-200"
-                )}
-              >
-                {f === "all" ? "All" : f === "cron" ? "Cron" : "Sessions"}
-              </button>
-            ))}
-
-            {/* Search */}
-            <div className="relative flex-1 min-w-[120px] max-w-[200px]">
-              <Search className="w-3.5 h-3.5 absolute left-2.5 top-1/2 -translate-y-1/2 text-zinc-500" />
-              <input
-                type="text"
-                value={activitySearch}
-                onChange={(e) => setActivitySearch(e.target.value)}
-                placeholder="Search..."
-                className="w-full bg-zinc-800 border border-zinc-700 rounded-lg pl-8 pr-3 py-1.5 text-xs text-zinc-100 placeholder-zinc-500 focus:outline-none focus:ring-1 focus:ring-emerald-500/50"
-              />
-            </div>
-
-            {/* Auto-refresh toggle */}
-            <button
-              onClick={() => setActivityAutoRefresh(!activityAutoRefresh)}
-              className={cn(
-                "ml-auto flex items-center gap-1.5 px-2.5 py-1.5 rounded-lg text-xs transition-colors",
-                activityAutoRefresh
-                  ? "bg-emerald-500/20 text-emerald-400"
-                  : "bg-zinc-800 text-zinc-500 hover:text-zinc-300"
-              )}
+          {can("logs.tail") && (
+            <Link
+              href="/logs"
+              className="flex items-center gap-2 text-xs text-zinc-500 hover:text-zinc-300 transition-colors"
             >
-              <Radio className={cn("w-3 h-3", activityAutoRefresh && "animate-pulse")} />
-              Live
-            </button>
-          </div>
-
-          <section className="space-y-2">
-            {activityLoading && activityLogs.length === 0 ? (
-              <>
-                <Skeleton className="h-16 skeleton-shimmer rounded-xl" />
-                <Skeleton className="h-16 skeleton-shimmer rounded-xl" />
-                <Skeleton className="h-16 skeleton-shimmer rounded-xl" />
-              </>
-            ) : activityLogs.length === 0 ? (
-              <div className="bg-zinc-900 rounded-xl border border-zinc-800 p-8 text-center">
-                <ScrollText className="w-10 h-10 text-zinc-700 mx-auto mb-3" />
-                <p className="text-sm text-zinc-400 font-medium">No activity recorded</p>
-                <p className="text-xs text-zinc-500 mt-1">
-                  Cron runs and session activity will appear here.
-                </p>
-              </div>
-            ) : (
-              activityLogs.map((entry, i) => (
-                <div
-                  key={`${entry.ts}-${i}`}
-                  className="bg-zinc-900 rounded-xl border border-zinc-800 p-3 flex items-start gap-3"
-                >
-                  {/* Status icon */}
-                  <div className="mt-0.5 shrink-0">
-                    {entry.type === "cron" ? (
-                      entry.status === "error" ? (
-                        <XCircle className="w-4 h-4 text-red-500" />
-                      ) : (
-                        <CheckCircle className="w-4 h-4 text-green-500" />
-                      )
-                    ) : (
-                      <Users className="w-4 h-4 text-sky-400" />
-                    )}
-                  </div>
-
-                  {/* Details */}
-                  <div className="flex-1 min-w-0">
-                    <div className="flex items-center gap-2 flex-wrap">
-                      <span className="font-medium text-sm truncate">{entry.source}</span>
-                      <Badge
-                        variant="secondary"
-                        className={cn(
-                          "text-xs",
-                          entry.type === "cron" ? "text-sky-400" : "text-purple-400"
-                        )}
-                      >
-                        {entry.type === "cron" ? "CRON" : "SESSION"}
-                      </Badge>
-                      {entry.status && entry.type === "cron" && (
-                        <Badge
-                          variant="outline"
-                          className={cn(
-                            "text-xs",
-                            entry.status === "ok" || entry.status === "success"
-                              ? "text-green-400 border-green-500/30"
-                              : "text-red-400 border-red-500/30"
-                          )}
-                        >
-                          {entry.status}
-                        </Badge>
-                      )}
-                      {entry.durationMs !== undefined && (
-                        <span className="text-xs text-zinc-600">
-                          {entry.durationMs < 1000
-                            ? `${entry.durationMs}ms`
-                            : `${(entry.durationMs / 1000).toFixed(1)}s`}
-                        </span>
-                      )}
-                    </div>
-                    <p className="text-xs text-zinc-400 mt-1 line-clamp-2">{entry.summary}</p>
-                    <div className="text-[11px] text-zinc-500 mt-1">
-                      {formatActivityTime(entry.ts)}
-                    </div>
-                  </div>
-                </div>
-              ))
-            )}
-          </section>
+              <Terminal className="w-3.5 h-3.5" />
+              Gateway and agent process logs
+              <ArrowRight className="w-3 h-3" />
+            </Link>
+          )}
+          <ActivityFeed jobs={cronJobs} onOpenScript={setHistoryScript} />
 
           {/* Legacy local log (collapsed) */}
           {actionLog.length > 0 && (
@@ -1233,10 +1439,24 @@ export default function ActionsPage() {
       {/* ═══════════════════════════════════════════════════════════ */}
       {/* Create Cron Job Modal */}
       {/* ═══════════════════════════════════════════════════════════ */}
-      {showCreateCron && (
-        <CreateCronModal
-          onClose={() => setShowCreateCron(false)}
+      {historyJob && (
+        <CronRunHistory
+          jobId={historyJob.id}
+          jobName={historyJob.name}
+          onClose={() => setHistoryJob(null)}
+        />
+      )}
+
+      {(showCreateCron || editingJob) && (
+        <CronJobModal
+          key={editingJob?.id ?? "new"}
+          job={editingJob ?? undefined}
+          onClose={() => {
+            setShowCreateCron(false);
+            setEditingJob(null);
+          }}
           onCreate={handleCreateCron}
+          onSave={handleEditCron}
         />
       )}
 
@@ -1247,10 +1467,55 @@ export default function ActionsPage() {
         <ScheduleScriptModal
           scriptName={scheduleScript}
           onClose={() => setScheduleScript(null)}
-          onSchedule={(schedule) => handleScheduleScript(scheduleScript, schedule)}
+          allowCrontab={can("cron.manage")}
+          onSchedule={(schedule, target) => handleScheduleScript(scheduleScript, schedule, target)}
         />
       )}
 
+      {editingCrontab && (
+        <CrontabEntryModal
+          entry={editingCrontab}
+          scripts={scripts.map((script) => script.name)}
+          saving={busyCrontabId === editingCrontab.id}
+          onClose={() => setEditingCrontab(null)}
+          onSave={(changes) => handleSaveCrontab(editingCrontab, changes)}
+        />
+      )}
+
+      {confirmCrontab && (
+        <div className="fixed inset-0 bg-black/80 z-50 flex items-end sm:items-center justify-center p-0 sm:p-4">
+          <div className="bg-zinc-900 rounded-t-2xl sm:rounded-xl border border-zinc-800 w-full max-w-sm p-4 sm:p-5">
+            <div className="w-10 h-1 bg-zinc-700 rounded-full mx-auto mb-4 sm:hidden" />
+            <h3 className="font-semibold text-lg mb-2">{confirmCrontab.title}</h3>
+            <p className="text-sm text-zinc-400 mb-6">{confirmCrontab.message}</p>
+            <div className="flex gap-3">
+              <Button variant="outline" className="flex-1" onClick={() => setConfirmCrontab(null)}>
+                Cancel
+              </Button>
+              <Button
+                className={cn(
+                  "flex-1 text-white",
+                  confirmCrontab.destructive ? "bg-red-500 hover:bg-red-600" : "bg-emerald-500 hover:bg-emerald-600"
+                )}
+                onClick={async () => {
+                  await crontabRequest(confirmCrontab.body);
+                  setConfirmCrontab(null);
+                }}
+                disabled={busyCrontabId !== null}
+              >
+                {busyCrontabId !== null ? (
+                  <Loader2 className="w-4 h-4 animate-spin" />
+                ) : confirmCrontab.destructive ? (
+                  "Delete"
+                ) : (
+                  "Continue"
+                )}
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* ═══════════════════════════════════════════════════════════ */}
       {/* Confirm Delete Modal */}
       {/* ═══════════════════════════════════════════════════════════ */}
@@ -1321,221 +1586,382 @@ export default function ActionsPage() {
       )}
 
       {/* ═══════════════════════════════════════════════════════════ */}
-      {/* Script Result Modal */}
+      {/* Script Run Output Modal */}
       {/* ═══════════════════════════════════════════════════════════ */}
-      {result && (
-        <div className="fixed inset-0 bg-black/80 z-50 flex items-end sm:items-center justify-center p-0 sm:p-4">
-          <div className="bg-zinc-900 rounded-t-2xl sm:rounded-xl border border-zinc-800 w-full max-w-lg max-h-[80vh] flex flex-col">
-            <div className="w-10 h-1 bg-zinc-700 rounded-full mx-auto mt-2 sm:hidden" />
-            <div className="flex items-center justify-between p-4 border-b border-zinc-800">
-              <div className="flex items-center gap-2 min-w-0">
-                {result.result.success ? (
-                  <CheckCircle className="w-5 h-5 text-green-500 shrink-0" />
-                ) : (
-                  <AlertCircle className="w-5 h-5 text-red-500 shrink-0" />
-                )}
-                <h3 className="font-medium font-mono text-sm truncate">{result.script}</h3>
-                <Badge variant={result.result.success ? "default" : "destructive"} className="shrink-0">
-                  {result.result.success ? "Success" : "Failed"}
-                </Badge>
-              </div>
-              <button
-                onClick={() => setResult(null)}
-                className="p-1 rounded hover:bg-zinc-800 transition-colors shrink-0"
-              >
-                <X className="w-5 h-5" />
-              </button>
-            </div>
+      {historyScript && (
+        <ScriptRunHistory
+          script={historyScript}
+          onRerun={can("scripts.run") ? handleRerun : undefined}
+          onClose={() => setHistoryScript(null)}
+        />
+      )}
 
-            <ScrollArea className="flex-1 p-4">
-              {result.result.error && (
-                <div className="mb-4">
-                  <h4 className="text-sm font-medium text-red-400 mb-1">Error</h4>
-                  <pre className="text-xs text-zinc-400 bg-zinc-950 rounded p-3 overflow-x-auto whitespace-pre-wrap break-all">
-                    {result.result.error}
-                  </pre>
-                </div>
-              )}
-              {result.result.stdout && (
-                <div className="mb-4">
-                  <h4 className="text-sm font-medium text-zinc-300 mb-1">Output</h4>
-                  <pre className="text-xs text-zinc-400 bg-zinc-950 rounded p-3 overflow-x-auto whitespace-pre-wrap break-all">
-                    {result.result.stdout}
-                  </pre>
-                </div>
-              )}
-              {result.result.stderr && (
-                <div>
-                  <h4 className="text-sm font-medium text-yellow-400 mb-1">Stderr</h4>
-                  <pre className="text-xs text-zinc-400 bg-zinc-950 rounded p-3 overflow-x-auto whitespace-pre-wrap break-all">
-                    {result.result.stderr}
-                  </pre>
-                </div>
-              )}
-              {!result.result.stdout && !result.result.stderr && !result.result.error && (
-                <p className="text-zinc-400 text-sm">No output</p>
-              )}
-            </ScrollArea>
+      {editingScript !== null && (
+        <ScriptEditor
+          key={editingScript}
+          name={editingScript || undefined}
+          onClose={() => setEditingScript(null)}
+          onSaved={() => {
+            setEditingScript(null);
+            refresh();
+          }}
+        />
+      )}
 
-            <div className="p-4 border-t border-zinc-800">
-              <Button onClick={() => setResult(null)} variant="outline" className="w-full">
-                Close
-              </Button>
-            </div>
-          </div>
-        </div>
+      {paramsForm && (
+        <ScriptParamsModal
+          script={paramsForm.script}
+          initial={paramsForm.initial}
+          onClose={() => setParamsForm(null)}
+          onRun={async (params) => {
+            const errors = await runScript(paramsForm.script.name, { params });
+            if (!errors) setParamsForm(null);
+            return errors;
+          }}
+        />
+      )}
+
+      {activeRun && (
+        <ScriptRunOutput
+          key={activeRun.id}
+          run={activeRun}
+          canCancel={can("scripts.run")}
+          onClose={closeScriptRun}
+          onExit={handleScriptExit}
+        />
       )}
     </div>
   );
 }
 
 // ─────────────────────────────────────────────────────────────
-// Create Cron Job Modal
+// Create / Edit Cron Job Modal
 // ─────────────────────────────────────────────────────────────
 
-function CreateCronModal({
+function ChoiceGroup<T extends string>({
+  value,
+  options,
+  onChange,
+}: {
+  value: T;
+  options: { value: T; label: string }[];
+  onChange: (value: T) => void;
+}) {
+  return (
+    <div className="flex flex-wrap gap-2">
+      {options.map((option) => (
+        <button
+          key={option.value}
+          onClick={() => onChange(option.value)}
+          className={cn(
+            "px-3 py-1.5 rounded-lg text-sm transition-colors",
+            value === option.value
+              ? "bg-emerald-500 text-white"
+              : "bg-zinc-800 text-zinc-400 hover:text-zinc-200"
+          )}
+        >
+          {option.label}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+const TIME_ZONES: string[] =
+  typeof Intl.supportedValuesOf === "function" ? Intl.supportedValuesOf("timeZone") : [];
+
+const INPUT_CLASS =
+  "w-full bg-zinc-800 border border-zinc-700 rounded-lg px-3 py-2 text-sm text-zinc-100 placeholder-zinc-500 focus:outline-none focus:ring-2 focus:ring-emerald-500/50";
+
+function CronJobModal({
+  job,
   onClose,
   onCreate,
+  onSave,
 }: {
+  /** Job being edited; omit to create a new one. */
+  job?: CronJob;
   onClose: () => void;
   onCreate: (params: CronCreateParams) => Promise<void>;
+  onSave: (job: CronJob, patch: CronJobPatch) => Promise<void>;
 }) {
-  const [name, setName] = useState("");
-  const [scheduleKind, setScheduleKind] = useState<"cron" | "every">("cron");
-  const [cronExpr, setCronExpr] = useState("0 0 * * *");
-  const [everyMinutes, setEveryMinutes] = useState("30");
-  const [payloadText, setPayloadText] = useState("");
-  const [creating, setCreating] = useState(false);
+  const [name, setName] = useState(job?.name ?? "");
+  const [enabled, setEnabled] = useState(job?.enabled ?? true);
+  const [scheduleKind, setScheduleKind] = useState<CronJob["schedule"]["kind"]>(
+    job?.schedule.kind ?? "cron"
+  );
+  const [cronExpr, setCronExpr] = useState(job?.schedule.expr ?? "0 0 * * *");
+  const [tz, setTz] = useState(job?.schedule.tz ?? "");
+  const [everyMinutes, setEveryMinutes] = useState(
+    job?.schedule.everyMs ? String(Math.round(job.schedule.everyMs / 60000)) : "30"
+  );
+  const [atLocal, setAtLocal] = useState(toDateTimeLocal(job?.schedule.atMs));
+  const [payloadKind, setPayloadKind] = useState<CronJob["payload"]["kind"]>(
+    job?.payload.kind ?? "systemEvent"
+  );
+  const [payloadText, setPayloadText] = useState(
+    job?.payload.kind === "agentTurn"
+      ? job.payload.message ?? ""
+      : job?.payload.text ?? job?.payload.message ?? ""
+  );
+  const [sessionTarget, setSessionTarget] = useState<CronJob["sessionTarget"]>(
+    job?.sessionTarget ?? "main"
+  );
+  const [wakeMode, setWakeMode] = useState<CronJob["wakeMode"]>(
+    job?.wakeMode ?? "next-heartbeat"
+  );
+  const [reviewing, setReviewing] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const buildSchedule = (): CronJob["schedule"] | null => {
+    if (scheduleKind === "cron") {
+      if (validateCron(cronExpr) || (tz.trim() && !isValidTimeZone(tz.trim()))) return null;
+      return tz.trim()
+        ? { kind: "cron", expr: cronExpr.trim(), tz: tz.trim() }
+        : { kind: "cron", expr: cronExpr.trim() };
+    }
+    if (scheduleKind === "every") {
+      const minutes = parseInt(everyMinutes);
+      return minutes > 0 ? { kind: "every", everyMs: minutes * 60000 } : null;
+    }
+    const atMs = new Date(atLocal).getTime();
+    return Number.isFinite(atMs) ? { kind: "at", atMs } : null;
+  };
+
+  const schedule = buildSchedule();
+  const draft: CronCreateParams | null =
+    name.trim() && payloadText.trim() && schedule
+      ? {
+          name: name.trim(),
+          schedule,
+          payload:
+            payloadKind === "agentTurn"
+              ? { kind: "agentTurn", message: payloadText.trim() }
+              : { kind: "systemEvent", text: payloadText.trim() },
+          sessionTarget,
+          wakeMode,
+          enabled,
+        }
+      : null;
+  const diff = job && draft ? diffCronJob(job, draft) : null;
 
   const handleSubmit = async () => {
-    if (!name.trim() || !payloadText.trim()) return;
-    setCreating(true);
+    if (!draft) return;
+    if (job) {
+      if (!diff || diff.changes.length === 0) return;
+      if (!reviewing) {
+        setReviewing(true);
+        return;
+      }
+      await onSave(job, diff.patch);
+      return;
+    }
+    setSaving(true);
     try {
-      const schedule: CronCreateParams["schedule"] =
-        scheduleKind === "cron"
-          ? { kind: "cron", expr: cronExpr }
-          : { kind: "every", everyMs: parseInt(everyMinutes) * 60000 };
-
-      await onCreate({
-        name: name.trim(),
-        schedule,
-        payload: { kind: "systemEvent", text: payloadText.trim() },
-        sessionTarget: "main",
-        wakeMode: "next-heartbeat",
-        enabled: true,
-      });
+      await onCreate(draft);
     } finally {
-      setCreating(false);
+      setSaving(false);
     }
   };
 
+  const unchanged = !!job && (!diff || diff.changes.length === 0);
+
   return (
     <div className="fixed inset-0 bg-black/80 z-50 flex items-end sm:items-center justify-center p-0 sm:p-4">
       <div className="bg-zinc-900 rounded-t-2xl sm:rounded-xl border border-zinc-800 w-full max-w-lg max-h-[85vh] flex flex-col">
         <div className="w-10 h-1 bg-zinc-700 rounded-full mx-auto mt-2 sm:hidden" />
         <div className="flex items-center justify-between p-4 border-b border-zinc-800">
-          <h3 className="font-semibold text-lg">New Scheduled Job</h3>
+          <h3 className="font-semibold text-lg">
+            {!job ? "New Scheduled Job" : reviewing ? "Review Changes" : "Edit Job"}
+          </h3>
           <button onClick={onClose} className="p-1 rounded hover:bg-zinc-800 transition-colors">
             <X className="w-5 h-5" />
           </button>
         </div>
 
-        <div className="p-4 space-y-4 overflow-y-auto flex-1">
-          {/* Name */}
-          <div>
-            <label className="text-sm font-medium text-zinc-300 mb-1 block">Job Name</label>
-            <input
-              type="text"
-              value={name}
-              onChange={(e) => setName(e.target.value)}
-              placeholder="e.g. Daily Report"
-              className="w-full bg-zinc-800 border border-zinc-700 rounded-lg px-3 py-2 text-sm text-zinc-100 placeholder-zinc-500 focus:outline-none focus:ring-2 focus:ring-emerald-500/50"
-            />
+        {reviewing && diff ? (
+          <div className="p-4 space-y-3 overflow-y-auto flex-1">
+            <p className="text-sm text-zinc-400">
+              {diff.changes.length} {diff.changes.length === 1 ? "field" : "fields"} will change on{" "}
+              <span className="text-zinc-200">{job?.name}</span>:
+            </p>
+            {diff.changes.map((change) => (
+              <div key={change.field} className="rounded-lg bg-zinc-800/50 border border-zinc-800 p-3 text-sm">
+                <p className="text-xs text-zinc-500 mb-1">{change.field}</p>
+                <div className="flex items-start gap-2">
+                  <span className="flex-1 min-w-0 break-words text-red-400 line-through">{change.before}</span>
+                  <ArrowRight className="w-4 h-4 shrink-0 mt-0.5 text-zinc-500" />
+                  <span className="flex-1 min-w-0 break-words text-emerald-400">{change.after}</span>
+                </div>
+              </div>
+            ))}
           </div>
+        ) : (
+          <div className="p-4 space-y-4 overflow-y-auto flex-1">
+            {/* Name */}
+            <div>
+              <label className="text-sm font-medium text-zinc-300 mb-1 block">Job Name</label>
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g. Daily Report"
+                className={INPUT_CLASS}
+              />
+            </div>
 
-          {/* Schedule Kind */}
-          <div>
-            <label className="text-sm font-medium text-zinc-300 mb-2 block">Schedule</label>
-            <div className="flex gap-2 mb-3">
-              <button
-                onClick={() => setScheduleKind("cron")}
-                className={cn(
-                  "px-3 py-1.5 rounded-lg text-sm transition-colors",
-                  scheduleKind === "cron"
-                    ? "bg-emerald-500 text-white"
-                    : "bg-zinc-800 text-zinc-400 hover:text-zinc-200"
-                )}
-              >
-                Cron Expression
-              </button>
-              <button
-                onClick={() => setScheduleKind("every")}
-                className={cn(
-                  "px-3 py-1.5 rounded-lg text-sm transition-colors",
-                  scheduleKind === "every"
-                    ? "bg-emerald-500 text-white"
-                    : "bg-zinc-800 text-zinc-400 hover:text-zinc-200"
-                )}
-              >
-                Every N minutes
-              </button>
+            {/* Schedule */}
+            <div>
+              <label className="text-sm font-medium text-zinc-300 mb-2 block">Schedule</label>
+              <div className="mb-3">
+                <ChoiceGroup
+                  value={scheduleKind}
+                  onChange={setScheduleKind}
+                  options={[
+                    { value: "cron", label: "Cron Expression" },
+                    { value: "every", label: "Every N minutes" },
+                    { value: "at", label: "Once" },
+                  ]}
+                />
+              </div>
+
+              {scheduleKind === "cron" ? (
+                <div className="space-y-2">
+                  <input
+                    type="text"
+                    value={cronExpr}
+                    onChange={(e) => setCronExpr(e.target.value)}
+                    placeholder="0 0 * * *"
+                    className={cn(INPUT_CLASS, "font-mono")}
+                  />
+                  <input
+                    type="text"
+                    value={tz}
+                    onChange={(e) => setTz(e.target.value)}
+                    placeholder="Timezone (optional, e.g. Europe/Berlin)"
+                    list="cron-timezones"
+                    className={INPUT_CLASS}
+                  />
+                  <datalist id="cron-timezones">
+                    {TIME_ZONES.map((zone) => (
+                      <option key={zone} value={zone} />
+                    ))}
+                  </datalist>
+                  <CronPreview expr={cronExpr} tz={tz} />
+                </div>
+              ) : scheduleKind === "every" ? (
+                <div>
+                  <input
+                    type="number"
+                    value={everyMinutes}
+                    onChange={(e) => setEveryMinutes(e.target.value)}
+                    min="1"
+                    placeholder="30"
+                    className={INPUT_CLASS}
+                  />
+                  <p className="text-xs text-zinc-500 mt-1">
+                    Every {everyMinutes || "?"} minutes
+                  </p>
+                </div>
+              ) : (
+                <input
+                  type="datetime-local"
+                  value={atLocal}
+                  onChange={(e) => setAtLocal(e.target.value)}
+                  className={INPUT_CLASS}
+                />
+              )}
+            </div>
+
+            {/* Payload */}
+            <div>
+              <label className="text-sm font-medium text-zinc-300 mb-2 block">
+                Message / Payload
+              </label>
+              <div className="mb-3">
+                <ChoiceGroup
+                  value={payloadKind}
+                  onChange={setPayloadKind}
+                  options={[
+                    { value: "systemEvent", label: "System event" },
+                    { value: "agentTurn", label: "Agent turn" },
+                  ]}
+                />
+              </div>
+              <textarea
+                value={payloadText}
+                onChange={(e) => setPayloadText(e.target.value)}
+                placeholder="What should the agent do when this job runs?"
+                rows={4}
+                className={cn(INPUT_CLASS, "resize-none")}
+              />
             </div>
 
-            {scheduleKind === "cron" ? (
+            {/* Session / wake */}
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
               <div>
-                <input
-                  type="text"
-                  value={cronExpr}
-                  onChange={(e) => setCronExpr(e.target.value)}
-                  placeholder="0 0 * * *"
-                  className="w-full bg-zinc-800 border border-zinc-700 rounded-lg px-3 py-2 text-sm font-mono text-zinc-100 placeholder-zinc-500 focus:outline-none focus:ring-2 focus:ring-emerald-500/50"
+                <label className="text-sm font-medium text-zinc-300 mb-2 block">Session</label>
+                <ChoiceGroup
+                  value={sessionTarget}
+                  onChange={setSessionTarget}
+                  options={[
+                    { value: "main", label: "Main" },
+                    { value: "isolated", label: "Isolated" },
+                  ]}
                 />
-                <p className="text-xs text-zinc-500 mt-1">
-                  {humanizeCron(cronExpr)}
-                </p>
               </div>
-            ) : (
               <div>
-                <input
-                  type="number"
-                  value={everyMinutes}
-                  onChange={(e) => setEveryMinutes(e.target.value)}
-                  min="1"
-                  placeholder="30"
-                  className="w-full bg-zinc-800 border border-zinc-700 rounded-lg px-3 py-2 text-sm text-zinc-100 placeholder-zinc-500 focus:outline-none focus:ring-2 focus:ring-emerald-500/50"
+                <label className="text-sm font-medium text-zinc-300 mb-2 block">Wake</label>
+                <ChoiceGroup
+                  value={wakeMode}
+                  onChange={setWakeMode}
+                  options={[
+                    { value: "next-heartbeat", label: "Next heartbeat" },
+                    { value: "now", label: "Now" },
+                  ]}
                 />
-                <p className="text-xs text-zinc-500 mt-1">
-                  Every {everyMinutes || "?"} minutes
-                </p>
               </div>
-            )}
-          </div>
+            </div>
 
-          {/* Payload */}
-          <div>
-            <label className="text-sm font-medium text-zinc-300 mb-1 block">
-              Message / Payload
-            </label>
-            <textarea
-              value={payloadText}
-              onChange={(e) => setPayloadText(e.target.value)}
-              placeholder="What should the agent do when this job runs?"
-              rows={4}
-              className="w-full bg-zinc-800 border border-zinc-700 rounded-lg px-3 py-2 text-sm text-zinc-100 placeholder-zinc-500 focus:outline-none focus:ring-2 focus:ring-emerald-500/50 resize-none"
-            />
+            {/* Enabled */}
+            <div className="flex items-center justify-between">
+              <label className="text-sm font-medium text-zinc-300">Enabled</label>
+              <ChoiceGroup
+                value={enabled ? "on" : "off"}
+                onChange={(v) => setEnabled(v === "on")}
+                options={[
+                  { value: "on", label: "On" },
+                  { value: "off", label: "Off" },
+                ]}
+              />
+            </div>
           </div>
-        </div>
+        )}
 
         <div className="p-4 border-t border-zinc-800 flex gap-3">
-          <Button variant="outline" className="flex-1" onClick={onClose}>
-            Cancel
+          <Button
+            variant="outline"
+            className="flex-1"
+            onClick={reviewing ? () => setReviewing(false) : onClose}
+          >
+            {reviewing ? "Back" : "Cancel"}
           </Button>
           <Button
             className="flex-1 bg-emerald-500 hover:bg-emerald-600 text-white"
             onClick={handleSubmit}
-            disabled={!name.trim() || !payloadText.trim() || creating}
+            disabled={!draft || unchanged || saving}
           >
-            {creating ? <Loader2 className="w-4 h-4 animate-spin" /> : "Create Job"}
+            {saving ? (
+              <Loader2 className="w-4 h-4 animate-spin" />
+            ) : !job ? (
+              "Create Job"
+            ) : reviewing ? (
+              "Save Changes"
+            ) : unchanged ? (
+              "No Changes"
+            ) : (
+              "Review Changes"
+            )}
           </Button>
         </div>
       </div>
@@ -1549,13 +1975,17 @@ function CreateCronModal({
 
 function ScheduleScriptModal({
   scriptName,
+  allowCrontab,
   onClose,
   onSchedule,
 }: {
   scriptName: string;
+  /** Offer the system crontab as well as an OpenClaw cron job. */
+  allowCrontab: boolean;
   onClose: () => void;
-  onSchedule: (schedule: CronCreateParams["schedule"]) => Promise<void>;
+  onSchedule: (schedule: CronCreateParams["schedule"], target: ScheduleTarget) => Promise<void>;
 }) {
+  const [target, setTarget] = useState<ScheduleTarget>("openclaw");
   const [scheduling, setScheduling] = useState(false);
   const [customMode, setCustomMode] = useState(false);
   const [cronExpr, setCronExpr] = useState("0 0 * * *");
@@ -1567,17 +1997,17 @@ function ScheduleScriptModal({
         preset.kind === "cron"
           ? { kind: "cron", expr: preset.expr }
           : { kind: "every", everyMs: preset.everyMs };
-      await onSchedule(schedule);
+      await onSchedule(schedule, target);
     } finally {
       setScheduling(false);
     }
   };
 
   const handleCustom = async () => {
-    if (!cronExpr.trim()) return;
+    if (validateCron(cronExpr)) return;
     setScheduling(true);
     try {
-      await onSchedule({ kind: "cron", expr: cronExpr.trim() });
+      await onSchedule({ kind: "cron", expr: cronExpr.trim() }, target);
     } finally {
       setScheduling(false);
     }
@@ -1585,7 +2015,7 @@ function ScheduleScriptModal({
 
   return (
     <div className="fixed inset-0 bg-black/80 z-50 flex items-end sm:items-center justify-center p-0 sm:p-4">
-      <div className="bg-zinc-900 rounded-t-2xl sm:rounded-xl border border-zinc-800 w-full max-w-sm">
+      <div className="bg-zinc-900 rounded-t-2xl sm:rounded-xl border border-zinc-800 w-full max-w-sm max-h-[85vh] flex flex-col">
         <div className="w-10 h-1 bg-zinc-700 rounded-full mx-auto mt-2 sm:hidden" />
         <div className="flex items-center justify-between p-4 border-b border-zinc-800">
           <div>
@@ -1597,7 +2027,25 @@ function ScheduleScriptModal({
           </button>
         </div>
 
-        <div className="p-4 space-y-2">
+        <div className="p-4 space-y-2 overflow-y-auto">
+          {allowCrontab && !scheduling && (
+            <div className="pb-2">
+              <ChoiceGroup
+                value={target}
+                onChange={setTarget}
+                options={[
+                  { value: "openclaw", label: "OpenClaw cron" },
+                  { value: "crontab", label: "System crontab" },
+                ]}
+              />
+              {target === "crontab" && (
+                <p className="text-xs text-zinc-500 mt-2">
+                  Runs the script directly from the server&apos;s crontab, without the agent, under the same
+                  timeout, environment allowlist and output cap as a run from here.
+                </p>
+              )}
+            </div>
+          )}
           {scheduling ? (
             <div className="flex items-center justify-center py-8">
               <Loader2 className="w-6 h-6 text-emerald-500 animate-spin" />
@@ -1613,7 +2061,7 @@ function ScheduleScriptModal({
                   placeholder="0 0 * * *"
                   className="w-full bg-zinc-800 border border-zinc-700 rounded-lg px-3 py-2 text-sm font-mono text-zinc-100 focus:outline-none focus:ring-2 focus:ring-emerald-500/50"
                 />
-                <p className="text-xs text-zinc-500 mt-1">{humanizeCron(cronExpr)}</p>
+                <CronPreview expr={cronExpr} />
               </div>
               <div className="flex gap-2">
                 <Button variant="outline" className="flex-1" onClick={() => setCustomMode(false)}>
@@ -1622,7 +2070,7 @@ function ScheduleScriptModal({
                 <Button
                   className="flex-1 bg-emerald-500 hover:bg-emerald-600 text-white"
                   onClick={handleCustom}
-                  disabled={!cronExpr.trim()}
+                  disabled={!!validateCron(cronExpr)}
                 >
                   Schedule
                 </Button>
@@ -1667,10 +2115,13 @@ function SessionCard({ session }: { session: SessionEntry }) {
   }[session.type];
 
   return (
-    <div className={cn(
-      "bg-zinc-900 rounded-xl border p-3 sm:p-4 transition-all",
-      session.active ? "border-emerald-500/30" : "border-zinc-800"
-    )}>
+    <Link
+      href={`/sessions/${encodeURIComponent(session.key)}`}
+      className={cn(
+        "block bg-zinc-900 rounded-xl border p-3 sm:p-4 transition-all hover:border-zinc-700",
+        session.active ? "border-emerald-500/30" : "border-zinc-800"
+      )}
+    >
       <div className="flex items-start gap-3">
         {/* Active indicator */}
         <div className={cn(
@@ -1708,6 +2159,274 @@ function SessionCard({ session }: { session: SessionEntry }) {
           </div>
         </div>
       </div>
+    </Link>
+  );
+}
+
+// ─────────────────────────────────────────────────────────────
+// Edit System Crontab Line Modal
+// ─────────────────────────────────────────────────────────────
+
+function CrontabEntryModal({
+  entry,
+  scripts,
+  saving,
+  onClose,
+  onSave,
+}: {
+  entry: SystemCronEntry;
+  /** Trusted scripts a managed line can be pointed at. */
+  scripts: string[];
+  saving: boolean;
+  onClose: () => void;
+  onSave: (changes: { expr: string; label: string; script?: string }) => Promise<void>;
+}) {
+  const [expr, setExpr] = useState(entry.expr);
+  const [label, setLabel] = useState(entry.comment ?? "");
+  const [script, setScript] = useState(entry.script ?? "");
+
+  const canChangeScript = entry.managed && !!entry.script;
+  const invalid = !!validateCron(expr);
+
+  const handleSave = () => {
+    if (invalid) return;
+    onSave({
+      expr: expr.trim(),
+      label: label.trim(),
+      ...(canChangeScript && script !== entry.script ? { script } : {}),
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/80 z-50 flex items-end sm:items-center justify-center p-0 sm:p-4">
+      <div className="bg-zinc-900 rounded-t-2xl sm:rounded-xl border border-zinc-800 w-full max-w-lg max-h-[85vh] flex flex-col">
+        <div className="w-10 h-1 bg-zinc-700 rounded-full mx-auto mt-2 sm:hidden" />
+        <div className="flex items-center justify-between p-4 border-b border-zinc-800">
+          <h3 className="font-semibold text-lg">Edit Crontab Line</h3>
+          <button onClick={onClose} className="p-1 rounded hover:bg-zinc-800 transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-4 overflow-y-auto flex-1">
+          {!entry.managed && (
+            <div className="flex items-start gap-2 text-xs text-amber-400 bg-amber-500/10 border border-amber-500/20 rounded-lg p-3">
+              <AlertTriangle className="w-4 h-4 shrink-0 mt-0.5" />
+              <span>This line wasn&apos;t added by the command center. Saving forces the change.</span>
+            </div>
+          )}
+
+          <div>
+            <label className="text-sm font-medium text-zinc-300 mb-1 block">Label</label>
+            <input
+              type="text"
+              value={label}
+              onChange={(e) => setLabel(e.target.value)}
+              placeholder="e.g. Nightly backup"
+              className={INPUT_CLASS}
+            />
+          </div>
+
+          <div>
+            <label className="text-sm font-medium text-zinc-300 mb-1 block">Schedule</label>
+            <input
+              type="text"
+              value={expr}
+              onChange={(e) => setExpr(e.target.value)}
+              placeholder="0 0 * * *"
+              className={cn(INPUT_CLASS, "font-mono")}
+            />
+            <CronPreview expr={expr} tz={entry.tz} />
+          </div>
+
+          <div>
+            <label className="text-sm font-medium text-zinc-300 mb-1 block">Command</label>
+            {canChangeScript ? (
+              <>
+                <select value={script} onChange={(e) => setScript(e.target.value)} className={INPUT_CLASS}>
+                  {[...new Set([entry.script!, ...scripts])].map((name) => (
+                    <option key={name} value={name}>
+                      {name}
+                    </option>
+                  ))}
+                </select>
+                <p className="text-xs text-zinc-500 mt-1">
+                  The line holds the script&apos;s timeout and working directory as they were when it was saved;
+                  saving again picks up changes.
+                </p>
+              </>
+            ) : (
+              <code className="block text-xs text-zinc-400 font-mono break-all bg-zinc-800/50 rounded px-2 py-1">
+                {entry.command}
+              </code>
+            )}
+          </div>
+        </div>
+
+        <div className="p-4 border-t border-zinc-800 flex gap-3">
+          <Button variant="outline" className="flex-1" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button
+            className="flex-1 bg-emerald-500 hover:bg-emerald-600 text-white"
+            onClick={handleSave}
+            disabled={invalid || saving}
+          >
+            {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : "Save"}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// ─────────────────────────────────────────────────────────────
+// Script Parameters Modal
+// ─────────────────────────────────────────────────────────────
+
+function initialParamValues(params: ScriptParam[], initial?: Record<string, string>): Record<string, string> {
+  return Object.fromEntries(params.map((p) => [p.name, initial?.[p.name] ?? p.default ?? ""]));
+}
+
+function ScriptParamsModal({
+  script,
+  initial,
+  onClose,
+  onRun,
+}: {
+  script: Script;
+  initial?: Record<string, string>;
+  onClose: () => void;
+  /** Resolves to per-parameter errors from the server, or null once started. */
+  onRun: (params: Record<string, string>) => Promise<Record<string, string> | null>;
+}) {
+  const params = script.params || [];
+  const [values, setValues] = useState(() => initialParamValues(params, initial));
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [submitting, setSubmitting] = useState(false);
+
+  const setValue = (name: string, value: string) => {
+    setValues((prev) => ({ ...prev, [name]: value }));
+    setErrors((prev) => {
+      if (!prev[name]) return prev;
+      const next = { ...prev };
+      delete next[name];
+      return next;
+    });
+  };
+
+  const handleRun = async () => {
+    // Same checks as the server, so most mistakes never leave the form
+    const checked = validateScriptParams(params, values);
+    if (Object.keys(checked.errors).length > 0) {
+      setErrors(checked.errors);
+      return;
+    }
+    setSubmitting(true);
+    const serverErrors = await onRun(values);
+    setSubmitting(false);
+    if (serverErrors) setErrors(serverErrors);
+  };
+
+  const otherErrors = Object.entries(errors).filter(([name]) => !params.some((p) => p.name === name));
+
+  return (
+    <div className="fixed inset-0 bg-black/80 z-50 flex items-end sm:items-center justify-center p-0 sm:p-4">
+      <div className="bg-zinc-900 rounded-t-2xl sm:rounded-xl border border-zinc-800 w-full max-w-lg max-h-[85vh] flex flex-col">
+        <div className="w-10 h-1 bg-zinc-700 rounded-full mx-auto mt-2 sm:hidden" />
+        <div className="flex items-center justify-between p-4 border-b border-zinc-800">
+          <div className="min-w-0">
+            <h3 className="font-semibold text-lg">Run Script</h3>
+            <p className="text-xs text-zinc-400 font-mono truncate mt-0.5">{script.name}</p>
+          </div>
+          <button onClick={onClose} className="p-1 rounded hover:bg-zinc-800 transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-4 overflow-y-auto flex-1">
+          {params.map((param) => {
+            const value = values[param.name] ?? "";
+            const error = errors[param.name];
+            return (
+              <div key={param.name}>
+                <label className="text-sm font-medium text-zinc-300 mb-1 flex items-center gap-1.5">
+                  <span className="font-mono">{param.name}</span>
+                  {param.required && <span className="text-red-400">*</span>}
+                  {param.secret && (
+                    <Badge variant="outline" className="text-[10px] text-amber-400 border-amber-500/30">
+                      secret
+                    </Badge>
+                  )}
+                </label>
+                {param.description && <p className="text-xs text-zinc-500 mb-1.5">{param.description}</p>}
+                {param.type === "bool" ? (
+                  <ChoiceGroup
+                    value={value === "true" ? "true" : value === "false" ? "false" : ""}
+                    options={[
+                      { value: "true", label: "Yes" },
+                      { value: "false", label: "No" },
+                    ]}
+                    onChange={(v) => setValue(param.name, v)}
+                  />
+                ) : param.type === "enum" ? (
+                  <select
+                    value={value}
+                    onChange={(e) => setValue(param.name, e.target.value)}
+                    className={INPUT_CLASS}
+                  >
+                    {!param.required && <option value="">—</option>}
+                    {param.required && !value && <option value="">Choose…</option>}
+                    {(param.choices || []).map((choice) => (
+                      <option key={choice} value={choice}>
+                        {choice}
+                      </option>
+                    ))}
+                  </select>
+                ) : (
+                  <input
+                    type={param.secret ? "password" : param.type === "string" ? "text" : "number"}
+                    inputMode={param.type === "int" ? "numeric" : param.type === "number" ? "decimal" : undefined}
+                    step={param.type === "int" ? 1 : param.type === "number" ? "any" : undefined}
+                    autoComplete={param.secret ? "off" : undefined}
+                    value={value}
+                    onChange={(e) => setValue(param.name, e.target.value)}
+                    placeholder={param.default ? `Default: ${param.default}` : undefined}
+                    className={cn(INPUT_CLASS, error && "border-red-500/50")}
+                  />
+                )}
+                {error && <p className="text-xs text-red-400 mt-1">{error}</p>}
+              </div>
+            );
+          })}
+
+          {otherErrors.map(([name, message]) => (
+            <p key={name} className="text-xs text-red-400">
+              {name} {message}
+            </p>
+          ))}
+        </div>
+
+        <div className="p-4 border-t border-zinc-800 flex gap-3">
+          <Button variant="outline" className="flex-1" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button
+            className="flex-1 bg-emerald-500 hover:bg-emerald-600 text-white"
+            onClick={handleRun}
+            disabled={submitting}
+          >
+            {submitting ? (
+              <Loader2 className="w-4 h-4 animate-spin" />
+            ) : (
+              <>
+                <Play className="w-4 h-4 mr-1" />
+                Run
+              </>
+            )}
+          </Button>
+        </div>
+      </div>
     </div>
   );
 }
@@ -0,0 +1,753 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import {
+  AlertTriangle, ArrowLeft, BellOff, BellRing, CheckCircle, History, Loader2, Plus, RefreshCw, Send, Trash2,
+  XCircle,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { cn } from "@/lib/utils";
+import { useCurrentUser } from "@/lib/use-auth";
+import { useLiveRefresh } from "@/lib/use-live-events";
+import {
+  ALERT_CONDITIONS,
+  ALERT_CONDITION_IDS,
+  type AlertCondition,
+  type AlertRule,
+  type AlertSink,
+} from "@/lib/alert-rules";
+import type { AlertEvent, AlertStatus, AlertView } from "@/lib/alerts";
+
+type AlertsResponse = AlertStatus & { rules: AlertRule[]; sinks: AlertSink[]; history: AlertEvent[] };
+
+const SNOOZE_OPTIONS = [
+  { minutes: 60, label: "1h" },
+  { minutes: 8 * 60, label: "8h" },
+  { minutes: 24 * 60, label: "24h" },
+];
+
+const inputClass =
+  "w-full bg-zinc-800 border border-zinc-700 rounded-lg px-2 py-1.5 text-xs text-zinc-100 placeholder-zinc-500 focus:outline-none focus:ring-2 focus:ring-emerald-500/50 disabled:opacity-60";
+
+function formatAgo(ts: number): string {
+  const diff = Date.now() - ts;
+  if (diff < 60_000) return "just now";
+  const minutes = Math.floor(diff / 60_000);
+  if (minutes < 60) return `${minutes}m ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h ago`;
+  return `${Math.floor(hours / 24)}d ago`;
+}
+
+function formatUntil(ts: number): string {
+  return new Date(ts).toLocaleString("en-US", { month: "short", day: "numeric", hour: "numeric", minute: "2-digit" });
+}
+
+function newId(prefix: string): string {
+  return `${prefix}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+async function postAlerts(body: Record<string, unknown>) {
+  const res = await fetch("/api/alerts", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+  const data = await res.json();
+  if (!res.ok) throw new Error(data.error || `HTTP ${res.status}`);
+  return data;
+}
+
+function ErrorBox({ error }: { error: string }) {
+  return (
+    <div className="flex items-start gap-2 text-sm text-red-400 bg-red-500/10 border border-red-500/20 rounded-lg px-3 py-2">
+      <XCircle className="w-4 h-4 shrink-0 mt-0.5" />
+      <span className="flex-1 break-words">{error}</span>
+    </div>
+  );
+}
+
+function SnoozeButtons({ snoozedUntil, onSnooze }: { snoozedUntil?: number; onSnooze: (minutes: number) => void }) {
+  if (snoozedUntil) {
+    return (
+      <button
+        onClick={() => onSnooze(0)}
+        className="flex items-center gap-1 px-2 py-1 rounded-md text-[11px] bg-zinc-800 text-zinc-300 hover:bg-zinc-700"
+        title={`Snoozed until ${formatUntil(snoozedUntil)}`}
+      >
+        <BellRing className="w-3 h-3" />
+        Unsnooze
+      </button>
+    );
+  }
+  return (
+    <div className="flex items-center gap-1">
+      <BellOff className="w-3 h-3 text-zinc-500" />
+      {SNOOZE_OPTIONS.map((o) => (
+        <button
+          key={o.minutes}
+          onClick={() => onSnooze(o.minutes)}
+          className="px-1.5 py-0.5 rounded-md text-[11px] bg-zinc-800 text-zinc-400 hover:bg-zinc-700 hover:text-zinc-200"
+          title={`Snooze for ${o.label}`}
+        >
+          {o.label}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+// ─── Active alerts ───────────────────────────────────────────
+
+function ActiveAlerts({ alerts, canSnooze, onSnooze }: {
+  alerts: AlertView[];
+  canSnooze: boolean;
+  onSnooze: (target: { alertId?: string; ruleId?: string }, minutes: number) => void;
+}) {
+  if (alerts.length === 0) {
+    return (
+      <div className="bg-zinc-900 rounded-xl border border-zinc-800 p-6 text-center">
+        <CheckCircle className="w-8 h-8 text-emerald-500/60 mx-auto mb-2" />
+        <p className="text-sm text-zinc-400">All clear</p>
+      </div>
+    );
+  }
+  return (
+    <div className="space-y-2">
+      {alerts.map((alert) => (
+        <div key={alert.id} className="bg-zinc-900 rounded-xl border border-zinc-800 p-3 flex items-start gap-3">
+          <span
+            className={cn(
+              "mt-1.5 w-2 h-2 rounded-full shrink-0",
+              !alert.firing ? "bg-amber-400" : alert.snoozedUntil ? "bg-zinc-500" : "bg-red-500 animate-pulse"
+            )}
+          />
+          <div className="flex-1 min-w-0">
+            <div className="flex items-center gap-2 flex-wrap">
+              <span className="text-sm font-medium">{alert.ruleName}</span>
+              {!alert.firing && <span className="text-[10px] text-amber-400">pending</span>}
+              {alert.snoozedUntil && (
+                <span className="text-[10px] text-zinc-500">snoozed until {formatUntil(alert.snoozedUntil)}</span>
+              )}
+            </div>
+            <p className="text-xs text-zinc-400 break-words">{alert.message}</p>
+            <p className="text-[10px] text-zinc-600 mt-0.5">
+              since {formatAgo(alert.since)}
+              {alert.notifiedAt ? ` · notified ${formatAgo(alert.notifiedAt)}` : ""}
+            </p>
+          </div>
+          {canSnooze && (
+            <SnoozeButtons snoozedUntil={alert.snoozedUntil} onSnooze={(m) => onSnooze({ alertId: alert.id }, m)} />
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+// ─── Rules ───────────────────────────────────────────────────
+
+function RuleRow({ rule, sinks, editable, onChange, onRemove }: {
+  rule: AlertRule;
+  sinks: AlertSink[];
+  editable: boolean;
+  onChange: (patch: Partial<AlertRule>) => void;
+  onRemove: () => void;
+}) {
+  const info = ALERT_CONDITIONS[rule.condition];
+  return (
+    <div className="border border-zinc-800 rounded-lg p-2.5 space-y-2">
+      <div className="flex items-center gap-2">
+        <input
+          type="checkbox"
+          checked={rule.enabled}
+          onChange={(e) => onChange({ enabled: e.target.checked })}
+          disabled={!editable}
+          className="accent-emerald-500"
+          title="Enabled"
+        />
+        <input
+          value={rule.name}
+          onChange={(e) => onChange({ name: e.target.value })}
+          disabled={!editable}
+          placeholder="Rule name"
+          className={cn(inputClass, "flex-1")}
+        />
+        {editable && (
+          <button onClick={onRemove} className="p-1 rounded hover:bg-zinc-800" title="Remove rule">
+            <Trash2 className="w-3.5 h-3.5 text-zinc-500" />
+          </button>
+        )}
+      </div>
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 text-[10px] text-zinc-500">
+        <label className="space-y-1 col-span-2">
+          <span>Condition</span>
+          <select
+            value={rule.condition}
+            onChange={(e) => {
+              const condition = e.target.value as AlertCondition;
+              onChange({ condition, threshold: ALERT_CONDITIONS[condition].threshold?.default });
+            }}
+            disabled={!editable}
+            className={inputClass}
+          >
+            {ALERT_CONDITION_IDS.map((id) => (
+              <option key={id} value={id}>
+                {ALERT_CONDITIONS[id].label}
+              </option>
+            ))}
+          </select>
+        </label>
+        {info.threshold ? (
+          <label className="space-y-1">
+            <span>
+              {info.threshold.label} ({info.threshold.unit})
+            </span>
+            <input
+              type="number"
+              min={info.threshold.min}
+              max={info.threshold.max}
+              value={rule.threshold ?? info.threshold.default}
+              onChange={(e) => onChange({ threshold: Number(e.target.value) })}
+              disabled={!editable}
+              className={inputClass}
+            />
+          </label>
+        ) : (
+          <span />
+        )}
+        <label className="space-y-1">
+          <span>For (min)</span>
+          <input
+            type="number"
+            min={0}
+            value={rule.forMinutes}
+            onChange={(e) => onChange({ forMinutes: Number(e.target.value) })}
+            disabled={!editable}
+            className={inputClass}
+          />
+        </label>
+        <label className="space-y-1">
+          <span>Repeat every (min, 0 = once)</span>
+          <input
+            type="number"
+            min={0}
+            value={rule.repeatMinutes}
+            onChange={(e) => onChange({ repeatMinutes: Number(e.target.value) })}
+            disabled={!editable}
+            className={inputClass}
+          />
+        </label>
+        <label className="flex items-center gap-1.5 self-end pb-1.5 col-span-1 sm:col-span-3">
+          <input
+            type="checkbox"
+            checked={rule.notifyResolved}
+            onChange={(e) => onChange({ notifyResolved: e.target.checked })}
+            disabled={!editable}
+            className="accent-emerald-500"
+          />
+          <span className="text-xs text-zinc-400">Notify when resolved</span>
+        </label>
+      </div>
+      <p className="text-[11px] text-zinc-500">{info.description}</p>
+      <div className="flex items-center gap-1.5 flex-wrap text-xs">
+        <span className="text-[10px] text-zinc-500">Notify</span>
+        {sinks.length === 0 && <span className="text-[11px] text-zinc-600">no sinks yet: shown here only</span>}
+        {sinks.map((sink) => {
+          const on = rule.sinkIds.includes(sink.id);
+          return (
+            <button
+              key={sink.id}
+              disabled={!editable}
+              onClick={() =>
+                onChange({ sinkIds: on ? rule.sinkIds.filter((id) => id !== sink.id) : [...rule.sinkIds, sink.id] })
+              }
+              className={cn(
+                "px-2 py-0.5 rounded-md border text-[11px] transition-colors disabled:cursor-default",
+                on
+                  ? "bg-emerald-500/15 border-emerald-500/30 text-emerald-300"
+                  : "bg-zinc-800 border-zinc-700 text-zinc-500 hover:text-zinc-300"
+              )}
+            >
+              {sink.name}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+function RulesEditor({ rules, sinks, ruleSnoozes, onSaved, onSnooze }: {
+  rules: AlertRule[];
+  sinks: AlertSink[];
+  ruleSnoozes: Record<string, number>;
+  onSaved: () => void;
+  onSnooze: (target: { ruleId: string }, minutes: number) => void;
+}) {
+  const { can } = useCurrentUser();
+  const editable = can("alerts.manage");
+  const [rows, setRows] = useState<AlertRule[]>(rules);
+  const [dirty, setDirty] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!dirty) setRows(rules);
+  }, [rules, dirty]);
+
+  const update = (index: number, patch: Partial<AlertRule>) => {
+    setRows((prev) => prev.map((r, i) => (i === index ? { ...r, ...patch } : r)));
+    setDirty(true);
+  };
+
+  const save = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      const data = await postAlerts({ action: "save-rules", rules: rows });
+      setRows(data.rules);
+      setDirty(false);
+      onSaved();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-zinc-900 rounded-xl border border-zinc-800 p-3 sm:p-4 space-y-2">
+      {rows.map((rule, i) => (
+        <div key={rule.id} className="space-y-1">
+          <RuleRow
+            rule={rule}
+            sinks={sinks}
+            editable={editable}
+            onChange={(patch) => update(i, patch)}
+            onRemove={() => {
+              setRows((prev) => prev.filter((_, j) => j !== i));
+              setDirty(true);
+            }}
+          />
+          {can("alerts.snooze") && rules.some((r) => r.id === rule.id) && (
+            <div className="flex justify-end">
+              <SnoozeButtons snoozedUntil={ruleSnoozes[rule.id]} onSnooze={(m) => onSnooze({ ruleId: rule.id }, m)} />
+            </div>
+          )}
+        </div>
+      ))}
+      {rows.length === 0 && <p className="text-xs text-zinc-500">No rules: nothing is being watched.</p>}
+
+      {error && <ErrorBox error={error} />}
+
+      {editable && (
+        <div className="flex items-center gap-2 pt-1">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => {
+              setRows((prev) => [
+                ...prev,
+                {
+                  id: newId("rule"),
+                  name: "",
+                  condition: "gateway-disconnected",
+                  enabled: true,
+                  forMinutes: 0,
+                  repeatMinutes: 0,
+                  notifyResolved: true,
+                  sinkIds: [],
+                },
+              ]);
+              setDirty(true);
+            }}
+          >
+            <Plus className="w-4 h-4" />
+            Add rule
+          </Button>
+          <Button
+            size="sm"
+            onClick={save}
+            disabled={saving || !dirty}
+            className="ml-auto bg-emerald-500 hover:bg-emerald-600 text-white"
+          >
+            {saving && <Loader2 className="w-4 h-4 animate-spin" />}
+            Save rules
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// ─── Sinks ───────────────────────────────────────────────────
+
+function SinksEditor({ sinks, channels, onSaved }: {
+  sinks: AlertSink[];
+  channels: string[];
+  onSaved: () => void;
+}) {
+  const { can } = useCurrentUser();
+  const editable = can("alerts.manage");
+  const [rows, setRows] = useState<AlertSink[]>(sinks);
+  const [dirty, setDirty] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [testing, setTesting] = useState<string | null>(null);
+  const [result, setResult] = useState<{ sinkId: string; ok: boolean; message: string } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!dirty) setRows(sinks);
+  }, [sinks, dirty]);
+
+  const update = (index: number, patch: Partial<AlertSink>) => {
+    setRows((prev) => prev.map((s, i) => (i === index ? { ...s, ...patch } : s)));
+    setDirty(true);
+  };
+
+  const save = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      const data = await postAlerts({ action: "save-sinks", sinks: rows });
+      setRows(data.sinks);
+      setDirty(false);
+      onSaved();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const test = async (sinkId: string) => {
+    setTesting(sinkId);
+    setResult(null);
+    try {
+      await postAlerts({ action: "test-sink", sinkId });
+      setResult({ sinkId, ok: true, message: "Test notification sent" });
+    } catch (err) {
+      setResult({ sinkId, ok: false, message: err instanceof Error ? err.message : String(err) });
+    } finally {
+      setTesting(null);
+    }
+  };
+
+  return (
+    <div className="bg-zinc-900 rounded-xl border border-zinc-800 p-3 sm:p-4 space-y-2">
+      <p className="text-xs text-zinc-500">
+        Webhooks get a JSON POST per notification (with a ready-made <code>text</code>); channel sinks send that text
+        through the gateway on one of the agent&apos;s channels.
+      </p>
+      {rows.map((sink, i) => (
+        <div key={sink.id} className="border border-zinc-800 rounded-lg p-2.5 space-y-2">
+          <div className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={sink.enabled}
+              onChange={(e) => update(i, { enabled: e.target.checked })}
+              disabled={!editable}
+              className="accent-emerald-500"
+              title="Enabled"
+            />
+            <input
+              value={sink.name}
+              onChange={(e) => update(i, { name: e.target.value })}
+              disabled={!editable}
+              placeholder="Sink name"
+              className={cn(inputClass, "flex-1")}
+            />
+            <select
+              value={sink.kind}
+              onChange={(e) => update(i, { kind: e.target.value as AlertSink["kind"] })}
+              disabled={!editable}
+              className={cn(inputClass, "w-28")}
+            >
+              <option value="webhook">Webhook</option>
+              <option value="channel">Channel</option>
+            </select>
+            {editable && (
+              <button
+                onClick={() => test(sink.id)}
+                disabled={dirty || testing !== null}
+                className="p-1 rounded hover:bg-zinc-800 disabled:opacity-40"
+                title={dirty ? "Save before testing" : "Send a test notification"}
+              >
+                {testing === sink.id ? (
+                  <Loader2 className="w-3.5 h-3.5 animate-spin text-zinc-500" />
+                ) : (
+                  <Send className="w-3.5 h-3.5 text-zinc-500" />
+                )}
+              </button>
+            )}
+            {editable && (
+              <button
+                onClick={() => {
+                  setRows((prev) => prev.filter((_, j) => j !== i));
+                  setDirty(true);
+                }}
+                className="p-1 rounded hover:bg-zinc-800"
+                title="Remove sink"
+              >
+                <Trash2 className="w-3.5 h-3.5 text-zinc-500" />
+              </button>
+            )}
+          </div>
+          {sink.kind === "webhook" ? (
+            <input
+              value={sink.url ?? ""}
+              onChange={(e) => update(i, { url: e.target.value })}
+              disabled={!editable}
+              placeholder="https://hooks.example.com/…"
+              className={cn(inputClass, "font-mono")}
+            />
+          ) : (
+            <div className="grid grid-cols-3 gap-2">
+              <select
+                value={sink.channel ?? ""}
+                onChange={(e) => update(i, { channel: e.target.value })}
+                disabled={!editable}
+                className={inputClass}
+              >
+                <option value="">Channel…</option>
+                {[...new Set([...channels, ...(sink.channel ? [sink.channel] : [])])].map((c) => (
+                  <option key={c} value={c}>
+                    {c}
+                  </option>
+                ))}
+              </select>
+              <input
+                value={sink.to ?? ""}
+                onChange={(e) => update(i, { to: e.target.value })}
+                disabled={!editable}
+                placeholder="Recipient id"
+                className={inputClass}
+              />
+              <input
+                value={sink.accountId ?? ""}
+                onChange={(e) => update(i, { accountId: e.target.value })}
+                disabled={!editable}
+                placeholder="Account (optional)"
+                className={inputClass}
+              />
+            </div>
+          )}
+          {result?.sinkId === sink.id && (
+            <p className={cn("text-xs", result.ok ? "text-emerald-400" : "text-red-400")}>{result.message}</p>
+          )}
+        </div>
+      ))}
+      {rows.length === 0 && <p className="text-xs text-zinc-500">No sinks: alerts only show on this page.</p>}
+
+      {error && <ErrorBox error={error} />}
+
+      {editable && (
+        <div className="flex items-center gap-2 pt-1">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => {
+              setRows((prev) => [...prev, { id: newId("sink"), name: "", kind: "webhook", enabled: true, url: "" }]);
+              setDirty(true);
+            }}
+          >
+            <Plus className="w-4 h-4" />
+            Add sink
+          </Button>
+          <Button
+            size="sm"
+            onClick={save}
+            disabled={saving || !dirty}
+            className="ml-auto bg-emerald-500 hover:bg-emerald-600 text-white"
+          >
+            {saving && <Loader2 className="w-4 h-4 animate-spin" />}
+            Save sinks
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// ─── History ─────────────────────────────────────────────────
+
+const EVENT_LABELS: Record<AlertEvent["type"], string> = {
+  fired: "Fired",
+  resolved: "Resolved",
+  notified: "Notified",
+  snoozed: "Snoozed",
+  unsnoozed: "Unsnoozed",
+};
+
+function HistoryList({ events }: { events: AlertEvent[] }) {
+  if (events.length === 0) {
+    return <p className="text-xs text-zinc-500">Nothing has fired yet.</p>;
+  }
+  return (
+    <div className="bg-zinc-900 rounded-xl border border-zinc-800 divide-y divide-zinc-800">
+      {events.map((e) => (
+        <div key={e.id} className="px-3 py-2 flex items-start gap-2 text-xs">
+          <span
+            className={cn(
+              "w-16 shrink-0 font-medium",
+              e.type === "fired" && "text-red-400",
+              e.type === "resolved" && "text-emerald-400",
+              e.type === "notified" && (e.status === "error" ? "text-red-400" : "text-sky-400"),
+              (e.type === "snoozed" || e.type === "unsnoozed") && "text-zinc-400"
+            )}
+          >
+            {EVENT_LABELS[e.type]}
+          </span>
+          <div className="flex-1 min-w-0">
+            <span className="text-zinc-300">{e.ruleName}</span>
+            {e.sinkName && <span className="text-zinc-500"> → {e.sinkName}</span>}
+            <p className="text-zinc-500 break-words">
+              {e.error ? `Failed: ${e.error}` : e.message}
+              {e.actor ? ` · ${e.actor}` : ""}
+            </p>
+          </div>
+          <span className="text-[10px] text-zinc-600 shrink-0">{formatAgo(e.ts)}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+// ─── Page ────────────────────────────────────────────────────
+
+export default function AlertsPage() {
+  const { can } = useCurrentUser();
+  const [data, setData] = useState<AlertsResponse | null>(null);
+  const [channels, setChannels] = useState<string[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [checking, setChecking] = useState(false);
+
+  const load = useCallback(async () => {
+    try {
+      const res = await fetch("/api/alerts");
+      const body = await res.json();
+      if (!res.ok) throw new Error(body.error || `HTTP ${res.status}`);
+      setData(body);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+    fetch("/api/channels")
+      .then((r) => r.json())
+      .then((body) => setChannels((body.channels ?? []).map((c: { id: string }) => c.id)))
+      .catch(() => {});
+  }, [load]);
+
+  useLiveRefresh(["alerts"], load);
+
+  const snooze = async (target: { alertId?: string; ruleId?: string }, minutes: number) => {
+    try {
+      await postAlerts({ action: "snooze", ...target, minutes });
+      await load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const checkNow = async () => {
+    setChecking(true);
+    try {
+      await postAlerts({ action: "evaluate" });
+      await load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  const firing = data?.active.filter((a) => a.firing && !a.snoozedUntil).length ?? 0;
+
+  return (
+    <div className="space-y-6">
+      <header className="flex items-center justify-between gap-3">
+        <div className="flex items-center gap-3">
+          <Link href="/" className="p-2 rounded-lg bg-zinc-900 border border-zinc-800 hover:bg-zinc-800">
+            <ArrowLeft className="w-5 h-5" strokeWidth={1.5} />
+          </Link>
+          <div>
+            <h1 className="text-2xl font-bold">Alerts</h1>
+            <p className="text-sm text-zinc-400">
+              {data?.evaluatedAt
+                ? `Checked every ${Math.round(data.intervalMs / 60_000)} min · last ${formatAgo(data.evaluatedAt)}`
+                : "Not checked yet"}
+            </p>
+          </div>
+        </div>
+        {can("alerts.snooze") && (
+          <button
+            onClick={checkNow}
+            disabled={checking}
+            className="p-2 rounded-lg bg-zinc-900 border border-zinc-800 hover:bg-zinc-800 transition-colors btn-press disabled:opacity-50"
+            title="Check now"
+          >
+            <RefreshCw className={cn("w-5 h-5", checking && "animate-spin")} strokeWidth={1.5} />
+          </button>
+        )}
+      </header>
+
+      {error && <ErrorBox error={error} />}
+      {data?.lastError && <ErrorBox error={`Last check failed: ${data.lastError}`} />}
+
+      {!data ? (
+        <div className="space-y-3">
+          <Skeleton className="h-20 w-full" />
+          <Skeleton className="h-40 w-full" />
+        </div>
+      ) : (
+        <>
+          <section className="space-y-2">
+            <h2 className="text-xs font-medium text-zinc-500 uppercase tracking-wider flex items-center gap-2">
+              <AlertTriangle className="w-4 h-4" />
+              Active
+              {firing > 0 && <span className="text-red-400">{firing} firing</span>}
+            </h2>
+            <ActiveAlerts alerts={data.active} canSnooze={can("alerts.snooze")} onSnooze={snooze} />
+          </section>
+
+          <section className="space-y-2">
+            <h2 className="text-xs font-medium text-zinc-500 uppercase tracking-wider flex items-center gap-2">
+              <BellRing className="w-4 h-4" />
+              Rules
+            </h2>
+            <RulesEditor
+              rules={data.rules}
+              sinks={data.sinks}
+              ruleSnoozes={data.ruleSnoozes}
+              onSaved={load}
+              onSnooze={snooze}
+            />
+          </section>
+
+          <section className="space-y-2">
+            <h2 className="text-xs font-medium text-zinc-500 uppercase tracking-wider flex items-center gap-2">
+              <Send className="w-4 h-4" />
+              Sinks
+            </h2>
+            <SinksEditor sinks={data.sinks} channels={channels} onSaved={load} />
+          </section>
+
+          <section className="space-y-2">
+            <h2 className="text-xs font-medium text-zinc-500 uppercase tracking-wider flex items-center gap-2">
+              <History className="w-4 h-4" />
+              History
+            </h2>
+            <HistoryList events={data.history} />
+          </section>
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,19 +1,12 @@
 import { NextResponse } from "next/server";
 import fs from "node:fs/promises";
 import path from "node:path";
-import {
-  readAgentIdentity,
-  writeAgentName,
-  DEFAULT_AGENT_NAME,
-} from "@/lib/agent-identity";
+import { writeAgentName, DEFAULT_AGENT_NAME } from "@/lib/agent-identity";
+import { agentFromRequest, agentIdentity, agentPaths } from "@/lib/agents";
+import { requirePermission } from "@/lib/auth";
 
 const OPENCLAW_CONFIG =
   process.env.OPENCLAW_CONFIG || "/home/clawdbot/.openclaw/openclaw.json";
-const IDENTITY_PATH =
-  process.env.IDENTITY_PATH || "/home/clawdbot/.openclaw/workspace/IDENTITY.md";
-const SOUL_PATH = process.env.SOUL_PATH || "/home/clawdbot/.openclaw/workspace/SOUL.md";
-const WORKSPACE_ROOT =
-  process.env.WORKSPACE_PATH || "/home/clawdbot/.openclaw/workspace";
 
 export interface AgentInfo {
   name: string;
@@ -24,15 +17,18 @@ export interface AgentInfo {
   hasAvatar: boolean;
 }
 
-export async function GET() {
+/** GET /api/agent-info — name, emoji, model and avatar of the selected agent. */
+export async function GET(request: Request) {
   try {
+    const agent = await agentFromRequest(request);
+
     // Read config for model info
     let model = "unknown";
     let provider = "unknown";
     try {
       const raw = await fs.readFile(OPENCLAW_CONFIG, "utf-8");
       const config = JSON.parse(raw);
-      const primaryModel = config?.agents?.defaults?.model?.primary;
+      const primaryModel = agent.model ?? config?.agents?.defaults?.model?.primary;
       if (primaryModel) {
         const parts = primaryModel.split("/");
         provider = parts[0] || "unknown";
@@ -43,20 +39,13 @@ export async function GET() {
     }
 
     // Read identity for name/emoji
-    const identity = await readAgentIdentity({
-      identityPath: IDENTITY_PATH,
-      soulPath: SOUL_PATH,
-      configPath: OPENCLAW_CONFIG,
-    });
-    const name = identity.name || DEFAULT_AGENT_NAME;
-    const emoji = identity.emoji || "🦞";
-    const description = identity.description || "";
+    const { name, emoji, description } = await agentIdentity(agent);
 
     // Check if avatar exists -- parallel stat calls instead of sequential
     const avatarExts = [".png", ".jpg", ".jpeg", ".webp", ".gif", ".svg"];
     const avatarChecks = await Promise.allSettled(
       avatarExts.map((ext) =>
-        fs.stat(path.join(WORKSPACE_ROOT, `avatar${ext}`)).then((s) => s.isFile())
+        fs.stat(path.join(agent.workspace, `avatar${ext}`)).then((s) => s.isFile())
       )
     );
     const hasAvatar = avatarChecks.some(
@@ -80,6 +69,9 @@ export async function GET() {
 }
 
 export async function POST(request: Request) {
+  const denied = requirePermission(request, "agent.edit");
+  if (denied) return denied;
+
   try {
     const body = (await request.json()) as { name?: unknown };
     const rawName = typeof body.name === "string" ? body.name : "";
@@ -95,7 +87,7 @@ export async function POST(request: Request) {
       );
     }
 
-    await writeAgentName(IDENTITY_PATH, nextName);
+    await writeAgentName(agentPaths(await agentFromRequest(request)).identityPath, nextName);
     return NextResponse.json({ ok: true, name: nextName });
   } catch (error) {
     console.error("Agent info update error:", error);
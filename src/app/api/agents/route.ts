@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from "next/server";
+import { AGENT_COOKIE, agentFromRequest, agentIdentity, listAgents } from "@/lib/agents";
+import { requirePermission } from "@/lib/auth";
+
+export interface AgentListItem {
+  id: string;
+  name: string;
+  emoji: string;
+  isDefault: boolean;
+  model?: string;
+}
+
+/** GET /api/agents — every agent, default first, and the one selected for this browser. */
+export async function GET(request: NextRequest) {
+  try {
+    const [agents, selected] = await Promise.all([listAgents(), agentFromRequest(request)]);
+    const items: AgentListItem[] = await Promise.all(
+      agents.map(async (agent) => {
+        const { name, emoji } = await agentIdentity(agent);
+        return { id: agent.id, name, emoji, isDefault: agent.isDefault, model: agent.model };
+      })
+    );
+    return NextResponse.json({ agents: items, selected: selected.id });
+  } catch (error) {
+    console.error("Agents error:", error);
+    return NextResponse.json({ error: "Failed to list agents" }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/agents { action: "select", agent } — scopes this browser's views
+ * to `agent` by setting the cc_agent cookie. Open to viewers: it changes
+ * nothing but what this browser looks at.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { action } = body;
+
+    switch (action) {
+      case "select": {
+        const denied = requirePermission(request, "read");
+        if (denied) return denied;
+        const agents = await listAgents();
+        if (!agents.some((a) => a.id === body.agent)) {
+          return NextResponse.json({ error: `Unknown agent: ${body.agent}` }, { status: 404 });
+        }
+        const response = NextResponse.json({ success: true, selected: body.agent });
+        response.cookies.set(AGENT_COOKIE, body.agent, {
+          httpOnly: true,
+          sameSite: "lax",
+          secure: request.nextUrl.protocol === "https:",
+          path: "/",
+          maxAge: 365 * 24 * 60 * 60,
+        });
+        return response;
+      }
+
+      default:
+        return NextResponse.json({ error: `Unknown action: ${action}` }, { status: 400 });
+    }
+  } catch (error) {
+    console.error("Agents error:", error);
+    return NextResponse.json({ error: "Failed to select agent" }, { status: 500 });
+  }
+}
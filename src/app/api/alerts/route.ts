@@ -0,0 +1,118 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getRequestUser, requirePermission } from "@/lib/auth";
+import { can } from "@/lib/permissions";
+import { AlertConfigError, type AlertSink } from "@/lib/alert-rules";
+import {
+  MAX_ALERT_HISTORY,
+  evaluateAlerts,
+  getAlertStatus,
+  readAlertConfig,
+  readAlertHistory,
+  saveAlertConfig,
+  snoozeAlerts,
+  testAlertSink,
+} from "@/lib/alerts";
+
+// Webhook URLs often carry a token; only those who can edit sinks see them whole
+function redactSink(sink: AlertSink): AlertSink {
+  if (!sink.url) return sink;
+  try {
+    return { ...sink, url: `${new URL(sink.url).origin}/…` };
+  } catch {
+    return { ...sink, url: "…" };
+  }
+}
+
+/**
+ * GET /api/alerts — rules, sinks, the alerts being tracked (firing, or
+ * pending until their rule's "for" time) and recent history (?history=N).
+ */
+export async function GET(request: NextRequest) {
+  const denied = requirePermission(request, "read");
+  if (denied) return denied;
+
+  try {
+    const limit = Math.min(
+      Math.max(parseInt(request.nextUrl.searchParams.get("history") || "100", 10) || 100, 0),
+      MAX_ALERT_HISTORY
+    );
+    const [config, status, history] = await Promise.all([
+      readAlertConfig(),
+      getAlertStatus(),
+      limit > 0 ? readAlertHistory(limit) : [],
+    ]);
+    const user = getRequestUser(request);
+    const sinks = can(user?.role, "alerts.manage") ? config.sinks : config.sinks.map(redactSink);
+    return NextResponse.json({ ...status, rules: config.rules, sinks, history });
+  } catch (error) {
+    console.error("Alerts error:", error);
+    return NextResponse.json({ error: "Failed to read alerts" }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/alerts
+ *   { action: "save-rules", rules } / { action: "save-sinks", sinks } — admin
+ *   { action: "test-sink", sinkId } — admin; sends a test notification
+ *   { action: "snooze", ruleId | alertId, minutes } — 0 minutes lifts it
+ *   { action: "evaluate" } — run the checks now instead of at the next minute
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { action } = body;
+    const user = getRequestUser(request)?.username;
+
+    switch (action) {
+      case "save-rules":
+      case "save-sinks": {
+        const denied = requirePermission(request, "alerts.manage");
+        if (denied) return denied;
+        const config = await saveAlertConfig(action === "save-rules" ? { rules: body.rules } : { sinks: body.sinks });
+        // Apply the new rules straight away rather than at the next check
+        await evaluateAlerts();
+        return NextResponse.json({ success: true, ...config });
+      }
+
+      case "test-sink": {
+        const denied = requirePermission(request, "alerts.manage");
+        if (denied) return denied;
+        try {
+          await testAlertSink(String(body.sinkId ?? ""));
+        } catch (error) {
+          if (error instanceof AlertConfigError) throw error;
+          const message = error instanceof Error ? error.message : String(error);
+          return NextResponse.json({ error: `Delivery failed: ${message}` }, { status: 502 });
+        }
+        return NextResponse.json({ success: true });
+      }
+
+      case "snooze": {
+        const denied = requirePermission(request, "alerts.snooze");
+        if (denied) return denied;
+        const { ruleId, alertId } = body;
+        if (typeof ruleId !== "string" && typeof alertId !== "string") {
+          return NextResponse.json({ error: "ruleId or alertId required" }, { status: 400 });
+        }
+        await snoozeAlerts({ ruleId, alertId }, Number(body.minutes), user);
+        return NextResponse.json({ success: true, ...(await getAlertStatus()) });
+      }
+
+      case "evaluate": {
+        const denied = requirePermission(request, "alerts.snooze");
+        if (denied) return denied;
+        await evaluateAlerts();
+        return NextResponse.json({ success: true, ...(await getAlertStatus()) });
+      }
+
+      default:
+        return NextResponse.json({ error: `Unknown action: ${action}` }, { status: 400 });
+    }
+  } catch (error) {
+    if (error instanceof AlertConfigError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Alerts error:", error);
+    return NextResponse.json({ error: "Failed to update alerts" }, { status: 500 });
+  }
+}
@@ -0,0 +1,264 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  AuthError,
+  SESSION_COOKIE,
+  SESSION_TTL_MS,
+  changePassword,
+  checkSetupToken,
+  createSession,
+  createUser,
+  deleteUser,
+  getSession,
+  getUser,
+  hasUsers,
+  listSessions,
+  listUsers,
+  revokeSession,
+  revokeSessionByToken,
+  revokeUserSessions,
+  updateUserRole,
+  verifyCredentials,
+} from "@/lib/auth";
+import { can, isRole } from "@/lib/permissions";
+import { clientAddress } from "@/lib/client-address";
+
+// Failed-login throttle, per 15 minutes: 5 failures from one client address,
+// or 10 against one username from anywhere (so spreading guesses over many
+// addresses doesn't help, while one address can't lock an account out alone)
+const LOGIN_WINDOW_MS = 15 * 60 * 1000;
+const LOGIN_MAX_FAILURES = 5;
+const USERNAME_MAX_FAILURES = 10;
+const loginFailures = new Map<string, { count: number; firstAt: number }>();
+
+function ipKey(ip: string): string {
+  return `ip:${ip}`;
+}
+
+function userKey(username: string): string {
+  return `user:${username.trim().toLowerCase()}`;
+}
+
+function isThrottled(key: string, max = LOGIN_MAX_FAILURES): boolean {
+  const entry = loginFailures.get(key);
+  if (!entry) return false;
+  if (Date.now() - entry.firstAt > LOGIN_WINDOW_MS) {
+    loginFailures.delete(key);
+    return false;
+  }
+  return entry.count >= max;
+}
+
+function recordFailure(key: string): void {
+  // Usernames are the caller's choice: drop stale entries rather than grow forever
+  if (loginFailures.size > 10_000) {
+    for (const [k, e] of loginFailures) {
+      if (Date.now() - e.firstAt > LOGIN_WINDOW_MS) loginFailures.delete(k);
+    }
+  }
+  const entry = loginFailures.get(key);
+  if (!entry || Date.now() - entry.firstAt > LOGIN_WINDOW_MS) {
+    loginFailures.set(key, { count: 1, firstAt: Date.now() });
+  } else {
+    entry.count++;
+  }
+}
+
+function withSessionCookie(request: NextRequest, response: NextResponse, token: string) {
+  response.cookies.set(SESSION_COOKIE, token, {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: request.nextUrl.protocol === "https:",
+    path: "/",
+    maxAge: Math.floor(SESSION_TTL_MS / 1000),
+  });
+  return response;
+}
+
+function clearSessionCookie(response: NextResponse) {
+  response.cookies.set(SESSION_COOKIE, "", { httpOnly: true, path: "/", maxAge: 0 });
+  return response;
+}
+
+// ─── Current session status ──────────────────────────────────
+
+export async function GET(request: NextRequest) {
+  try {
+    const token = request.cookies.get(SESSION_COOKIE)?.value;
+    const [session, usersExist] = await Promise.all([getSession(token), hasUsers()]);
+    const user = session ? await getUser(session.username) : null;
+
+    if (!session || !user) {
+      return NextResponse.json({ authenticated: false, setupRequired: !usersExist });
+    }
+
+    const body: Record<string, unknown> = {
+      authenticated: true,
+      setupRequired: false,
+      user: { username: user.username, role: user.role },
+      session: { id: session.id, expiresAt: session.expiresAt },
+    };
+
+    if (request.nextUrl.searchParams.get("sessions") === "true") {
+      const sessions = await listSessions(session.username);
+      body.sessions = sessions.map((s) => ({ ...s, current: s.id === session.id }));
+    }
+
+    if (request.nextUrl.searchParams.get("users") === "true" && can(user.role, "users.manage")) {
+      body.users = await listUsers();
+    }
+
+    return NextResponse.json(body);
+  } catch (error) {
+    console.error("Auth status error:", error);
+    return NextResponse.json({ error: "Failed to read auth state" }, { status: 500 });
+  }
+}
+
+// ─── Login / logout / session management ─────────────────────
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { action } = body as { action?: string };
+    const ip = clientAddress(request);
+    const userAgent = request.headers.get("user-agent") || undefined;
+
+    if (action === "setup") {
+      const { setupToken, username, password } = body as {
+        setupToken?: string;
+        username?: string;
+        password?: string;
+      };
+      if (await hasUsers()) {
+        return NextResponse.json({ error: "Setup already completed" }, { status: 409 });
+      }
+      if (isThrottled(ipKey(ip))) {
+        return NextResponse.json({ error: "Too many attempts, try again later" }, { status: 429 });
+      }
+      if (!checkSetupToken(String(setupToken || ""))) {
+        recordFailure(ipKey(ip));
+        return NextResponse.json({ error: "Invalid setup token" }, { status: 403 });
+      }
+      // The first account is always an admin
+      const user = await createUser(String(username || "").trim(), String(password || ""), "admin");
+      const { token } = await createSession(user.username, { userAgent, ip });
+      return withSessionCookie(
+        request,
+        NextResponse.json({ ok: true, user: { username: user.username, role: user.role } }),
+        token
+      );
+    }
+
+    if (action === "login") {
+      const { username, password } = body as { username?: string; password?: string };
+      if (!username || !password) {
+        return NextResponse.json({ error: "Username and password required" }, { status: 400 });
+      }
+      if (isThrottled(ipKey(ip)) || isThrottled(userKey(username), USERNAME_MAX_FAILURES)) {
+        return NextResponse.json({ error: "Too many attempts, try again later" }, { status: 429 });
+      }
+      const user = await verifyCredentials(username.trim(), password);
+      if (!user) {
+        recordFailure(ipKey(ip));
+        recordFailure(userKey(username));
+        return NextResponse.json({ error: "Invalid username or password" }, { status: 401 });
+      }
+      loginFailures.delete(ipKey(ip));
+      loginFailures.delete(userKey(username));
+      const { token } = await createSession(user.username, { userAgent, ip });
+      return withSessionCookie(
+        request,
+        NextResponse.json({ ok: true, user: { username: user.username, role: user.role } }),
+        token
+      );
+    }
+
+    // Everything below requires a valid session
+    const token = request.cookies.get(SESSION_COOKIE)?.value;
+    const session = await getSession(token);
+
+    if (action === "logout") {
+      if (token) await revokeSessionByToken(token);
+      return clearSessionCookie(NextResponse.json({ ok: true }));
+    }
+
+    const currentUser = session ? await getUser(session.username) : null;
+    if (!session || !currentUser) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (action === "revoke-session") {
+      const { sessionId } = body as { sessionId?: string };
+      if (!sessionId) {
+        return NextResponse.json({ error: "sessionId required" }, { status: 400 });
+      }
+      const revoked = await revokeSession(sessionId, session.username);
+      if (!revoked) {
+        return NextResponse.json({ error: "Session not found" }, { status: 404 });
+      }
+      const response = NextResponse.json({ ok: true });
+      return sessionId === session.id ? clearSessionCookie(response) : response;
+    }
+
+    if (action === "revoke-other-sessions") {
+      const removed = await revokeUserSessions(session.username, session.id);
+      return NextResponse.json({ ok: true, removed });
+    }
+
+    if (action === "change-password") {
+      const { currentPassword, newPassword } = body as {
+        currentPassword?: string;
+        newPassword?: string;
+      };
+      await changePassword(session.username, String(currentPassword || ""), String(newPassword || ""));
+      // A password change signs out every other device
+      await revokeUserSessions(session.username, session.id);
+      return NextResponse.json({ ok: true });
+    }
+
+    // ─── User management (admin) ────────────────────────────
+    if (action === "create-user" || action === "set-role" || action === "delete-user") {
+      if (!can(currentUser.role, "users.manage")) {
+        return NextResponse.json({ error: "Forbidden: admin only" }, { status: 403 });
+      }
+      const { username, password, role } = body as {
+        username?: string;
+        password?: string;
+        role?: string;
+      };
+      if (!username) {
+        return NextResponse.json({ error: "username required" }, { status: 400 });
+      }
+
+      if (action === "create-user") {
+        if (!isRole(role)) {
+          return NextResponse.json({ error: "Invalid role" }, { status: 400 });
+        }
+        const user = await createUser(username.trim(), String(password || ""), role);
+        return NextResponse.json({ ok: true, user: { username: user.username, role: user.role } });
+      }
+
+      if (action === "set-role") {
+        if (!isRole(role)) {
+          return NextResponse.json({ error: "Invalid role" }, { status: 400 });
+        }
+        const user = await updateUserRole(username, role);
+        return NextResponse.json({ ok: true, user });
+      }
+
+      if (username === currentUser.username) {
+        return NextResponse.json({ error: "You cannot delete your own account" }, { status: 409 });
+      }
+      await deleteUser(username);
+      return NextResponse.json({ ok: true });
+    }
+
+    return NextResponse.json({ error: "Unknown action" }, { status: 400 });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Auth POST error:", error);
+    return NextResponse.json({ error: "Authentication request failed" }, { status: 500 });
+  }
+}
@@ -1,15 +1,12 @@
 import { NextRequest, NextResponse } from "next/server";
 import fs from "node:fs/promises";
 import path from "node:path";
-import { exec } from "node:child_process";
+import { execFile } from "node:child_process";
 import { promisify } from "node:util";
+import { agentFromRequest } from "@/lib/agents";
+import { requirePermission } from "@/lib/auth";
 
-const execAsync = promisify(exec);
-
-const WORKSPACE_ROOT =
-  process.env.WORKSPACE_PATH || "/home/clawdbot/.openclaw/workspace";
-const AVATAR_FILENAME = "avatar.png";
-const AVATAR_PATH = path.join(WORKSPACE_ROOT, AVATAR_FILENAME);
+const execFileAsync = promisify(execFile);
 
 // Supported image types
 const ALLOWED_TYPES = [
@@ -29,14 +26,15 @@ const EXT_MAP: Record<string, string> = {
 };
 
 /**
- * GET /api/avatar — serve the bot's avatar image if it exists
+ * GET /api/avatar — serve the selected agent's avatar image if it exists
  */
-export async function GET() {
+export async function GET(request: NextRequest) {
+  const workspaceRoot = (await agentFromRequest(request)).workspace;
   // Check for avatar file with any supported extension
   const extensions = [".png", ".jpg", ".jpeg", ".webp", ".gif", ".svg"];
   for (const ext of extensions) {
     const filePath = path.join(
-      WORKSPACE_ROOT,
+      workspaceRoot,
       `avatar${ext}`
     );
     try {
@@ -56,7 +54,8 @@ export async function GET() {
         return new NextResponse(data, {
           headers: {
             "Content-Type": contentType,
-            "Cache-Control": "public, max-age=60, stale-while-revalidate=300",
+            // Private: the image depends on the agent cookie
+            "Cache-Control": "private, max-age=60, stale-while-revalidate=300",
           },
         });
       }
@@ -73,7 +72,11 @@ export async function GET() {
  * Accepts multipart form data with a "file" field.
  */
 export async function POST(request: NextRequest) {
+  const denied = requirePermission(request, "agent.edit");
+  if (denied) return denied;
+
   try {
+    const agent = await agentFromRequest(request);
     const formData = await request.formData();
     const file = formData.get("file") as File | null;
 
@@ -100,13 +103,13 @@ export async function POST(request: NextRequest) {
     }
 
     const ext = EXT_MAP[file.type] || ".png";
-    const avatarPath = path.join(WORKSPACE_ROOT, `avatar${ext}`);
+    const avatarPath = path.join(agent.workspace, `avatar${ext}`);
 
     // Remove old avatar files first
     const extensions = [".png", ".jpg", ".jpeg", ".webp", ".gif", ".svg"];
     for (const oldExt of extensions) {
       try {
-        await fs.unlink(path.join(WORKSPACE_ROOT, `avatar${oldExt}`));
+        await fs.unlink(path.join(agent.workspace, `avatar${oldExt}`));
       } catch {
         // doesn't exist, fine
       }
@@ -118,8 +121,9 @@ export async function POST(request: NextRequest) {
 
     // Try to sync with OpenClaw identity (best-effort)
     try {
-      await execAsync(
-        `openclaw agents set-identity --avatar "workspace/avatar${ext}" 2>/dev/null || true`,
+      await execFileAsync(
+        "openclaw",
+        ["agents", "set-identity", "--agent", agent.id, "--avatar", avatarPath],
         { timeout: 5000 }
       );
     } catch {
@@ -141,14 +145,18 @@ export async function POST(request: NextRequest) {
 }
 
 /**
- * DELETE /api/avatar — remove the bot's avatar
+ * DELETE /api/avatar — remove the selected agent's avatar
  */
-export async function DELETE() {
+export async function DELETE(request: NextRequest) {
+  const denied = requirePermission(request, "agent.edit");
+  if (denied) return denied;
+  const workspaceRoot = (await agentFromRequest(request)).workspace;
+
   const extensions = [".png", ".jpg", ".jpeg", ".webp", ".gif", ".svg"];
   let deleted = false;
   for (const ext of extensions) {
     try {
-      await fs.unlink(path.join(WORKSPACE_ROOT, `avatar${ext}`));
+      await fs.unlink(path.join(workspaceRoot, `avatar${ext}`));
       deleted = true;
     } catch {
       // doesn't exist
@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from "next/server";
 import fs from "node:fs/promises";
 import path from "node:path";
 import { randomBytes } from "node:crypto";
+import { getRequestUser, requirePermission } from "@/lib/auth";
+import { recordActivity } from "@/lib/activity-log";
 
 const OPENCLAW_ROOT = process.env.OPENCLAW_ROOT || "/home/clawdbot/.openclaw";
 const OPENCLAW_CONFIG = process.env.OPENCLAW_CONFIG || path.join(OPENCLAW_ROOT, "openclaw.json");
@@ -113,6 +115,9 @@ export async function GET() {
 }
 
 export async function POST(request: NextRequest) {
+  const denied = requirePermission(request, "config.write");
+  if (denied) return denied;
+
   try {
     const body = await request.json();
     const { config: newConfig, action } = body;
@@ -187,6 +192,18 @@ export async function POST(request: NextRequest) {
     await fs.writeFile(tmpPath, JSON.stringify(final, null, 2), "utf-8");
     await fs.rename(tmpPath, OPENCLAW_CONFIG);
 
+    // Section names only; values may hold secrets
+    const changed = [...new Set([...Object.keys(originalConfig), ...Object.keys(final)])].filter(
+      (key) => key !== "meta" && JSON.stringify(originalConfig[key]) !== JSON.stringify(final[key])
+    );
+    await recordActivity({
+      kind: "config",
+      action: "save",
+      status: "ok",
+      actor: getRequestUser(request)?.username,
+      summary: changed.length > 0 ? `Changed ${changed.join(", ")}` : "Saved without changes",
+    });
+
     return NextResponse.json({ ok: true });
   } catch (error) {
     console.error("Config write error:", error);
@@ -2,6 +2,9 @@ import { NextRequest, NextResponse } from "next/server";
 import fs from "node:fs/promises";
 import path from "node:path";
 import { randomBytes } from "node:crypto";
+import { getRequestUser, requirePermission } from "@/lib/auth";
+import { recordActivity } from "@/lib/activity-log";
+import type { Permission } from "@/lib/permissions";
 
 const OPENCLAW_CONFIG =
   process.env.OPENCLAW_CONFIG || "/home/clawdbot/.openclaw/openclaw.json";
@@ -521,6 +524,16 @@ async function readOpenClawChannels(): Promise<Record<string, { groupPolicy?: st
   return config.channels || {};
 }
 
+// Who may run each POST action; anything unlisted is an address-book edit
+const ACTION_PERMISSIONS: Record<string, Permission> = {
+  "block-user": "contacts.access",
+  "reject-pairing": "contacts.access",
+  "approve-pairing": "contacts.access",
+  "update-group-settings": "groups.manage",
+  "add-group": "groups.manage",
+  "remove-group": "groups.manage",
+};
+
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
@@ -531,6 +544,9 @@ export async function POST(request: NextRequest) {
       code?: string;
     };
 
+    const denied = requirePermission(request, ACTION_PERMISSIONS[action] ?? "contacts.edit");
+    if (denied) return denied;
+
     if (action === "block-user" && userId) {
       const allowPath = path.join(OPENCLAW_CREDENTIALS, `${channel}-allowFrom.json`);
       const data = await readJsonFile<AllowFromStore>(allowPath, {
@@ -565,10 +581,21 @@ export async function POST(request: NextRequest) {
         requests: [],
       });
       const requests = Array.isArray(data.requests) ? data.requests : [];
-      const next = requests.filter(
-        (r) => String(r.code || "").toUpperCase() !== String(code).trim().toUpperCase()
-      );
+      const codeUpper = String(code).trim().toUpperCase();
+      const rejected = requests.find((r) => String(r.code || "").toUpperCase() === codeUpper);
+      const next = requests.filter((r) => r !== rejected);
       await writeJsonFile(pairingPath, { version: 1, requests: next });
+      if (rejected) {
+        await recordActivity({
+          kind: "pairing",
+          action: "reject",
+          status: "ok",
+          actor: getRequestUser(request)?.username,
+          channel,
+          contact: String(rejected.id),
+          summary: `Rejected pairing request from ${rejected.id}`,
+        });
+      }
       return NextResponse.json({ ok: true });
     }
 
@@ -598,6 +625,15 @@ export async function POST(request: NextRequest) {
       if (!allowFrom.includes(id)) {
         await writeJsonFile(allowPath, { version: 1, allowFrom: [...allowFrom, id] });
       }
+      await recordActivity({
+        kind: "pairing",
+        action: "approve",
+        status: "ok",
+        actor: getRequestUser(request)?.username,
+        channel,
+        contact: String(id),
+        summary: `Approved pairing request from ${id}`,
+      });
       return NextResponse.json({ ok: true, id, allowFrom: allowFrom.includes(id) ? allowFrom : [...allowFrom, id] });
     }
 
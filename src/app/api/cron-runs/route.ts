@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from "next/server";
+import { computeCronRunStats, isSafeJobId, readCronRuns } from "@/lib/cron-runs";
+
+/**
+ * GET /api/cron-runs?jobId=… — run history for one cron job, newest first,
+ * with success-rate and duration stats over every recorded run.
+ * ?limit= and ?offset= page the runs; stats always cover all of them.
+ */
+export async function GET(request: NextRequest) {
+  const { searchParams } = request.nextUrl;
+  const jobId = searchParams.get("jobId") || "";
+  if (!jobId || !isSafeJobId(jobId)) {
+    return NextResponse.json({ error: "Valid jobId required" }, { status: 400 });
+  }
+  const limit = Math.min(Math.max(parseInt(searchParams.get("limit") || "50", 10) || 50, 1), 500);
+  const offset = Math.max(parseInt(searchParams.get("offset") || "0", 10) || 0, 0);
+
+  try {
+    const runs = await readCronRuns(jobId);
+    return NextResponse.json({
+      jobId,
+      runs: runs.slice(offset, offset + limit),
+      total: runs.length,
+      stats: computeCronRunStats(runs),
+    });
+  } catch (error) {
+    console.error("Cron runs error:", error);
+    return NextResponse.json({ error: "Failed to read cron runs" }, { status: 500 });
+  }
+}
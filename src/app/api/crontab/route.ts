@@ -1,83 +1,84 @@
-import { NextResponse } from "next/server";
-import { exec } from "node:child_process";
-import { promisify } from "node:util";
+import { NextRequest, NextResponse } from "next/server";
+import { requirePermission } from "@/lib/auth";
+import { publishLiveEvent } from "@/lib/event-hub";
+import {
+  addCrontabEntry,
+  CrontabError,
+  deleteCrontabEntry,
+  listCrontab,
+  setCrontabEntryEnabled,
+  updateCrontabEntry,
+} from "@/lib/system-crontab";
 
-const execAsync = promisify(exec);
+export type { SystemCronEntry } from "@/lib/system-crontab";
 
-export interface SystemCronEntry {
-  id: string;
-  expr: string;
-  command: string;
-  comment?: string;
-  raw: string;
+export async function GET() {
+  try {
+    return NextResponse.json({ entries: await listCrontab() });
+  } catch (error) {
+    console.error("Failed to read crontab:", error);
+    return NextResponse.json({ entries: [] });
+  }
 }
 
-function parseCrontab(output: string): SystemCronEntry[] {
-  const entries: SystemCronEntry[] = [];
-  const lines = output.split("\n");
-  let pendingComment: string | undefined;
+/**
+ * POST /api/crontab — change the system crontab.
+ * Actions: add { expr, script, label? }, update { id, expr?, script?, label? },
+ * toggle { id, enabled }, delete { id }. Lines the command center didn't
+ * write are refused (409, code "unmanaged") unless `force: true` is sent,
+ * which needs admin.
+ */
+export async function POST(request: NextRequest) {
+  const denied = requirePermission(request, "cron.manage");
+  if (denied) return denied;
 
-  for (const line of lines) {
-    const trimmed = line.trim();
+  try {
+    const body = await request.json();
+    const { action, id, force } = body as { action?: string; id?: string; force?: boolean };
 
-    // Skip empty lines
-    if (!trimmed) {
-      pendingComment = undefined;
-      continue;
+    if (force) {
+      const forceDenied = requirePermission(request, "crontab.force");
+      if (forceDenied) return forceDenied;
     }
-
-    // Track comments (they often label the next cron line)
-    if (trimmed.startsWith("#")) {
-      pendingComment = trimmed.slice(1).trim();
-      continue;
+    if (action !== "add" && (typeof id !== "string" || !id)) {
+      return NextResponse.json({ error: "Entry id required" }, { status: 400 });
     }
 
-    // Parse cron line: 5 fields + command
-    // Format: min hour dom mon dow command
-    const match = trimmed.match(
-      /^(\S+)\s+(\S+)\s+(\S+)\s+(\S+)\s+(\S+)\s+(.+)$/
-    );
-    if (!match) continue;
-
-    const [, min, hour, dom, mon, dow, commandWithComment] = match;
-    const expr = `${min} ${hour} ${dom} ${mon} ${dow}`;
-
-    // Extract inline comment from command (e.g. "cmd # My Comment")
-    let command = commandWithComment;
-    let inlineComment: string | undefined;
-    const commentIdx = commandWithComment.indexOf(" # ");
-    if (commentIdx !== -1) {
-      command = commandWithComment.slice(0, commentIdx).trim();
-      inlineComment = commandWithComment.slice(commentIdx + 3).trim();
+    let createdId: string | undefined;
+    switch (action) {
+      case "add": {
+        const { expr, script, label } = body as { expr?: string; script?: string; label?: string };
+        if (typeof expr !== "string" || typeof script !== "string") {
+          return NextResponse.json({ error: "Schedule and script required" }, { status: 400 });
+        }
+        createdId = await addCrontabEntry({ expr, script, label });
+        break;
+      }
+      case "update": {
+        const { expr, script, label } = body as { expr?: string; script?: string; label?: string };
+        await updateCrontabEntry(id!, { expr, script, label }, !!force);
+        break;
+      }
+      case "toggle":
+        if (typeof body.enabled !== "boolean") {
+          return NextResponse.json({ error: "enabled must be a boolean" }, { status: 400 });
+        }
+        await setCrontabEntryEnabled(id!, body.enabled, !!force);
+        break;
+      case "delete":
+        await deleteCrontabEntry(id!, !!force);
+        break;
+      default:
+        return NextResponse.json({ error: `Unknown action: ${action}` }, { status: 400 });
     }
 
-    const comment = inlineComment || pendingComment;
-    const id = `syscron-${Buffer.from(trimmed).toString("base64url").slice(0, 16)}`;
-
-    entries.push({
-      id,
-      expr,
-      command,
-      comment,
-      raw: trimmed,
-    });
-
-    pendingComment = undefined;
-  }
-
-  return entries;
-}
-
-export async function GET() {
-  try {
-    // crontab -l returns exit 1 when no crontab exists, so redirect stderr
-    const { stdout } = await execAsync("crontab -l 2>/dev/null || true", {
-      timeout: 5000,
-    });
-    const entries = parseCrontab(stdout);
-    return NextResponse.json({ entries });
+    publishLiveEvent("cron", "crontab.changed", { action, id: createdId ?? id });
+    return NextResponse.json({ success: true, id: createdId ?? id, entries: await listCrontab() });
   } catch (error) {
-    console.error("Failed to read crontab:", error);
-    return NextResponse.json({ entries: [] });
+    if (error instanceof CrontabError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.status });
+    }
+    console.error("Crontab update error:", error);
+    return NextResponse.json({ error: "Failed to update crontab" }, { status: 500 });
   }
 }
@@ -5,26 +5,21 @@ import os from "node:os";
 import { execFile } from "node:child_process";
 import { promisify } from "node:util";
 import { gatewayRequest } from "../gateway/route";
-import { readAgentIdentity, DEFAULT_AGENT_NAME } from "@/lib/agent-identity";
+import {
+  agentFromRequest,
+  agentIdentity,
+  cronJobAgent,
+  listAgents,
+  type AgentDescriptor,
+} from "@/lib/agents";
+import type { AgentOverview } from "@/lib/dashboard-cache";
+import type { CronJob } from "@/lib/gateway-methods";
 
 const execFileAsync = promisify(execFile);
 
 const OPENCLAW_ROOT = process.env.OPENCLAW_ROOT || "/home/clawdbot/.openclaw";
 const OPENCLAW_CONFIG =
   process.env.OPENCLAW_CONFIG || path.join(OPENCLAW_ROOT, "openclaw.json");
-const IDENTITY_PATH =
-  process.env.IDENTITY_PATH || path.join(OPENCLAW_ROOT, "workspace", "IDENTITY.md");
-const SOUL_PATH =
-  process.env.SOUL_PATH || path.join(OPENCLAW_ROOT, "workspace", "SOUL.md");
-const WORKSPACE_ROOT =
-  process.env.WORKSPACE_PATH || path.join(OPENCLAW_ROOT, "workspace");
-const SESSIONS_PATH = path.join(
-  OPENCLAW_ROOT,
-  "agents",
-  "main",
-  "sessions",
-  "sessions.json"
-);
 
 // Disk cache (shared with system-health route concept)
 let cachedDiskMb = 0;
@@ -48,6 +43,49 @@ async function getDiskUsage(): Promise<number> {
   return cachedDiskMb;
 }
 
+/** Session counts of one agent; an unreadable sessions.json counts as none. */
+async function readSessionCounts(
+  agent: AgentDescriptor
+): Promise<{ total: number; active: number; tokens: number }> {
+  const counts = { total: 0, active: 0, tokens: 0 };
+  try {
+    const raw = await fs.readFile(path.join(agent.sessionsDir, "sessions.json"), "utf-8");
+    const sessions = JSON.parse(raw) as Record<string, { updatedAt?: number; tokenCount?: number }>;
+    const fiveMinAgo = Date.now() - 5 * 60 * 1000;
+    for (const session of Object.values(sessions)) {
+      counts.total++;
+      counts.tokens += session.tokenCount || 0;
+      if (session.updatedAt && session.updatedAt > fiveMinAgo) counts.active++;
+    }
+  } catch {
+    // no sessions yet, or malformed
+  }
+  return counts;
+}
+
+/** One card per agent for the dashboard's cross-agent overview. */
+async function readAgentOverview(
+  agents: AgentDescriptor[],
+  cronJobs: CronJob[]
+): Promise<AgentOverview[]> {
+  const defaultId = agents.find((a) => a.isDefault)?.id ?? agents[0]?.id;
+  return Promise.all(
+    agents.map(async (agent) => {
+      const [identity, sessions] = await Promise.all([agentIdentity(agent), readSessionCounts(agent)]);
+      const jobs = cronJobs.filter((job) => cronJobAgent(job, defaultId) === agent.id);
+      return {
+        id: agent.id,
+        name: identity.name,
+        emoji: identity.emoji,
+        isDefault: agent.isDefault,
+        sessions,
+        cronJobs: jobs.length,
+        cronErrors: jobs.filter((job) => job.state?.lastStatus === "error").length,
+      };
+    })
+  );
+}
+
 /**
  * Single endpoint that returns ALL data needed for the dashboard page.
  * Replaces 7+ separate HTTP requests with 1.
@@ -56,9 +94,16 @@ async function getDiskUsage(): Promise<number> {
  *   - Gateway: system-presence / status, cron.list, last-heartbeat
  *   - Filesystem: PROPOSALS.md, HEARTBEAT.md, IDENTITY, config, sessions, avatar check
  *   - OS: memory, load, disk
+ *
+ * Workspace, identity, sessions and cron jobs are the selected agent's;
+ * `agents` summarizes every agent.
  */
-export async function GET() {
+export async function GET(request: Request) {
   try {
+    const agents = await listAgents();
+    const agent = await agentFromRequest(request);
+    const workspaceRoot = agent.workspace;
+
     // Fire ALL async work in parallel
     const [
       presenceResult,
@@ -80,29 +125,25 @@ export async function GET() {
       gatewayRequest("cron.list", { includeDisabled: true }).catch(() => null),
       gatewayRequest("last-heartbeat", {}).catch(() => null),
       // Workspace files
-      fs.readFile(path.join(WORKSPACE_ROOT, "PROPOSALS.md"), "utf-8").catch(
+      fs.readFile(path.join(workspaceRoot, "PROPOSALS.md"), "utf-8").catch(
         () => ""
       ),
-      fs.readFile(path.join(WORKSPACE_ROOT, "HEARTBEAT.md"), "utf-8").catch(
+      fs.readFile(path.join(workspaceRoot, "HEARTBEAT.md"), "utf-8").catch(
         () => ""
       ),
       fs.readFile(OPENCLAW_CONFIG, "utf-8").catch(() => ""),
-      fs.readFile(SESSIONS_PATH, "utf-8").catch(() => ""),
+      readSessionCounts(agent),
       // System
       getDiskUsage(),
       // Avatar check (parallel stat)
       Promise.allSettled(
         [".png", ".jpg", ".jpeg", ".webp", ".gif", ".svg"].map((ext) =>
           fs
-            .stat(path.join(WORKSPACE_ROOT, `avatar${ext}`))
+            .stat(path.join(workspaceRoot, `avatar${ext}`))
             .then((s) => s.isFile())
         )
       ),
-      readAgentIdentity({
-        identityPath: IDENTITY_PATH,
-        soulPath: SOUL_PATH,
-        configPath: OPENCLAW_CONFIG,
-      }),
+      agentIdentity(agent),
     ]);
 
     // ── Gateway health ──
@@ -121,12 +162,14 @@ export async function GET() {
     // ── Cron jobs ──
     const cronVal =
       cronResult.status === "fulfilled" ? cronResult.value : null;
-    const cronJobs =
+    const allCronJobs =
       cronVal &&
       typeof cronVal === "object" &&
       "jobs" in (cronVal as Record<string, unknown>)
-        ? (cronVal as { jobs: unknown[] }).jobs
+        ? (cronVal as { jobs: CronJob[] }).jobs
         : [];
+    const defaultAgentId = agents.find((a) => a.isDefault)?.id ?? agent.id;
+    const cronJobs = allCronJobs.filter((job) => cronJobAgent(job, defaultAgentId) === agent.id);
 
     // ── Heartbeat ──
     const heartbeatVal =
@@ -148,18 +191,17 @@ export async function GET() {
         ? (configResult.value as string)
         : "";
 
-    const identity =
-      identityResolved.status === "fulfilled" ? identityResolved.value : {};
-    const name = identity.name || DEFAULT_AGENT_NAME;
-    const emoji = identity.emoji || "🦞";
-    const description = identity.description || "";
+    const { name, emoji, description } =
+      identityResolved.status === "fulfilled"
+        ? identityResolved.value
+        : { name: agent.name || agent.id, emoji: "🦞", description: "" };
 
     let model = "unknown";
     let provider = "unknown";
     if (configRaw) {
       try {
         const config = JSON.parse(configRaw);
-        const primaryModel = config?.agents?.defaults?.model?.primary;
+        const primaryModel = agent.model ?? config?.agents?.defaults?.model?.primary;
         if (primaryModel) {
           const parts = primaryModel.split("/");
           provider = parts[0] || "unknown";
@@ -187,29 +229,13 @@ export async function GET() {
     const disk =
       diskUsedMb.status === "fulfilled" ? (diskUsedMb.value as number) : 0;
 
-    let sessionsTotal = 0;
-    let sessionsActive = 0;
-    const sessionsRaw =
+    const sessionCounts =
       sessionsResult.status === "fulfilled"
-        ? (sessionsResult.value as string)
-        : "";
-    if (sessionsRaw) {
-      try {
-        const sessions = JSON.parse(sessionsRaw) as Record<
-          string,
-          { updatedAt?: number }
-        >;
-        const fiveMinAgo = Date.now() - 5 * 60 * 1000;
-        for (const session of Object.values(sessions)) {
-          sessionsTotal++;
-          if (session.updatedAt && session.updatedAt > fiveMinAgo) {
-            sessionsActive++;
-          }
-        }
-      } catch {
-        // malformed sessions
-      }
-    }
+        ? sessionsResult.value
+        : { total: 0, active: 0, tokens: 0 };
+
+    // ── Agents ──
+    const agentOverview = await readAgentOverview(agents, allCronJobs);
 
     let maxConcurrent = 4;
     if (configRaw) {
@@ -222,6 +248,8 @@ export async function GET() {
     }
 
     return NextResponse.json({
+      agentId: agent.id,
+      agents: agentOverview,
       health: { connected, uptime },
       cronJobs,
       heartbeat: heartbeatVal,
@@ -236,7 +264,7 @@ export async function GET() {
           loadAvg: loadAvg.map((v) => Math.round(v * 100) / 100),
           diskUsedMb: disk,
         },
-        sessions: { total: sessionsTotal, active: sessionsActive },
+        sessions: { total: sessionCounts.total, active: sessionCounts.active },
         agent: { model, maxConcurrent },
       },
     });
@@ -0,0 +1,98 @@
+import { NextRequest } from "next/server";
+import {
+  liveEventEpoch,
+  liveEventsSince,
+  subscribeLiveEvents,
+} from "@/lib/event-hub";
+import { getGatewayTransport } from "@/lib/gateway-transport";
+import { LIVE_TOPICS, isLiveTopic, type LiveEvent, type LiveTopic } from "@/lib/live-events";
+
+export const dynamic = "force-dynamic";
+
+const KEEPALIVE_MS = 20_000;
+const RETRY_MS = 3_000;
+
+/** SSE ids are `${epoch}:${id}` so a restarted server can tell stale ids apart. */
+function parseLastEventId(raw: string | null): { epoch: string; id: number } | null {
+  if (!raw) return null;
+  const [epoch, id] = raw.split(":");
+  const n = Number(id);
+  if (!epoch || !Number.isInteger(n) || n < 0) return null;
+  return { epoch, id: n };
+}
+
+/**
+ * GET /api/events — Server-Sent Events relay of gateway events.
+ * ?topics=cron,devices limits the stream; Last-Event-ID (header, or
+ * ?lastEventId= for a fresh EventSource) resumes after a reconnect.
+ */
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  const requested = (params.get("topics") || "").split(",").filter(isLiveTopic);
+  const topics = new Set<LiveTopic>(requested.length > 0 ? requested : LIVE_TOPICS);
+  const resume = parseLastEventId(
+    request.headers.get("last-event-id") || params.get("lastEventId")
+  );
+
+  // Make sure the gateway socket is up so there's something to relay
+  const transport = getGatewayTransport();
+  const epoch = liveEventEpoch();
+  const encoder = new TextEncoder();
+
+  let cleanup = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const write = (chunk: string) => {
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          cleanup();
+        }
+      };
+      const send = (evt: LiveEvent) => {
+        if (!topics.has(evt.topic)) return;
+        write(`id: ${epoch}:${evt.id}\nevent: ${evt.topic}\ndata: ${JSON.stringify(evt)}\n\n`);
+      };
+
+      write(`retry: ${RETRY_MS}\n\n`);
+      write(
+        `event: ready\ndata: ${JSON.stringify({ epoch, transport: transport.status() })}\n\n`
+      );
+
+      if (resume) {
+        const { events, gap } = liveEventsSince(resume.epoch, resume.id);
+        // Missed events we can't replay: tell the client to refetch everything
+        if (gap) write(`event: resync\ndata: {}\n\n`);
+        for (const evt of events) send(evt);
+      }
+
+      const unsubscribe = subscribeLiveEvents(send);
+      const keepalive = setInterval(() => write(`: keepalive\n\n`), KEEPALIVE_MS);
+
+      cleanup = () => {
+        clearInterval(keepalive);
+        unsubscribe();
+        cleanup = () => {};
+        try {
+          controller.close();
+        } catch {
+          // already closed
+        }
+      };
+      request.signal.addEventListener("abort", () => cleanup());
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    },
+  });
+}
@@ -1,56 +1,38 @@
 import { NextRequest, NextResponse } from "next/server";
-import { exec } from "node:child_process";
-import { promisify } from "node:util";
-import path from "node:path";
-import fs from "node:fs/promises";
-
-const execAsync = promisify(exec);
-
-// Trusted script directories - only scripts from these dirs can be executed
-const TRUSTED_SCRIPT_DIRS = [
-  process.env.SCRIPTS_PATH || "/home/clawdbot/.openclaw/workspace/scripts",
-  "/home/clawdbot/.openclaw/scripts",
-];
-
-const WORKSPACE_DIR = process.env.WORKSPACE_PATH || "/home/clawdbot/.openclaw/workspace";
-
-// Find the script in one of the trusted directories
-// Returns full path if found AND the script is a .sh file
-async function findTrustedScript(scriptName: string): Promise<string | null> {
-  // Security: Only allow .sh files
-  if (!scriptName.endsWith(".sh")) {
-    return null;
-  }
-  
-  // Security: No path traversal
-  const baseName = path.basename(scriptName);
-  if (baseName !== scriptName || scriptName.includes("..")) {
-    return null;
-  }
-  
-  for (const dir of TRUSTED_SCRIPT_DIRS) {
-    const scriptPath = path.join(dir, baseName);
-    try {
-      const stat = await fs.stat(scriptPath);
-      if (stat.isFile()) {
-        // Verify the resolved path is still within the trusted directory
-        const realPath = await fs.realpath(scriptPath);
-        const realDir = await fs.realpath(dir).catch(() => dir);
-        if (realPath.startsWith(realDir)) {
-          return scriptPath;
-        }
-      }
-    } catch {
-      // Script not in this directory, try next
-    }
-  }
-  return null;
-}
+import { getRequestUser, requirePermission } from "@/lib/auth";
+import {
+  cancelScriptRun,
+  getScriptRun,
+  listScriptRuns,
+  prepareScriptInput,
+  ScriptRunError,
+  startScriptRun,
+  subscribeScriptRun,
+  type ScriptRunEvent,
+} from "@/lib/script-runs";
+import { findTrustedScript } from "@/lib/trusted-scripts";
+
+export const dynamic = "force-dynamic";
 
+const KEEPALIVE_MS = 20_000;
+
+/**
+ * POST /api/exec — start a trusted script. Returns straight away with the
+ * run (id, timeout); follow its output with GET /api/exec?runId=….
+ * Scripts that declare "# @param" lines take `params` (by name), checked
+ * against the declarations; others take free-form `args`.
+ */
 export async function POST(request: NextRequest) {
+  const denied = requirePermission(request, "scripts.run");
+  if (denied) return denied;
+
   try {
     const body = await request.json();
-    const { script, args } = body as { script?: string; args?: string[] };
+    const { script, args, params } = body as {
+      script?: string;
+      args?: string[];
+      params?: Record<string, unknown>;
+    };
 
     if (!script) {
       return NextResponse.json(
@@ -58,6 +40,12 @@ export async function POST(request: NextRequest) {
         { status: 400 }
       );
     }
+    if (args !== undefined && (!Array.isArray(args) || args.some((a) => typeof a !== "string"))) {
+      return NextResponse.json({ error: "args must be an array of strings" }, { status: 400 });
+    }
+    if (params !== undefined && (typeof params !== "object" || params === null || Array.isArray(params))) {
+      return NextResponse.json({ error: "params must be an object" }, { status: 400 });
+    }
 
     // Find script in trusted directories
     const scriptPath = await findTrustedScript(script);
@@ -68,31 +56,114 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Build command with safe args
-    const safeArgs = (args || [])
-      .map((arg) => `"${String(arg).replace(/"/g, '\\"')}"`)
-      .join(" ");
+    const prepared = await prepareScriptInput(scriptPath, { args, params });
+    const run = await startScriptRun(scriptPath, prepared.args, {
+      ...prepared,
+      startedBy: getRequestUser(request)?.username,
+    });
+    return NextResponse.json({ success: true, run });
+  } catch (error) {
+    if (error instanceof ScriptRunError) {
+      return NextResponse.json(
+        { error: error.message, fieldErrors: error.fieldErrors },
+        { status: error.status }
+      );
+    }
+    console.error("Exec error:", error);
+    return NextResponse.json({ error: "Failed to start script" }, { status: 500 });
+  }
+}
 
-    const command = `bash "${scriptPath}" ${safeArgs}`.trim();
+/**
+ * GET /api/exec — runs in this server process.
+ * GET /api/exec?runId=… — Server-Sent Events: `output` chunks as the script
+ * writes them, then one `exit` with the final run. Event ids are output
+ * sequence numbers, so Last-Event-ID (or ?lastEventId= for a fresh
+ * EventSource) resumes without repeats.
+ */
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  const runId = params.get("runId");
+  if (!runId) {
+    return NextResponse.json({ runs: listScriptRuns() });
+  }
+  if (!getScriptRun(runId)) {
+    return NextResponse.json({ error: "Run not found" }, { status: 404 });
+  }
 
-    const { stdout, stderr } = await execAsync(command, {
-      cwd: WORKSPACE_DIR,
-      timeout: 60000, // 60 second timeout
-      maxBuffer: 1024 * 1024, // 1MB buffer
-    });
+  const after = Number(request.headers.get("last-event-id") || params.get("lastEventId") || 0) || 0;
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
 
-    return NextResponse.json({
-      success: true,
-      stdout: stdout.slice(0, 10000), // Limit output size
-      stderr: stderr.slice(0, 10000),
-    });
-  } catch (error) {
-    const execError = error as { stdout?: string; stderr?: string; message?: string };
-    return NextResponse.json({
-      success: false,
-      error: execError.message || "Execution failed",
-      stdout: execError.stdout?.slice(0, 10000) || "",
-      stderr: execError.stderr?.slice(0, 10000) || "",
-    });
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let closed = false;
+      const write = (chunk: string) => {
+        if (closed) return;
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          cleanup();
+        }
+      };
+
+      let unsubscribe: (() => void) | null = null;
+      const keepalive = setInterval(() => write(`: keepalive\n\n`), KEEPALIVE_MS);
+      cleanup = () => {
+        if (closed) return;
+        closed = true;
+        clearInterval(keepalive);
+        unsubscribe?.();
+        try {
+          controller.close();
+        } catch {
+          // already closed
+        }
+      };
+
+      const send = (evt: ScriptRunEvent) => {
+        if (evt.type === "output") {
+          write(`id: ${evt.chunk.seq}\nevent: output\ndata: ${JSON.stringify(evt.chunk)}\n\n`);
+        } else {
+          write(`event: exit\ndata: ${JSON.stringify(evt.run)}\n\n`);
+          // Let the caller see the exit before the stream ends
+          queueMicrotask(() => cleanup());
+        }
+      };
+
+      unsubscribe = subscribeScriptRun(runId, after, send);
+      request.signal.addEventListener("abort", () => cleanup());
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    },
+  });
+}
+
+/** DELETE /api/exec?runId=… — cancel a run: SIGTERM, then SIGKILL after a grace period. */
+export async function DELETE(request: NextRequest) {
+  const denied = requirePermission(request, "scripts.run");
+  if (denied) return denied;
+
+  const runId = request.nextUrl.searchParams.get("runId");
+  if (!runId) {
+    return NextResponse.json({ error: "runId required" }, { status: 400 });
+  }
+  if (!cancelScriptRun(runId)) {
+    const run = getScriptRun(runId);
+    return NextResponse.json(
+      { error: run ? "Run already finished" : "Run not found" },
+      { status: run ? 409 : 404 }
+    );
   }
+  return NextResponse.json({ success: true, run: getScriptRun(runId) });
 }
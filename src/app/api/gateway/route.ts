@@ -1,89 +1,125 @@
 import { NextRequest, NextResponse } from "next/server";
-import { execFile } from "node:child_process";
-import { promisify } from "node:util";
-
-const execFileAsync = promisify(execFile);
-const GATEWAY_TIMEOUT_MS = 15_000;
-
-// Tiered cache TTLs: volatile data gets short TTL, stable data gets longer
-const CACHE_TTLS: Record<string, number> = {
-  "status": 10_000,
-  "health": 10_000,
-  "system-presence": 8_000,
-  "last-heartbeat": 10_000,
-  "cron.list": 15_000,
-  "cron.status": 15_000,
-  "skills.status": 30_000,
-  "device.pair.list": 20_000,
-};
+import { getRequestUser, requirePermission } from "@/lib/auth";
+import { recordActivity } from "@/lib/activity-log";
+import {
+  GatewayCallError,
+  validateGatewayCall,
+  type GatewayMethod,
+  type GatewayParams,
+  type GatewayResult,
+  type ValidatedGatewayCall,
+} from "@/lib/gateway-methods";
+import { getGatewayTransport } from "@/lib/gateway-transport";
+import { lastLiveEventAt } from "@/lib/event-hub";
 
 type CacheEntry = {
+  storedAt: number;
   expiresAt: number;
   data: unknown;
 };
 
 const responseCache = new Map<string, CacheEntry>();
 const inflight = new Map<string, Promise<unknown>>();
+// Bumped whenever a method's cache is invalidated, so a read that was already
+// in flight when a write landed doesn't store its stale result afterwards.
+const generations = new Map<string, number>();
+
+const cacheStats = {
+  hits: 0,
+  misses: 0,
+  coalesced: 0,
+  busts: 0,
+  invalidations: 0,
+  byMethod: {} as Record<string, { hits: number; misses: number }>,
+};
+
+function makeCacheKey(method: string, params: Record<string, unknown>): string {
+  return `${method}:${JSON.stringify(params)}`;
+}
+
+function countLookup(method: string, hit: boolean) {
+  const entry = (cacheStats.byMethod[method] ??= { hits: 0, misses: 0 });
+  if (hit) {
+    cacheStats.hits++;
+    entry.hits++;
+  } else {
+    cacheStats.misses++;
+    entry.misses++;
+  }
+}
 
-function makeCacheKey(method: string, params: unknown): string {
-  const safeParams =
-    params && typeof params === "object" && !Array.isArray(params) ? params : {};
-  return `${method}:${JSON.stringify(safeParams)}`;
+function invalidateMethods(methods: GatewayMethod[]) {
+  for (const method of methods) {
+    generations.set(method, (generations.get(method) ?? 0) + 1);
+    const prefix = `${method}:`;
+    for (const key of responseCache.keys()) {
+      if (key.startsWith(prefix)) responseCache.delete(key);
+    }
+    for (const key of inflight.keys()) {
+      if (key.startsWith(prefix)) inflight.delete(key);
+    }
+    cacheStats.invalidations++;
+  }
 }
 
-// Use the OpenClaw CLI as a stable gateway transport bridge.
-async function gatewayRequest(method: string, params: unknown = {}): Promise<unknown> {
+interface CallOptions {
+  /** Skip the cache lookup and refresh the entry from the gateway. */
+  fresh?: boolean;
+}
+
+// Calls go over the shared gateway socket (CLI fallback while it's down) and
+// are checked against the method registry before anything is sent.
+async function gatewayRequest<M extends GatewayMethod>(
+  method: M,
+  params?: GatewayParams<M>,
+  options?: CallOptions
+): Promise<GatewayResult<M>> {
+  const call = validateGatewayCall(method, params);
+  return (await runGatewayCall(call, options)) as GatewayResult<M>;
+}
+
+async function runGatewayCall(
+  { method, params, spec }: ValidatedGatewayCall,
+  { fresh = false }: CallOptions = {}
+): Promise<unknown> {
   const key = makeCacheKey(method, params);
-  const now = Date.now();
-  const ttl = CACHE_TTLS[method];
+  const ttl = spec.cacheTtlMs;
   const canCache = ttl !== undefined;
 
-  if (canCache) {
+  if (canCache && fresh) {
+    cacheStats.busts++;
+  } else if (canCache) {
     const cached = responseCache.get(key);
-    if (cached && cached.expiresAt > now) {
+    // A live event on a related topic (e.g. a cron run finished) beats the TTL
+    const invalidated =
+      spec.staleOn && cached && lastLiveEventAt(spec.staleOn) >= cached.storedAt;
+    if (cached && cached.expiresAt > Date.now() && !invalidated) {
+      countLookup(method, true);
       return cached.data;
     }
     const pending = inflight.get(key);
     if (pending) {
+      cacheStats.coalesced++;
       return pending;
     }
   }
+  if (canCache) countLookup(method, false);
 
+  const generation = generations.get(method) ?? 0;
   const run = (async () => {
-    const safeParams =
-      params && typeof params === "object" && !Array.isArray(params) ? params : {};
-
-    const { stdout, stderr } = await execFileAsync(
-      "openclaw",
-      [
-        "gateway",
-        "call",
-        method,
-        "--json",
-        "--timeout",
-        String(GATEWAY_TIMEOUT_MS),
-        "--params",
-        JSON.stringify(safeParams),
-      ],
-      { timeout: GATEWAY_TIMEOUT_MS + 3000 }
-    );
-
-    const trimmed = stdout.trim();
-    if (!trimmed) {
-      throw new Error(`Gateway call returned empty output${stderr ? `: ${stderr.trim()}` : ""}`);
-    }
-
-    let parsed: unknown;
     try {
-      parsed = JSON.parse(trimmed);
-    } catch {
-      throw new Error(`Gateway call returned non-JSON output: ${trimmed.slice(0, 400)}`);
-    }
-
-    if (canCache && ttl) {
-      responseCache.set(key, { data: parsed, expiresAt: Date.now() + ttl });
+      // Reads may be retried over the CLI if the socket drops mid-call
+      const result = await getGatewayTransport().call(method, params, {
+        idempotent: spec.permission === "read",
+      });
+      if (canCache && (generations.get(method) ?? 0) === generation) {
+        responseCache.set(key, { data: result, storedAt: Date.now(), expiresAt: Date.now() + ttl });
+      }
+      return result;
+    } finally {
+      // Even a failed write may have partly applied: drop what it touches
+      if (spec.invalidates) invalidateMethods(spec.invalidates);
     }
-    return parsed;
   })();
 
   if (canCache) {
@@ -93,67 +129,162 @@ async function gatewayRequest(method: string, params: unknown = {}): Promise<unk
   try {
     return await run;
   } finally {
-    if (canCache) {
+    if (canCache && inflight.get(key) === run) {
       inflight.delete(key);
     }
   }
 }
 
+/** Cache contents and counters, for debugging via GET /api/gateway?stats=true. */
+function getCacheStats() {
+  const now = Date.now();
+  return {
+    ...cacheStats,
+    entries: [...responseCache.entries()].map(([key, entry]) => ({
+      key,
+      ageMs: now - entry.storedAt,
+      expiresInMs: Math.max(0, entry.expiresAt - now),
+    })),
+    inflight: [...inflight.keys()],
+  };
+}
+
 // Exported for use by other server-side API routes (avoids self-referential HTTP)
 export { gatewayRequest };
 
+/** Validate one call and check the caller's role; returns an error response or the call. */
+function checkCall(
+  request: NextRequest,
+  method: unknown,
+  params: unknown
+): NextResponse | ValidatedGatewayCall {
+  const call = validateGatewayCall(method, params);
+  const denied = requirePermission(request, call.spec.permission);
+  return denied ?? call;
+}
+
+// The gateway keeps no record of who approved a device, so the activity log does
+const PAIRING_ACTIONS: Partial<Record<string, "approve" | "reject">> = {
+  "device.pair.approve": "approve",
+  "device.pair.reject": "reject",
+};
+
+async function recordPairingCall(request: NextRequest, call: ValidatedGatewayCall, error?: unknown) {
+  const action = PAIRING_ACTIONS[call.method];
+  if (!action) return;
+  const requestId = String(call.params.requestId ?? "");
+  await recordActivity({
+    kind: "pairing",
+    action,
+    status: error ? "error" : "ok",
+    actor: getRequestUser(request)?.username,
+    channel: "device",
+    contact: requestId,
+    summary: `${action === "approve" ? "Approved" : "Rejected"} device pairing request ${requestId}${
+      error ? `: ${error instanceof Error ? error.message : String(error)}` : ""
+    }`,
+  });
+}
+
+function errorResponse(error: unknown) {
+  if (error instanceof GatewayCallError) {
+    return NextResponse.json({ ok: false, error: error.message }, { status: error.status });
+  }
+  console.error("Gateway call error:", error);
+  const message = error instanceof Error ? error.message : String(error);
+  return NextResponse.json({ ok: false, error: message }, { status: 502 });
+}
+
 export async function POST(request: NextRequest) {
+  let body: { batch?: unknown; method?: unknown; params?: unknown; fresh?: unknown };
   try {
-    const body = await request.json();
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ ok: false, error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  // { fresh: true } bypasses the response cache for every call in the request
+  const options: CallOptions = { fresh: body.fresh === true };
 
+  try {
     // Batch mode: { batch: [{ method, params }, ...] }
     if (Array.isArray(body.batch)) {
-      const calls = body.batch as Array<{ method: string; params?: unknown }>;
+      const calls = body.batch as Array<{ method?: unknown; params?: unknown }>;
       if (calls.length > 10) {
-        return NextResponse.json({ error: "Max 10 batch calls" }, { status: 400 });
+        return NextResponse.json({ ok: false, error: "Max 10 batch calls" }, { status: 400 });
       }
+
+      // Validate the whole batch before spawning anything
+      const checked: ValidatedGatewayCall[] = [];
+      for (const [i, c] of calls.entries()) {
+        let result: NextResponse | ValidatedGatewayCall;
+        try {
+          result = checkCall(request, c?.method, c?.params);
+        } catch (error) {
+          if (error instanceof GatewayCallError) {
+            throw new GatewayCallError(`batch[${i}]: ${error.message}`, error.status);
+          }
+          throw error;
+        }
+        if (result instanceof NextResponse) return result;
+        checked.push(result);
+      }
+
       const results = await Promise.allSettled(
-        calls.map((c) => gatewayRequest(c.method, c.params || {}))
+        checked.map((c) => runGatewayCall(c, options))
+      );
+      await Promise.all(
+        results.map((r, i) => recordPairingCall(request, checked[i], r.status === "rejected" ? r.reason : undefined))
       );
       const data = results.map((r, i) =>
         r.status === "fulfilled"
-          ? { ok: true, method: calls[i].method, data: r.value }
-          : { ok: false, method: calls[i].method, error: String(r.reason) }
+          ? { ok: true, method: checked[i].method, data: r.value }
+          : {
+              ok: false,
+              method: checked[i].method,
+              error: r.reason instanceof Error ? r.reason.message : String(r.reason),
+            }
       );
       return NextResponse.json({ ok: true, results: data });
     }
 
     // Single call mode
-    const { method, params } = body as { method: string; params?: unknown };
-    if (!method) {
-      return NextResponse.json({ error: "Method required" }, { status: 400 });
-    }
+    const call = checkCall(request, body.method, body.params);
+    if (call instanceof NextResponse) return call;
 
-    const result = await gatewayRequest(method, params || {});
+    let result: unknown;
+    try {
+      result = await runGatewayCall(call, options);
+    } catch (error) {
+      await recordPairingCall(request, call, error);
+      throw error;
+    }
+    await recordPairingCall(request, call);
     return NextResponse.json({ ok: true, data: result });
   } catch (error) {
-    return NextResponse.json(
-      { ok: false, error: String(error) },
-      { status: 500 }
-    );
+    return errorResponse(error);
   }
 }
 
 export async function GET(request: NextRequest) {
   const searchParams = request.nextUrl.searchParams;
-  const method = searchParams.get("method");
 
-  if (!method) {
-    return NextResponse.json({ error: "Method required" }, { status: 400 });
+  if (searchParams.get("stats") === "true") {
+    const denied = requirePermission(request, "read");
+    if (denied) return denied;
+    return NextResponse.json({
+      ok: true,
+      data: { cache: getCacheStats(), transport: getGatewayTransport().status() },
+    });
   }
 
   try {
-    const result = await gatewayRequest(method, {});
+    const call = checkCall(request, searchParams.get("method"), {});
+    if (call instanceof NextResponse) return call;
+
+    const result = await runGatewayCall(call, { fresh: searchParams.get("fresh") === "true" });
     return NextResponse.json({ ok: true, data: result });
   } catch (error) {
-    return NextResponse.json(
-      { ok: false, error: String(error) },
-      { status: 500 }
-    );
+    return errorResponse(error);
   }
 }
@@ -0,0 +1,209 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requirePermission } from "@/lib/auth";
+import {
+  LOG_LEVELS,
+  LogTailError,
+  compilePattern,
+  findLogOffset,
+  listLogFiles,
+  readLogAppends,
+  readLogPage,
+  resolveLogFile,
+  startFollowing,
+  type FollowCursor,
+  type LogFilter,
+  type LogLevel,
+} from "@/lib/log-tail";
+import { SettingsError, updateSettings, validateLogFiles } from "@/lib/settings";
+
+export const dynamic = "force-dynamic";
+
+const KEEPALIVE_MS = 20_000;
+const POLL_MS = 1_000;
+
+function parseOffset(value: string | null, name: string): number | undefined {
+  if (value === null || value === "") return undefined;
+  const n = Number(value);
+  if (!Number.isInteger(n) || n < 0) throw new LogTailError(`Invalid ${name}: ${value}`);
+  return n;
+}
+
+function parseFilter(params: URLSearchParams): LogFilter {
+  const level = params.get("level");
+  if (level && !LOG_LEVELS.includes(level as LogLevel)) {
+    throw new LogTailError(`Unknown level: ${level}`);
+  }
+  const q = params.get("q");
+  return {
+    minLevel: (level as LogLevel) || undefined,
+    pattern: q ? compilePattern(q) : undefined,
+  };
+}
+
+/**
+ * Server-Sent Events: `lines` as they're appended to the file. Event ids are
+ * the byte offset reading continues from, so Last-Event-ID (or ?from= for a
+ * fresh EventSource) resumes exactly where the previous stream stopped. A
+ * `reset` event means the file was rotated or truncated; `failed` means the
+ * filter can't be applied and the stream is over.
+ */
+function followLog(request: NextRequest, filePath: string, filter: LogFilter, from: number | undefined) {
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let closed = false;
+      let timer: ReturnType<typeof setTimeout> | null = null;
+      const write = (chunk: string) => {
+        if (closed) return;
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          cleanup();
+        }
+      };
+
+      const keepalive = setInterval(() => write(`: keepalive\n\n`), KEEPALIVE_MS);
+      cleanup = () => {
+        if (closed) return;
+        closed = true;
+        clearInterval(keepalive);
+        if (timer) clearTimeout(timer);
+        try {
+          controller.close();
+        } catch {
+          // already closed
+        }
+      };
+
+      let cursor: FollowCursor | null = null;
+      const poll = async () => {
+        if (closed) return;
+        let more = false;
+        try {
+          cursor ??= await startFollowing(filePath, from);
+          const result = await readLogAppends(filePath, cursor, filter);
+          if (result.reset) write(`event: reset\ndata: {}\n\n`);
+          const moved = result.cursor.offset !== cursor.offset;
+          cursor = result.cursor;
+          if (result.lines.length > 0) {
+            const data = JSON.stringify({ lines: result.lines, endOffset: cursor.offset });
+            write(`id: ${cursor.offset}\nevent: lines\ndata: ${data}\n\n`);
+          } else if (moved) {
+            // Lines went by that the filter hid: still move the resume point past them
+            write(`id: ${cursor.offset}\n\n`);
+          }
+          // Read something: there may be more waiting
+          more = moved;
+        } catch (error) {
+          if (error instanceof LogTailError) {
+            // The filter itself failed (a pattern too slow to run): polling again won't help
+            write(`event: failed\ndata: ${JSON.stringify({ error: error.message })}\n\n`);
+            cleanup();
+            return;
+          }
+          // Missing mid-rotation: try again on the next poll
+        }
+        if (!closed) timer = setTimeout(poll, more ? 0 : POLL_MS);
+      };
+
+      write(`retry: ${POLL_MS * 3}\n\n`);
+      write(`event: ready\ndata: {}\n\n`);
+      poll();
+      request.signal.addEventListener("abort", () => cleanup());
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    },
+  });
+}
+
+/**
+ * GET /api/log-tail — the log files that can be tailed.
+ * GET /api/log-tail?file=… — a page of lines: the end of the file, or
+ * `before`/`after` a byte offset, or from the first line at or after `at`
+ * (epoch ms or ISO time). `level` (lowest level shown) and `q` (regex;
+ * 422 when it's too slow to run) filter; `follow=1` streams new lines
+ * instead (see followLog).
+ */
+export async function GET(request: NextRequest) {
+  const denied = requirePermission(request, "logs.tail");
+  if (denied) return denied;
+
+  try {
+    const params = request.nextUrl.searchParams;
+    const file = params.get("file");
+    if (!file) {
+      return NextResponse.json({ files: await listLogFiles() });
+    }
+
+    const filePath = await resolveLogFile(file);
+    const filter = parseFilter(params);
+
+    if (params.get("follow") === "1") {
+      const from = parseOffset(request.headers.get("last-event-id") || params.get("from"), "from");
+      return followLog(request, filePath, filter, from);
+    }
+
+    const limit = parseOffset(params.get("limit"), "limit");
+    const at = params.get("at");
+    if (at) {
+      const ts = /^\d+$/.test(at) ? Number(at) : Date.parse(at);
+      if (!Number.isFinite(ts)) throw new LogTailError(`Invalid at: ${at}`);
+      const offset = await findLogOffset(filePath, ts);
+      const page = await readLogPage(filePath, { after: offset, limit, filter });
+      return NextResponse.json({ ...page, jumpOffset: offset });
+    }
+
+    const page = await readLogPage(filePath, {
+      before: parseOffset(params.get("before"), "before"),
+      after: parseOffset(params.get("after"), "after"),
+      limit,
+      filter,
+    });
+    return NextResponse.json(page);
+  } catch (error) {
+    if (error instanceof LogTailError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Log tail error:", error);
+    return NextResponse.json({ error: "Failed to read log" }, { status: 500 });
+  }
+}
+
+/** POST /api/log-tail { action: "set-files", files } — the log files to offer beyond logs/*.log. */
+export async function POST(request: NextRequest) {
+  const denied = requirePermission(request, "settings.write");
+  if (denied) return denied;
+
+  try {
+    const body = await request.json();
+    const { action } = body;
+
+    switch (action) {
+      case "set-files": {
+        await updateSettings({ logFiles: validateLogFiles(body.files) });
+        return NextResponse.json({ success: true, files: await listLogFiles() });
+      }
+
+      default:
+        return NextResponse.json({ error: `Unknown action: ${action}` }, { status: 400 });
+    }
+  } catch (error) {
+    if (error instanceof SettingsError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Log tail error:", error);
+    return NextResponse.json({ error: "Failed to update log files" }, { status: 500 });
+  }
+}
@@ -1,138 +1,96 @@
 import { NextRequest, NextResponse } from "next/server";
-import fs from "node:fs/promises";
-import path from "node:path";
-
-const OPENCLAW_ROOT = process.env.OPENCLAW_ROOT || "/home/clawdbot/.openclaw";
-const CRON_RUNS_DIR = path.join(OPENCLAW_ROOT, "cron", "runs");
-const SESSIONS_PATH = path.join(OPENCLAW_ROOT, "agents", "main", "sessions", "sessions.json");
-
-interface LogEntry {
-  ts: number;
-  type: "cron" | "session";
-  source: string;
-  summary: string;
-  status?: string;
-  durationMs?: number;
-  sessionKey?: string;
+import { agentFromRequest, cronJobAgent, listAgents } from "@/lib/agents";
+import {
+  ACTIVITY_TYPES,
+  ActivityQueryError,
+  MAX_ACTIVITY_PAGE,
+  queryActivity,
+  refreshActivityIndex,
+  type ActivityFilter,
+  type ActivityType,
+} from "@/lib/activity-index";
+import { gatewayRequest } from "../gateway/route";
+
+/** Agent and name of each cron job by id; empty when the gateway can't be reached. */
+async function loadCronJobs(defaultAgentId: string): Promise<Map<string, { agentId: string; name?: string }>> {
+  const result = await gatewayRequest("cron.list", { includeDisabled: true }).catch(() => null);
+  return new Map(
+    (result?.jobs ?? []).map((job) => [job.id, { agentId: cronJobAgent(job, defaultAgentId), name: job.name }])
+  );
 }
 
-async function readCronLogs(limit: number): Promise<LogEntry[]> {
-  const entries: LogEntry[] = [];
-  try {
-    const files = await fs.readdir(CRON_RUNS_DIR);
-    const jsonlFiles = files.filter((f) => f.endsWith(".jsonl")).sort().reverse();
-
-    for (const file of jsonlFiles) {
-      if (entries.length >= limit) break;
-      try {
-        const raw = await fs.readFile(path.join(CRON_RUNS_DIR, file), "utf-8");
-        const lines = raw.trim().split("\n").filter(Boolean);
-        for (const line of lines) {
-          if (entries.length >= limit) break;
-          try {
-            const parsed = JSON.parse(line);
-            entries.push({
-              ts: parsed.ts || parsed.timestamp || Date.now(),
-              type: "cron",
-              source: parsed.jobId || file.replace(".jsonl", ""),
-              summary: parsed.summary || parsed.action || parsed.message || "Cron run",
-              status: parsed.status || (parsed.success === false ? "error" : "ok"),
-              durationMs: parsed.durationMs,
-            });
-          } catch {
-            // skip malformed lines
-          }
-        }
-      } catch {
-        // skip unreadable files
-      }
-    }
-  } catch {
-    // cron runs dir may not exist
-  }
-
-  return entries;
+function list(value: string | null): string[] | undefined {
+  const items = value?.split(",").map((s) => s.trim()).filter(Boolean);
+  return items && items.length > 0 ? items : undefined;
 }
 
-async function readSessionLogs(limit: number): Promise<LogEntry[]> {
-  const entries: LogEntry[] = [];
-  try {
-    const raw = await fs.readFile(SESSIONS_PATH, "utf-8");
-    const sessions = JSON.parse(raw) as Record<string, {
-      updatedAt?: number;
-      createdAt?: number;
-      tokenCount?: number;
-      turnCount?: number;
-      model?: string;
-    }>;
-
-    const sorted = Object.entries(sessions)
-      .sort(([, a], [, b]) => (b.updatedAt || 0) - (a.updatedAt || 0))
-      .slice(0, limit);
+// The Activity tab used to send plural names
+const TYPE_ALIASES: Record<string, ActivityType> = { sessions: "session", scripts: "script" };
 
-    for (const [key, session] of sorted) {
-      // parse session key for readable label
-      const parts = key.split(":");
-      let label = key;
-      if (parts.length >= 4) {
-        const channel = parts[2];
-        const type = parts[3];
-        const id = parts.slice(4).join(":");
-        label = `${channel}${type ? `:${type}` : ""}${id ? ` ${id}` : ""}`;
-      } else if (parts.length >= 3) {
-        label = parts.slice(2).join(":");
-      }
-
-      entries.push({
-        ts: session.updatedAt || session.createdAt || 0,
-        type: "session",
-        source: label,
-        summary: `${session.turnCount || 0} turns, ${session.tokenCount ? `${(session.tokenCount / 1000).toFixed(1)}k tokens` : "0 tokens"}`,
-        sessionKey: key,
-      });
+function parseTypes(value: string | null): ActivityType[] | undefined {
+  const names = list(value);
+  if (!names || names.includes("all")) return undefined;
+  return names.map((name) => {
+    const type = TYPE_ALIASES[name] ?? name;
+    if (!ACTIVITY_TYPES.includes(type as ActivityType)) {
+      throw new ActivityQueryError(`Unknown type: ${name}`);
     }
-  } catch {
-    // sessions file may not exist
-  }
+    return type as ActivityType;
+  });
+}
 
-  return entries;
+/** Epoch milliseconds or anything Date.parse reads (e.g. 2026-10-19 or an ISO time). */
+function parseTime(value: string | null, name: string): number | undefined {
+  if (!value) return undefined;
+  const ts = /^\d+$/.test(value) ? Number(value) : Date.parse(value);
+  if (!Number.isFinite(ts)) throw new ActivityQueryError(`Invalid ${name}: ${value}`);
+  return ts;
 }
 
+/**
+ * GET /api/logs — the activity timeline, newest first, from the activity
+ * index. Filters: type (cron, session, script, config, pairing; comma
+ * separated), status, job, channel, contact, since/until and search. Pages
+ * with `limit` and the `nextCursor` of the previous page as `cursor`. Cron
+ * runs and sessions are the selected agent's; the rest is shared.
+ */
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = request.nextUrl;
-    const type = searchParams.get("type") || "all";
-    const limit = parseInt(searchParams.get("limit") || "50", 10);
-    const offset = parseInt(searchParams.get("offset") || "0", 10);
-    const search = searchParams.get("search")?.toLowerCase();
-
-    let entries: LogEntry[] = [];
-
-    if (type === "all" || type === "cron") {
-      entries.push(...(await readCronLogs(limit)));
-    }
-    if (type === "all" || type === "sessions") {
-      entries.push(...(await readSessionLogs(limit)));
-    }
-
-    // Sort by timestamp descending
-    entries.sort((a, b) => b.ts - a.ts);
-
-    // Filter by search
-    if (search) {
-      entries = entries.filter(
-        (e) =>
-          e.source.toLowerCase().includes(search) ||
-          e.summary.toLowerCase().includes(search)
-      );
-    }
-
-    // Paginate
-    const total = entries.length;
-    entries = entries.slice(offset, offset + limit);
-
-    return NextResponse.json({ entries, total });
+    const limit = Math.min(Math.max(parseInt(searchParams.get("limit") || "50", 10) || 50, 1), MAX_ACTIVITY_PAGE);
+    const agent = await agentFromRequest(request);
+    const defaultAgentId = (await listAgents()).find((a) => a.isDefault)?.id ?? agent.id;
+
+    const filter: ActivityFilter = {
+      types: parseTypes(searchParams.get("type")),
+      statuses: list(searchParams.get("status")),
+      jobId: searchParams.get("job") || undefined,
+      channel: searchParams.get("channel") || undefined,
+      contact: searchParams.get("contact") || undefined,
+      since: parseTime(searchParams.get("since"), "since"),
+      until: parseTime(searchParams.get("until"), "until"),
+      search: searchParams.get("search") || undefined,
+      agentId: agent.id,
+      defaultAgentId,
+    };
+
+    const [entries, cronJobs] = await Promise.all([refreshActivityIndex(), loadCronJobs(defaultAgentId)]);
+    filter.cronJobAgents = new Map([...cronJobs].map(([id, job]) => [id, job.agentId]));
+    const page = queryActivity(entries, filter, { cursor: searchParams.get("cursor"), limit });
+
+    return NextResponse.json({
+      ...page,
+      // Cron runs by job name where the gateway knows it
+      entries: page.entries.map((entry) => {
+        const name = entry.type === "cron" && entry.jobId ? cronJobs.get(entry.jobId)?.name : undefined;
+        return name ? { ...entry, source: name } : entry;
+      }),
+      agentId: agent.id,
+    });
   } catch (error) {
+    if (error instanceof ActivityQueryError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
     console.error("Logs error:", error);
     return NextResponse.json({ error: "Failed to read logs" }, { status: 500 });
   }
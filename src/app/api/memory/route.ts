@@ -1,16 +1,15 @@
 import { NextRequest, NextResponse } from "next/server";
 import fs from "node:fs/promises";
 import path from "node:path";
-
-const MEMORY_DIR = process.env.MEMORY_PATH || "/home/clawdbot/.openclaw/workspace/memory";
-const INTELLIGENCE_DIR = process.env.INTELLIGENCE_PATH || "/home/clawdbot/.openclaw/workspace/intelligence";
+import { agentFromRequest, agentPaths } from "@/lib/agents";
 
 export async function GET(request: NextRequest) {
   const searchParams = request.nextUrl.searchParams;
   const file = searchParams.get("file");
   const type = searchParams.get("type") || "memory"; // "memory" or "intelligence"
 
-  const baseDir = type === "intelligence" ? INTELLIGENCE_DIR : MEMORY_DIR;
+  const { memoryDir, intelligenceDir } = agentPaths(await agentFromRequest(request));
+  const baseDir = type === "intelligence" ? intelligenceDir : memoryDir;
 
   if (!file) {
     // List available memory/intelligence files
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  MAX_SCRIPT_RUN_PAGE,
+  ScriptHistoryError,
+  getScriptRunRecord,
+  readScriptRunRecords,
+  toListItem,
+} from "@/lib/script-history";
+
+/**
+ * GET /api/script-runs — recorded script runs, newest first, without output.
+ * ?script= limits them to one script; ?limit= sets the page size and
+ * ?cursor= (the previous page's nextCursor) continues from where it ended.
+ * GET /api/script-runs?id=… — one run with its archived stdout/stderr.
+ */
+export async function GET(request: NextRequest) {
+  const { searchParams } = request.nextUrl;
+  const id = searchParams.get("id");
+  const script = searchParams.get("script") || undefined;
+  const limit = Math.min(Math.max(parseInt(searchParams.get("limit") || "50", 10) || 50, 1), MAX_SCRIPT_RUN_PAGE);
+
+  try {
+    if (id) {
+      const run = await getScriptRunRecord(id);
+      if (!run) {
+        return NextResponse.json({ error: "Run not found" }, { status: 404 });
+      }
+      return NextResponse.json({ run });
+    }
+
+    const page = await readScriptRunRecords({ script, limit, cursor: searchParams.get("cursor") });
+    return NextResponse.json({
+      script: script ?? null,
+      runs: page.runs.map(toListItem),
+      nextCursor: page.nextCursor,
+    });
+  } catch (error) {
+    if (error instanceof ScriptHistoryError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Script runs error:", error);
+    return NextResponse.json({ error: "Failed to read script runs" }, { status: 500 });
+  }
+}
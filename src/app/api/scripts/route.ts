@@ -1,6 +1,15 @@
 import { NextRequest, NextResponse } from "next/server";
 import fs from "node:fs/promises";
 import path from "node:path";
+import { requirePermission } from "@/lib/auth";
+import { isSettingComment, parseScriptParams, parseScriptTimeout } from "@/lib/script-header";
+import {
+  listScriptRevisions,
+  readScriptRevision,
+  readScriptSource,
+  saveScript,
+  ScriptFileError,
+} from "@/lib/script-files";
 
 // Check both script locations
 const SCRIPTS_DIRS = [
@@ -43,7 +52,7 @@ async function readScriptsFromDir(dir: string, source: string) {
             // Collect comment lines as description
             if (trimmed.startsWith("#")) {
               const commentText = trimmed.slice(1).trim();
-              if (commentText) {
+              if (commentText && !isSettingComment(commentText)) {
                 descriptionLines.push(commentText);
               }
             } else if (trimmed) {
@@ -53,6 +62,7 @@ async function readScriptsFromDir(dir: string, source: string) {
           }
 
           const description = descriptionLines.slice(0, 3).join(" "); // Max 3 lines
+          const { params, errors: paramErrors } = parseScriptParams(content);
           const sizeKb = Math.round((stat.size / 1024) * 10) / 10;
           const lineCount = lines.length;
 
@@ -64,6 +74,9 @@ async function readScriptsFromDir(dir: string, source: string) {
             modifiedAt: stat.mtime.toISOString(),
             source: script.source,
             fullPath: script.path,
+            timeoutMs: parseScriptTimeout(content) ?? undefined,
+            params,
+            paramErrors: paramErrors.length > 0 ? paramErrors : undefined,
           };
         } catch {
           return {
@@ -83,7 +96,15 @@ async function readScriptsFromDir(dir: string, source: string) {
   }
 }
 
-export async function GET() {
+/**
+ * GET /api/scripts — every script with its header metadata.
+ * GET /api/scripts?name=x.sh — its source and saved revisions (editors only);
+ * add &revision=<id> for the content of one revision.
+ */
+export async function GET(request: NextRequest) {
+  const name = request.nextUrl.searchParams.get("name");
+  if (name) return getScriptSource(request, name);
+
   try {
     // Read scripts from both directories
     const [workspaceScripts, openclawScripts] = await Promise.all([
@@ -113,9 +134,71 @@ export async function GET() {
   }
 }
 
+async function getScriptSource(request: NextRequest, name: string) {
+  const denied = requirePermission(request, "scripts.edit");
+  if (denied) return denied;
+
+  try {
+    const revision = request.nextUrl.searchParams.get("revision");
+    if (revision) {
+      return NextResponse.json({ name, revision, content: await readScriptRevision(name, revision) });
+    }
+    const [source, revisions] = await Promise.all([readScriptSource(name), listScriptRevisions(name)]);
+    return NextResponse.json({ ...source, revisions });
+  } catch (error) {
+    if (error instanceof ScriptFileError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Script read error:", error);
+    return NextResponse.json({ error: "Failed to read script" }, { status: 500 });
+  }
+}
+
+// ─── Create or update a script ───────────────────────────────
+
+/**
+ * PUT /api/scripts — { name, content, create?, expectedModifiedAt? }.
+ * Writes to the workspace scripts dir after a `bash -n` check (422 with the
+ * error when it fails), backing up the previous revision first.
+ */
+export async function PUT(request: NextRequest) {
+  const denied = requirePermission(request, "scripts.edit");
+  if (denied) return denied;
+
+  try {
+    const body = (await request.json()) as {
+      name?: unknown;
+      content?: unknown;
+      create?: unknown;
+      expectedModifiedAt?: unknown;
+    };
+    if (typeof body.name !== "string" || typeof body.content !== "string") {
+      return NextResponse.json({ error: "name and content are required" }, { status: 400 });
+    }
+
+    const saved = await saveScript({
+      name: body.name,
+      content: body.content,
+      create: body.create === true,
+      expectedModifiedAt: typeof body.expectedModifiedAt === "string" ? body.expectedModifiedAt : undefined,
+    });
+    const revisions = await listScriptRevisions(saved.name);
+    return NextResponse.json({ success: true, ...saved, revisions });
+  } catch (error) {
+    if (error instanceof ScriptFileError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.status });
+    }
+    console.error("Script save error:", error);
+    return NextResponse.json({ error: "Failed to save script" }, { status: 500 });
+  }
+}
+
 // ─── Delete a script ─────────────────────────────────────────
 
 export async function DELETE(request: NextRequest) {
+  const denied = requirePermission(request, "scripts.delete");
+  if (denied) return denied;
+
   try {
     const { name } = (await request.json()) as { name?: string };
 
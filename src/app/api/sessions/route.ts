@@ -1,16 +1,49 @@
 import { NextRequest, NextResponse } from "next/server";
+import { randomUUID } from "node:crypto";
 import fs from "node:fs/promises";
 import path from "node:path";
+import { agentFromRequest, agentSessionsDir, type AgentDescriptor } from "@/lib/agents";
+import { getRequestUser, requirePermission } from "@/lib/auth";
+import { publishLiveEvent } from "@/lib/event-hub";
+import { GatewayResponseError } from "@/lib/gateway-client";
+import {
+  appendOperatorMessage,
+  MAX_OPERATOR_MESSAGE_LENGTH,
+  readOperatorMessages,
+  type OperatorMessageRecord,
+} from "@/lib/operator-messages";
+import {
+  agentIdOfSessionKey,
+  capitalize,
+  loadAddressBook,
+  parseSessionKey,
+  type SessionType,
+} from "@/lib/session-keys";
+import {
+  isSessionAction,
+  listArchivedSessions,
+  runSessionAction,
+  runSessionActions,
+  SessionLifecycleError,
+  type SessionAction,
+  type SessionActionResult,
+  type SessionGateway,
+} from "@/lib/session-lifecycle";
+import {
+  findTranscriptFile,
+  readTranscriptPage,
+  readTranscriptTail,
+  searchTranscript,
+} from "@/lib/session-transcript";
+import { gatewayRequest } from "../gateway/route";
 
-const OPENCLAW_ROOT = process.env.OPENCLAW_ROOT || "/home/clawdbot/.openclaw";
-const SESSIONS_DIR = path.join(OPENCLAW_ROOT, "agents", "main", "sessions");
-const SESSIONS_PATH = path.join(SESSIONS_DIR, "sessions.json");
-const ADDRESS_BOOK_PATH = path.join(OPENCLAW_ROOT, "address-book.json");
+/** Operator messages returned with a transcript page, to label the turns they became. */
+const OPERATOR_MESSAGES_PER_PAGE = 100;
 
 interface SessionEntry {
   key: string;
   label: string;
-  type: "main" | "channel" | "cron" | "subagent" | "unknown";
+  type: SessionType;
   channel?: string;
   updatedAt: number;
   createdAt: number;
@@ -19,161 +52,161 @@ interface SessionEntry {
   model?: string;
   active: boolean;
   contactName?: string;
+  cronJobId?: string;
+  /** The session that spawned this one (subagents), or the job's session (cron runs). */
+  parentKey?: string;
 }
 
-function parseSessionKey(key: string): {
-  type: SessionEntry["type"];
-  label: string;
+interface SessionFilter {
+  type?: string;
   channel?: string;
-  contactId?: string;
-} {
-  const parts = key.split(":");
-  // agent:main:main -> Main session
-  // agent:main:telegram:dm:5546883071 -> Telegram DM
-  // agent:main:telegram:group:-5159692794 -> Telegram Group
-  // agent:main:cron:07c2a010... -> Cron job
-  // agent:main:subagent:... -> Subagent
-
-  if (parts.length >= 3) {
-    const segment = parts[2];
-
-    if (segment === "main") {
-      return { type: "main", label: "Main Session" };
-    }
-
-    if (segment === "cron") {
-      const cronId = parts.slice(3).join(":");
-      return { type: "cron", label: `Cron: ${cronId.slice(0, 8)}...` };
-    }
-
-    if (segment === "subagent") {
-      const subId = parts.slice(3).join(":");
-      return { type: "subagent", label: `Subagent: ${subId.slice(0, 12)}` };
-    }
+  /** Only sessions with no activity for at least this long. */
+  idleMinutes?: number;
+}
 
-    // Channel sessions: agent:main:telegram:dm:ID or agent:main:telegram:group:ID
-    const channelName = segment;
-    const msgType = parts[3] || "dm";
-    const contactId = parts.slice(4).join(":");
-
-    if (msgType === "dm") {
-      return {
-        type: "channel",
-        label: `${capitalize(channelName)} DM: ${contactId}`,
-        channel: channelName,
-        contactId,
-      };
-    }
-    if (msgType === "group") {
-      return {
-        type: "channel",
-        label: `${capitalize(channelName)} Group: ${contactId}`,
-        channel: channelName,
-      };
-    }
+function filterFromBody(raw: unknown): SessionFilter {
+  if (!raw || typeof raw !== "object") return {};
+  const { type, channel, idleMinutes } = raw as Record<string, unknown>;
+  return {
+    type: typeof type === "string" ? type : undefined,
+    channel: typeof channel === "string" ? channel : undefined,
+    idleMinutes: typeof idleMinutes === "number" && idleMinutes > 0 ? idleMinutes : undefined,
+  };
+}
 
-    return {
-      type: "channel",
-      label: `${capitalize(channelName)}: ${parts.slice(3).join(":")}`,
-      channel: channelName,
-      contactId,
-    };
-  }
+function filterFromParams(params: URLSearchParams): SessionFilter {
+  const idle = Number(params.get("idleMinutes"));
+  return {
+    type: params.get("type") ?? undefined,
+    channel: params.get("channel") ?? undefined,
+    idleMinutes: Number.isFinite(idle) && idle > 0 ? idle : undefined,
+  };
+}
 
-  return { type: "unknown", label: key };
+/** Cron job names by id; empty when the gateway can't be reached. */
+async function loadCronJobNames(): Promise<Map<string, string>> {
+  const result = await gatewayRequest("cron.list", { includeDisabled: true }).catch(() => null);
+  return new Map((result?.jobs ?? []).map((job) => [job.id, job.name]));
 }
 
-function capitalize(s: string): string {
-  return s.charAt(0).toUpperCase() + s.slice(1);
+/** Where a session's files are: its key names the agent; a bare id belongs to `agent`. */
+function sessionsDirFor(keyOrId: string, agent: AgentDescriptor): string {
+  const agentId = agentIdOfSessionKey(keyOrId);
+  return agentId ? agentSessionsDir(agentId) : agent.sessionsDir;
 }
 
-async function loadAddressBook(): Promise<Record<string, string>> {
-  // Returns map of channel:id -> displayName
-  const nameMap: Record<string, string> = {};
-  try {
-    const raw = await fs.readFile(ADDRESS_BOOK_PATH, "utf-8");
-    const book = JSON.parse(raw);
-    if (book.contacts) {
-      for (const contact of Object.values(book.contacts) as Array<{
-        displayName?: string;
-        identities?: Array<{ channel: string; id: string }>;
-      }>) {
-        if (contact.displayName && contact.identities) {
-          for (const id of contact.identities) {
-            nameMap[`${id.channel}:${id.id}`] = contact.displayName;
-          }
-        }
-      }
+/** The agent's sessions matching `filter`: active first, then most recently updated. */
+async function listSessionEntries(agent: AgentDescriptor, filter: SessionFilter = {}): Promise<SessionEntry[]> {
+  const raw = await fs.readFile(path.join(agent.sessionsDir, "sessions.json"), "utf-8");
+  const sessions = JSON.parse(raw) as Record<string, {
+    updatedAt?: number;
+    createdAt?: number;
+    tokenCount?: number;
+    turnCount?: number;
+    model?: string;
+    label?: string;
+    spawnedBy?: string;
+  }>;
+
+  const [nameMap, cronNames] = await Promise.all([loadAddressBook(), loadCronJobNames()]);
+  const now = Date.now();
+  const fiveMinAgo = now - 5 * 60 * 1000;
+
+  let entries: SessionEntry[] = Object.entries(sessions).map(([key, s]) => {
+    const parsed = parseSessionKey(key);
+    const contactName = parsed.contactId && parsed.channel
+      ? nameMap[`${parsed.channel}:${parsed.contactId}`]
+      : undefined;
+
+    let label = contactName ? `${capitalize(parsed.channel || "")} DM: ${contactName}` : parsed.label;
+    const cronName = parsed.cronJobId ? cronNames.get(parsed.cronJobId) : undefined;
+    if (cronName) label = parsed.cronRunId ? `Cron: ${cronName} (run)` : `Cron: ${cronName}`;
+    if (parsed.type === "subagent" && s.label) label = `Subagent: ${s.label}`;
+
+    let parentKey = typeof s.spawnedBy === "string" && s.spawnedBy !== key ? s.spawnedBy : undefined;
+    if (!parentKey && parsed.cronRunId) {
+      const jobKey = key.slice(0, key.lastIndexOf(":run:"));
+      if (Object.hasOwn(sessions, jobKey)) parentKey = jobKey;
     }
-  } catch {
-    // address book may not exist
+
+    return {
+      key,
+      label,
+      type: parsed.type,
+      channel: parsed.channel,
+      updatedAt: s.updatedAt || 0,
+      createdAt: s.createdAt || 0,
+      tokenCount: s.tokenCount || 0,
+      turnCount: s.turnCount || 0,
+      model: s.model,
+      active: (s.updatedAt || 0) > fiveMinAgo,
+      contactName,
+      cronJobId: parsed.cronJobId,
+      parentKey,
+    };
+  });
+
+  if (filter.type && filter.type !== "all") {
+    entries = entries.filter((e) => e.type === filter.type);
   }
-  return nameMap;
+  if (filter.channel && filter.channel !== "all") {
+    entries = entries.filter((e) => e.channel === filter.channel);
+  }
+  if (filter.idleMinutes) {
+    const idleSince = now - filter.idleMinutes * 60 * 1000;
+    entries = entries.filter((e) => e.updatedAt < idleSince);
+  }
+
+  // Sort: active first, then by updatedAt descending
+  entries.sort((a, b) => {
+    if (a.active !== b.active) return a.active ? -1 : 1;
+    return b.updatedAt - a.updatedAt;
+  });
+  return entries;
 }
 
+/**
+ * Everything is scoped to the selected agent (see agentFromRequest);
+ * sessions named by key are read from the agent in the key.
+ *
+ * GET /api/sessions — session list (?type=, ?channel=, ?idleMinutes=, ?limit=).
+ * GET /api/sessions?archived=true — archived sessions, newest first.
+ * GET /api/sessions?key=… — a page of the session's transcript, newest
+ * turns first by default; ?before=<offset> pages back, ?after=<offset>
+ * forward. ?q= searches the whole transcript instead. Includes the
+ * messages operators sent into the session from here.
+ * GET /api/sessions?id=… — the last ?limit= raw transcript lines.
+ */
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = request.nextUrl;
+    const agent = await agentFromRequest(request);
+    const transcriptKey = searchParams.get("key");
+    if (transcriptKey) {
+      return getTranscript(transcriptKey, searchParams, agent);
+    }
+
     const sessionId = searchParams.get("id");
-    const typeFilter = searchParams.get("type");
     const limit = parseInt(searchParams.get("limit") || "50", 10);
 
     // Single session detail
     if (sessionId) {
-      return getSessionDetail(sessionId, limit);
+      return getSessionDetail(sessionId, limit, agent);
     }
 
-    // Session list
-    const raw = await fs.readFile(SESSIONS_PATH, "utf-8");
-    const sessions = JSON.parse(raw) as Record<string, {
-      updatedAt?: number;
-      createdAt?: number;
-      tokenCount?: number;
-      turnCount?: number;
-      model?: string;
-    }>;
-
-    const nameMap = await loadAddressBook();
-    const now = Date.now();
-    const fiveMinAgo = now - 5 * 60 * 1000;
-
-    let entries: SessionEntry[] = Object.entries(sessions).map(([key, s]) => {
-      const parsed = parseSessionKey(key);
-      const contactName = parsed.contactId && parsed.channel
-        ? nameMap[`${parsed.channel}:${parsed.contactId}`]
-        : undefined;
-
-      return {
-        key,
-        label: contactName ? `${capitalize(parsed.channel || "")} DM: ${contactName}` : parsed.label,
-        type: parsed.type,
-        channel: parsed.channel,
-        updatedAt: s.updatedAt || 0,
-        createdAt: s.createdAt || 0,
-        tokenCount: s.tokenCount || 0,
-        turnCount: s.turnCount || 0,
-        model: s.model,
-        active: (s.updatedAt || 0) > fiveMinAgo,
-        contactName,
-      };
-    });
-
-    // Filter by type
-    if (typeFilter && typeFilter !== "all") {
-      entries = entries.filter((e) => e.type === typeFilter);
+    if (searchParams.get("archived") === "true") {
+      const archived = (await listArchivedSessions()).filter(
+        (r) => (agentIdOfSessionKey(r.key) ?? agent.id) === agent.id
+      );
+      return NextResponse.json({ agentId: agent.id, archived });
     }
 
-    // Sort: active first, then by updatedAt descending
-    entries.sort((a, b) => {
-      if (a.active !== b.active) return a.active ? -1 : 1;
-      return b.updatedAt - a.updatedAt;
-    });
-
-    entries = entries.slice(0, limit);
+    // Session list
+    const entries = (await listSessionEntries(agent, filterFromParams(searchParams))).slice(0, limit);
 
     const activeCount = entries.filter((e) => e.active).length;
 
-    return NextResponse.json({ sessions: entries, total: entries.length, activeCount });
+    return NextResponse.json({ agentId: agent.id, sessions: entries, total: entries.length, activeCount });
   } catch (error) {
     console.error("Sessions error:", error);
     return NextResponse.json(
@@ -183,56 +216,55 @@ export async function GET(request: NextRequest) {
   }
 }
 
-async function getSessionDetail(sessionId: string, limit: number) {
+function offsetParam(value: string | null): number | undefined {
+  if (value === null) return undefined;
+  const n = Number(value);
+  return Number.isInteger(n) && n >= 0 ? n : undefined;
+}
+
+async function getTranscript(key: string, searchParams: URLSearchParams, agent: AgentDescriptor) {
   try {
-    // Find the session JSONL file
-    // Session files are named by the session key with colons replaced
-    const safeKey = sessionId.replace(/[:/]/g, "_");
-    const possibleFiles = [
-      `${safeKey}.jsonl`,
-      `${sessionId}.jsonl`,
-    ];
-
-    let sessionFile: string | null = null;
-    for (const f of possibleFiles) {
-      try {
-        await fs.access(path.join(SESSIONS_DIR, f));
-        sessionFile = f;
-        break;
-      } catch {
-        // try next
-      }
+    const filePath = await findTranscriptFile(key, sessionsDirFor(key, agent));
+    if (!filePath) {
+      return NextResponse.json({ error: "Session transcript not found" }, { status: 404 });
     }
 
-    if (!sessionFile) {
-      // Try to find by listing directory
-      const files = await fs.readdir(SESSIONS_DIR);
-      const match = files.find(
-        (f) => f.endsWith(".jsonl") && f.includes(safeKey.slice(-12))
-      );
-      if (match) sessionFile = match;
+    const query = searchParams.get("q")?.trim();
+    if (query) {
+      return NextResponse.json({ key, query, ...(await searchTranscript(filePath, query)) });
     }
 
-    if (!sessionFile) {
+    const [page, sessionKey] = await Promise.all([
+      readTranscriptPage(filePath, {
+        before: offsetParam(searchParams.get("before")),
+        after: offsetParam(searchParams.get("after")),
+        limit: parseInt(searchParams.get("limit") || "50", 10) || 50,
+      }),
+      resolveSessionKey(key, agent),
+    ]);
+    const operatorMessages = (await readOperatorMessages(sessionKey ?? key)).slice(
+      0,
+      OPERATOR_MESSAGES_PER_PAGE
+    );
+    return NextResponse.json({ key, ...page, operatorMessages });
+  } catch (error) {
+    console.error("Session transcript error:", error);
+    return NextResponse.json({ error: "Failed to read session transcript" }, { status: 500 });
+  }
+}
+
+async function getSessionDetail(sessionId: string, limit: number, agent: AgentDescriptor) {
+  try {
+    const filePath = await findTranscriptFile(sessionId, sessionsDirFor(sessionId, agent));
+    if (!filePath) {
       return NextResponse.json(
         { error: "Session file not found" },
         { status: 404 }
       );
     }
 
-    const raw = await fs.readFile(path.join(SESSIONS_DIR, sessionFile), "utf-8");
-    const lines = raw.trim().split("\n").filter(Boolean);
-    const recentLines = lines.slice(-limit);
-
-    const history = recentLines.map((line) => {
-      try {
-        return JSON.parse(line);
-      } catch {
-        return { raw: line };
-      }
-    });
-
-    return NextResponse.json({ sessionId, history, totalTurns: lines.length });
+    const { history, totalTurns } = await readTranscriptTail(filePath, limit);
+    return NextResponse.json({ sessionId, history, totalTurns });
   } catch (error) {
     console.error("Session detail error:", error);
     return NextResponse.json(
@@ -241,3 +273,165 @@ async function getSessionDetail(sessionId: string, limit: number) {
     );
   }
 }
+
+/** The sessions.json key for a session key or session id, or null if it isn't listed. */
+async function resolveSessionKey(keyOrId: string, agent: AgentDescriptor): Promise<string | null> {
+  let sessions: Record<string, { sessionId?: string }>;
+  try {
+    sessions = JSON.parse(await fs.readFile(path.join(sessionsDirFor(keyOrId, agent), "sessions.json"), "utf-8"));
+  } catch {
+    return null;
+  }
+  if (Object.hasOwn(sessions, keyOrId)) return keyOrId;
+  const match = Object.entries(sessions).find(([, s]) => s?.sessionId === keyOrId);
+  return match ? match[0] : null;
+}
+
+// Lifecycle calls go over the shared gateway transport, like every other route
+const sessionGateway: SessionGateway = {
+  reset: (key) => gatewayRequest("sessions.reset", { key }),
+  compact: (key) => gatewayRequest("sessions.compact", { key }),
+  delete: (key, deleteTranscript) => gatewayRequest("sessions.delete", { key, deleteTranscript }),
+};
+
+/** Why `action` may not touch `key`, or null if it may. */
+function protectedReason(action: SessionAction, key: string): string | null {
+  if ((action === "archive" || action === "delete") && parseSessionKey(key).type === "main") {
+    return "The main session can't be archived or deleted; reset it instead";
+  }
+  return null;
+}
+
+/**
+ * POST /api/sessions — { action: "send", key, message } sends an operator
+ * message into the session over the gateway (chat.send) and records who sent
+ * it. The reply streams on the "chat" live topic under the returned runId.
+ * { action: "reset" | "compact" | "archive" | "delete", key } changes one
+ * session; with { keys, filter } instead of key it changes each of the keys
+ * that still matches the filter, and returns one result per key.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = (await request.json()) as {
+      action?: string;
+      key?: string;
+      keys?: unknown;
+      filter?: unknown;
+      message?: string;
+    };
+
+    if (isSessionAction(body.action)) {
+      return sessionLifecycle(request, body.action, body);
+    }
+
+    switch (body.action) {
+      case "send": {
+        const denied = requirePermission(request, "sessions.send");
+        if (denied) return denied;
+
+        const text = typeof body.message === "string" ? body.message.trim() : "";
+        if (!body.key || !text) {
+          return NextResponse.json({ error: "Session key and message required" }, { status: 400 });
+        }
+        if (text.length > MAX_OPERATOR_MESSAGE_LENGTH) {
+          return NextResponse.json(
+            { error: `Message is longer than ${MAX_OPERATOR_MESSAGE_LENGTH} characters` },
+            { status: 400 }
+          );
+        }
+        const sessionKey = await resolveSessionKey(body.key, await agentFromRequest(request));
+        if (!sessionKey) {
+          return NextResponse.json({ error: `Session not found: ${body.key}` }, { status: 404 });
+        }
+
+        const record: OperatorMessageRecord = {
+          id: randomUUID(),
+          sessionKey,
+          text,
+          sentBy: getRequestUser(request)?.username,
+          sentAt: Date.now(),
+          status: "sent",
+        };
+        try {
+          const result = await gatewayRequest("chat.send", {
+            sessionKey,
+            message: text,
+            idempotencyKey: record.id,
+          });
+          record.runId = result?.runId ?? record.id;
+        } catch (error) {
+          record.status = "error";
+          record.error = error instanceof Error ? error.message : String(error);
+        }
+        await appendOperatorMessage(record);
+        publishLiveEvent("sessions", "operator.message", record);
+
+        if (record.status === "error") {
+          return NextResponse.json(
+            { error: `Gateway rejected the message: ${record.error}`, message: record },
+            { status: 502 }
+          );
+        }
+        return NextResponse.json({ success: true, message: record });
+      }
+
+      default:
+        return NextResponse.json({ error: `Unknown action: ${body.action}` }, { status: 400 });
+    }
+  } catch (error) {
+    console.error("Session action error:", error);
+    return NextResponse.json({ error: "Session action failed" }, { status: 500 });
+  }
+}
+
+async function sessionLifecycle(
+  request: NextRequest,
+  action: SessionAction,
+  body: { key?: string; keys?: unknown; filter?: unknown }
+) {
+  const denied = requirePermission(request, action === "delete" ? "sessions.delete" : "sessions.manage");
+  if (denied) return denied;
+  const user = getRequestUser(request)?.username;
+  const options = { gateway: sessionGateway, user };
+
+  try {
+    // Bulk: the keys the operator confirmed, as long as they still match the
+    // filter they were picked with (a session may have woken up since)
+    if (Array.isArray(body.keys)) {
+      const agent = await agentFromRequest(request);
+      const matching = new Set((await listSessionEntries(agent, filterFromBody(body.filter))).map((e) => e.key));
+      const allowed: string[] = [];
+      const skipped: SessionActionResult[] = [];
+      for (const key of body.keys) {
+        if (typeof key !== "string") continue;
+        const reason = matching.has(key) ? protectedReason(action, key) : "No longer matches the filter";
+        if (reason) skipped.push({ key, action, ok: false, error: reason });
+        else allowed.push(key);
+      }
+      const results = [...(await runSessionActions(action, allowed, options)), ...skipped];
+      const changed = results.filter((r) => r.ok).map((r) => r.key);
+      if (changed.length > 0) publishLiveEvent("sessions", `session.${action}`, { keys: changed, by: user });
+      return NextResponse.json({ results });
+    }
+
+    if (!body.key) {
+      return NextResponse.json({ error: "Session key required" }, { status: 400 });
+    }
+    const reason = protectedReason(action, body.key);
+    if (reason) {
+      return NextResponse.json({ error: reason }, { status: 400 });
+    }
+    const result = await runSessionAction(action, body.key, options);
+    publishLiveEvent("sessions", `session.${action}`, { keys: [body.key], by: user });
+    return NextResponse.json({ success: true, result });
+  } catch (error) {
+    if (error instanceof SessionLifecycleError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    if (error instanceof GatewayResponseError) {
+      return NextResponse.json({ error: `Gateway refused: ${error.message}` }, { status: 502 });
+    }
+    console.error(`Session ${action} error:`, error);
+    return NextResponse.json({ error: `Failed to ${action} session` }, { status: 500 });
+  }
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import fs from "node:fs/promises";
 import path from "node:path";
+import { requirePermission } from "@/lib/auth";
 
 const CLAWDTM_BASE = process.env.CLAWDTM_API_URL || "https://clawdtm.com/api/v1";
 const SKILLS_DIR =
@@ -88,6 +89,9 @@ export async function GET(request: NextRequest) {
 // ─── Install skill (write files to disk) ─────────────────────
 
 export async function POST(request: NextRequest) {
+  const denied = requirePermission(request, "skills.manage");
+  if (denied) return denied;
+
   try {
     const body = await request.json();
     const { slug, acknowledge_risk } = body as {
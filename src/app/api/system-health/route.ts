@@ -4,12 +4,12 @@ import fs from "node:fs/promises";
 import path from "node:path";
 import { execFile } from "node:child_process";
 import { promisify } from "node:util";
+import { agentFromRequest } from "@/lib/agents";
 
 const execFileAsync = promisify(execFile);
 
 const OPENCLAW_ROOT = process.env.OPENCLAW_ROOT || "/home/clawdbot/.openclaw";
 const OPENCLAW_CONFIG = process.env.OPENCLAW_CONFIG || path.join(OPENCLAW_ROOT, "openclaw.json");
-const SESSIONS_PATH = path.join(OPENCLAW_ROOT, "agents", "main", "sessions", "sessions.json");
 
 // Cache disk usage -- changes slowly, no need to re-measure every request
 let cachedDiskMb = 0;
@@ -34,8 +34,9 @@ async function getDiskUsage(): Promise<number> {
   return cachedDiskMb;
 }
 
-export async function GET() {
+export async function GET(request: Request) {
   try {
+    const agent = await agentFromRequest(request);
     const totalMem = os.totalmem();
     const freeMem = os.freemem();
     const usedMem = totalMem - freeMem;
@@ -44,7 +45,7 @@ export async function GET() {
     // Run disk + sessions + config reads in parallel
     const [diskUsedMb, sessionsResult, configResult] = await Promise.all([
       getDiskUsage(),
-      fs.readFile(SESSIONS_PATH, "utf-8").catch(() => null),
+      fs.readFile(path.join(agent.sessionsDir, "sessions.json"), "utf-8").catch(() => null),
       fs.readFile(OPENCLAW_CONFIG, "utf-8").catch(() => null),
     ]);
 
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from "next/server";
+import { agentFromRequest } from "@/lib/agents";
+import { requirePermission } from "@/lib/auth";
+import { SettingsError, updateSettings, validateModelPrices } from "@/lib/settings";
+import { collectUsageRows, getUsageReport, usageRowsToCsv } from "@/lib/usage";
+
+const MAX_DAYS = 365;
+
+/**
+ * GET /api/usage — the selected agent's token usage for the last ?days=
+ * days (default 30), totalled by day, channel, contact and model, with
+ * estimated cost.
+ * GET /api/usage?export=csv|json — the per-session, per-day, per-model rows
+ * behind it, as a download.
+ */
+export async function GET(request: NextRequest) {
+  const { searchParams } = request.nextUrl;
+  const days = Math.min(Math.max(parseInt(searchParams.get("days") || "30", 10) || 30, 1), MAX_DAYS);
+  const format = searchParams.get("export");
+
+  try {
+    const agent = await agentFromRequest(request);
+    if (format) {
+      if (format !== "csv" && format !== "json") {
+        return NextResponse.json({ error: `Unknown export format: ${format}` }, { status: 400 });
+      }
+      const { rows, since, until } = await collectUsageRows(days, agent.id);
+      const filename = `usage-${agent.id}-${since}-to-${until}.${format}`;
+      const body = format === "csv" ? usageRowsToCsv(rows) : JSON.stringify({ agentId: agent.id, since, until, rows }, null, 2);
+      return new NextResponse(body, {
+        headers: {
+          "Content-Type": format === "csv" ? "text/csv; charset=utf-8" : "application/json",
+          "Content-Disposition": `attachment; filename="${filename}"`,
+        },
+      });
+    }
+
+    return NextResponse.json(await getUsageReport(days, agent.id));
+  } catch (error) {
+    console.error("Usage error:", error);
+    return NextResponse.json({ error: "Failed to read usage" }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/usage { action: "set-prices", prices } — replaces the model
+ * price table (USD per million tokens) used for cost estimates.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { action } = body;
+
+    switch (action) {
+      case "set-prices": {
+        const denied = requirePermission(request, "settings.write");
+        if (denied) return denied;
+        const settings = await updateSettings({ modelPrices: validateModelPrices(body.prices) });
+        return NextResponse.json({ success: true, prices: settings.modelPrices });
+      }
+
+      default:
+        return NextResponse.json({ error: `Unknown action: ${action}` }, { status: 400 });
+    }
+  } catch (error) {
+    if (error instanceof SettingsError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Usage error:", error);
+    return NextResponse.json({ error: "Failed to update usage settings" }, { status: 500 });
+  }
+}
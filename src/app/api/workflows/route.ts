@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getRequestUser, requirePermission } from "@/lib/auth";
+import { nextCronRun } from "@/lib/cron-expr";
+import {
+  cancelWorkflowRun,
+  getWorkflowRun,
+  listWorkflowRuns,
+  startWorkflowRun,
+  WorkflowRunError,
+} from "@/lib/workflow-runs";
+import { getWorkflow, loadWorkflows, WORKFLOWS_PATH } from "@/lib/workflows";
+
+const RECENT_RUNS = 20;
+
+/**
+ * GET /api/workflows — workflows from workflows.json with their next
+ * scheduled run, problems found in the file, and recent runs.
+ * GET /api/workflows?runId=… — one run with the result of every step.
+ */
+export async function GET(request: NextRequest) {
+  const runId = request.nextUrl.searchParams.get("runId");
+
+  try {
+    if (runId) {
+      const run = await getWorkflowRun(runId);
+      if (!run) {
+        return NextResponse.json({ error: "Run not found" }, { status: 404 });
+      }
+      return NextResponse.json({ run });
+    }
+
+    const [file, runs] = await Promise.all([loadWorkflows(), listWorkflowRuns()]);
+    const workflows = file.workflows.map((workflow) => ({
+      ...workflow,
+      nextRunAtMs:
+        workflow.schedule && workflow.enabled
+          ? nextCronRun(workflow.schedule, { tz: workflow.tz }) ?? undefined
+          : undefined,
+    }));
+    return NextResponse.json({
+      path: WORKFLOWS_PATH,
+      exists: file.exists,
+      workflows,
+      errors: file.errors,
+      runs: runs.slice(0, RECENT_RUNS),
+    });
+  } catch (error) {
+    console.error("Workflows error:", error);
+    return NextResponse.json({ error: "Failed to read workflows" }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/workflows — { action: "run", id } starts a workflow and returns
+ * the run; { action: "cancel", runId } stops one.
+ */
+export async function POST(request: NextRequest) {
+  const denied = requirePermission(request, "scripts.run");
+  if (denied) return denied;
+
+  try {
+    const body = (await request.json()) as { action?: string; id?: string; runId?: string };
+
+    switch (body.action) {
+      case "run": {
+        if (!body.id) {
+          return NextResponse.json({ error: "Workflow id required" }, { status: 400 });
+        }
+        const workflow = await getWorkflow(body.id);
+        if (!workflow) {
+          return NextResponse.json({ error: `Workflow not found: ${body.id}` }, { status: 404 });
+        }
+        const run = startWorkflowRun(workflow, {
+          trigger: "manual",
+          startedBy: getRequestUser(request)?.username,
+        });
+        return NextResponse.json({ success: true, run });
+      }
+
+      case "cancel": {
+        if (!body.runId) {
+          return NextResponse.json({ error: "runId required" }, { status: 400 });
+        }
+        if (!cancelWorkflowRun(body.runId)) {
+          return NextResponse.json({ error: "Run not found or already finished" }, { status: 409 });
+        }
+        return NextResponse.json({ success: true });
+      }
+
+      default:
+        return NextResponse.json({ error: `Unknown action: ${body.action}` }, { status: 400 });
+    }
+  } catch (error) {
+    if (error instanceof WorkflowRunError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Workflow action error:", error);
+    return NextResponse.json({ error: "Workflow action failed" }, { status: 500 });
+  }
+}
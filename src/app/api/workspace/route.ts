@@ -1,8 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import fs from "node:fs/promises";
 import path from "node:path";
-
-const WORKSPACE_ROOT = process.env.WORKSPACE_PATH || "/home/clawdbot/.openclaw/workspace";
+import { agentFromRequest } from "@/lib/agents";
 
 // Allowed files that can be read
 const ALLOWED_FILES = [
@@ -19,11 +18,12 @@ const ALLOWED_FILES = [
 export async function GET(request: NextRequest) {
   const searchParams = request.nextUrl.searchParams;
   const file = searchParams.get("file");
+  const workspaceRoot = (await agentFromRequest(request)).workspace;
 
   if (!file) {
     // List available files
     try {
-      const files = await fs.readdir(WORKSPACE_ROOT);
+      const files = await fs.readdir(workspaceRoot);
       const mdFiles = files.filter(
         (f) => f.endsWith(".md") && ALLOWED_FILES.includes(f)
       );
@@ -45,8 +45,8 @@ export async function GET(request: NextRequest) {
   }
 
   // Prevent path traversal
-  const safePath = path.join(WORKSPACE_ROOT, path.basename(file));
-  if (!safePath.startsWith(WORKSPACE_ROOT)) {
+  const safePath = path.join(workspaceRoot, path.basename(file));
+  if (!safePath.startsWith(workspaceRoot)) {
     return NextResponse.json(
       { error: "Invalid path" },
       { status: 400 }
@@ -37,6 +37,8 @@ import {
   ToggleRight,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { useCurrentUser } from "@/lib/use-auth";
+import { useLiveRefresh } from "@/lib/use-live-events";
 import {
   listDevices,
   approveDevice,
@@ -151,6 +153,7 @@ export default function ContactsPage() {
 function ContactsPageInner() {
   const searchParams = useSearchParams();
   const initialTab = searchParams.get("tab") || "overview";
+  const { can } = useCurrentUser();
 
   const [activeTab, setActiveTab] = useState(initialTab);
   const [loading, setLoading] = useState(true);
@@ -227,6 +230,19 @@ function ContactsPageInner() {
     refresh();
   }, [refresh]);
 
+  const refreshDevices = useCallback(async () => {
+    try {
+      setDevices(await listDevices());
+    } catch (err) {
+      console.error("Failed to refresh devices:", err);
+    }
+  }, []);
+
+  // Live updates: device pair requests only touch the Devices tab; channel
+  // pairing requests show up under People
+  useLiveRefresh(["devices"], refreshDevices);
+  useLiveRefresh(["pairing"], refresh);
+
   // ─── Action handlers ────────────────────────────────────────────────
 
   const handleBlockUser = async (userId: string, ch = "telegram") => {
@@ -926,7 +942,7 @@ function ContactsPageInner() {
                                 size="sm"
                                 className="bg-green-600 hover:bg-green-700 text-white"
                                 onClick={() => handleApprovePairing(req.code, ch)}
-                                disabled={busy !== null}
+                                disabled={busy !== null || !can("contacts.access")}
                               >
                                 {busy === `approve-${req.code}` ? (
                                   <Loader2 className="w-4 h-4 animate-spin" />
@@ -942,7 +958,7 @@ function ContactsPageInner() {
                                 variant="outline"
                                 className="text-red-400 border-red-500/30"
                                 onClick={() => handleRejectPairing(req.code, ch)}
-                                disabled={busy !== null}
+                                disabled={busy !== null || !can("contacts.access")}
                               >
                                 {busy === `reject-${req.code}` ? (
                                   <Loader2 className="w-4 h-4 animate-spin" />
@@ -981,7 +997,7 @@ function ContactsPageInner() {
                             size="sm"
                             className="bg-green-600 hover:bg-green-700 text-white"
                             onClick={() => handleAcceptSuggestion(sug.id)}
-                            disabled={busy !== null}
+                            disabled={busy !== null || !can("contacts.edit")}
                           >
                             {busy === `accept-${sug.id}` ? (
                               <Loader2 className="w-4 h-4 animate-spin" />
@@ -993,7 +1009,7 @@ function ContactsPageInner() {
                             size="sm"
                             variant="outline"
                             onClick={() => handleDismissSuggestion(sug.id)}
-                            disabled={busy !== null}
+                            disabled={busy !== null || !can("contacts.edit")}
                           >
                             {busy === `dismiss-${sug.id}` ? (
                               <Loader2 className="w-4 h-4 animate-spin" />
@@ -1120,7 +1136,7 @@ function ContactsPageInner() {
                                               onClick={() =>
                                                 handleUnlinkIdentity(entry.contactId!, ident.channel, ident.id)
                                               }
-                                              disabled={busy !== null}
+                                              disabled={busy !== null || !can("contacts.edit")}
                                             >
                                               <Unlink className="w-4 h-4" />
                                             </Button>
@@ -1133,7 +1149,7 @@ function ContactsPageInner() {
                                       variant="outline"
                                       className="mt-2"
                                       onClick={() => setLinkModalFor(entry)}
-                                      disabled={busy !== null}
+                                      disabled={busy !== null || !can("contacts.edit")}
                                     >
                                       <Link2 className="w-4 h-4 mr-1" />
                                       Link another identity
@@ -1150,7 +1166,7 @@ function ContactsPageInner() {
                                           value: entry.displayName,
                                         })
                                       }
-                                      disabled={busy !== null}
+                                      disabled={busy !== null || !can("contacts.edit")}
                                     >
                                       <Pencil className="w-3.5 h-3.5 mr-1" />
                                       Rename
@@ -1163,7 +1179,7 @@ function ContactsPageInner() {
                                         onClick={() =>
                                           handleBlockUser(entry.identities[0].id, entry.identities[0].channel)
                                         }
-                                        disabled={busy !== null}
+                                        disabled={busy !== null || !can("contacts.access")}
                                       >
                                         <Ban className="w-3.5 h-3.5 mr-1" />
                                         Block
@@ -1205,7 +1221,7 @@ function ContactsPageInner() {
                                     variant="outline"
                                     className="text-red-400 border-red-500/30"
                                     onClick={() => handleDeleteContact(entry.contactId!)}
-                                    disabled={busy !== null}
+                                    disabled={busy !== null || !can("contacts.edit")}
                                   >
                                     Remove from address book
                                   </Button>
@@ -1230,7 +1246,7 @@ function ContactsPageInner() {
                                         id: entry.identities[0].id,
                                       })
                                     }
-                                    disabled={busy !== null}
+                                    disabled={busy !== null || !can("contacts.edit")}
                                   >
                                     <Pencil className="w-4 h-4 mr-1" />
                                     Add to address book
@@ -1265,14 +1281,16 @@ function ContactsPageInner() {
                     Group policy: <strong className="text-zinc-400">{groupPolicy}</strong> · {groups.length} group{groups.length !== 1 ? "s" : ""}
                   </span>
                 </div>
-                <Button
-                  size="sm"
-                  onClick={() => setShowAddGroup(true)}
-                  className="h-9 px-3 bg-emerald-500 hover:bg-emerald-600 text-white shrink-0"
-                >
-                  <Plus className="w-4 h-4 mr-1" />
-                  Add
-                </Button>
+                {can("groups.manage") && (
+                  <Button
+                    size="sm"
+                    onClick={() => setShowAddGroup(true)}
+                    className="h-9 px-3 bg-emerald-500 hover:bg-emerald-600 text-white shrink-0"
+                  >
+                    <Plus className="w-4 h-4 mr-1" />
+                    Add
+                  </Button>
+                )}
               </div>
 
               {groups.length === 0 ? (
@@ -1359,16 +1377,18 @@ function ContactsPageInner() {
                               </div>
                             </div>
                             <div className="flex items-center gap-1 shrink-0">
-                              <button
-                                onClick={(e) => {
-                                  e.stopPropagation();
-                                  setEditingGroup({ key: nickKey, value: nickname || "" });
-                                }}
-                                className="p-1.5 rounded-lg hover:bg-zinc-800 transition-colors text-zinc-500 hover:text-zinc-300"
-                                title="Rename group"
-                              >
-                                <Pencil className="w-3.5 h-3.5" />
-                              </button>
+                              {can("contacts.edit") && (
+                                <button
+                                  onClick={(e) => {
+                                    e.stopPropagation();
+                                    setEditingGroup({ key: nickKey, value: nickname || "" });
+                                  }}
+                                  className="p-1.5 rounded-lg hover:bg-zinc-800 transition-colors text-zinc-500 hover:text-zinc-300"
+                                  title="Rename group"
+                                >
+                                  <Pencil className="w-3.5 h-3.5" />
+                                </button>
+                              )}
                               {isExpanded ? (
                                 <ChevronUp className="w-4 h-4 text-zinc-500" />
                               ) : (
@@ -1398,7 +1418,7 @@ function ContactsPageInner() {
                                     requireMention: !requireMention,
                                   })
                                 }
-                                disabled={busy === `group-settings-${nickKey}`}
+                                disabled={busy === `group-settings-${nickKey}` || !can("groups.manage")}
                                 className={cn(
                                   "relative inline-flex h-6 w-11 items-center rounded-full transition-colors",
                                   requireMention ? "bg-emerald-500" : "bg-zinc-700"
@@ -1456,7 +1476,7 @@ function ContactsPageInner() {
                               onClick={() =>
                                 setConfirmRemoveGroup({ channel: g.channel, groupId: g.groupId })
                               }
-                              disabled={busy !== null}
+                              disabled={busy !== null || !can("groups.manage")}
                             >
                               <Trash2 className="w-3.5 h-3.5 mr-1.5" />
                               Remove Group
@@ -1505,7 +1525,7 @@ function ContactsPageInner() {
                             size="sm"
                             className="bg-green-600 hover:bg-green-700 text-white"
                             onClick={() => handleApproveDevice(p.requestId)}
-                            disabled={busy !== null}
+                            disabled={busy !== null || !can("devices.manage")}
                           >
                             {busy === `approve-dev-${p.requestId}` ? (
                               <Loader2 className="w-4 h-4 animate-spin" />
@@ -1518,7 +1538,7 @@ function ContactsPageInner() {
                             variant="outline"
                             className="text-red-400 border-red-500/30"
                             onClick={() => handleRejectDevice(p.requestId)}
-                            disabled={busy !== null}
+                            disabled={busy !== null || !can("devices.manage")}
                           >
                             {busy === `reject-dev-${p.requestId}` ? (
                               <Loader2 className="w-4 h-4 animate-spin" />
@@ -1562,7 +1582,7 @@ function ContactsPageInner() {
                           variant="outline"
                           className="text-red-400 border-red-500/30 hover:bg-red-500/10"
                           onClick={() => handleRevokeDevice(d.deviceId)}
-                          disabled={busy !== null}
+                          disabled={busy !== null || !can("devices.manage")}
                         >
                           {busy === `revoke-${d.deviceId}` ? (
                             <Loader2 className="w-4 h-4 animate-spin" />
@@ -0,0 +1,185 @@
+"use client";
+
+import { Suspense, useEffect, useState } from "react";
+import { useSearchParams } from "next/navigation";
+import { Loader2, Lock, KeyRound } from "lucide-react";
+import { Button } from "@/components/ui/button";
+
+const inputClass =
+  "w-full bg-zinc-800 border border-zinc-700 rounded-lg px-3 py-2 text-sm text-zinc-100 placeholder-zinc-500 focus:outline-none focus:ring-2 focus:ring-emerald-500/50";
+
+export default function LoginPage() {
+  return (
+    <Suspense>
+      <LoginPageInner />
+    </Suspense>
+  );
+}
+
+function LoginPageInner() {
+  const searchParams = useSearchParams();
+  const next = searchParams.get("next");
+
+  const [checking, setChecking] = useState(true);
+  const [setupRequired, setSetupRequired] = useState(false);
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [setupToken, setSetupToken] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Only follow same-origin relative paths after login
+  const redirectTarget = next && next.startsWith("/") && !next.startsWith("//") ? next : "/";
+
+  useEffect(() => {
+    fetch("/api/auth")
+      .then((r) => r.json())
+      .then((data) => {
+        if (data.authenticated) {
+          window.location.replace(redirectTarget);
+          return;
+        }
+        setSetupRequired(Boolean(data.setupRequired));
+        setChecking(false);
+      })
+      .catch(() => setChecking(false));
+  }, [redirectTarget]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    if (setupRequired && password !== confirmPassword) {
+      setError("Passwords do not match");
+      return;
+    }
+    setSubmitting(true);
+    try {
+      const res = await fetch("/api/auth", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(
+          setupRequired
+            ? { action: "setup", setupToken, username, password }
+            : { action: "login", username, password }
+        ),
+      });
+      const data = await res.json();
+      if (!res.ok || !data.ok) {
+        throw new Error(data.error || "Login failed");
+      }
+      // Full navigation so every page re-fetches with the new cookie
+      window.location.replace(redirectTarget);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+      setSubmitting(false);
+    }
+  };
+
+  if (checking) {
+    return (
+      <div className="flex items-center justify-center py-24">
+        <Loader2 className="w-6 h-6 text-emerald-500 animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-sm mx-auto pt-10 space-y-6">
+      <div className="flex flex-col items-center text-center gap-3">
+        {/* eslint-disable-next-line @next/next/no-img-element */}
+        <img src="/logo-clawdTM-green.png" alt="" className="w-14 h-14 rounded-full" />
+        <div>
+          <h1 className="text-2xl font-bold">Command Center</h1>
+          <p className="text-sm text-zinc-400">
+            {setupRequired ? "Create the first account" : "Sign in to continue"}
+          </p>
+        </div>
+      </div>
+
+      <form
+        onSubmit={handleSubmit}
+        className="bg-zinc-900 rounded-xl border border-zinc-800 p-4 sm:p-5 space-y-4"
+      >
+        {setupRequired && (
+          <div>
+            <label className="text-sm font-medium text-zinc-300 mb-1 block">Setup token</label>
+            <input
+              type="password"
+              value={setupToken}
+              onChange={(e) => setSetupToken(e.target.value)}
+              autoComplete="off"
+              placeholder="COMMAND_CENTER_SETUP_TOKEN or GATEWAY_TOKEN"
+              className={inputClass}
+            />
+            <p className="text-xs text-zinc-500 mt-1">
+              Proves you control the server. Found in <code>.env.local</code>.
+            </p>
+          </div>
+        )}
+
+        <div>
+          <label className="text-sm font-medium text-zinc-300 mb-1 block">Username</label>
+          <input
+            type="text"
+            value={username}
+            onChange={(e) => setUsername(e.target.value)}
+            autoComplete="username"
+            autoCapitalize="none"
+            className={inputClass}
+          />
+        </div>
+
+        <div>
+          <label className="text-sm font-medium text-zinc-300 mb-1 block">Password</label>
+          <input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            autoComplete={setupRequired ? "new-password" : "current-password"}
+            className={inputClass}
+          />
+        </div>
+
+        {setupRequired && (
+          <div>
+            <label className="text-sm font-medium text-zinc-300 mb-1 block">Confirm password</label>
+            <input
+              type="password"
+              value={confirmPassword}
+              onChange={(e) => setConfirmPassword(e.target.value)}
+              autoComplete="new-password"
+              className={inputClass}
+            />
+          </div>
+        )}
+
+        {error && (
+          <div className="text-sm text-red-400 bg-red-500/10 border border-red-500/20 rounded-lg px-3 py-2">
+            {error}
+          </div>
+        )}
+
+        <Button
+          type="submit"
+          disabled={submitting || !username.trim() || !password || (setupRequired && !setupToken)}
+          className="w-full bg-emerald-500 hover:bg-emerald-600 text-white"
+        >
+          {submitting ? (
+            <Loader2 className="w-4 h-4 animate-spin" />
+          ) : setupRequired ? (
+            <>
+              <KeyRound className="w-4 h-4" />
+              Create account
+            </>
+          ) : (
+            <>
+              <Lock className="w-4 h-4" />
+              Sign in
+            </>
+          )}
+        </Button>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,524 @@
+"use client";
+
+import { Fragment, useCallback, useEffect, useMemo, useRef, useState } from "react";
+import Link from "next/link";
+import {
+  ArrowDown, ArrowLeft, ArrowUp, Clock, FileText, Loader2, Plus, Radio, Search, Settings2, Trash2, XCircle,
+} from "lucide-react";
+import { cn } from "@/lib/utils";
+import { useCurrentUser } from "@/lib/use-auth";
+import { useLocalStorage } from "@/lib/use-local-storage";
+import type { LogFileInfo, LogLevel, LogLine, LogPage } from "@/lib/log-tail";
+
+const PAGE_LINES = 200;
+/** Lines kept on screen while following; older ones are dropped (and can be paged back in). */
+const MAX_SHOWN_LINES = 5000;
+
+/** What's on screen: the lines and the byte range they were read from. */
+type LogView = Pick<LogPage, "lines" | "startOffset" | "endOffset" | "hasOlder" | "hasNewer">;
+
+const EMPTY_VIEW: LogView = { lines: [], startOffset: 0, endOffset: 0, hasOlder: false, hasNewer: false };
+
+const LEVELS: Array<{ value: LogLevel | ""; label: string }> = [
+  { value: "", label: "All levels" },
+  { value: "info", label: "Info +" },
+  { value: "warn", label: "Warn +" },
+  { value: "error", label: "Errors" },
+];
+
+const LEVEL_COLORS: Record<LogLevel, string> = {
+  debug: "text-zinc-500",
+  info: "text-zinc-300",
+  warn: "text-amber-300",
+  error: "text-red-400",
+};
+
+const inputClass =
+  "bg-zinc-800 border border-zinc-700 rounded-lg px-2 py-1.5 text-xs text-zinc-100 placeholder-zinc-500 focus:outline-none focus:ring-2 focus:ring-emerald-500/50";
+
+function formatBytes(n: number): string {
+  if (n >= 1024 * 1024) return `${(n / 1024 / 1024).toFixed(1)} MB`;
+  if (n >= 1024) return `${(n / 1024).toFixed(1)} KB`;
+  return `${n} B`;
+}
+
+/** The pattern as the server applies it, for highlighting; null if it doesn't compile. */
+function highlighter(query: string): RegExp | null {
+  if (!query) return null;
+  try {
+    return new RegExp(query, "gi");
+  } catch {
+    return null;
+  }
+}
+
+function HighlightedText({ text, pattern }: { text: string; pattern: RegExp | null }) {
+  if (!pattern) return <>{text}</>;
+  const parts: React.ReactNode[] = [];
+  let last = 0;
+  for (const match of text.matchAll(pattern)) {
+    if (match[0].length === 0) break;
+    const index = match.index ?? 0;
+    parts.push(text.slice(last, index));
+    parts.push(
+      <mark key={index} className="bg-yellow-500/30 text-yellow-100 rounded-sm">
+        {match[0]}
+      </mark>
+    );
+    last = index + match[0].length;
+  }
+  parts.push(text.slice(last));
+  return <>{parts.map((p, i) => <Fragment key={i}>{p}</Fragment>)}</>;
+}
+
+function LogFilesEditor({ files, onSaved }: { files: LogFileInfo[]; onSaved: (files: LogFileInfo[]) => void }) {
+  const configured = files.filter((f) => f.configured);
+  const [path, setPath] = useState("");
+  const [label, setLabel] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const save = async (next: Array<{ path: string; label?: string }>) => {
+    setSaving(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/log-tail", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action: "set-files", files: next }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || `HTTP ${res.status}`);
+      onSaved(data.files);
+      setPath("");
+      setLabel("");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const current = configured.map((f) => ({ path: f.id, label: f.label }));
+
+  return (
+    <div className="bg-zinc-900 rounded-xl border border-zinc-800 p-3 sm:p-4 space-y-3">
+      <p className="text-xs text-zinc-500">
+        Every <code>*.log</code> in <code>logs/</code> is listed. Add other <code>*.log</code> files under the OpenClaw
+        root here, e.g. journald output captured with <code>journalctl -o short-iso -f &gt; journal.log</code>. Files in{" "}
+        <code>command-center/</code> can&apos;t be added.
+      </p>
+      {configured.length > 0 && (
+        <ul className="space-y-1">
+          {configured.map((f) => (
+            <li key={f.id} className="flex items-center gap-2 text-xs">
+              <span className="font-mono text-zinc-300 truncate">{f.id}</span>
+              {f.label !== f.id && <span className="text-zinc-500 truncate">{f.label}</span>}
+              {!f.exists && <span className="text-amber-400">missing</span>}
+              <button
+                onClick={() => save(current.filter((c) => c.path !== f.id))}
+                disabled={saving}
+                className="ml-auto p-1 text-zinc-500 hover:text-red-400 disabled:opacity-50"
+                title="Remove"
+              >
+                <Trash2 className="w-3.5 h-3.5" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      <div className="flex items-center gap-2">
+        <input
+          value={path}
+          onChange={(e) => setPath(e.target.value)}
+          placeholder="logs/journal.log"
+          className={cn(inputClass, "flex-1 min-w-0 font-mono")}
+        />
+        <input
+          value={label}
+          onChange={(e) => setLabel(e.target.value)}
+          placeholder="Label"
+          className={cn(inputClass, "w-28")}
+        />
+        <button
+          onClick={() => save([...current, { path: path.trim(), label: label.trim() || undefined }])}
+          disabled={saving || !path.trim()}
+          className="p-1.5 rounded-lg bg-zinc-800 border border-zinc-700 hover:bg-zinc-700 disabled:opacity-50"
+          title="Add log file"
+        >
+          {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+        </button>
+      </div>
+      {error && <p className="text-xs text-red-400">{error}</p>}
+    </div>
+  );
+}
+
+export default function LogsPage() {
+  const { can, loading: userLoading } = useCurrentUser();
+  const [files, setFiles] = useState<LogFileInfo[] | null>(null);
+  const [fileId, setFileId] = useLocalStorage<string>("log-tail-file", "");
+  const [level, setLevel] = useState<LogLevel | "">("");
+  const [queryDraft, setQueryDraft] = useState("");
+  const [query, setQuery] = useState("");
+  const [jumpTo, setJumpTo] = useState("");
+  const [view, setView] = useState<LogView>(EMPTY_VIEW);
+  const [follow, setFollow] = useState(true);
+  const [loading, setLoading] = useState(false);
+  const [paging, setPaging] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [showFiles, setShowFiles] = useState(false);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const stickToBottom = useRef(true);
+
+  const { lines } = view;
+  const pattern = useMemo(() => highlighter(query), [query]);
+
+  // Searching re-queries the server; wait until typing pauses
+  useEffect(() => {
+    const timer = setTimeout(() => setQuery(queryDraft.trim()), 400);
+    return () => clearTimeout(timer);
+  }, [queryDraft]);
+
+  useEffect(() => {
+    fetch("/api/log-tail")
+      .then((r) => r.json())
+      .then((data) => {
+        if (data.error) throw new Error(data.error);
+        setFiles(data.files);
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : String(err)));
+  }, []);
+
+  const file = files?.find((f) => f.id === fileId && f.exists) ?? files?.find((f) => f.exists) ?? null;
+
+  const fetchPage = useCallback(
+    async (extra: Record<string, string>): Promise<LogPage & { jumpOffset?: number }> => {
+      const params = new URLSearchParams({ file: file!.id, limit: String(PAGE_LINES), ...extra });
+      if (level) params.set("level", level);
+      if (query) params.set("q", query);
+      const res = await fetch(`/api/log-tail?${params}`);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || `HTTP ${res.status}`);
+      return data;
+    },
+    [file, level, query]
+  );
+
+  const showPage = (page: LogPage) => {
+    setView({
+      lines: page.lines,
+      startOffset: page.startOffset,
+      endOffset: page.endOffset,
+      hasOlder: page.hasOlder,
+      hasNewer: page.hasNewer,
+    });
+  };
+
+  // The end of the file whenever the file or filters change
+  const loadTail = useCallback(async () => {
+    if (!file) return;
+    setLoading(true);
+    try {
+      showPage(await fetchPage({}));
+      setError(null);
+      setNotice(null);
+      stickToBottom.current = true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setLoading(false);
+    }
+  }, [file, fetchPage]);
+
+  useEffect(() => {
+    loadTail();
+  }, [loadTail]);
+
+  // Follow: stream what's appended after the page on screen. EventSource
+  // reconnects with Last-Event-ID (a byte offset), so nothing is missed.
+  // The stream tracks its own position once open, so the start offset is
+  // read through a ref rather than reconnecting on every batch of lines.
+  const followFrom = follow && !view.hasNewer ? view.endOffset : null;
+  const following = followFrom !== null && !!file && !loading;
+  const followFromRef = useRef(followFrom);
+
+  useEffect(() => {
+    followFromRef.current = followFrom;
+  }, [followFrom]);
+
+  useEffect(() => {
+    if (!following || !file) return;
+    const params = new URLSearchParams({ file: file.id, follow: "1", from: String(followFromRef.current) });
+    if (level) params.set("level", level);
+    if (query) params.set("q", query);
+    const source = new EventSource(`/api/log-tail?${params}`);
+    source.addEventListener("lines", (e) => {
+      const data = JSON.parse((e as MessageEvent).data) as { lines: LogLine[]; endOffset: number };
+      setView((prev) => {
+        const next = { ...prev, lines: [...prev.lines, ...data.lines], endOffset: data.endOffset };
+        if (next.lines.length <= MAX_SHOWN_LINES) return next;
+        const kept = next.lines.slice(next.lines.length - MAX_SHOWN_LINES);
+        return { ...next, lines: kept, startOffset: kept[0].offset, hasOlder: true };
+      });
+    });
+    source.addEventListener("reset", () => {
+      setView(EMPTY_VIEW);
+      setNotice("The file was rotated or truncated; showing it from the start.");
+    });
+    source.addEventListener("failed", (e) => {
+      source.close();
+      setError((JSON.parse((e as MessageEvent).data) as { error: string }).error);
+    });
+    return () => source.close();
+  }, [following, file, level, query]);
+
+  useEffect(() => {
+    const el = scrollRef.current;
+    if (el && stickToBottom.current) el.scrollTop = el.scrollHeight;
+  }, [lines]);
+
+  const loadOlder = async () => {
+    setPaging(true);
+    const el = scrollRef.current;
+    const fromBottom = el ? el.scrollHeight - el.scrollTop : 0;
+    try {
+      const page = await fetchPage({ before: String(view.startOffset) });
+      stickToBottom.current = false;
+      setView((prev) => ({
+        ...prev,
+        lines: [...page.lines, ...prev.lines],
+        startOffset: page.startOffset,
+        hasOlder: page.hasOlder,
+      }));
+      // Keep the lines that were on screen where they were
+      requestAnimationFrame(() => {
+        if (el) el.scrollTop = el.scrollHeight - fromBottom;
+      });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setPaging(false);
+    }
+  };
+
+  const loadNewer = async () => {
+    setPaging(true);
+    try {
+      const page = await fetchPage({ after: String(view.endOffset) });
+      setView((prev) => ({
+        ...prev,
+        lines: [...prev.lines, ...page.lines],
+        endOffset: page.endOffset,
+        hasNewer: page.hasNewer,
+      }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setPaging(false);
+    }
+  };
+
+  const jump = async () => {
+    if (!jumpTo) return;
+    const ts = new Date(jumpTo).getTime();
+    if (!Number.isFinite(ts)) return;
+    setLoading(true);
+    try {
+      const page = await fetchPage({ at: String(ts) });
+      setFollow(false);
+      stickToBottom.current = false;
+      showPage(page);
+      setNotice(page.lines.length === 0 ? "Nothing logged at or after that time." : null);
+      scrollRef.current?.scrollTo({ top: 0 });
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (!userLoading && !can("logs.tail")) {
+    return (
+      <div className="space-y-6">
+        <header className="flex items-center gap-3">
+          <Link href="/" className="p-2 rounded-lg bg-zinc-900 border border-zinc-800 hover:bg-zinc-800">
+            <ArrowLeft className="w-5 h-5" strokeWidth={1.5} />
+          </Link>
+          <h1 className="text-2xl font-bold">Logs</h1>
+        </header>
+        <p className="text-sm text-zinc-400">Process logs are available to operators and admins.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <header className="flex items-center justify-between gap-3">
+        <div className="flex items-center gap-3 min-w-0">
+          <Link href="/" className="p-2 rounded-lg bg-zinc-900 border border-zinc-800 hover:bg-zinc-800">
+            <ArrowLeft className="w-5 h-5" strokeWidth={1.5} />
+          </Link>
+          <div className="min-w-0">
+            <h1 className="text-2xl font-bold">Logs</h1>
+            <p className="text-sm text-zinc-400 truncate">
+              {file ? `${file.id} · ${formatBytes(file.sizeBytes)}` : "Gateway and agent process logs"}
+            </p>
+          </div>
+        </div>
+        {can("settings.write") && (
+          <button
+            onClick={() => setShowFiles(!showFiles)}
+            className={cn(
+              "p-2 rounded-lg border transition-colors btn-press",
+              showFiles ? "bg-zinc-800 border-zinc-700" : "bg-zinc-900 border-zinc-800 hover:bg-zinc-800"
+            )}
+            title="Log files"
+          >
+            <Settings2 className="w-5 h-5" strokeWidth={1.5} />
+          </button>
+        )}
+      </header>
+
+      {showFiles && files && <LogFilesEditor files={files} onSaved={setFiles} />}
+
+      {/* Controls */}
+      <div className="flex items-center gap-2 flex-wrap">
+        <select
+          value={file?.id ?? ""}
+          onChange={(e) => setFileId(e.target.value)}
+          className={cn(inputClass, "max-w-[12rem]")}
+          disabled={!files || files.length === 0}
+        >
+          {files?.filter((f) => f.exists).map((f) => (
+            <option key={f.id} value={f.id}>
+              {f.label}
+            </option>
+          ))}
+        </select>
+        <select value={level} onChange={(e) => setLevel(e.target.value as LogLevel | "")} className={inputClass}>
+          {LEVELS.map((l) => (
+            <option key={l.value} value={l.value}>
+              {l.label}
+            </option>
+          ))}
+        </select>
+        <div className="relative flex-1 min-w-[140px]">
+          <Search className="w-3.5 h-3.5 absolute left-2.5 top-1/2 -translate-y-1/2 text-zinc-500" />
+          <input
+            value={queryDraft}
+            onChange={(e) => setQueryDraft(e.target.value)}
+            placeholder="Regex search…"
+            className={cn(inputClass, "w-full pl-8 font-mono", queryDraft && !highlighter(queryDraft) && "border-red-500/50")}
+          />
+        </div>
+        <div className="flex items-center gap-1">
+          <input
+            type="datetime-local"
+            step={1}
+            value={jumpTo}
+            onChange={(e) => setJumpTo(e.target.value)}
+            className={inputClass}
+            title="Jump to time"
+          />
+          <button
+            onClick={jump}
+            disabled={!jumpTo || !file}
+            className="p-1.5 rounded-lg bg-zinc-800 border border-zinc-700 hover:bg-zinc-700 disabled:opacity-50"
+            title="Jump to time"
+          >
+            <Clock className="w-4 h-4" />
+          </button>
+        </div>
+        <button
+          onClick={() => {
+            if (!follow && view.hasNewer) {
+              // Back to the live end of the file
+              setFollow(true);
+              loadTail();
+            } else {
+              setFollow(!follow);
+            }
+          }}
+          className={cn(
+            "ml-auto flex items-center gap-1.5 px-2.5 py-1.5 rounded-lg text-xs transition-colors",
+            following ? "bg-emerald-500/20 text-emerald-400" : "bg-zinc-800 text-zinc-500 hover:text-zinc-300"
+          )}
+        >
+          <Radio className={cn("w-3 h-3", following && "animate-pulse")} />
+          Follow
+        </button>
+      </div>
+
+      {error && (
+        <div className="flex items-start gap-2 text-sm text-red-400 bg-red-500/10 border border-red-500/20 rounded-lg px-3 py-2">
+          <XCircle className="w-4 h-4 shrink-0 mt-0.5" />
+          <span className="flex-1 break-words">{error}</span>
+        </div>
+      )}
+      {notice && <p className="text-xs text-amber-400">{notice}</p>}
+
+      {files && files.every((f) => !f.exists) ? (
+        <div className="bg-zinc-900 rounded-xl border border-zinc-800 p-8 text-center">
+          <FileText className="w-10 h-10 text-zinc-700 mx-auto mb-3" />
+          <p className="text-sm text-zinc-400 font-medium">No log files found</p>
+          <p className="text-xs text-zinc-500 mt-1">
+            Nothing in <code>logs/</code> yet{can("settings.write") ? "; add a file with the settings button." : "."}
+          </p>
+        </div>
+      ) : (
+        <div
+          ref={scrollRef}
+          onScroll={(e) => {
+            const el = e.currentTarget;
+            stickToBottom.current = el.scrollHeight - el.scrollTop - el.clientHeight < 40;
+          }}
+          className="bg-zinc-950 rounded-xl border border-zinc-800 h-[65vh] overflow-y-auto font-mono text-[11px] leading-relaxed"
+        >
+          {view.hasOlder && (
+            <button
+              onClick={loadOlder}
+              disabled={paging}
+              className="w-full flex items-center justify-center gap-1.5 py-2 text-xs text-zinc-500 hover:text-zinc-300 disabled:opacity-50"
+            >
+              {paging ? <Loader2 className="w-3 h-3 animate-spin" /> : <ArrowUp className="w-3 h-3" />}
+              Load older
+            </button>
+          )}
+          {loading && lines.length === 0 ? (
+            <div className="flex items-center justify-center h-full text-zinc-500">
+              <Loader2 className="w-5 h-5 animate-spin" />
+            </div>
+          ) : lines.length === 0 ? (
+            <p className="p-4 text-zinc-500 text-xs font-sans">
+              {level || query ? "No lines match in the part of the file searched." : "The file is empty."}
+            </p>
+          ) : (
+            <div className="px-3 py-2">
+              {lines.map((line) => (
+                <div
+                  key={line.offset}
+                  className={cn("whitespace-pre-wrap break-all", LEVEL_COLORS[line.level ?? "info"])}
+                >
+                  <HighlightedText text={line.text} pattern={pattern} />
+                </div>
+              ))}
+            </div>
+          )}
+          {view.hasNewer && !following && (
+            <button
+              onClick={loadNewer}
+              disabled={paging}
+              className="w-full flex items-center justify-center gap-1.5 py-2 text-xs text-zinc-500 hover:text-zinc-300 disabled:opacity-50"
+            >
+              {paging ? <Loader2 className="w-3 h-3 animate-spin" /> : <ArrowDown className="w-3 h-3" />}
+              Load newer
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
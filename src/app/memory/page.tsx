@@ -15,6 +15,7 @@ import {
   Eye, EyeOff, Save, RotateCcw, Code, AlertCircle,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { useCurrentUser } from "@/lib/use-auth";
 import { MarkdownContent } from "@/components/markdown-content";
 import {
   getSkillsStatus,
@@ -980,6 +981,7 @@ function InstalledSkillCard({
   onToggle: () => void;
   onUninstall: () => void;
 }) {
+  const { can } = useCurrentUser();
   const hasMissing = skill.missing && ((skill.missing.bins?.length || 0) > 0 || (skill.missing.env?.length || 0) > 0 || (skill.missing.os?.length || 0) > 0);
   const isManaged = skill.source === "managed" || skill.source === "npm" || skill.source === "installed" || skill.source === "openclaw-workspace";
   const isBuiltin = skill.source === "builtin" || skill.source === "core" || skill.source === "openclaw-bundled";
@@ -999,7 +1001,7 @@ function InstalledSkillCard({
         <div className="flex items-center gap-1 shrink-0">
           <button
             onClick={(e) => { e.stopPropagation(); onToggle(); }}
-            disabled={busy}
+            disabled={busy || !can("skills.manage")}
             className={cn("p-1.5 rounded-lg transition-colors", skill.disabled ? "text-zinc-500 hover:text-green-400 hover:bg-green-500/10" : "text-green-400 hover:text-zinc-500 hover:bg-zinc-800")}
             title={skill.disabled ? "Enable skill" : "Disable skill"}
           >
@@ -1040,7 +1042,7 @@ function InstalledSkillCard({
           )}
           {isManaged && (
             <div className="pt-2">
-              <Button variant="outline" size="sm" className="text-red-400 border-red-500/30 hover:bg-red-500/10" onClick={onUninstall} disabled={busy}>
+              <Button variant="outline" size="sm" className="text-red-400 border-red-500/30 hover:bg-red-500/10" onClick={onUninstall} disabled={busy || !can("skills.manage")}>
                 <Trash2 className="w-4 h-4 mr-2" />
                 Uninstall
               </Button>
@@ -1064,6 +1066,7 @@ function StoreSkillCard({
   onToggleExpand: () => void;
   onInstall: () => void;
 }) {
+  const { can } = useCurrentUser();
   return (
     <div className="bg-zinc-900 rounded-xl border border-zinc-800 p-4 transition-all">
       <div className="flex items-start justify-between gap-3 cursor-pointer" onClick={onToggleExpand}>
@@ -1091,7 +1094,7 @@ function StoreSkillCard({
         </div>
         <div className="flex items-center gap-2 shrink-0">
           {!isInstalled ? (
-            <Button size="sm" onClick={(e) => { e.stopPropagation(); onInstall(); }} disabled={installing} className="h-8 px-3 bg-emerald-500 hover:bg-emerald-600 text-white">
+            <Button size="sm" onClick={(e) => { e.stopPropagation(); onInstall(); }} disabled={installing || !can("skills.manage")} className="h-8 px-3 bg-emerald-500 hover:bg-emerald-600 text-white">
               {installing ? <Loader2 className="w-4 h-4 animate-spin" /> : <><Download className="w-4 h-4 mr-1" />Install</>}
             </Button>
           ) : (
@@ -1278,6 +1281,7 @@ const VISUAL_SECTIONS = [
 ];
 
 function ConfigEditor() {
+  const { can } = useCurrentUser();
   const [config, setConfig] = useState<Record<string, unknown> | null>(null);
   const [originalJson, setOriginalJson] = useState("");
   const [rawJson, setRawJson] = useState("");
@@ -1488,7 +1492,7 @@ function ConfigEditor() {
           <Button
             size="sm"
             onClick={handleSave}
-            disabled={saving || !hasChanges || (mode === "json" && !jsonValid)}
+            disabled={saving || !hasChanges || (mode === "json" && !jsonValid) || !can("config.write")}
             className="h-7 px-3 text-xs bg-emerald-500 hover:bg-emerald-600 text-white"
           >
             {saving ? (
@@ -7,12 +7,22 @@ import { CronTimeline } from "@/components/cron-timeline";
 import { AgentLevelBadge } from "@/components/agent-level";
 import { ChannelLinks } from "@/components/channel-links";
 import { ContactsSummary } from "@/components/contacts-summary";
-import { RefreshCw, Sparkles, Heart, Camera, Pencil, Check, X } from "lucide-react";
+import { SessionComposer } from "@/components/session-composer";
+import { AgentSwitcher } from "@/components/agent-switcher";
+import { AlertBell } from "@/components/alert-bell";
+import { AgentOverview } from "@/components/agent-overview";
+import Link from "next/link";
+import {
+  RefreshCw, Sparkles, Heart, Camera, Pencil, Check, X, UserCircle, MessageSquare, ScrollText, BarChart3,
+} from "lucide-react";
 import { cn } from "@/lib/utils";
+import { useCurrentUser } from "@/lib/use-auth";
+import { useLiveRefresh } from "@/lib/use-live-events";
 import type { CronJob, HeartbeatEvent } from "@/lib/gateway-api";
 import {
   readDashboardCache,
   writeDashboardCache,
+  type AgentOverview as AgentOverviewItem,
   type DashboardData,
 } from "@/lib/dashboard-cache";
 
@@ -45,6 +55,7 @@ function formatRelativeTime(ts?: number): string {
 }
 
 export default function DashboardPage() {
+  const { can } = useCurrentUser();
   const [connected, setConnected] = useState(false);
   const [uptime, setUptime] = useState<number | undefined>();
   const [cronJobs, setCronJobs] = useState<CronJob[]>([]);
@@ -66,6 +77,8 @@ export default function DashboardPage() {
   const [nameDraft, setNameDraft] = useState("");
   const [savingName, setSavingName] = useState(false);
   const [systemHealth, setSystemHealth] = useState<SystemHealth | null>(null);
+  const [agentId, setAgentId] = useState("main");
+  const [agents, setAgents] = useState<AgentOverviewItem[]>([]);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   // Apply dashboard data from any source (cache or fetch)
@@ -81,6 +94,8 @@ export default function DashboardPage() {
       setAvatarUrl((prev) => prev || `/api/avatar?t=${Date.now()}`);
     }
     if (data.systemHealth) setSystemHealth(data.systemHealth);
+    if (data.agentId) setAgentId(data.agentId);
+    setAgents(data.agents ?? []);
   }, []);
 
   // Single fetch that gets ALL dashboard data in one HTTP request
@@ -172,6 +187,10 @@ export default function DashboardPage() {
     return () => clearInterval(interval);
   }, [refresh, applyDashboardData]);
 
+  // Heartbeats, cron runs and gateway reconnects refresh immediately
+  useLiveRefresh(["heartbeat", "cron", "gateway"], refresh);
+
+  const mainSessionKey = `agent:${agentId}:main`;
   const uptimeStr = uptime ? formatUptime(uptime * 1000) : undefined;
   const heartbeatTime = lastHeartbeat?.ts
     ? formatRelativeTime(lastHeartbeat.ts)
@@ -197,7 +216,7 @@ export default function DashboardPage() {
           {/* Avatar / Bot image — click to upload */}
           <button
             onClick={() => fileInputRef.current?.click()}
-            disabled={avatarUploading}
+            disabled={avatarUploading || !can("agent.edit")}
             className="relative group flex-shrink-0"
             title="Upload bot avatar"
           >
@@ -264,13 +283,15 @@ export default function DashboardPage() {
                   <h1 className="text-xl sm:text-2xl font-bold truncate">
                     {agentInfo?.name?.trim() || "Set agent name"}
                   </h1>
-                  <button
-                    onClick={beginEditName}
-                    className="p-1 rounded-md border border-zinc-700 hover:border-emerald-500/60 transition-colors"
-                    title={agentInfo?.name?.trim() ? "Rename agent" : "Set agent name"}
-                  >
-                    <Pencil className="w-3.5 h-3.5" />
-                  </button>
+                  {can("agent.edit") && (
+                    <button
+                      onClick={beginEditName}
+                      className="p-1 rounded-md border border-zinc-700 hover:border-emerald-500/60 transition-colors"
+                      title={agentInfo?.name?.trim() ? "Rename agent" : "Set agent name"}
+                    >
+                      <Pencil className="w-3.5 h-3.5" />
+                    </button>
+                  )}
                 </div>
               )}
               <AgentLevelBadge uptimeSeconds={uptime} />
@@ -303,16 +324,34 @@ export default function DashboardPage() {
             </div>
           </div>
         </div>
-        <button
-          onClick={refresh}
-          disabled={refreshing}
-          className="p-2 rounded-lg bg-zinc-900 border border-zinc-800 hover:bg-zinc-800 transition-colors btn-press disabled:opacity-50"
-        >
-          <RefreshCw
-            className={`w-5 h-5 ${refreshing ? "animate-spin" : ""}`}
-            strokeWidth={1.5}
-          />
-        </button>
+        <div className="flex items-center gap-2">
+          <AgentSwitcher />
+          <AlertBell />
+          <Link
+            href="/usage"
+            className="p-2 rounded-lg bg-zinc-900 border border-zinc-800 hover:bg-zinc-800 transition-colors btn-press"
+            title="Usage"
+          >
+            <BarChart3 className="w-5 h-5" strokeWidth={1.5} />
+          </Link>
+          <Link
+            href="/account"
+            className="p-2 rounded-lg bg-zinc-900 border border-zinc-800 hover:bg-zinc-800 transition-colors btn-press"
+            title="Account"
+          >
+            <UserCircle className="w-5 h-5" strokeWidth={1.5} />
+          </Link>
+          <button
+            onClick={refresh}
+            disabled={refreshing}
+            className="p-2 rounded-lg bg-zinc-900 border border-zinc-800 hover:bg-zinc-800 transition-colors btn-press disabled:opacity-50"
+          >
+            <RefreshCw
+              className={`w-5 h-5 ${refreshing ? "animate-spin" : ""}`}
+              strokeWidth={1.5}
+            />
+          </button>
+        </div>
       </header>
 
       {/* Heartbeat / Instructions - collapsible, default collapsed */}
@@ -340,6 +379,29 @@ export default function DashboardPage() {
         </div>
       )}
 
+      {/* Every agent at a glance - only with more than one */}
+      <AgentOverview agents={agents} selected={agentId} />
+
+      {/* Message the main session as operator */}
+      {can("sessions.send") && (
+        <section className="space-y-2">
+          <div className="flex items-center justify-between">
+            <h2 className="text-xs font-medium text-zinc-500 uppercase tracking-wider flex items-center gap-2">
+              <MessageSquare className="w-3.5 h-3.5" />
+              Main Session
+            </h2>
+            <Link
+              href={`/sessions/${encodeURIComponent(mainSessionKey)}`}
+              className="flex items-center gap-1 text-xs text-zinc-500 hover:text-zinc-300 transition-colors"
+            >
+              <ScrollText className="w-3.5 h-3.5" />
+              Transcript
+            </Link>
+          </div>
+          <SessionComposer sessionKey={mainSessionKey} placeholder="Message the agent as operator…" />
+        </section>
+      )}
+
       {/* Channel Quick Links */}
       <ChannelLinks />
 
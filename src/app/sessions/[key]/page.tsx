@@ -0,0 +1,566 @@
+"use client";
+
+import { useCallback, useEffect, useLayoutEffect, useRef, useState } from "react";
+import Link from "next/link";
+import { useParams, useRouter } from "next/navigation";
+import {
+  ArrowLeft, Loader2, Search, X, User, Bot, Wrench, Info, ChevronDown, ChevronUp, ArrowDown, Brain, Send,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { SessionActionsBar } from "@/components/session-actions";
+import { SessionComposer } from "@/components/session-composer";
+import { cn } from "@/lib/utils";
+import { useLiveRefresh } from "@/lib/use-live-events";
+import type { OperatorMessageRecord } from "@/lib/operator-messages";
+import type {
+  TranscriptBlock,
+  TranscriptPage,
+  TranscriptRole,
+  TranscriptSearchHit,
+  TranscriptTurn,
+} from "@/lib/session-transcript";
+
+const PAGE_SIZE = 50;
+/** Tool output taller than this starts collapsed. */
+const COLLAPSE_CHARS = 600;
+/** How far a user turn's timestamp may be from when the operator sent it. */
+const OPERATOR_MATCH_WINDOW_MS = 10 * 60 * 1000;
+
+const ROLE_STYLE: Record<TranscriptRole, { label: string; icon: typeof User; className: string }> = {
+  user: { label: "User", icon: User, className: "text-sky-400" },
+  assistant: { label: "Assistant", icon: Bot, className: "text-emerald-400" },
+  tool: { label: "Tool", icon: Wrench, className: "text-amber-400" },
+  system: { label: "System", icon: Info, className: "text-purple-400" },
+  event: { label: "Event", icon: Info, className: "text-zinc-500" },
+};
+
+function decodeKey(raw: string | string[] | undefined): string {
+  const value = Array.isArray(raw) ? raw.join("/") : raw ?? "";
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+function formatTurnTime(ms: number): string {
+  return new Date(ms).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+    second: "2-digit",
+  });
+}
+
+function formatTokens(n: number): string {
+  return n >= 1000 ? `${(n / 1000).toFixed(1)}k` : String(n);
+}
+
+function formatBytes(n: number): string {
+  if (n < 1024) return `${n} B`;
+  if (n < 1024 * 1024) return `${(n / 1024).toFixed(1)} KB`;
+  return `${(n / 1024 / 1024).toFixed(1)} MB`;
+}
+
+/** `text` with every case-insensitive occurrence of `query` marked. */
+function Highlight({ text, query }: { text: string; query: string }) {
+  if (!query) return <>{text}</>;
+  const lower = text.toLowerCase();
+  const needle = query.toLowerCase();
+  const parts: React.ReactNode[] = [];
+  let from = 0;
+  let index = lower.indexOf(needle);
+  while (index !== -1) {
+    if (index > from) parts.push(text.slice(from, index));
+    parts.push(
+      <mark key={index} className="bg-amber-500/30 text-amber-100 rounded-sm">
+        {text.slice(index, index + needle.length)}
+      </mark>
+    );
+    from = index + needle.length;
+    index = lower.indexOf(needle, from);
+  }
+  if (from < text.length) parts.push(text.slice(from));
+  return <>{parts}</>;
+}
+
+function Collapsible({
+  label,
+  text,
+  query,
+  className,
+  startOpen,
+}: {
+  label: React.ReactNode;
+  text: string;
+  query: string;
+  className?: string;
+  startOpen: boolean;
+}) {
+  const [open, setOpen] = useState(startOpen);
+  return (
+    <div className="mt-2">
+      <button
+        onClick={() => setOpen(!open)}
+        className="flex items-center gap-1 text-xs text-zinc-400 hover:text-zinc-200 transition-colors"
+      >
+        {open ? <ChevronUp className="w-3.5 h-3.5" /> : <ChevronDown className="w-3.5 h-3.5" />}
+        {label}
+      </button>
+      {open && (
+        <pre
+          className={cn(
+            "text-xs bg-zinc-950 rounded p-2 mt-1 max-h-80 overflow-auto whitespace-pre-wrap break-all",
+            className ?? "text-zinc-300"
+          )}
+        >
+          <Highlight text={text} query={query} />
+        </pre>
+      )}
+    </div>
+  );
+}
+
+function BlockView({ block, query }: { block: TranscriptBlock; query: string }) {
+  const hit = !!query && block.kind !== "toolCall" && block.text.toLowerCase().includes(query.toLowerCase());
+  switch (block.kind) {
+    case "text":
+      return (
+        <p className="text-sm text-zinc-200 mt-2 whitespace-pre-wrap break-words">
+          <Highlight text={block.text} query={query} />
+        </p>
+      );
+    case "thinking":
+      return (
+        <Collapsible
+          label={
+            <span className="flex items-center gap-1 italic">
+              <Brain className="w-3 h-3" />
+              Thinking
+            </span>
+          }
+          text={block.text}
+          query={query}
+          className="text-zinc-400 italic"
+          startOpen={hit}
+        />
+      );
+    case "toolCall": {
+      const callHit = !!query && `${block.name} ${block.input}`.toLowerCase().includes(query.toLowerCase());
+      return (
+        <Collapsible
+          label={
+            <span>
+              Call <span className="font-mono text-amber-400">{block.name}</span>
+            </span>
+          }
+          text={block.input}
+          query={query}
+          startOpen={callHit}
+        />
+      );
+    }
+    case "toolResult":
+      return (
+        <Collapsible
+          label={
+            <span className={cn(block.isError && "text-red-400")}>
+              {block.isError ? "Error" : "Result"}
+              {block.name && <span className="font-mono"> · {block.name}</span>}
+              <span className="text-zinc-600"> · {block.text.length.toLocaleString()} chars</span>
+            </span>
+          }
+          text={block.text}
+          query={query}
+          className={block.isError ? "text-red-300" : undefined}
+          startOpen={hit || block.text.length <= COLLAPSE_CHARS}
+        />
+      );
+  }
+}
+
+function TurnView({
+  turn,
+  query,
+  focused,
+  operator,
+}: {
+  turn: TranscriptTurn;
+  query: string;
+  focused: boolean;
+  operator?: OperatorMessageRecord;
+}) {
+  const style = ROLE_STYLE[turn.role];
+  const Icon = style.icon;
+  return (
+    <div
+      id={`turn-${turn.offset}`}
+      className={cn(
+        "rounded-xl border p-3 scroll-mt-24 transition-colors",
+        turn.role === "event" ? "bg-zinc-900/40 border-zinc-800/60" : "bg-zinc-900 border-zinc-800",
+        focused && "border-amber-500/50"
+      )}
+    >
+      <div className="flex items-center gap-2 text-xs flex-wrap">
+        <Icon className={cn("w-3.5 h-3.5 shrink-0", style.className)} />
+        <span className={cn("font-medium", style.className)}>{style.label}</span>
+        {operator && (
+          <Badge variant="outline" className="text-[10px] px-1.5 py-0 text-sky-300 border-sky-500/30 gap-1">
+            <Send className="w-2.5 h-2.5" />
+            {operator.sentBy ?? "operator"} via command center
+          </Badge>
+        )}
+        {turn.model && <span className="text-zinc-600 truncate">{turn.model}</span>}
+        {turn.usage && (
+          <span
+            className="text-zinc-500"
+            title={[
+              turn.usage.input !== undefined && `in ${turn.usage.input}`,
+              turn.usage.output !== undefined && `out ${turn.usage.output}`,
+              turn.usage.cacheRead && `cache read ${turn.usage.cacheRead}`,
+              turn.usage.cacheWrite && `cache write ${turn.usage.cacheWrite}`,
+            ]
+              .filter(Boolean)
+              .join(" · ")}
+          >
+            {formatTokens(turn.usage.total)} tokens
+            {turn.usage.output !== undefined && ` (${formatTokens(turn.usage.output)} out)`}
+          </span>
+        )}
+        {turn.timestamp !== undefined && (
+          <span className="ml-auto text-zinc-600">{formatTurnTime(turn.timestamp)}</span>
+        )}
+      </div>
+      {turn.blocks.length === 0 ? (
+        <p className="text-xs text-zinc-600 mt-1">(empty)</p>
+      ) : (
+        // Keyed on the query so blocks holding a new hit open up
+        turn.blocks.map((block, i) => <BlockView key={`${i}:${query}`} block={block} query={query} />)
+      )}
+    </div>
+  );
+}
+
+/** The operator message a user turn came from, if it was sent from the command center. */
+function operatorMessageFor(turn: TranscriptTurn, messages: OperatorMessageRecord[]): OperatorMessageRecord | undefined {
+  if (turn.role !== "user" || messages.length === 0) return undefined;
+  const text = turn.blocks.map((b) => (b.kind === "text" ? b.text : "")).join("\n");
+  // The gateway may wrap the text in an envelope (timestamp, channel), so look for it inside
+  return messages.find(
+    (m) =>
+      m.status === "sent" &&
+      text.includes(m.text) &&
+      (turn.timestamp === undefined || Math.abs(turn.timestamp - m.sentAt) < OPERATOR_MATCH_WINDOW_MS)
+  );
+}
+
+// ─────────────────────────────────────────────────────────────
+// Page
+// ─────────────────────────────────────────────────────────────
+
+export default function SessionTranscriptPage() {
+  const params = useParams<{ key: string }>();
+  const router = useRouter();
+  const sessionKey = decodeKey(params.key);
+
+  const [turns, setTurns] = useState<TranscriptTurn[]>([]);
+  const [cursor, setCursor] = useState({ start: 0, end: 0, hasOlder: false, hasNewer: false });
+  const [meta, setMeta] = useState<{ file: string; sizeBytes: number } | null>(null);
+  const [operatorMessages, setOperatorMessages] = useState<OperatorMessageRecord[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState<"older" | "newer" | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const [searchInput, setSearchInput] = useState("");
+  const [query, setQuery] = useState("");
+  const [hits, setHits] = useState<TranscriptSearchHit[] | null>(null);
+  const [hitsTruncated, setHitsTruncated] = useState(false);
+  const [searching, setSearching] = useState(false);
+  const [focusedOffset, setFocusedOffset] = useState<number | null>(null);
+
+  // Scroll handling after a page lands: to the bottom, to a turn, or keep
+  // the view steady when older turns are added above it
+  const pendingScroll = useRef<{ kind: "bottom" } | { kind: "turn"; offset: number } | { kind: "keep"; height: number } | null>(null);
+
+  const fetchPage = useCallback(
+    async (params: { before?: number; after?: number }): Promise<TranscriptPage> => {
+      const search = new URLSearchParams({ key: sessionKey, limit: String(PAGE_SIZE) });
+      if (params.before !== undefined) search.set("before", String(params.before));
+      if (params.after !== undefined) search.set("after", String(params.after));
+      const res = await fetch(`/api/sessions?${search}`);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || `HTTP ${res.status}`);
+      setMeta({ file: data.file, sizeBytes: data.sizeBytes });
+      setOperatorMessages(data.operatorMessages ?? []);
+      return data;
+    },
+    [sessionKey]
+  );
+
+  const showPage = useCallback((page: TranscriptPage) => {
+    setTurns(page.turns);
+    setCursor({ start: page.startOffset, end: page.endOffset, hasOlder: page.hasOlder, hasNewer: page.hasNewer });
+  }, []);
+
+  const loadLatest = useCallback(async () => {
+    setLoading(true);
+    try {
+      const page = await fetchPage({});
+      pendingScroll.current = { kind: "bottom" };
+      showPage(page);
+      setFocusedOffset(null);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setLoading(false);
+    }
+  }, [fetchPage, showPage]);
+
+  useEffect(() => {
+    loadLatest();
+  }, [loadLatest]);
+
+  const loadOlder = async () => {
+    setLoadingMore("older");
+    try {
+      const page = await fetchPage({ before: cursor.start });
+      pendingScroll.current = { kind: "keep", height: document.documentElement.scrollHeight };
+      setTurns((prev) => [...page.turns, ...prev]);
+      setCursor((c) => ({ ...c, start: page.startOffset, hasOlder: page.hasOlder }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setLoadingMore(null);
+    }
+  };
+
+  const loadNewer = useCallback(async () => {
+    setLoadingMore("newer");
+    try {
+      const page = await fetchPage({ after: cursor.end });
+      // The page may start with a turn already shown (it was still being written)
+      setTurns((prev) => [...prev.filter((t) => t.offset < page.startOffset), ...page.turns]);
+      setCursor((c) => ({ ...c, end: page.endOffset, hasNewer: page.hasNewer }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setLoadingMore(null);
+    }
+  }, [fetchPage, cursor.end]);
+
+  // New turns while the tail is on screen: fetch what was appended
+  useLiveRefresh(["sessions"], () => {
+    if (!loading && !loadingMore && !cursor.hasNewer) loadNewer();
+  });
+
+  useLayoutEffect(() => {
+    const pending = pendingScroll.current;
+    if (!pending) return;
+    pendingScroll.current = null;
+    if (pending.kind === "bottom") {
+      window.scrollTo({ top: document.documentElement.scrollHeight });
+    } else if (pending.kind === "keep") {
+      window.scrollBy({ top: document.documentElement.scrollHeight - pending.height });
+    } else {
+      document.getElementById(`turn-${pending.offset}`)?.scrollIntoView({ block: "start" });
+    }
+  }, [turns]);
+
+  const runSearch = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const q = searchInput.trim();
+    setQuery(q);
+    if (!q) {
+      setHits(null);
+      return;
+    }
+    setSearching(true);
+    try {
+      const res = await fetch(`/api/sessions?${new URLSearchParams({ key: sessionKey, q })}`);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || `HTTP ${res.status}`);
+      setHits(data.hits);
+      setHitsTruncated(data.truncated);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  const clearSearch = () => {
+    setSearchInput("");
+    setQuery("");
+    setHits(null);
+    setFocusedOffset(null);
+  };
+
+  // Show the page that ends with the hit, so it sits at the bottom with context above
+  const jumpTo = async (hit: TranscriptSearchHit) => {
+    setFocusedOffset(hit.offset);
+    if (turns.some((t) => t.offset === hit.offset)) {
+      document.getElementById(`turn-${hit.offset}`)?.scrollIntoView({ block: "start", behavior: "smooth" });
+      return;
+    }
+    setLoadingMore("older");
+    try {
+      const page = await fetchPage({ before: hit.end + 1 });
+      pendingScroll.current = { kind: "turn", offset: hit.offset };
+      showPage(page);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setLoadingMore(null);
+    }
+  };
+
+  const pageTokens = turns.reduce((sum, t) => sum + (t.usage?.total ?? 0), 0);
+
+  return (
+    <div className="space-y-4">
+      <header className="flex items-center gap-3">
+        <Link href="/actions" className="p-2 rounded-lg bg-zinc-900 border border-zinc-800 hover:bg-zinc-800 shrink-0">
+          <ArrowLeft className="w-5 h-5" strokeWidth={1.5} />
+        </Link>
+        <div className="min-w-0">
+          <h1 className="text-2xl font-bold">Transcript</h1>
+          <p className="text-xs text-zinc-400 font-mono truncate">{sessionKey}</p>
+        </div>
+      </header>
+
+      <SessionActionsBar
+        sessionKey={sessionKey}
+        isMain={sessionKey.split(":")[2] === "main"}
+        onDone={(result) => {
+          // Archived or deleted sessions are gone from the list; reset and compacted ones start over
+          if (result.action === "archive" || result.action === "delete") router.push("/actions");
+          else loadLatest();
+        }}
+      />
+
+      <form onSubmit={runSearch} className="flex items-center gap-2">
+        <div className="relative flex-1">
+          <Search className="w-4 h-4 text-zinc-500 absolute left-3 top-1/2 -translate-y-1/2" />
+          <input
+            value={searchInput}
+            onChange={(e) => setSearchInput(e.target.value)}
+            placeholder="Search this transcript…"
+            className="w-full bg-zinc-900 border border-zinc-800 rounded-lg pl-9 pr-8 py-2 text-sm text-zinc-100 placeholder-zinc-500 focus:outline-none focus:ring-2 focus:ring-emerald-500/50"
+          />
+          {searchInput && (
+            <button
+              type="button"
+              onClick={clearSearch}
+              className="absolute right-2 top-1/2 -translate-y-1/2 p-0.5 rounded hover:bg-zinc-800"
+            >
+              <X className="w-3.5 h-3.5 text-zinc-400" />
+            </button>
+          )}
+        </div>
+        <Button type="submit" size="sm" variant="outline" disabled={searching} className="h-9">
+          {searching ? <Loader2 className="w-4 h-4 animate-spin" /> : "Search"}
+        </Button>
+      </form>
+
+      {hits && (
+        <div className="bg-zinc-900 rounded-xl border border-zinc-800 p-3 space-y-1">
+          <p className="text-xs text-zinc-400">
+            {hits.length === 0
+              ? `No turns contain "${query}"`
+              : `${hits.length}${hitsTruncated ? "+" : ""} ${hits.length === 1 ? "turn" : "turns"} contain "${query}"${
+                  hitsTruncated ? " (showing the newest)" : ""
+                }`}
+          </p>
+          <div className="max-h-60 overflow-y-auto space-y-1">
+            {hits.map((hit) => (
+              <button
+                key={hit.offset}
+                onClick={() => jumpTo(hit)}
+                className={cn(
+                  "w-full text-left rounded-lg px-2 py-1.5 text-xs hover:bg-zinc-800 transition-colors",
+                  focusedOffset === hit.offset && "bg-zinc-800"
+                )}
+              >
+                <span className={cn("font-medium mr-2", ROLE_STYLE[hit.role].className)}>
+                  {ROLE_STYLE[hit.role].label}
+                </span>
+                {hit.timestamp !== undefined && (
+                  <span className="text-zinc-600 mr-2">{formatTurnTime(hit.timestamp)}</span>
+                )}
+                <span className="text-zinc-300 break-words">
+                  <Highlight text={hit.snippet} query={query} />
+                </span>
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {meta && (
+        <div className="flex items-center gap-2 text-xs text-zinc-500 flex-wrap">
+          <Badge variant="secondary" className="text-xs font-mono">
+            {meta.file}
+          </Badge>
+          <span>{formatBytes(meta.sizeBytes)}</span>
+          <span>·</span>
+          <span>
+            {turns.length} turns loaded
+            {pageTokens > 0 && `, ${formatTokens(pageTokens)} tokens`}
+          </span>
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-400">{error}</p>}
+
+      {loading ? (
+        <div className="space-y-3">
+          <Skeleton className="h-20 skeleton-shimmer rounded-xl" />
+          <Skeleton className="h-32 skeleton-shimmer rounded-xl" />
+          <Skeleton className="h-20 skeleton-shimmer rounded-xl" />
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {cursor.hasOlder && (
+            <Button variant="outline" className="w-full" onClick={loadOlder} disabled={loadingMore !== null}>
+              {loadingMore === "older" ? <Loader2 className="w-4 h-4 animate-spin" /> : "Load older turns"}
+            </Button>
+          )}
+          {!error && turns.length === 0 && (
+            <p className="text-sm text-zinc-400 text-center py-6">This transcript is empty.</p>
+          )}
+          {turns.map((turn) => (
+            <TurnView
+              key={turn.offset}
+              turn={turn}
+              query={query}
+              focused={focusedOffset === turn.offset}
+              operator={operatorMessageFor(turn, operatorMessages)}
+            />
+          ))}
+          {cursor.hasNewer && (
+            <div className="flex gap-2">
+              <Button variant="outline" className="flex-1" onClick={loadNewer} disabled={loadingMore !== null}>
+                {loadingMore === "newer" ? <Loader2 className="w-4 h-4 animate-spin" /> : "Load newer turns"}
+              </Button>
+              <Button variant="outline" onClick={loadLatest} disabled={loadingMore !== null} title="Jump to latest">
+                <ArrowDown className="w-4 h-4" />
+              </Button>
+            </div>
+          )}
+        </div>
+      )}
+
+      <SessionComposer
+        sessionKey={sessionKey}
+        onSent={(message) => setOperatorMessages((prev) => [message, ...prev])}
+        onReplyDone={() => {
+          if (!cursor.hasNewer) loadNewer();
+        }}
+      />
+    </div>
+  );
+}
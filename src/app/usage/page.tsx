@@ -0,0 +1,459 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import {
+  ArrowLeft, BarChart3, Download, Loader2, Radio, User, Cpu, DollarSign, Plus, Trash2, XCircle,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { cn } from "@/lib/utils";
+import { useCurrentUser } from "@/lib/use-auth";
+import { useLiveRefresh } from "@/lib/use-live-events";
+import type { ModelPrice } from "@/lib/settings";
+import type { UsageGroup, UsageReport } from "@/lib/usage";
+
+const RANGES = [7, 30, 90];
+
+const inputClass =
+  "w-full bg-zinc-800 border border-zinc-700 rounded-lg px-2 py-1.5 text-xs text-zinc-100 placeholder-zinc-500 focus:outline-none focus:ring-2 focus:ring-emerald-500/50";
+
+function formatTokens(n: number): string {
+  if (n >= 1_000_000) return `${(n / 1_000_000).toFixed(1)}M`;
+  if (n >= 1000) return `${(n / 1000).toFixed(1)}k`;
+  return String(n);
+}
+
+function formatCost(usd: number): string {
+  if (usd === 0) return "$0";
+  if (usd < 0.01) return "<$0.01";
+  return `$${usd.toFixed(2)}`;
+}
+
+function formatDay(day: string): string {
+  return new Date(`${day}T00:00:00`).toLocaleDateString("en-US", { month: "short", day: "numeric" });
+}
+
+// ─── Charts ──────────────────────────────────────────────────
+
+const SEGMENTS = [
+  { field: "input", label: "Input", className: "bg-sky-500" },
+  { field: "output", label: "Output", className: "bg-emerald-500" },
+  { field: "cache", label: "Cache", className: "bg-purple-500" },
+  { field: "other", label: "Total only", className: "bg-zinc-600" },
+] as const;
+
+function segmentsOf(g: UsageGroup): Record<(typeof SEGMENTS)[number]["field"], number> {
+  const cache = g.cacheRead + g.cacheWrite;
+  // Sessions with only a sessions.json total have no split
+  const other = Math.max(0, g.total - g.input - g.output - cache);
+  return { input: g.input, output: g.output, cache, other };
+}
+
+function DailyChart({ days }: { days: UsageGroup[] }) {
+  const max = Math.max(1, ...days.map((d) => d.total));
+  return (
+    <div className="bg-zinc-900 rounded-xl border border-zinc-800 p-3 sm:p-4">
+      <div className="flex items-end gap-px h-32">
+        {days.map((d) => {
+          const parts = segmentsOf(d);
+          return (
+            <div
+              key={d.key}
+              className="flex-1 h-full flex flex-col justify-end min-w-0"
+              title={`${formatDay(d.key)}: ${formatTokens(d.total)} tokens, ${formatCost(d.cost)}`}
+            >
+              <div className="flex flex-col-reverse rounded-t-sm overflow-hidden" style={{ height: `${(d.total / max) * 100}%` }}>
+                {SEGMENTS.map((s) =>
+                  parts[s.field] > 0 ? (
+                    <div key={s.field} className={s.className} style={{ height: `${(parts[s.field] / d.total) * 100}%` }} />
+                  ) : null
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+      <div className="flex justify-between text-[10px] text-zinc-600 mt-1">
+        <span>{days.length > 0 && formatDay(days[0].key)}</span>
+        <span>peak {formatTokens(max)}</span>
+        <span>{days.length > 0 && formatDay(days[days.length - 1].key)}</span>
+      </div>
+      <div className="flex flex-wrap gap-3 text-[10px] text-zinc-500 mt-2">
+        {SEGMENTS.map((s) => (
+          <span key={s.field} className="flex items-center gap-1">
+            <span className={cn("w-2 h-2 rounded-sm", s.className)} />
+            {s.label}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function Breakdown({ title, icon: Icon, groups, empty }: {
+  title: string;
+  icon: typeof User;
+  groups: UsageGroup[];
+  empty: string;
+}) {
+  const max = Math.max(1, ...groups.map((g) => g.total));
+  return (
+    <section className="space-y-2">
+      <h2 className="text-xs font-medium text-zinc-500 uppercase tracking-wider flex items-center gap-2">
+        <Icon className="w-4 h-4" />
+        {title}
+      </h2>
+      <div className="bg-zinc-900 rounded-xl border border-zinc-800 p-3 sm:p-4 space-y-2.5">
+        {groups.length === 0 && <p className="text-xs text-zinc-500">{empty}</p>}
+        {groups.slice(0, 10).map((g) => (
+          <div key={g.key}>
+            <div className="flex items-center gap-2 text-xs">
+              <span className="truncate flex-1 text-zinc-300">{g.key}</span>
+              <span className="text-zinc-400 tabular-nums">{formatTokens(g.total)}</span>
+              <span className="w-14 text-right text-zinc-500 tabular-nums">
+                {g.unpricedTokens === g.total ? "—" : formatCost(g.cost)}
+              </span>
+            </div>
+            <div className="h-1.5 bg-zinc-800 rounded-full mt-1 overflow-hidden">
+              <div className="h-full bg-emerald-500/70 rounded-full" style={{ width: `${(g.total / max) * 100}%` }} />
+            </div>
+          </div>
+        ))}
+        {groups.length > 10 && <p className="text-xs text-zinc-600">and {groups.length - 10} more</p>}
+      </div>
+    </section>
+  );
+}
+
+// ─── Prices ──────────────────────────────────────────────────
+
+interface PriceRow {
+  model: string;
+  input: string;
+  output: string;
+  cacheRead: string;
+  cacheWrite: string;
+}
+
+function toRows(prices: Record<string, ModelPrice>): PriceRow[] {
+  return Object.entries(prices).map(([model, p]) => ({
+    model,
+    input: String(p.input),
+    output: String(p.output),
+    cacheRead: p.cacheRead === undefined ? "" : String(p.cacheRead),
+    cacheWrite: p.cacheWrite === undefined ? "" : String(p.cacheWrite),
+  }));
+}
+
+const emptyRow = (model = ""): PriceRow => ({ model, input: "", output: "", cacheRead: "", cacheWrite: "" });
+
+function PriceTable({ prices, unpricedModels, onSaved }: {
+  prices: Record<string, ModelPrice>;
+  unpricedModels: string[];
+  onSaved: () => void;
+}) {
+  const { can } = useCurrentUser();
+  const editable = can("settings.write");
+  const [rows, setRows] = useState<PriceRow[]>(() => toRows(prices));
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [dirty, setDirty] = useState(false);
+
+  useEffect(() => {
+    if (!dirty) setRows(toRows(prices));
+  }, [prices, dirty]);
+
+  const update = (index: number, patch: Partial<PriceRow>) => {
+    setRows((prev) => prev.map((r, i) => (i === index ? { ...r, ...patch } : r)));
+    setDirty(true);
+  };
+
+  const save = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      const body: Record<string, Record<string, string>> = {};
+      for (const r of rows) {
+        if (!r.model.trim()) continue;
+        body[r.model.trim()] = { input: r.input, output: r.output, cacheRead: r.cacheRead, cacheWrite: r.cacheWrite };
+      }
+      const res = await fetch("/api/usage", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action: "set-prices", prices: body }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || `HTTP ${res.status}`);
+      setRows(toRows(data.prices));
+      setDirty(false);
+      onSaved();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const missing = unpricedModels.filter((m) => !rows.some((r) => r.model === m));
+
+  return (
+    <section className="space-y-2">
+      <h2 className="text-xs font-medium text-zinc-500 uppercase tracking-wider flex items-center gap-2">
+        <DollarSign className="w-4 h-4" />
+        Prices per million tokens
+      </h2>
+      <div className="bg-zinc-900 rounded-xl border border-zinc-800 p-3 sm:p-4 space-y-2">
+        <p className="text-xs text-zinc-500">
+          A model matches its exact name or the longest entry it contains. Cache prices default to the input price.
+        </p>
+        <div className="grid grid-cols-[minmax(0,2fr)_repeat(4,minmax(0,1fr))_auto] gap-1.5 items-center text-[10px] text-zinc-500">
+          <span>Model</span>
+          <span>Input</span>
+          <span>Output</span>
+          <span>Cache read</span>
+          <span>Cache write</span>
+          <span />
+          {rows.map((r, i) => (
+            <PriceInputs
+              key={i}
+              row={r}
+              disabled={!editable}
+              onChange={(patch) => update(i, patch)}
+              onRemove={() => {
+                setRows((prev) => prev.filter((_, j) => j !== i));
+                setDirty(true);
+              }}
+            />
+          ))}
+        </div>
+        {rows.length === 0 && <p className="text-xs text-zinc-500">No prices yet, so costs aren&apos;t estimated.</p>}
+
+        {editable && missing.length > 0 && (
+          <div className="flex flex-wrap items-center gap-1.5 text-xs text-zinc-500">
+            Unpriced:
+            {missing.map((m) => (
+              <button
+                key={m}
+                onClick={() => {
+                  setRows((prev) => [...prev, emptyRow(m)]);
+                  setDirty(true);
+                }}
+                className="px-2 py-0.5 rounded-md bg-zinc-800 border border-zinc-700 hover:bg-zinc-700 text-zinc-300"
+              >
+                + {m}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {error && (
+          <div className="flex items-start gap-2 text-sm text-red-400 bg-red-500/10 border border-red-500/20 rounded-lg px-3 py-2">
+            <XCircle className="w-4 h-4 shrink-0 mt-0.5" />
+            <span className="flex-1 break-words">{error}</span>
+          </div>
+        )}
+
+        {editable && (
+          <div className="flex items-center gap-2 pt-1">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => {
+                setRows((prev) => [...prev, emptyRow()]);
+                setDirty(true);
+              }}
+            >
+              <Plus className="w-4 h-4" />
+              Add model
+            </Button>
+            <Button
+              size="sm"
+              onClick={save}
+              disabled={saving || !dirty}
+              className="ml-auto bg-emerald-500 hover:bg-emerald-600 text-white"
+            >
+              {saving && <Loader2 className="w-4 h-4 animate-spin" />}
+              Save prices
+            </Button>
+          </div>
+        )}
+      </div>
+    </section>
+  );
+}
+
+function PriceInputs({ row, disabled, onChange, onRemove }: {
+  row: PriceRow;
+  disabled: boolean;
+  onChange: (patch: Partial<PriceRow>) => void;
+  onRemove: () => void;
+}) {
+  const field = (name: keyof PriceRow, placeholder?: string) => (
+    <input
+      type={name === "model" ? "text" : "number"}
+      min={name === "model" ? undefined : 0}
+      step="any"
+      value={row[name]}
+      onChange={(e) => onChange({ [name]: e.target.value })}
+      placeholder={placeholder}
+      disabled={disabled}
+      className={inputClass}
+    />
+  );
+  return (
+    <>
+      {field("model", "claude-sonnet-4")}
+      {field("input")}
+      {field("output")}
+      {field("cacheRead", row.input || "input")}
+      {field("cacheWrite", row.input || "input")}
+      {disabled ? (
+        <span />
+      ) : (
+        <button onClick={onRemove} className="p-1 rounded hover:bg-zinc-800" title="Remove">
+          <Trash2 className="w-3.5 h-3.5 text-zinc-500" />
+        </button>
+      )}
+    </>
+  );
+}
+
+// ─── Page ────────────────────────────────────────────────────
+
+export default function UsagePage() {
+  const [days, setDays] = useState(30);
+  const [report, setReport] = useState<UsageReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/usage?days=${days}`);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || `HTTP ${res.status}`);
+      setReport(data);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setLoading(false);
+    }
+  }, [days]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  useLiveRefresh(["sessions"], load);
+
+  const totals = report?.totals;
+
+  return (
+    <div className="space-y-6">
+      <header className="flex items-center justify-between gap-3">
+        <div className="flex items-center gap-3">
+          <Link href="/" className="p-2 rounded-lg bg-zinc-900 border border-zinc-800 hover:bg-zinc-800">
+            <ArrowLeft className="w-5 h-5" strokeWidth={1.5} />
+          </Link>
+          <div>
+            <h1 className="text-2xl font-bold">Usage</h1>
+            <p className="text-sm text-zinc-400">
+              {report ? `${formatDay(report.since)} – ${formatDay(report.until)}` : "Tokens and estimated cost"}
+            </p>
+          </div>
+        </div>
+        <select
+          value={days}
+          onChange={(e) => {
+            setLoading(true);
+            setDays(Number(e.target.value));
+          }}
+          className="bg-zinc-800 border border-zinc-700 rounded-lg px-2 py-1.5 text-xs text-zinc-100 focus:outline-none focus:ring-2 focus:ring-emerald-500/50"
+        >
+          {RANGES.map((d) => (
+            <option key={d} value={d}>
+              Last {d} days
+            </option>
+          ))}
+        </select>
+      </header>
+
+      {error && (
+        <div className="flex items-start gap-2 text-sm text-red-400 bg-red-500/10 border border-red-500/20 rounded-lg px-3 py-2">
+          <XCircle className="w-4 h-4 shrink-0 mt-0.5" />
+          <span className="flex-1 break-words">{error}</span>
+        </div>
+      )}
+
+      {loading && !report ? (
+        <div className="space-y-3">
+          <Skeleton className="h-20 w-full" />
+          <Skeleton className="h-40 w-full" />
+        </div>
+      ) : report && totals ? (
+        <>
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+            {[
+              { label: "Tokens", value: formatTokens(totals.total) },
+              { label: "Turns", value: totals.turns.toLocaleString() },
+              { label: "Output", value: formatTokens(totals.output) },
+              {
+                label: "Est. cost",
+                value: formatCost(totals.cost),
+                note: totals.unpricedTokens > 0 ? `${formatTokens(totals.unpricedTokens)} unpriced` : undefined,
+              },
+            ].map((card) => (
+              <div key={card.label} className="bg-zinc-900 rounded-xl border border-zinc-800 p-3">
+                <div className="text-xs text-zinc-500">{card.label}</div>
+                <div className="text-lg font-semibold tabular-nums">{card.value}</div>
+                {card.note && <div className="text-[10px] text-amber-400">{card.note}</div>}
+              </div>
+            ))}
+          </div>
+
+          <section className="space-y-2">
+            <h2 className="text-xs font-medium text-zinc-500 uppercase tracking-wider flex items-center gap-2">
+              <BarChart3 className="w-4 h-4" />
+              Tokens per day
+              {loading && <Loader2 className="w-3 h-3 animate-spin" />}
+            </h2>
+            <DailyChart days={report.byDay} />
+          </section>
+
+          <div className="grid sm:grid-cols-2 gap-6">
+            <Breakdown title="By channel" icon={Radio} groups={report.byChannel} empty="No usage in this range" />
+            <Breakdown title="By model" icon={Cpu} groups={report.byModel} empty="No usage in this range" />
+            <Breakdown
+              title="By contact"
+              icon={User}
+              groups={report.byContact}
+              empty="No direct messages from address book contacts"
+            />
+          </div>
+
+          <section className="space-y-2">
+            <h2 className="text-xs font-medium text-zinc-500 uppercase tracking-wider flex items-center gap-2">
+              <Download className="w-4 h-4" />
+              Export
+            </h2>
+            <div className="flex gap-2">
+              {(["csv", "json"] as const).map((format) => (
+                <a
+                  key={format}
+                  href={`/api/usage?days=${days}&export=${format}`}
+                  className="px-3 py-1.5 rounded-lg bg-zinc-900 border border-zinc-800 hover:bg-zinc-800 text-xs text-zinc-300 flex items-center gap-1.5"
+                >
+                  <Download className="w-3.5 h-3.5" />
+                  {format.toUpperCase()}
+                </a>
+              ))}
+            </div>
+          </section>
+
+          <PriceTable prices={report.prices} unpricedModels={report.unpricedModels} onSaved={load} />
+        </>
+      ) : null}
+    </div>
+  );
+}
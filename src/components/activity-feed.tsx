@@ -0,0 +1,427 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import {
+  AlertCircle, CheckCircle, Loader2, Radio, ScrollText, Search, Settings2, SlidersHorizontal,
+  UserCheck, UserX, Users, X, XCircle,
+} from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { cn } from "@/lib/utils";
+import type { ActivityType, LogEntry } from "@/lib/activity-index";
+
+const TYPE_FILTERS: Array<{ value: ActivityType | "all"; label: string }> = [
+  { value: "all", label: "All" },
+  { value: "cron", label: "Cron" },
+  { value: "session", label: "Sessions" },
+  { value: "script", label: "Scripts" },
+  { value: "config", label: "Config" },
+  { value: "pairing", label: "Pairing" },
+];
+
+const TYPE_BADGES: Record<ActivityType, { label: string; className: string }> = {
+  cron: { label: "CRON", className: "text-sky-400" },
+  session: { label: "SESSION", className: "text-purple-400" },
+  script: { label: "SCRIPT", className: "text-emerald-400" },
+  config: { label: "CONFIG", className: "text-amber-400" },
+  pairing: { label: "PAIRING", className: "text-pink-400" },
+};
+
+const PAGE_SIZE = 50;
+
+interface ActivityFilters {
+  type: ActivityType | "all";
+  search: string;
+  status: string;
+  job: string;
+  channel: string;
+  contact: string;
+  /** yyyy-mm-dd, local time */
+  since: string;
+  until: string;
+}
+
+const EMPTY_FILTERS: ActivityFilters = {
+  type: "all",
+  search: "",
+  status: "",
+  job: "",
+  channel: "",
+  contact: "",
+  since: "",
+  until: "",
+};
+
+function formatActivityTime(ts: number): string {
+  const now = Date.now();
+  const diff = now - ts;
+  const minutes = Math.floor(diff / 60000);
+  const hours = Math.floor(minutes / 60);
+  const days = Math.floor(hours / 24);
+
+  const date = new Date(ts);
+  const time = date.toLocaleTimeString("en-US", {
+    hour: "numeric",
+    minute: "2-digit",
+    hour12: true,
+  });
+  const dayPart = date.toLocaleDateString("en-US", { day: "numeric", month: "short" });
+
+  if (days === 0) {
+    if (minutes < 1) return `Just now`;
+    if (minutes < 60) return `${minutes}m ago · ${time}`;
+    return `${hours}h ago · ${time}`;
+  }
+  if (days === 1) return `Yesterday · ${time}`;
+  return `${dayPart} · ${time}`;
+}
+
+function toParams(filters: ActivityFilters, cursor: string | null): URLSearchParams {
+  const params = new URLSearchParams({ limit: String(PAGE_SIZE), type: filters.type });
+  if (filters.search) params.set("search", filters.search);
+  if (filters.status) params.set("status", filters.status);
+  if (filters.job) params.set("job", filters.job);
+  if (filters.channel) params.set("channel", filters.channel.trim().toLowerCase());
+  if (filters.contact) params.set("contact", filters.contact.trim());
+  // Whole local days: from the start of `since` to the end of `until`
+  if (filters.since) params.set("since", String(new Date(`${filters.since}T00:00:00`).getTime()));
+  if (filters.until) params.set("until", String(new Date(`${filters.until}T23:59:59.999`).getTime()));
+  if (cursor) params.set("cursor", cursor);
+  return params;
+}
+
+function EntryIcon({ entry }: { entry: LogEntry }) {
+  if (entry.type === "session") return <Users className="w-4 h-4 text-sky-400" />;
+  if (entry.type === "config") return <Settings2 className="w-4 h-4 text-amber-400" />;
+  if (entry.type === "pairing") {
+    return entry.summary.startsWith("Rejected") ? (
+      <UserX className="w-4 h-4 text-zinc-400" />
+    ) : (
+      <UserCheck className="w-4 h-4 text-pink-400" />
+    );
+  }
+  return entry.status === "error" ? (
+    <XCircle className="w-4 h-4 text-red-500" />
+  ) : (
+    <CheckCircle className="w-4 h-4 text-green-500" />
+  );
+}
+
+/**
+ * The Activity tab: the server's activity index with type, status, job,
+ * channel, contact and date filters, paged with "Load more".
+ */
+export function ActivityFeed({
+  jobs,
+  onOpenScript,
+}: {
+  /** Cron jobs for the job filter. */
+  jobs: Array<{ id: string; name: string }>;
+  onOpenScript: (script: string) => void;
+}) {
+  const router = useRouter();
+  const [filters, setFilters] = useState<ActivityFilters>(EMPTY_FILTERS);
+  const [showFilters, setShowFilters] = useState(false);
+  const [entries, setEntries] = useState<LogEntry[]>([]);
+  const [total, setTotal] = useState(0);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [autoRefresh, setAutoRefresh] = useState(false);
+
+  const fetchPage = useCallback(
+    async (cursor: string | null) => {
+      const res = await fetch(`/api/logs?${toParams(filters, cursor)}`);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || `HTTP ${res.status}`);
+      return data as { entries: LogEntry[]; total: number; nextCursor: string | null };
+    },
+    [filters]
+  );
+
+  // First page; also what Live re-runs, so older pages are dropped
+  const fetchActivity = useCallback(async () => {
+    setLoading(true);
+    try {
+      const data = await fetchPage(null);
+      setEntries(data.entries);
+      setTotal(data.total);
+      setNextCursor(data.nextCursor);
+      setError(null);
+    } catch (err) {
+      console.error("Failed to fetch activity:", err);
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setLoading(false);
+    }
+  }, [fetchPage]);
+
+  const loadMore = async () => {
+    if (!nextCursor) return;
+    setLoadingMore(true);
+    try {
+      const data = await fetchPage(nextCursor);
+      setEntries((prev) => [...prev, ...data.entries]);
+      setTotal(data.total);
+      setNextCursor(data.nextCursor);
+    } catch (err) {
+      console.error("Failed to fetch activity:", err);
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchActivity();
+  }, [fetchActivity]);
+
+  useEffect(() => {
+    if (!autoRefresh) return;
+    const interval = setInterval(fetchActivity, 15000);
+    return () => clearInterval(interval);
+  }, [autoRefresh, fetchActivity]);
+
+  const setFilter = <K extends keyof ActivityFilters>(key: K, value: ActivityFilters[K]) =>
+    setFilters((prev) => ({ ...prev, [key]: value }));
+
+  const activeFilterCount = (["status", "job", "channel", "contact", "since", "until"] as const).filter(
+    (key) => filters[key]
+  ).length;
+
+  const inputClass =
+    "w-full bg-zinc-800 border border-zinc-700 rounded-lg px-2.5 py-1.5 text-xs text-zinc-100 placeholder-zinc-500 focus:outline-none focus:ring-1 focus:ring-emerald-500/50";
+
+  return (
+    <div className="space-y-4">
+      {/* Filters row */}
+      <div className="flex items-center gap-2 flex-wrap">
+        {TYPE_FILTERS.map((f) => (
+          <button
+            key={f.value}
+            onClick={() => setFilter("type", f.value)}
+            className={cn(
+              "px-3 py-1.5 rounded-lg text-xs transition-colors",
+              filters.type === f.value
+                ? "bg-emerald-500/20 text-emerald-400 border border-emerald-500/30"
+                : "bg-zinc-800 text-zinc-400 hover:text-zinc-200"
+            )}
+          >
+            {f.label}
+          </button>
+        ))}
+
+        {/* Search */}
+        <div className="relative flex-1 min-w-[120px] max-w-[200px]">
+          <Search className="w-3.5 h-3.5 absolute left-2.5 top-1/2 -translate-y-1/2 text-zinc-500" />
+          <input
+            type="text"
+            value={filters.search}
+            onChange={(e) => setFilter("search", e.target.value)}
+            placeholder="Search..."
+            className="w-full bg-zinc-800 border border-zinc-700 rounded-lg pl-8 pr-3 py-1.5 text-xs text-zinc-100 placeholder-zinc-500 focus:outline-none focus:ring-1 focus:ring-emerald-500/50"
+          />
+        </div>
+
+        <button
+          onClick={() => setShowFilters(!showFilters)}
+          className={cn(
+            "flex items-center gap-1.5 px-2.5 py-1.5 rounded-lg text-xs transition-colors",
+            showFilters || activeFilterCount > 0
+              ? "bg-zinc-700 text-zinc-100"
+              : "bg-zinc-800 text-zinc-500 hover:text-zinc-300"
+          )}
+        >
+          <SlidersHorizontal className="w-3 h-3" />
+          Filters{activeFilterCount > 0 && ` (${activeFilterCount})`}
+        </button>
+
+        {/* Auto-refresh toggle */}
+        <button
+          onClick={() => setAutoRefresh(!autoRefresh)}
+          className={cn(
+            "ml-auto flex items-center gap-1.5 px-2.5 py-1.5 rounded-lg text-xs transition-colors",
+            autoRefresh
+              ? "bg-emerald-500/20 text-emerald-400"
+              : "bg-zinc-800 text-zinc-500 hover:text-zinc-300"
+          )}
+        >
+          <Radio className={cn("w-3 h-3", autoRefresh && "animate-pulse")} />
+          Live
+        </button>
+      </div>
+
+      {showFilters && (
+        <div className="bg-zinc-900 rounded-xl border border-zinc-800 p-3 grid grid-cols-2 sm:grid-cols-3 gap-2">
+          <label className="space-y-1">
+            <span className="text-[11px] text-zinc-500">Status</span>
+            <select value={filters.status} onChange={(e) => setFilter("status", e.target.value)} className={inputClass}>
+              <option value="">Any</option>
+              <option value="ok">ok</option>
+              <option value="error">error</option>
+              <option value="skipped">skipped</option>
+              <option value="cancelled">cancelled</option>
+              <option value="timeout">timeout</option>
+            </select>
+          </label>
+          <label className="space-y-1">
+            <span className="text-[11px] text-zinc-500">Cron job</span>
+            <select value={filters.job} onChange={(e) => setFilter("job", e.target.value)} className={inputClass}>
+              <option value="">Any</option>
+              {jobs.map((job) => (
+                <option key={job.id} value={job.id}>
+                  {job.name}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="space-y-1">
+            <span className="text-[11px] text-zinc-500">Channel</span>
+            <input
+              value={filters.channel}
+              onChange={(e) => setFilter("channel", e.target.value)}
+              placeholder="telegram"
+              className={inputClass}
+            />
+          </label>
+          <label className="space-y-1">
+            <span className="text-[11px] text-zinc-500">Contact id</span>
+            <input
+              value={filters.contact}
+              onChange={(e) => setFilter("contact", e.target.value)}
+              placeholder="5546883071"
+              className={inputClass}
+            />
+          </label>
+          <label className="space-y-1">
+            <span className="text-[11px] text-zinc-500">From</span>
+            <input
+              type="date"
+              value={filters.since}
+              onChange={(e) => setFilter("since", e.target.value)}
+              className={inputClass}
+            />
+          </label>
+          <label className="space-y-1">
+            <span className="text-[11px] text-zinc-500">To</span>
+            <input
+              type="date"
+              value={filters.until}
+              onChange={(e) => setFilter("until", e.target.value)}
+              className={inputClass}
+            />
+          </label>
+          {activeFilterCount > 0 && (
+            <button
+              onClick={() => setFilters((prev) => ({ ...EMPTY_FILTERS, type: prev.type, search: prev.search }))}
+              className="col-span-full flex items-center justify-center gap-1 text-xs text-zinc-500 hover:text-zinc-300 transition-colors"
+            >
+              <X className="w-3 h-3" />
+              Clear filters
+            </button>
+          )}
+        </div>
+      )}
+
+      {error && (
+        <div className="flex items-start gap-2 text-sm text-red-400 bg-red-500/10 border border-red-500/20 rounded-lg px-3 py-2">
+          <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+          {error}
+        </div>
+      )}
+
+      <section className="space-y-2">
+        {loading && entries.length === 0 ? (
+          <>
+            <Skeleton className="h-16 skeleton-shimmer rounded-xl" />
+            <Skeleton className="h-16 skeleton-shimmer rounded-xl" />
+            <Skeleton className="h-16 skeleton-shimmer rounded-xl" />
+          </>
+        ) : entries.length === 0 ? (
+          <div className="bg-zinc-900 rounded-xl border border-zinc-800 p-8 text-center">
+            <ScrollText className="w-10 h-10 text-zinc-700 mx-auto mb-3" />
+            <p className="text-sm text-zinc-400 font-medium">No activity recorded</p>
+            <p className="text-xs text-zinc-500 mt-1">
+              Cron runs, script runs, session activity, config changes and pairing approvals will appear here.
+            </p>
+          </div>
+        ) : (
+          <>
+            {entries.map((entry) => (
+              <div
+                key={entry.id}
+                onClick={
+                  entry.type === "script"
+                    ? () => onOpenScript(entry.source)
+                    : entry.sessionKey
+                      ? () => router.push(`/sessions/${encodeURIComponent(entry.sessionKey!)}`)
+                      : undefined
+                }
+                className={cn(
+                  "bg-zinc-900 rounded-xl border border-zinc-800 p-3 flex items-start gap-3",
+                  (entry.type === "script" || entry.sessionKey) && "cursor-pointer hover:border-zinc-700"
+                )}
+              >
+                {/* Status icon */}
+                <div className="mt-0.5 shrink-0">
+                  <EntryIcon entry={entry} />
+                </div>
+
+                {/* Details */}
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2 flex-wrap">
+                    <span className="font-medium text-sm truncate">{entry.source}</span>
+                    <Badge variant="secondary" className={cn("text-xs", TYPE_BADGES[entry.type].className)}>
+                      {TYPE_BADGES[entry.type].label}
+                    </Badge>
+                    {entry.status && entry.type !== "session" && (
+                      <Badge
+                        variant="outline"
+                        className={cn(
+                          "text-xs",
+                          entry.status === "ok" || entry.status === "success"
+                            ? "text-green-400 border-green-500/30"
+                            : "text-red-400 border-red-500/30"
+                        )}
+                      >
+                        {entry.status}
+                      </Badge>
+                    )}
+                    {entry.durationMs !== undefined && (
+                      <span className="text-xs text-zinc-600">
+                        {entry.durationMs < 1000
+                          ? `${entry.durationMs}ms`
+                          : `${(entry.durationMs / 1000).toFixed(1)}s`}
+                      </span>
+                    )}
+                  </div>
+                  <p className="text-xs text-zinc-400 mt-1 line-clamp-2">{entry.summary}</p>
+                  <div className="text-[11px] text-zinc-500 mt-1">
+                    {formatActivityTime(entry.ts)}
+                  </div>
+                </div>
+              </div>
+            ))}
+            <div className="flex items-center justify-between pt-1">
+              <span className="text-xs text-zinc-600">
+                {entries.length} of {total}
+              </span>
+              {nextCursor && (
+                <button
+                  onClick={loadMore}
+                  disabled={loadingMore}
+                  className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs bg-zinc-800 text-zinc-300 hover:bg-zinc-700 transition-colors disabled:opacity-50"
+                >
+                  {loadingMore && <Loader2 className="w-3 h-3 animate-spin" />}
+                  Load more
+                </button>
+              )}
+            </div>
+          </>
+        )}
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,88 @@
+"use client";
+
+import { useState } from "react";
+import { Bot, AlertCircle } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { useAgents } from "@/lib/use-agent";
+import type { AgentOverview as AgentOverviewItem } from "@/lib/dashboard-cache";
+
+function formatTokens(n: number): string {
+  if (n >= 1_000_000) return `${(n / 1_000_000).toFixed(1)}M`;
+  if (n >= 1000) return `${(n / 1000).toFixed(1)}k`;
+  return String(n);
+}
+
+/** Cross-agent summary on the dashboard; a card switches the view to that agent. */
+export function AgentOverview({ agents, selected }: { agents: AgentOverviewItem[]; selected: string }) {
+  const { select } = useAgents();
+  const [switching, setSwitching] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  if (agents.length < 2) return null;
+
+  const handleSelect = async (id: string) => {
+    if (id === selected || switching) return;
+    setSwitching(id);
+    setError(null);
+    try {
+      await select(id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+      setSwitching(null);
+    }
+  };
+
+  return (
+    <section className="space-y-2">
+      <h2 className="text-xs font-medium text-zinc-500 uppercase tracking-wider flex items-center gap-2">
+        <Bot className="w-3.5 h-3.5" />
+        Agents
+      </h2>
+      {error && (
+        <div className="flex items-start gap-2 text-sm text-red-400 bg-red-500/10 border border-red-500/20 rounded-lg px-3 py-2">
+          <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+          {error}
+        </div>
+      )}
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+        {agents.map((agent) => (
+          <button
+            key={agent.id}
+            onClick={() => handleSelect(agent.id)}
+            disabled={switching !== null}
+            className={cn(
+              "text-left bg-zinc-900 rounded-xl border p-3 sm:p-4 transition-colors btn-press disabled:opacity-60",
+              agent.id === selected
+                ? "border-emerald-500/40"
+                : "border-zinc-800 hover:bg-zinc-800/60"
+            )}
+          >
+            <div className="flex items-center gap-2 min-w-0">
+              <span className="text-lg">{agent.emoji}</span>
+              <span className="font-medium text-sm truncate">{agent.name}</span>
+              {agent.isDefault && (
+                <span className="text-[10px] uppercase tracking-wider text-zinc-500">default</span>
+              )}
+              {agent.id === selected && (
+                <span className="ml-auto text-[10px] uppercase tracking-wider text-emerald-400">viewing</span>
+              )}
+            </div>
+            <div className="mt-2 flex flex-wrap gap-x-3 gap-y-1 text-xs text-zinc-500">
+              <span>
+                {agent.sessions.total} sessions
+                {agent.sessions.active > 0 && (
+                  <span className="text-emerald-400"> · {agent.sessions.active} active</span>
+                )}
+              </span>
+              <span>{formatTokens(agent.sessions.tokens)} tokens</span>
+              <span>
+                {agent.cronJobs} cron
+                {agent.cronErrors > 0 && <span className="text-red-400"> · {agent.cronErrors} failing</span>}
+              </span>
+            </div>
+          </button>
+        ))}
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,52 @@
+"use client";
+
+import { useState } from "react";
+import { AlertCircle, Loader2 } from "lucide-react";
+import { useAgents } from "@/lib/use-agent";
+
+/** Header select for the agent every view is scoped to; hidden with a single agent. */
+export function AgentSwitcher() {
+  const { agents, selected, select } = useAgents();
+  const [switching, setSwitching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (agents.length < 2 || !selected) return null;
+
+  return (
+    <div className="relative flex items-center">
+      <select
+        value={selected}
+        disabled={switching}
+        onChange={async (e) => {
+          setSwitching(true);
+          setError(null);
+          try {
+            await select(e.target.value);
+          } catch (err) {
+            setError(`Couldn't switch agent: ${err instanceof Error ? err.message : String(err)}`);
+            setSwitching(false);
+          }
+        }}
+        title="Agent"
+        className="max-w-[9rem] bg-zinc-900 border border-zinc-800 rounded-lg px-2 py-2 text-sm text-zinc-100 hover:bg-zinc-800 transition-colors focus:outline-none focus:ring-2 focus:ring-emerald-500/50 disabled:opacity-50"
+      >
+        {agents.map((a) => (
+          <option key={a.id} value={a.id}>
+            {a.emoji} {a.name}
+          </option>
+        ))}
+      </select>
+      {switching && <Loader2 className="absolute -right-1 -top-1 w-3.5 h-3.5 text-emerald-400 animate-spin" />}
+      {error && (
+        <button
+          onClick={() => setError(null)}
+          className="absolute right-0 top-full mt-1 z-10 w-56 flex items-start gap-1.5 text-left text-xs text-red-400 bg-zinc-900 border border-red-500/30 rounded-lg px-2 py-1.5 shadow-lg"
+          title="Dismiss"
+        >
+          <AlertCircle className="w-3.5 h-3.5 mt-0.5 shrink-0" />
+          <span className="break-words">{error}</span>
+        </button>
+      )}
+    </div>
+  );
+}
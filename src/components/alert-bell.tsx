@@ -0,0 +1,44 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { Bell } from "lucide-react";
+import { useLiveRefresh } from "@/lib/use-live-events";
+import type { AlertStatus } from "@/lib/alerts";
+
+/** Header link to /alerts, with a count of the alerts firing and not snoozed. */
+export function AlertBell() {
+  const [firing, setFiring] = useState(0);
+
+  const load = useCallback(() => {
+    fetch("/api/alerts?history=0")
+      .then((res) => (res.ok ? (res.json() as Promise<AlertStatus>) : null))
+      .then((data) => {
+        if (data) setFiring(data.active.filter((a) => a.firing && !a.snoozedUntil).length);
+      })
+      .catch(() => {
+        // keep the last count
+      });
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  useLiveRefresh(["alerts"], load);
+
+  return (
+    <Link
+      href="/alerts"
+      className="relative p-2 rounded-lg bg-zinc-900 border border-zinc-800 hover:bg-zinc-800 transition-colors btn-press"
+      title={firing > 0 ? `${firing} alert${firing === 1 ? "" : "s"} firing` : "Alerts"}
+    >
+      <Bell className="w-5 h-5" strokeWidth={1.5} />
+      {firing > 0 && (
+        <span className="absolute -top-1 -right-1 min-w-4 h-4 px-1 rounded-full bg-red-500 text-[10px] font-medium text-white flex items-center justify-center">
+          {firing}
+        </span>
+      )}
+    </Link>
+  );
+}
@@ -19,7 +19,11 @@ export function BottomNav() {
   const pathname = usePathname();
   const [dots, setDots] = useState<DotKeys>({});
 
+  const isLoginPage = pathname === "/login";
+
   useEffect(() => {
+    if (isLoginPage) return;
+
     async function checkNotifications() {
       try {
         const proposalsRes = await fetch("/api/workspace?file=PROPOSALS.md").catch(() => null);
@@ -55,7 +59,9 @@ export function BottomNav() {
     checkNotifications();
     const interval = setInterval(checkNotifications, 60000);
     return () => clearInterval(interval);
-  }, []);
+  }, [isLoginPage]);
+
+  if (isLoginPage) return null;
 
   return (
     <nav className="fixed bottom-0 left-0 right-0 bg-zinc-900/95 backdrop-blur-sm border-t border-zinc-800 z-40">
@@ -0,0 +1,101 @@
+"use client";
+
+import { useMemo } from "react";
+import { AlertTriangle } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import {
+  describeParsedCron,
+  isValidTimeZone,
+  localTimeZone,
+  nextCronRuns,
+  parseCron,
+  type CronRun,
+} from "@/lib/cron-expr";
+
+interface CronPreviewProps {
+  expr: string;
+  /** IANA timezone to evaluate in; blank means the browser's. */
+  tz?: string;
+  count?: number;
+}
+
+type Preview =
+  | { ok: false; error: string }
+  | { ok: true; description: string; tz: string; runs: CronRun[] };
+
+function buildPreview(expr: string, tz: string | undefined, count: number): Preview {
+  const zone = tz?.trim() || localTimeZone();
+  if (!isValidTimeZone(zone)) return { ok: false, error: `Unknown timezone "${zone}"` };
+  try {
+    const parsed = parseCron(expr);
+    return {
+      ok: true,
+      description: describeParsedCron(parsed),
+      tz: zone,
+      runs: nextCronRuns(parsed, { tz: zone, count }),
+    };
+  } catch (err) {
+    return { ok: false, error: err instanceof Error ? err.message : String(err) };
+  }
+}
+
+function formatRun(ms: number, tz: string): string {
+  return new Date(ms).toLocaleString("en-US", {
+    timeZone: tz,
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+    timeZoneName: "short",
+  });
+}
+
+/** Validation, description and upcoming fire times for a cron expression. */
+export function CronPreview({ expr, tz, count = 10 }: CronPreviewProps) {
+  const preview = useMemo(() => buildPreview(expr, tz, count), [expr, tz, count]);
+
+  if (!preview.ok) {
+    return (
+      <p className="flex items-start gap-1.5 text-xs text-red-400 mt-1">
+        <AlertTriangle className="w-3.5 h-3.5 shrink-0 mt-px" />
+        {preview.error}
+      </p>
+    );
+  }
+
+  return (
+    <div className="mt-1 space-y-2">
+      <p className="text-xs text-emerald-400">{preview.description}</p>
+      {preview.runs.length === 0 ? (
+        <p className="text-xs text-amber-400">This schedule never fires.</p>
+      ) : (
+        <div className="rounded-lg bg-zinc-800/50 border border-zinc-800 px-3 py-2">
+          <p className="text-[11px] text-zinc-500 uppercase tracking-wider mb-1">
+            Next {preview.runs.length} runs · {preview.tz}
+          </p>
+          <ol className="space-y-0.5">
+            {preview.runs.map((run, i) => {
+              const prev = preview.runs[i - 1];
+              const dstChange = prev && prev.offsetMinutes !== run.offsetMinutes;
+              return (
+                <li key={run.atMs} className="flex items-center gap-2 text-xs text-zinc-300 font-mono">
+                  <span>{formatRun(run.atMs, preview.tz)}</span>
+                  {dstChange && (
+                    <Badge variant="outline" className="text-[10px] px-1 py-0 text-amber-400 border-amber-500/30">
+                      DST
+                    </Badge>
+                  )}
+                  {run.shifted && (
+                    <span className="text-[10px] text-zinc-500 font-sans">moved past skipped hour</span>
+                  )}
+                </li>
+              );
+            })}
+          </ol>
+        </div>
+      )}
+    </div>
+  );
+}
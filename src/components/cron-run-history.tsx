@@ -0,0 +1,243 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import {
+  X, Loader2, CheckCircle, XCircle, MinusCircle, TrendingUp, TrendingDown,
+  ArrowRight, ScrollText, History,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import { useLiveRefresh } from "@/lib/use-live-events";
+import type { CronRunRecord, CronRunStats } from "@/lib/cron-runs";
+
+const PAGE_SIZE = 50;
+const SPARKLINE_RUNS = 30;
+
+interface CronRunHistoryProps {
+  jobId: string;
+  jobName: string;
+  onClose: () => void;
+}
+
+function formatDuration(ms?: number | null): string {
+  if (ms === undefined || ms === null) return "—";
+  if (ms < 1000) return `${ms}ms`;
+  const seconds = ms / 1000;
+  if (seconds < 60) return `${seconds.toFixed(1)}s`;
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}m ${Math.round(seconds % 60)}s`;
+}
+
+function formatRunTime(ms: number): string {
+  return new Date(ms).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+function StatusIcon({ status }: { status: CronRunRecord["status"] }) {
+  if (status === "ok") return <CheckCircle className="w-4 h-4 text-emerald-400 shrink-0" />;
+  if (status === "error") return <XCircle className="w-4 h-4 text-red-400 shrink-0" />;
+  return <MinusCircle className="w-4 h-4 text-zinc-500 shrink-0" />;
+}
+
+function StatTile({ label, value, hint }: { label: string; value: React.ReactNode; hint?: string }) {
+  return (
+    <div className="rounded-lg bg-zinc-800/50 border border-zinc-800 px-3 py-2">
+      <p className="text-[11px] text-zinc-500 uppercase tracking-wider">{label}</p>
+      <p className="text-sm font-medium text-zinc-100 mt-0.5">{value}</p>
+      {hint && <p className="text-[11px] text-zinc-500">{hint}</p>}
+    </div>
+  );
+}
+
+/** Durations of the latest runs, oldest on the left, coloured by status. */
+function DurationSparkline({ runs }: { runs: CronRunRecord[] }) {
+  const recent = runs.slice(0, SPARKLINE_RUNS).reverse();
+  const max = Math.max(1, ...recent.map((r) => r.durationMs ?? 0));
+  if (recent.length < 2) return null;
+  return (
+    <div className="flex items-end gap-0.5 h-12" aria-label="Recent run durations">
+      {recent.map((run) => (
+        <div
+          key={`${run.startedAtMs}-${run.finishedAtMs}`}
+          title={`${formatRunTime(run.startedAtMs)} · ${formatDuration(run.durationMs)}`}
+          className={cn(
+            "flex-1 min-w-[3px] rounded-sm",
+            run.status === "ok" ? "bg-emerald-500/70" : run.status === "error" ? "bg-red-500/70" : "bg-zinc-600"
+          )}
+          style={{ height: `${Math.max(8, ((run.durationMs ?? 0) / max) * 100)}%` }}
+        />
+      ))}
+    </div>
+  );
+}
+
+/** Run history panel for one cron job: stats, duration trend and every recorded run. */
+export function CronRunHistory({ jobId, jobName, onClose }: CronRunHistoryProps) {
+  const [runs, setRuns] = useState<CronRunRecord[]>([]);
+  const [stats, setStats] = useState<CronRunStats | null>(null);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(
+    async (offset = 0) => {
+      try {
+        const res = await fetch(
+          `/api/cron-runs?jobId=${encodeURIComponent(jobId)}&limit=${PAGE_SIZE}&offset=${offset}`
+        );
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || `HTTP ${res.status}`);
+        setRuns((prev) => (offset === 0 ? data.runs : [...prev, ...data.runs]));
+        setStats(data.stats);
+        setTotal(data.total);
+        setError(null);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : String(err));
+      } finally {
+        setLoading(false);
+      }
+    },
+    [jobId]
+  );
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  useLiveRefresh(["cron"], () => load());
+
+  const loadMore = async () => {
+    setLoadingMore(true);
+    await load(runs.length);
+    setLoadingMore(false);
+  };
+
+  const trend = stats?.durationTrend;
+
+  return (
+    <div className="fixed inset-0 bg-black/80 z-50 flex items-end sm:items-center justify-center p-0 sm:p-4">
+      <div className="bg-zinc-900 rounded-t-2xl sm:rounded-xl border border-zinc-800 w-full max-w-lg max-h-[85vh] flex flex-col">
+        <div className="w-10 h-1 bg-zinc-700 rounded-full mx-auto mt-2 sm:hidden" />
+        <div className="flex items-center justify-between p-4 border-b border-zinc-800">
+          <div className="min-w-0">
+            <h3 className="font-semibold text-lg flex items-center gap-2">
+              <History className="w-5 h-5 text-zinc-400" />
+              Run History
+            </h3>
+            <p className="text-xs text-zinc-400 truncate mt-0.5">{jobName}</p>
+          </div>
+          <button onClick={onClose} className="p-1 rounded hover:bg-zinc-800 transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-4 overflow-y-auto flex-1">
+          {loading ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="w-6 h-6 text-emerald-500 animate-spin" />
+            </div>
+          ) : error ? (
+            <p className="text-sm text-red-400">{error}</p>
+          ) : total === 0 || !stats ? (
+            <p className="text-sm text-zinc-400 text-center py-6">This job hasn&apos;t run yet.</p>
+          ) : (
+            <>
+              {/* Stats */}
+              <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+                <StatTile
+                  label="Success"
+                  value={stats.successRate === null ? "—" : `${Math.round(stats.successRate * 100)}%`}
+                  hint={`${stats.ok} ok · ${stats.errors} failed${stats.skipped ? ` · ${stats.skipped} skipped` : ""}`}
+                />
+                <StatTile label="Runs" value={stats.total} hint={stats.lastRunAtMs ? `last ${formatRunTime(stats.lastRunAtMs)}` : undefined} />
+                <StatTile
+                  label="Duration"
+                  value={formatDuration(stats.p50DurationMs)}
+                  hint={`p95 ${formatDuration(stats.p95DurationMs)} · max ${formatDuration(stats.maxDurationMs)}`}
+                />
+                {trend && (
+                  <StatTile
+                    label="Trend"
+                    value={
+                      <span
+                        className={cn(
+                          "flex items-center gap-1",
+                          trend.direction === "up" ? "text-amber-400" : trend.direction === "down" ? "text-emerald-400" : "text-zinc-300"
+                        )}
+                      >
+                        {trend.direction === "up" ? (
+                          <TrendingUp className="w-4 h-4" />
+                        ) : trend.direction === "down" ? (
+                          <TrendingDown className="w-4 h-4" />
+                        ) : (
+                          <ArrowRight className="w-4 h-4" />
+                        )}
+                        {trend.changePct > 0 ? "+" : ""}
+                        {trend.changePct}%
+                      </span>
+                    }
+                    hint="recent vs earlier runs"
+                  />
+                )}
+                {stats.failureStreak > 0 && (
+                  <StatTile
+                    label="Failing"
+                    value={<span className="text-red-400">{stats.failureStreak} in a row</span>}
+                  />
+                )}
+              </div>
+
+              <DurationSparkline runs={runs} />
+
+              {/* Runs */}
+              <div className="space-y-2">
+                {runs.map((run) => {
+                  const session = run.sessionId || run.sessionKey;
+                  return (
+                    <div
+                      key={`${run.startedAtMs}-${run.finishedAtMs}`}
+                      className="rounded-lg bg-zinc-800/30 border border-zinc-800 px-3 py-2 text-sm"
+                    >
+                      <div className="flex items-center gap-2">
+                        <StatusIcon status={run.status} />
+                        <span className="text-zinc-200">{formatRunTime(run.startedAtMs)}</span>
+                        <span className="text-xs text-zinc-500 ml-auto">{formatDuration(run.durationMs)}</span>
+                      </div>
+                      {run.error && (
+                        <p className="text-xs text-red-400 mt-1 break-words whitespace-pre-wrap">{run.error}</p>
+                      )}
+                      {run.summary && !run.error && (
+                        <p className="text-xs text-zinc-400 mt-1 line-clamp-2">{run.summary}</p>
+                      )}
+                      {session && (
+                        <Link
+                          href={`/sessions/${encodeURIComponent(session)}`}
+                          className="inline-flex items-center gap-1 text-xs text-sky-400 hover:text-sky-300 mt-1"
+                        >
+                          <ScrollText className="w-3 h-3" />
+                          Session {session.slice(0, 12)}
+                        </Link>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+
+              {runs.length < total && (
+                <Button variant="outline" className="w-full" onClick={loadMore} disabled={loadingMore}>
+                  {loadingMore ? <Loader2 className="w-4 h-4 animate-spin" /> : `Load more (${total - runs.length})`}
+                </Button>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
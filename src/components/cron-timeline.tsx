@@ -1,8 +1,10 @@
 "use client";
 
+import { useState } from "react";
 import { Badge } from "@/components/ui/badge";
 import { ScrollArea, ScrollBar } from "@/components/ui/scroll-area";
 import { Info } from "lucide-react";
+import { CronRunHistory } from "@/components/cron-run-history";
 
 interface CronJob {
   id: string;
@@ -46,6 +48,7 @@ function formatAbsoluteTime(ms: number): string {
 }
 
 export function CronTimeline({ jobs, loading }: CronTimelineProps) {
+  const [historyJob, setHistoryJob] = useState<CronJob | null>(null);
   const enabledJobs = jobs
     .filter((job) => job.enabled && job.state?.nextRunAtMs)
     .sort((a, b) => (a.state?.nextRunAtMs || 0) - (b.state?.nextRunAtMs || 0))
@@ -61,47 +64,58 @@ export function CronTimeline({ jobs, loading }: CronTimelineProps) {
   }
 
   return (
-    <div className="bg-zinc-900 rounded-xl border border-zinc-800 p-4 sm:p-5 card-hover">
-      <div className="flex items-center gap-2 mb-3">
-        <h3 className="font-semibold">Upcoming Jobs</h3>
-        <div className="group relative">
-          <Info className="w-3.5 h-3.5 text-zinc-500 cursor-help" />
-          <div className="absolute left-0 bottom-full mb-2 hidden group-hover:block w-56 p-2 bg-zinc-800 rounded-lg text-xs text-zinc-300 shadow-lg z-10">
-            These are your next scheduled cron jobs sorted by when they will run. Tap the Cron tab for full details.
+    <>
+      <div className="bg-zinc-900 rounded-xl border border-zinc-800 p-4 sm:p-5 card-hover">
+        <div className="flex items-center gap-2 mb-3">
+          <h3 className="font-semibold">Upcoming Jobs</h3>
+          <div className="group relative">
+            <Info className="w-3.5 h-3.5 text-zinc-500 cursor-help" />
+            <div className="absolute left-0 bottom-full mb-2 hidden group-hover:block w-56 p-2 bg-zinc-800 rounded-lg text-xs text-zinc-300 shadow-lg z-10">
+              These are your next scheduled cron jobs sorted by when they will run. Tap a job for its run history.
+            </div>
           </div>
         </div>
+        {enabledJobs.length === 0 ? (
+          <p className="text-sm text-zinc-400">No scheduled jobs</p>
+        ) : (
+          <ScrollArea className="w-full whitespace-nowrap">
+            <div className="flex gap-3 pb-2">
+              {enabledJobs.map((job, index) => (
+                <button
+                  key={job.id}
+                  onClick={() => setHistoryJob(job)}
+                  className="flex-shrink-0 bg-zinc-800 hover:bg-zinc-700/80 transition-colors text-left rounded-lg px-4 py-3 min-w-[150px] relative"
+                >
+                  {/* Timeline connector */}
+                  {index < enabledJobs.length - 1 && (
+                    <div className="absolute right-0 top-1/2 w-3 h-0.5 bg-zinc-700 translate-x-full" />
+                  )}
+                  <div className="text-sm font-medium truncate max-w-[130px]">
+                    {job.name}
+                  </div>
+                  <div className="flex items-center gap-2 mt-1">
+                    <Badge variant="secondary" className="text-xs bg-emerald-500/20 text-emerald-400 border-0">
+                      {formatRelativeTime(job.state!.nextRunAtMs!)}
+                    </Badge>
+                    <span className="text-xs text-zinc-500">
+                      {formatAbsoluteTime(job.state!.nextRunAtMs!)}
+                    </span>
+                  </div>
+                </button>
+              ))}
+            </div>
+            <ScrollBar orientation="horizontal" />
+          </ScrollArea>
+        )}
       </div>
-      {enabledJobs.length === 0 ? (
-        <p className="text-sm text-zinc-400">No scheduled jobs</p>
-      ) : (
-        <ScrollArea className="w-full whitespace-nowrap">
-          <div className="flex gap-3 pb-2">
-            {enabledJobs.map((job, index) => (
-              <div
-                key={job.id}
-                className="flex-shrink-0 bg-zinc-800 rounded-lg px-4 py-3 min-w-[150px] relative"
-              >
-                {/* Timeline connector */}
-                {index < enabledJobs.length - 1 && (
-                  <div className="absolute right-0 top-1/2 w-3 h-0.5 bg-zinc-700 translate-x-full" />
-                )}
-                <div className="text-sm font-medium truncate max-w-[130px]">
-                  {job.name}
-                </div>
-                <div className="flex items-center gap-2 mt-1">
-                  <Badge variant="secondary" className="text-xs bg-emerald-500/20 text-emerald-400 border-0">
-                    {formatRelativeTime(job.state!.nextRunAtMs!)}
-                  </Badge>
-                  <span className="text-xs text-zinc-500">
-                    {formatAbsoluteTime(job.state!.nextRunAtMs!)}
-                  </span>
-                </div>
-              </div>
-            ))}
-          </div>
-          <ScrollBar orientation="horizontal" />
-        </ScrollArea>
+      {/* Outside the card: its hover transform would otherwise contain the fixed modal */}
+      {historyJob && (
+        <CronRunHistory
+          jobId={historyJob.id}
+          jobName={historyJob.name}
+          onClose={() => setHistoryJob(null)}
+        />
       )}
-    </div>
+    </>
   );
 }
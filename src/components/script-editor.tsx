@@ -0,0 +1,338 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import { X, Loader2, Save, History, AlertTriangle, FileCode } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import { tokenizeShell, type ShellTokenType } from "@/lib/shell-highlight";
+import type { ScriptRevision } from "@/lib/script-files";
+
+const NEW_SCRIPT_TEMPLATE = `#!/bin/bash
+# Describe what this script does
+# timeout: 5m
+set -euo pipefail
+
+`;
+
+const TOKEN_CLASS: Record<ShellTokenType, string> = {
+  plain: "text-zinc-200",
+  comment: "text-zinc-500 italic",
+  string: "text-amber-300",
+  variable: "text-sky-300",
+  keyword: "text-fuchsia-400",
+  builtin: "text-emerald-400",
+  number: "text-orange-300",
+};
+
+// Shared by the textarea and the highlighted layer under it; they must match exactly
+const CODE_CLASS = "font-mono text-[13px] leading-5 p-3 whitespace-pre";
+
+function formatRevisionTime(iso: string): string {
+  return new Date(iso).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+/**
+ * Textarea over a highlighted copy of its text. The textarea's own text is
+ * transparent, so typing, selection and the mobile keyboard stay native.
+ */
+function ShellCodeArea({ value, onChange }: { value: string; onChange: (value: string) => void }) {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const highlightRef = useRef<HTMLPreElement>(null);
+  const gutterRef = useRef<HTMLDivElement>(null);
+  const tokens = useMemo(() => tokenizeShell(value), [value]);
+  const lineCount = value.split("\n").length;
+
+  const syncScroll = () => {
+    const ta = textareaRef.current;
+    if (!ta) return;
+    if (highlightRef.current) {
+      highlightRef.current.scrollTop = ta.scrollTop;
+      highlightRef.current.scrollLeft = ta.scrollLeft;
+    }
+    if (gutterRef.current) gutterRef.current.scrollTop = ta.scrollTop;
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    // Tab indents instead of leaving the editor
+    if (e.key !== "Tab" || e.shiftKey || e.altKey || e.metaKey || e.ctrlKey) return;
+    e.preventDefault();
+    const ta = e.currentTarget;
+    ta.setRangeText("  ", ta.selectionStart, ta.selectionEnd, "end");
+    onChange(ta.value);
+  };
+
+  return (
+    <div className="relative flex min-h-0 flex-1 rounded-lg border border-zinc-800 bg-zinc-950 overflow-hidden focus-within:ring-2 focus-within:ring-emerald-500/50">
+      <div
+        ref={gutterRef}
+        aria-hidden
+        className="shrink-0 overflow-hidden select-none border-r border-zinc-800 py-3 pl-2 pr-2 text-right font-mono text-[13px] leading-5 text-zinc-600"
+      >
+        {Array.from({ length: lineCount }, (_, i) => (
+          <div key={i}>{i + 1}</div>
+        ))}
+      </div>
+      <div className="relative min-w-0 flex-1">
+        <pre
+          ref={highlightRef}
+          aria-hidden
+          className={cn(CODE_CLASS, "absolute inset-0 m-0 overflow-hidden pointer-events-none")}
+        >
+          {tokens.map((token, i) => (
+            <span key={i} className={TOKEN_CLASS[token.type]}>
+              {token.text}
+            </span>
+          ))}
+          {/* Keep the last empty line as tall as the textarea's */}
+          {"\n "}
+        </pre>
+        <textarea
+          ref={textareaRef}
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          onScroll={syncScroll}
+          onKeyDown={handleKeyDown}
+          spellCheck={false}
+          autoCapitalize="off"
+          autoCorrect="off"
+          autoComplete="off"
+          wrap="off"
+          className={cn(
+            CODE_CLASS,
+            "absolute inset-0 h-full w-full resize-none overflow-auto bg-transparent text-transparent caret-zinc-100 selection:bg-emerald-500/30 focus:outline-none"
+          )}
+        />
+      </div>
+    </div>
+  );
+}
+
+interface ScriptEditorProps {
+  /** Script to edit; omit to create a new one. */
+  name?: string;
+  onClose: () => void;
+  onSaved: (name: string) => void;
+}
+
+/** Create or edit a workspace script, with syntax check on save and past revisions. */
+export function ScriptEditor({ name, onClose, onSaved }: ScriptEditorProps) {
+  const isNew = !name;
+  const [fileName, setFileName] = useState(name ?? "");
+  const [content, setContent] = useState(isNew ? NEW_SCRIPT_TEMPLATE : "");
+  const [loadedContent, setLoadedContent] = useState(isNew ? NEW_SCRIPT_TEMPLATE : "");
+  const [modifiedAt, setModifiedAt] = useState<string | undefined>();
+  const [revisions, setRevisions] = useState<ScriptRevision[]>([]);
+  const [loading, setLoading] = useState(!isNew);
+  const [editable, setEditable] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [syntaxError, setSyntaxError] = useState<string | null>(null);
+  const [showRevisions, setShowRevisions] = useState(false);
+  const [restoredFrom, setRestoredFrom] = useState<string | null>(null);
+  const [confirmDiscard, setConfirmDiscard] = useState(false);
+
+  const dirty = content !== loadedContent || (isNew && fileName !== "");
+
+  useEffect(() => {
+    if (!name) return;
+    let cancelled = false;
+    fetch(`/api/scripts?name=${encodeURIComponent(name)}`)
+      .then(async (res) => {
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || `HTTP ${res.status}`);
+        if (cancelled) return;
+        if (!data.editable) {
+          setEditable(false);
+          setError("This script lives outside the workspace scripts directory and can't be edited here.");
+        }
+        setContent(data.content);
+        setLoadedContent(data.content);
+        setModifiedAt(data.modifiedAt);
+        setRevisions(data.revisions || []);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : String(err));
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [name]);
+
+  const handleSave = async () => {
+    const trimmed = fileName.trim();
+    const target = name ?? (trimmed.endsWith(".sh") ? trimmed : `${trimmed}.sh`);
+    setSaving(true);
+    setError(null);
+    setSyntaxError(null);
+    try {
+      const res = await fetch("/api/scripts", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name: target, content, create: isNew, expectedModifiedAt: modifiedAt }),
+      });
+      const data = await res.json();
+      if (res.status === 422) {
+        setSyntaxError(data.error);
+        return;
+      }
+      if (!res.ok) throw new Error(data.error || `HTTP ${res.status}`);
+      onSaved(data.name);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const loadRevision = async (revision: ScriptRevision) => {
+    if (!name) return;
+    try {
+      const res = await fetch(
+        `/api/scripts?name=${encodeURIComponent(name)}&revision=${encodeURIComponent(revision.id)}`
+      );
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || `HTTP ${res.status}`);
+      setContent(data.content);
+      setRestoredFrom(formatRevisionTime(revision.savedAt));
+      setShowRevisions(false);
+      setSyntaxError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const handleClose = () => {
+    if (dirty && !confirmDiscard) setConfirmDiscard(true);
+    else onClose();
+  };
+
+  const nameValid = isNew ? /^[A-Za-z0-9][\w.-]*$/.test(fileName.trim()) : true;
+
+  return (
+    <div className="fixed inset-0 bg-black/80 z-50 flex items-end sm:items-center justify-center p-0 sm:p-4">
+      <div className="bg-zinc-900 rounded-t-2xl sm:rounded-xl border border-zinc-800 w-full max-w-3xl h-[92dvh] sm:h-[85vh] flex flex-col">
+        <div className="w-10 h-1 bg-zinc-700 rounded-full mx-auto mt-2 sm:hidden" />
+        <div className="flex items-center justify-between gap-2 p-4 border-b border-zinc-800">
+          <div className="min-w-0 flex-1">
+            <h3 className="font-semibold text-lg flex items-center gap-2">
+              <FileCode className="w-5 h-5 text-zinc-400" />
+              {isNew ? "New Script" : "Edit Script"}
+            </h3>
+            {isNew ? (
+              <div className="flex items-center gap-1 mt-1">
+                <input
+                  type="text"
+                  value={fileName}
+                  onChange={(e) => setFileName(e.target.value)}
+                  placeholder="backup-logs"
+                  autoCapitalize="off"
+                  autoCorrect="off"
+                  spellCheck={false}
+                  className="flex-1 min-w-0 bg-zinc-800 border border-zinc-700 rounded-lg px-2 py-1 text-sm font-mono text-zinc-100 placeholder-zinc-500 focus:outline-none focus:ring-2 focus:ring-emerald-500/50"
+                />
+                {!fileName.endsWith(".sh") && <span className="text-sm font-mono text-zinc-500">.sh</span>}
+              </div>
+            ) : (
+              <p className="text-xs text-zinc-400 font-mono truncate mt-0.5">{name}</p>
+            )}
+          </div>
+          {!isNew && revisions.length > 0 && (
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => setShowRevisions(!showRevisions)}
+              className="h-8 px-2 text-xs text-zinc-400 border-zinc-700"
+            >
+              <History className="w-3.5 h-3.5 mr-1" />
+              {revisions.length}
+            </Button>
+          )}
+          <button onClick={handleClose} className="p-1 rounded hover:bg-zinc-800 transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {showRevisions && (
+          <div className="border-b border-zinc-800 max-h-48 overflow-y-auto">
+            <p className="px-4 pt-3 pb-1 text-xs text-zinc-500">
+              Earlier versions, saved each time the script was replaced. Loading one doesn&apos;t save it.
+            </p>
+            {revisions.map((revision) => (
+              <button
+                key={revision.id}
+                onClick={() => loadRevision(revision)}
+                className="w-full flex items-center justify-between px-4 py-2 text-sm hover:bg-zinc-800/60 text-left"
+              >
+                <span className="text-zinc-200">{formatRevisionTime(revision.savedAt)}</span>
+                <span className="text-xs text-zinc-500">{(revision.sizeBytes / 1024).toFixed(1)} KB</span>
+              </button>
+            ))}
+          </div>
+        )}
+
+        <div className="flex-1 min-h-0 p-3 sm:p-4 flex flex-col gap-3">
+          {restoredFrom && (
+            <p className="text-xs text-sky-400 bg-sky-500/10 border border-sky-500/20 rounded px-3 py-2">
+              Showing the version from {restoredFrom}. Save to restore it.
+            </p>
+          )}
+          {loading ? (
+            <div className="flex flex-1 items-center justify-center">
+              <Loader2 className="w-6 h-6 text-emerald-500 animate-spin" />
+            </div>
+          ) : (
+            <ShellCodeArea value={content} onChange={setContent} />
+          )}
+          {syntaxError && (
+            <div className="rounded-lg border border-red-500/30 bg-red-500/10 p-3">
+              <p className="text-xs font-medium text-red-400 mb-1">bash -n found a syntax error; nothing was saved</p>
+              <pre className="text-xs text-red-300 whitespace-pre-wrap break-all font-mono">{syntaxError}</pre>
+            </div>
+          )}
+          {error && <p className="text-xs text-red-400">{error}</p>}
+        </div>
+
+        {confirmDiscard ? (
+          <div className="p-4 border-t border-zinc-800 flex items-center gap-3">
+            <AlertTriangle className="w-4 h-4 text-amber-400 shrink-0" />
+            <span className="text-sm text-zinc-300 flex-1">Discard unsaved changes?</span>
+            <Button variant="outline" size="sm" onClick={() => setConfirmDiscard(false)}>
+              Keep editing
+            </Button>
+            <Button size="sm" className="bg-red-500 hover:bg-red-600 text-white" onClick={onClose}>
+              Discard
+            </Button>
+          </div>
+        ) : (
+          <div className="p-4 border-t border-zinc-800 flex gap-3">
+            <Button variant="outline" className="flex-1" onClick={handleClose}>
+              Cancel
+            </Button>
+            <Button
+              className="flex-1 bg-emerald-500 hover:bg-emerald-600 text-white"
+              onClick={handleSave}
+              disabled={saving || loading || !editable || !nameValid || (!isNew && !dirty)}
+            >
+              {saving ? (
+                <Loader2 className="w-4 h-4 animate-spin" />
+              ) : (
+                <>
+                  <Save className="w-4 h-4 mr-1" />
+                  {isNew ? "Create" : "Save"}
+                </>
+              )}
+            </Button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
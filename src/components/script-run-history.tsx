@@ -0,0 +1,233 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import {
+  X, Loader2, CheckCircle, XCircle, AlertCircle, History, Play, ChevronDown, ChevronUp,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import { useLiveRefresh } from "@/lib/use-live-events";
+import type { ScriptRunListItem, ScriptRunRecord } from "@/lib/script-history";
+
+const PAGE_SIZE = 50;
+
+interface ScriptRunHistoryProps {
+  script: string;
+  /** Start the script again with a past run's arguments; omitted for viewers. */
+  onRerun?: (run: ScriptRunListItem) => void;
+  onClose: () => void;
+}
+
+const STATUS_LABEL: Record<ScriptRunListItem["status"], string> = {
+  ok: "Success",
+  error: "Failed",
+  cancelled: "Cancelled",
+  timeout: "Timed out",
+};
+
+function formatDuration(ms: number): string {
+  if (ms < 1000) return `${ms}ms`;
+  const seconds = ms / 1000;
+  if (seconds < 60) return `${seconds.toFixed(1)}s`;
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}m ${Math.round(seconds % 60)}s`;
+}
+
+function formatRunTime(ms: number): string {
+  return new Date(ms).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+function StatusIcon({ status }: { status: ScriptRunListItem["status"] }) {
+  if (status === "ok") return <CheckCircle className="w-4 h-4 text-emerald-400 shrink-0" />;
+  if (status === "error") return <XCircle className="w-4 h-4 text-red-400 shrink-0" />;
+  return <AlertCircle className="w-4 h-4 text-yellow-500 shrink-0" />;
+}
+
+/** Archived stdout/stderr of one run, fetched when its row is expanded. */
+function RunOutput({ id }: { id: string }) {
+  const [record, setRecord] = useState<ScriptRunRecord | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch(`/api/script-runs?id=${encodeURIComponent(id)}`)
+      .then(async (res) => {
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || `HTTP ${res.status}`);
+        if (!cancelled) setRecord(data.run);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : String(err));
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [id]);
+
+  if (error) return <p className="text-xs text-red-400 mt-2">{error}</p>;
+  if (!record) return <Loader2 className="w-4 h-4 text-zinc-500 animate-spin mt-2" />;
+
+  return (
+    <div className="mt-2 space-y-2">
+      {record.stdout && (
+        <pre className="text-xs text-zinc-300 bg-zinc-950 rounded p-2 max-h-60 overflow-auto whitespace-pre-wrap break-all">
+          {record.stdout}
+        </pre>
+      )}
+      {record.stderr && (
+        <pre className="text-xs text-yellow-400 bg-zinc-950 rounded p-2 max-h-60 overflow-auto whitespace-pre-wrap break-all">
+          {record.stderr}
+        </pre>
+      )}
+      {!record.stdout && !record.stderr && <p className="text-xs text-zinc-500">No output</p>}
+      {record.outputTruncated && (
+        <p className="text-[11px] text-zinc-500">Output was cut; only the last 64 KB per stream is kept.</p>
+      )}
+    </div>
+  );
+}
+
+/** Every recorded run of one script, with archived output and re-run. */
+export function ScriptRunHistory({ script, onRerun, onClose }: ScriptRunHistoryProps) {
+  const [runs, setRuns] = useState<ScriptRunListItem[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  const load = useCallback(
+    async (cursor?: string) => {
+      try {
+        const params = new URLSearchParams({ script, limit: String(PAGE_SIZE) });
+        if (cursor) params.set("cursor", cursor);
+        const res = await fetch(`/api/script-runs?${params}`);
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || `HTTP ${res.status}`);
+        setRuns((prev) => (cursor ? [...prev, ...data.runs] : data.runs));
+        setNextCursor(data.nextCursor);
+        setError(null);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : String(err));
+      } finally {
+        setLoading(false);
+      }
+    },
+    [script]
+  );
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  useLiveRefresh(["scripts"], () => load());
+
+  const loadMore = async () => {
+    if (!nextCursor) return;
+    setLoadingMore(true);
+    await load(nextCursor);
+    setLoadingMore(false);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/80 z-50 flex items-end sm:items-center justify-center p-0 sm:p-4">
+      <div className="bg-zinc-900 rounded-t-2xl sm:rounded-xl border border-zinc-800 w-full max-w-lg max-h-[85vh] flex flex-col">
+        <div className="w-10 h-1 bg-zinc-700 rounded-full mx-auto mt-2 sm:hidden" />
+        <div className="flex items-center justify-between p-4 border-b border-zinc-800">
+          <div className="min-w-0">
+            <h3 className="font-semibold text-lg flex items-center gap-2">
+              <History className="w-5 h-5 text-zinc-400" />
+              Run History
+            </h3>
+            <p className="text-xs text-zinc-400 font-mono truncate mt-0.5">{script}</p>
+          </div>
+          <button onClick={onClose} className="p-1 rounded hover:bg-zinc-800 transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-2 overflow-y-auto flex-1">
+          {loading ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="w-6 h-6 text-emerald-500 animate-spin" />
+            </div>
+          ) : error ? (
+            <p className="text-sm text-red-400">{error}</p>
+          ) : runs.length === 0 ? (
+            <p className="text-sm text-zinc-400 text-center py-6">This script hasn&apos;t run yet.</p>
+          ) : (
+            <>
+              {runs.map((run) => {
+                const open = expanded === run.id;
+                return (
+                  <div key={run.id} className="rounded-lg bg-zinc-800/30 border border-zinc-800 px-3 py-2 text-sm">
+                    <div className="flex items-center gap-2">
+                      <StatusIcon status={run.status} />
+                      <button
+                        onClick={() => setExpanded(open ? null : run.id)}
+                        className="flex items-center gap-2 min-w-0 flex-1 text-left"
+                      >
+                        <span className="text-zinc-200">{formatRunTime(run.startedAt)}</span>
+                        <span
+                          className={cn(
+                            "text-xs",
+                            run.status === "ok" ? "text-zinc-500" : "text-red-400"
+                          )}
+                        >
+                          {STATUS_LABEL[run.status]}
+                          {run.exitCode !== null && ` · exit ${run.exitCode}`}
+                        </span>
+                        <span className="text-xs text-zinc-500 ml-auto shrink-0">{formatDuration(run.durationMs)}</span>
+                        {open ? (
+                          <ChevronUp className="w-4 h-4 text-zinc-500 shrink-0" />
+                        ) : (
+                          <ChevronDown className="w-4 h-4 text-zinc-500 shrink-0" />
+                        )}
+                      </button>
+                      {onRerun && (
+                        <button
+                          onClick={() => onRerun(run)}
+                          title="Run again with the same arguments"
+                          className="p-1 rounded text-emerald-400 hover:bg-zinc-800 transition-colors shrink-0"
+                        >
+                          <Play className="w-3.5 h-3.5" />
+                        </button>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-2 text-xs text-zinc-500 mt-1 flex-wrap">
+                      {run.params ? (
+                        Object.entries(run.params).map(([name, value]) => (
+                          <span key={name} className="font-mono text-zinc-400 break-all">
+                            {name}={value}
+                          </span>
+                        ))
+                      ) : run.args.length > 0 ? (
+                        <span className="font-mono text-zinc-400 break-all">{run.args.join(" ")}</span>
+                      ) : null}
+                      {run.startedBy && <span>by {run.startedBy}</span>}
+                    </div>
+                    {run.error && run.status !== "ok" && (
+                      <p className="text-xs text-red-400 mt-1 break-words">{run.error}</p>
+                    )}
+                    {open && <RunOutput id={run.id} />}
+                  </div>
+                );
+              })}
+
+              {nextCursor && (
+                <Button variant="outline" className="w-full" onClick={loadMore} disabled={loadingMore}>
+                  {loadingMore ? <Loader2 className="w-4 h-4 animate-spin" /> : "Load more"}
+                </Button>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
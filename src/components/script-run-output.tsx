@@ -0,0 +1,228 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { X, Loader2, CheckCircle, XCircle, AlertCircle, Square, Clock } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+import type { ScriptOutputChunk, ScriptRunSummary } from "@/lib/script-runs";
+
+interface ScriptRunOutputProps {
+  run: ScriptRunSummary;
+  canCancel: boolean;
+  onClose: () => void;
+  /** Called once with the final run when the script exits. */
+  onExit?: (run: ScriptRunSummary, output: string) => void;
+}
+
+const STATUS_LABEL: Record<ScriptRunSummary["status"], string> = {
+  running: "Running",
+  ok: "Success",
+  error: "Failed",
+  cancelled: "Cancelled",
+  timeout: "Timed out",
+};
+
+function formatElapsed(ms: number): string {
+  const seconds = Math.max(0, Math.floor(ms / 1000));
+  if (seconds < 60) return `${seconds}s`;
+  return `${Math.floor(seconds / 60)}m ${String(seconds % 60).padStart(2, "0")}s`;
+}
+
+function StatusIcon({ status }: { status: ScriptRunSummary["status"] }) {
+  if (status === "running") return <Loader2 className="w-5 h-5 text-emerald-400 animate-spin shrink-0" />;
+  if (status === "ok") return <CheckCircle className="w-5 h-5 text-green-500 shrink-0" />;
+  if (status === "error") return <XCircle className="w-5 h-5 text-red-500 shrink-0" />;
+  return <AlertCircle className="w-5 h-5 text-yellow-500 shrink-0" />;
+}
+
+/** Live stdout/stderr of one script run, streamed from /api/exec?runId=…. */
+export function ScriptRunOutput({ run: initialRun, canCancel, onClose, onExit }: ScriptRunOutputProps) {
+  const [run, setRun] = useState(initialRun);
+  const [chunks, setChunks] = useState<ScriptOutputChunk[]>([]);
+  const [streamError, setStreamError] = useState<string | null>(null);
+  const [cancelling, setCancelling] = useState(false);
+  const [now, setNow] = useState(() => Date.now());
+  const [follow, setFollow] = useState(true);
+  const outputRef = useRef<HTMLPreElement>(null);
+  const onExitRef = useRef(onExit);
+
+  const runId = initialRun.id;
+  const running = run.finishedAt === undefined;
+  // Cancelled or timed out, waiting for the process to go away
+  const stopping = running && run.status !== "running";
+
+  useEffect(() => {
+    onExitRef.current = onExit;
+  }, [onExit]);
+
+  // The browser reconnects with Last-Event-ID by itself, so output resumes
+  // without repeats after a network drop
+  useEffect(() => {
+    let output = "";
+    let lastSeq = 0;
+    let done = false;
+    const es = new EventSource(`/api/exec?runId=${encodeURIComponent(runId)}`);
+
+    es.addEventListener("output", (ev) => {
+      let chunk: ScriptOutputChunk;
+      try {
+        chunk = JSON.parse((ev as MessageEvent<string>).data);
+      } catch {
+        return;
+      }
+      if (chunk.seq <= lastSeq) return;
+      lastSeq = chunk.seq;
+      output += chunk.text;
+      setChunks((prev) => [...prev, chunk]);
+    });
+
+    es.addEventListener("exit", (ev) => {
+      done = true;
+      es.close();
+      try {
+        const final: ScriptRunSummary = JSON.parse((ev as MessageEvent<string>).data);
+        setRun(final);
+        onExitRef.current?.(final, output);
+      } catch {
+        // keep the last known state
+      }
+    });
+
+    es.addEventListener("error", () => {
+      // Network drops are retried by the browser; a closed source means the
+      // run is gone (server restart) or the request was refused.
+      if (done || es.readyState !== EventSource.CLOSED) return;
+      done = true;
+      setStreamError("Lost the output stream. The script may still be running on the server.");
+    });
+
+    return () => {
+      done = true;
+      es.close();
+    };
+  }, [runId]);
+
+  // Elapsed timer while the script runs
+  useEffect(() => {
+    if (!running) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [running]);
+
+  // Keep the newest output in view unless the user scrolled up
+  useEffect(() => {
+    const el = outputRef.current;
+    if (el && follow) el.scrollTop = el.scrollHeight;
+  }, [chunks, follow]);
+
+  const handleScroll = () => {
+    const el = outputRef.current;
+    if (!el) return;
+    setFollow(el.scrollHeight - el.scrollTop - el.clientHeight < 24);
+  };
+
+  const handleCancel = async () => {
+    setCancelling(true);
+    try {
+      const res = await fetch(`/api/exec?runId=${encodeURIComponent(runId)}`, { method: "DELETE" });
+      const data = await res.json();
+      if (!res.ok) setStreamError(data.error || "Failed to cancel");
+      else if (data.run) setRun(data.run);
+    } catch (err) {
+      setStreamError(String(err));
+    } finally {
+      setCancelling(false);
+    }
+  };
+
+  const elapsed = (run.finishedAt ?? now) - run.startedAt;
+
+  return (
+    <div className="fixed inset-0 bg-black/80 z-50 flex items-end sm:items-center justify-center p-0 sm:p-4">
+      <div className="bg-zinc-900 rounded-t-2xl sm:rounded-xl border border-zinc-800 w-full max-w-2xl max-h-[85vh] flex flex-col">
+        <div className="w-10 h-1 bg-zinc-700 rounded-full mx-auto mt-2 sm:hidden" />
+        <div className="flex items-center justify-between p-4 border-b border-zinc-800">
+          <div className="flex items-center gap-2 min-w-0">
+            <StatusIcon status={running ? "running" : run.status} />
+            <h3 className="font-medium font-mono text-sm truncate">
+              {run.script}
+              {run.args.length > 0 && <span className="text-zinc-500"> {run.args.join(" ")}</span>}
+            </h3>
+            <Badge
+              variant={run.status === "ok" || run.status === "running" ? "default" : "destructive"}
+              className="shrink-0"
+            >
+              {stopping ? "Stopping…" : STATUS_LABEL[run.status]}
+            </Badge>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-1 rounded hover:bg-zinc-800 transition-colors shrink-0"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex items-center gap-3 px-4 py-2 text-xs text-zinc-500 border-b border-zinc-800">
+          <span className="flex items-center gap-1">
+            <Clock className="w-3.5 h-3.5" />
+            {formatElapsed(elapsed)}
+          </span>
+          <span>timeout {formatElapsed(run.timeoutMs)}</span>
+          {run.exitCode !== undefined && run.exitCode !== null && <span>exit {run.exitCode}</span>}
+          {run.startedBy && <span className="truncate">by {run.startedBy}</span>}
+        </div>
+
+        <div className="flex-1 min-h-0 p-4 flex flex-col gap-3">
+          {(run.error || streamError) && (
+            <p className="text-xs text-red-400 bg-red-500/10 border border-red-500/20 rounded px-3 py-2">
+              {streamError || run.error}
+            </p>
+          )}
+          <pre
+            ref={outputRef}
+            onScroll={handleScroll}
+            className="flex-1 min-h-[12rem] overflow-auto text-xs bg-zinc-950 rounded p-3 whitespace-pre-wrap break-all font-mono"
+          >
+            {chunks.map((chunk) => (
+              <span
+                key={chunk.seq}
+                className={cn(chunk.stream === "stderr" ? "text-yellow-400" : "text-zinc-300")}
+              >
+                {chunk.text}
+              </span>
+            ))}
+            {chunks.length === 0 && (
+              <span className="text-zinc-500">{running ? "Waiting for output…" : "No output"}</span>
+            )}
+          </pre>
+          {run.truncated && (
+            <p className="text-xs text-zinc-500">Output limit reached; the rest of the output was dropped.</p>
+          )}
+        </div>
+
+        <div className="p-4 border-t border-zinc-800 flex gap-2">
+          {running && canCancel && (
+            <Button
+              onClick={handleCancel}
+              disabled={cancelling || stopping}
+              variant="outline"
+              className="flex-1 text-red-400 border-red-500/30 hover:bg-red-500/10"
+            >
+              {cancelling ? (
+                <Loader2 className="w-4 h-4 animate-spin mr-1" />
+              ) : (
+                <Square className="w-4 h-4 mr-1" />
+              )}
+              Cancel
+            </Button>
+          )}
+          <Button onClick={onClose} variant="outline" className="flex-1">
+            Close
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,433 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import {
+  Loader2, RotateCcw, Minimize2, Archive, Trash2, Layers, XCircle, CheckCircle, X, ChevronDown, ChevronUp,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import { useCurrentUser } from "@/lib/use-auth";
+import type { Permission } from "@/lib/permissions";
+import type { SessionAction, SessionActionResult } from "@/lib/session-lifecycle";
+
+const ACTION_INFO: Record<
+  SessionAction,
+  { label: string; done: string; icon: typeof Archive; permission: Permission; description: string; danger?: boolean }
+> = {
+  reset: {
+    label: "Reset",
+    done: "Reset",
+    icon: RotateCcw,
+    permission: "sessions.manage",
+    description: "Clears the conversation context. The next message starts a fresh transcript.",
+  },
+  compact: {
+    label: "Compact",
+    done: "Compacted",
+    icon: Minimize2,
+    permission: "sessions.manage",
+    description: "Asks the agent to summarise older turns to free up context. Needs the gateway.",
+  },
+  archive: {
+    label: "Archive",
+    done: "Archived",
+    icon: Archive,
+    permission: "sessions.manage",
+    description: "Moves the transcript into the command-center archive and removes the session from the list.",
+  },
+  delete: {
+    label: "Delete",
+    done: "Deleted",
+    icon: Trash2,
+    permission: "sessions.delete",
+    description: "Removes the session and its transcript. This cannot be undone.",
+    danger: true,
+  },
+};
+
+const ACTIONS = Object.keys(ACTION_INFO) as SessionAction[];
+
+const SELECT_CLASS =
+  "bg-zinc-800 border border-zinc-700 rounded-lg px-2 py-1.5 text-xs text-zinc-100 focus:outline-none focus:ring-2 focus:ring-emerald-500/50";
+
+const IDLE_OPTIONS = [
+  { label: "Any age", minutes: 0 },
+  { label: "Idle 1h+", minutes: 60 },
+  { label: "Idle 1d+", minutes: 24 * 60 },
+  { label: "Idle 7d+", minutes: 7 * 24 * 60 },
+  { label: "Idle 30d+", minutes: 30 * 24 * 60 },
+];
+
+interface SessionSummary {
+  key: string;
+  label: string;
+  type: string;
+  channel?: string;
+}
+
+interface BulkFilter {
+  type: string;
+  channel: string;
+  idleMinutes: number;
+}
+
+async function postSessionAction(body: Record<string, unknown>) {
+  const res = await fetch("/api/sessions", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+  const data = await res.json();
+  if (!res.ok) throw new Error(data.error || `HTTP ${res.status}`);
+  return data;
+}
+
+function ConfirmSessionAction({
+  action,
+  targets,
+  note,
+  busy,
+  onCancel,
+  onConfirm,
+}: {
+  action: SessionAction;
+  targets: string[];
+  note?: string;
+  busy: boolean;
+  onCancel: () => void;
+  onConfirm: () => void;
+}) {
+  const info = ACTION_INFO[action];
+  const Icon = info.icon;
+  const shown = targets.slice(0, 8);
+  return (
+    <div className="fixed inset-0 bg-black/80 z-50 flex items-end sm:items-center justify-center p-0 sm:p-4">
+      <div className="bg-zinc-900 rounded-t-2xl sm:rounded-xl border border-zinc-800 w-full max-w-sm p-4 sm:p-5">
+        <div className="w-10 h-1 bg-zinc-700 rounded-full mx-auto mb-4 sm:hidden" />
+        <h3 className="font-semibold text-lg mb-2">
+          {info.label} {targets.length === 1 ? "Session" : `${targets.length} Sessions`}
+        </h3>
+        <p className="text-sm text-zinc-400 mb-2">{info.description}</p>
+        <ul className="text-xs text-zinc-300 font-mono space-y-0.5 mb-2 max-h-40 overflow-y-auto">
+          {shown.map((t) => (
+            <li key={t} className="truncate">
+              {t}
+            </li>
+          ))}
+          {targets.length > shown.length && (
+            <li className="text-zinc-500 font-sans">and {targets.length - shown.length} more</li>
+          )}
+        </ul>
+        {note && <p className="text-xs text-zinc-500 mb-2">{note}</p>}
+        <div className="flex gap-3 mt-4">
+          <Button variant="outline" className="flex-1" onClick={onCancel} disabled={busy}>
+            Cancel
+          </Button>
+          <Button
+            className={cn(
+              "flex-1 text-white",
+              info.danger ? "bg-red-500 hover:bg-red-600" : "bg-emerald-500 hover:bg-emerald-600"
+            )}
+            onClick={onConfirm}
+            disabled={busy}
+          >
+            {busy ? (
+              <Loader2 className="w-4 h-4 animate-spin" />
+            ) : (
+              <>
+                <Icon className="w-4 h-4 mr-1" />
+                {info.label}
+              </>
+            )}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Reset / compact / archive / delete buttons for one session, each behind a
+ * confirmation. `onDone` gets the action once the server has applied it.
+ */
+export function SessionActionsBar({
+  sessionKey,
+  isMain,
+  onDone,
+}: {
+  sessionKey: string;
+  /** The main session can be reset or compacted but not archived or deleted. */
+  isMain: boolean;
+  onDone: (result: SessionActionResult) => void;
+}) {
+  const { can } = useCurrentUser();
+  const [confirm, setConfirm] = useState<SessionAction | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const available = ACTIONS.filter(
+    (a) => can(ACTION_INFO[a].permission) && !(isMain && (a === "archive" || a === "delete"))
+  );
+  if (available.length === 0) return null;
+
+  const run = async (action: SessionAction) => {
+    setBusy(true);
+    setError(null);
+    try {
+      const data = await postSessionAction({ action, key: sessionKey });
+      setConfirm(null);
+      onDone(data.result);
+    } catch (err) {
+      setConfirm(null);
+      setError(`${ACTION_INFO[action].label} failed: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2 flex-wrap">
+        {available.map((action) => {
+          const info = ACTION_INFO[action];
+          const Icon = info.icon;
+          return (
+            <Button
+              key={action}
+              size="sm"
+              variant="outline"
+              onClick={() => setConfirm(action)}
+              className={cn(
+                "h-8 px-2 sm:px-3 text-xs border-zinc-700 hover:bg-zinc-800",
+                info.danger ? "text-red-400 border-red-500/30 hover:bg-red-500/10" : "text-zinc-400"
+              )}
+            >
+              <Icon className="w-3.5 h-3.5 mr-1" />
+              {info.label}
+            </Button>
+          );
+        })}
+      </div>
+      {error && (
+        <div className="flex items-start gap-2 text-sm text-red-400 bg-red-500/10 border border-red-500/20 rounded-lg px-3 py-2">
+          <XCircle className="w-4 h-4 shrink-0 mt-0.5" />
+          <span className="flex-1 break-words">{error}</span>
+          <button onClick={() => setError(null)} className="p-0.5 rounded hover:bg-zinc-800">
+            <X className="w-3.5 h-3.5" />
+          </button>
+        </div>
+      )}
+      {confirm && (
+        <ConfirmSessionAction
+          action={confirm}
+          targets={[sessionKey]}
+          busy={busy}
+          onCancel={() => setConfirm(null)}
+          onConfirm={() => run(confirm)}
+        />
+      )}
+    </div>
+  );
+}
+
+/**
+ * Bulk lifecycle actions for the Sessions tab: pick sessions by type,
+ * channel and idle age, review the matches, then apply one action to all of
+ * them. The server re-checks the filter, so a session that woke up in the
+ * meantime is skipped.
+ */
+export function SessionBulkActions({ onDone }: { onDone: () => void }) {
+  const { can } = useCurrentUser();
+  const [open, setOpen] = useState(false);
+  const [filter, setFilter] = useState<BulkFilter>({ type: "all", channel: "all", idleMinutes: 7 * 24 * 60 });
+  const [channels, setChannels] = useState<string[]>([]);
+  const [matches, setMatches] = useState<SessionSummary[] | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [confirm, setConfirm] = useState<SessionAction | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [results, setResults] = useState<{ action: SessionAction; results: SessionActionResult[] } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadMatches = useCallback(async () => {
+    setLoading(true);
+    try {
+      const params = new URLSearchParams({ type: filter.type, channel: filter.channel, limit: "1000" });
+      if (filter.idleMinutes > 0) params.set("idleMinutes", String(filter.idleMinutes));
+      const res = await fetch(`/api/sessions?${params}`);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || `HTTP ${res.status}`);
+      setMatches(data.sessions);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setLoading(false);
+    }
+  }, [filter]);
+
+  useEffect(() => {
+    if (open) loadMatches();
+  }, [open, loadMatches]);
+
+  // Channel choices come from every session, not just the current matches
+  useEffect(() => {
+    if (!open) return;
+    fetch("/api/sessions?limit=1000")
+      .then((res) => res.json())
+      .then((data: { sessions?: SessionSummary[] }) => {
+        const found = new Set((data.sessions ?? []).map((s) => s.channel).filter((c): c is string => !!c));
+        setChannels([...found].sort());
+      })
+      .catch(() => {});
+  }, [open]);
+
+  const available = ACTIONS.filter((a) => can(ACTION_INFO[a].permission));
+  if (available.length === 0) return null;
+
+  const run = async (action: SessionAction) => {
+    if (!matches) return;
+    setBusy(true);
+    setError(null);
+    try {
+      const data = await postSessionAction({
+        action,
+        keys: matches.map((s) => s.key),
+        filter: { ...filter, idleMinutes: filter.idleMinutes || undefined },
+      });
+      setResults({ action, results: data.results });
+      onDone();
+      await loadMatches();
+    } catch (err) {
+      setError(`${ACTION_INFO[action].label} failed: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      setConfirm(null);
+      setBusy(false);
+    }
+  };
+
+  const okCount = results?.results.filter((r) => r.ok).length ?? 0;
+  const failures = results?.results.filter((r) => !r.ok) ?? [];
+  const hasMain = matches?.some((s) => s.type === "main");
+
+  return (
+    <section className="bg-zinc-900 rounded-xl border border-zinc-800">
+      <button
+        onClick={() => setOpen(!open)}
+        className="w-full flex items-center gap-2 px-3 py-2.5 text-xs font-medium text-zinc-400 hover:text-zinc-200 transition-colors"
+      >
+        <Layers className="w-3.5 h-3.5" />
+        Bulk actions
+        {open ? <ChevronUp className="w-3.5 h-3.5 ml-auto" /> : <ChevronDown className="w-3.5 h-3.5 ml-auto" />}
+      </button>
+
+      {open && (
+        <div className="px-3 pb-3 space-y-3">
+          <div className="flex items-center gap-2 flex-wrap">
+            <select
+              value={filter.type}
+              onChange={(e) => setFilter({ ...filter, type: e.target.value })}
+              className={SELECT_CLASS}
+              aria-label="Session type"
+            >
+              <option value="all">All types</option>
+              <option value="main">Main</option>
+              <option value="channel">Channel</option>
+              <option value="cron">Cron</option>
+              <option value="subagent">Subagent</option>
+              <option value="unknown">Other</option>
+            </select>
+            <select
+              value={filter.channel}
+              onChange={(e) => setFilter({ ...filter, channel: e.target.value })}
+              className={SELECT_CLASS}
+              aria-label="Channel"
+            >
+              <option value="all">All channels</option>
+              {channels.map((c) => (
+                <option key={c} value={c}>
+                  {c}
+                </option>
+              ))}
+            </select>
+            <select
+              value={filter.idleMinutes}
+              onChange={(e) => setFilter({ ...filter, idleMinutes: Number(e.target.value) })}
+              className={SELECT_CLASS}
+              aria-label="Idle age"
+            >
+              {IDLE_OPTIONS.map((o) => (
+                <option key={o.minutes} value={o.minutes}>
+                  {o.label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <p className="text-xs text-zinc-400 flex items-center gap-2">
+            {loading && <Loader2 className="w-3 h-3 animate-spin" />}
+            {matches === null
+              ? "Finding sessions…"
+              : `${matches.length} ${matches.length === 1 ? "session matches" : "sessions match"}`}
+          </p>
+
+          <div className="flex items-center gap-2 flex-wrap">
+            {available.map((action) => {
+              const info = ACTION_INFO[action];
+              const Icon = info.icon;
+              return (
+                <Button
+                  key={action}
+                  size="sm"
+                  variant="outline"
+                  disabled={!matches || matches.length === 0 || loading}
+                  onClick={() => setConfirm(action)}
+                  className={cn(
+                    "h-8 px-2 sm:px-3 text-xs border-zinc-700 hover:bg-zinc-800",
+                    info.danger ? "text-red-400 border-red-500/30 hover:bg-red-500/10" : "text-zinc-400"
+                  )}
+                >
+                  <Icon className="w-3.5 h-3.5 mr-1" />
+                  {info.label}
+                </Button>
+              );
+            })}
+          </div>
+
+          {error && <p className="text-xs text-red-400 break-words">{error}</p>}
+
+          {results && (
+            <div className="text-xs space-y-1">
+              <p className="flex items-center gap-1.5 text-zinc-300">
+                <CheckCircle className="w-3.5 h-3.5 text-emerald-400" />
+                {ACTION_INFO[results.action].done} {okCount} of {results.results.length}
+                {results.results.some((r) => r.via === "files") && (
+                  <span className="text-zinc-500">· some on disk, the gateway was unavailable</span>
+                )}
+              </p>
+              {failures.map((r) => (
+                <p key={r.key} className="text-red-400 break-words">
+                  <span className="font-mono">{r.key}</span>: {r.error}
+                </p>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      {confirm && matches && (
+        <ConfirmSessionAction
+          action={confirm}
+          targets={matches.map((s) => s.label)}
+          note={
+            hasMain && (confirm === "archive" || confirm === "delete")
+              ? "The main session is skipped; it can only be reset or compacted."
+              : undefined
+          }
+          busy={busy}
+          onCancel={() => setConfirm(null)}
+          onConfirm={() => run(confirm)}
+        />
+      )}
+    </section>
+  );
+}
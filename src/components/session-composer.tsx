@@ -0,0 +1,184 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { Send, Loader2, Bot, X, XCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import { useCurrentUser } from "@/lib/use-auth";
+import { useLiveEvents } from "@/lib/use-live-events";
+import type { ChatEvent } from "@/lib/gateway-methods";
+import type { OperatorMessageRecord } from "@/lib/operator-messages";
+
+interface SessionComposerProps {
+  /** Session key or session id; the server resolves it to the key it sends to. */
+  sessionKey: string;
+  placeholder?: string;
+  /** After the gateway accepted the message. */
+  onSent?: (message: OperatorMessageRecord) => void;
+  /** After the agent's reply finished, failed or was aborted. */
+  onReplyDone?: () => void;
+}
+
+interface Reply {
+  message: OperatorMessageRecord;
+  text: string;
+  state: "waiting" | ChatEvent["state"];
+  error?: string;
+}
+
+/** Plain text of a chat event message: a string, or a transcript message with text parts. */
+function chatMessageText(message: unknown): string {
+  if (typeof message === "string") return message;
+  if (!message || typeof message !== "object") return "";
+  const content = (message as { content?: unknown }).content;
+  if (typeof content === "string") return content;
+  if (!Array.isArray(content)) return "";
+  return content
+    .filter((part): part is { type: "text"; text: string } => part?.type === "text" && typeof part.text === "string")
+    .map((part) => part.text)
+    .join("");
+}
+
+/** The gateway may report the full key ("agent:main:main") for a shorter one, or the other way round. */
+function sameSession(a: string, b: string): boolean {
+  return a === b || a.endsWith(`:${b}`) || b.endsWith(`:${a}`);
+}
+
+/**
+ * Sends an operator message into a session and shows the agent's reply as it
+ * streams in over the "chat" live topic. Hidden for roles that can't send.
+ */
+export function SessionComposer({ sessionKey, placeholder, onSent, onReplyDone }: SessionComposerProps) {
+  const { can } = useCurrentUser();
+  const [text, setText] = useState("");
+  const [sending, setSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [reply, setReply] = useState<Reply | null>(null);
+  // Events can arrive before the POST returns: buffer them until the run id is known
+  const early = useRef<ChatEvent[]>([]);
+  const awaiting = useRef(false);
+
+  const applyEvent = (prev: Reply, evt: ChatEvent): Reply => {
+    if (prev.state !== "waiting" && prev.state !== "delta") return prev;
+    // Deltas carry the reply so far, not just the new part
+    const next = chatMessageText(evt.message) || prev.text;
+    return { ...prev, text: next, state: evt.state, error: evt.errorMessage };
+  };
+
+  useLiveEvents(["chat"], (evt) => {
+    const payload = evt.payload as ChatEvent | undefined;
+    if (!payload?.state || !payload.sessionKey) return;
+    if (awaiting.current) {
+      if (sameSession(payload.sessionKey, sessionKey)) early.current.push(payload);
+      return;
+    }
+    if (!reply || (reply.state !== "waiting" && reply.state !== "delta")) return;
+    if (!sameSession(payload.sessionKey, reply.message.sessionKey)) return;
+    if (payload.runId && payload.runId !== reply.message.runId) return;
+    const next = applyEvent(reply, payload);
+    setReply(next);
+    if (next.state !== "delta" && next.state !== "waiting") onReplyDone?.();
+  });
+
+  const handleSend = async (e?: React.FormEvent) => {
+    e?.preventDefault();
+    const message = text.trim();
+    if (!message || sending) return;
+    setSending(true);
+    setError(null);
+    early.current = [];
+    awaiting.current = true;
+    try {
+      const res = await fetch("/api/sessions", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action: "send", key: sessionKey, message }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || `HTTP ${res.status}`);
+      const sent: OperatorMessageRecord = data.message;
+      let next: Reply = { message: sent, text: "", state: "waiting" };
+      for (const payload of early.current) {
+        if (!payload.runId || payload.runId === sent.runId) next = applyEvent(next, payload);
+      }
+      setReply(next);
+      setText("");
+      onSent?.(sent);
+      if (next.state !== "delta" && next.state !== "waiting") onReplyDone?.();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      awaiting.current = false;
+      early.current = [];
+      setSending(false);
+    }
+  };
+
+  if (!can("sessions.send")) return null;
+
+  const streaming = reply?.state === "waiting" || reply?.state === "delta";
+
+  return (
+    <div className="space-y-2">
+      {reply && (
+        <div className="bg-zinc-900 rounded-xl border border-zinc-800 p-3">
+          <div className="flex items-center gap-2 text-xs">
+            <Bot className="w-3.5 h-3.5 text-emerald-400 shrink-0" />
+            <span className="font-medium text-emerald-400">Reply</span>
+            {streaming && <Loader2 className="w-3 h-3 text-zinc-500 animate-spin" />}
+            {reply.state === "aborted" && <span className="text-yellow-500">aborted</span>}
+            <span className="ml-auto text-zinc-600 truncate">to “{reply.message.text}”</span>
+            {!streaming && (
+              <button onClick={() => setReply(null)} className="p-0.5 rounded hover:bg-zinc-800 shrink-0">
+                <X className="w-3.5 h-3.5 text-zinc-400" />
+              </button>
+            )}
+          </div>
+          {reply.text ? (
+            <p className="text-sm text-zinc-200 mt-2 whitespace-pre-wrap break-words">{reply.text}</p>
+          ) : (
+            streaming && <p className="text-xs text-zinc-500 mt-2">Waiting for the agent…</p>
+          )}
+          {reply.state === "error" && (
+            <p className="text-xs text-red-400 mt-2 break-words">{reply.error || "The agent run failed"}</p>
+          )}
+        </div>
+      )}
+
+      {error && (
+        <div className="flex items-start gap-2 text-sm text-red-400 bg-red-500/10 border border-red-500/20 rounded-lg px-3 py-2">
+          <XCircle className="w-4 h-4 shrink-0 mt-0.5" />
+          <span className="flex-1 break-words">{error}</span>
+          <button onClick={() => setError(null)} className="p-0.5 rounded hover:bg-zinc-800">
+            <X className="w-3.5 h-3.5" />
+          </button>
+        </div>
+      )}
+
+      <form onSubmit={handleSend} className="flex items-end gap-2">
+        <textarea
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter" && (e.metaKey || e.ctrlKey)) handleSend();
+          }}
+          rows={2}
+          placeholder={placeholder ?? "Message this session as operator…"}
+          className={cn(
+            "flex-1 resize-y min-h-[2.5rem] max-h-60 bg-zinc-900 border border-zinc-800 rounded-lg px-3 py-2 text-sm",
+            "text-zinc-100 placeholder-zinc-500 focus:outline-none focus:ring-2 focus:ring-emerald-500/50"
+          )}
+        />
+        <Button
+          type="submit"
+          size="sm"
+          disabled={sending || streaming || !text.trim()}
+          className="h-9 px-3 bg-emerald-500 hover:bg-emerald-600 text-white"
+          title="Send (Ctrl+Enter)"
+        >
+          {sending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
+        </Button>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,121 @@
+"use client";
+
+import { useState, type ReactNode } from "react";
+import { ChevronDown, ChevronRight, GitBranch } from "lucide-react";
+
+/** Branches with more children than this start collapsed. */
+const AUTO_EXPAND_CHILDREN = 3;
+
+interface TreeSession {
+  key: string;
+  parentKey?: string;
+  tokenCount: number;
+  active: boolean;
+}
+
+export interface SessionTreeNode<T extends TreeSession> {
+  session: T;
+  children: SessionTreeNode<T>[];
+  /** Tokens of this session and everything under it. */
+  branchTokens: number;
+  /** Sessions under this one, at any depth. */
+  descendants: number;
+  /** This session or one under it is active. */
+  branchActive: boolean;
+}
+
+/**
+ * Nests sessions under the session that spawned them, keeping the order of
+ * `sessions` among siblings. A session whose parent isn't in the list (or
+ * whose parents loop back to it) is a root.
+ */
+export function buildSessionTree<T extends TreeSession>(sessions: T[]): SessionTreeNode<T>[] {
+  const byKey = new Map(sessions.map((s) => [s.key, s]));
+
+  const parentOf = (s: T): string | undefined => {
+    if (!s.parentKey || !byKey.has(s.parentKey)) return undefined;
+    // Walk up: a loop means the data is wrong, so don't nest at all
+    const seen = new Set([s.key]);
+    for (let key: string | undefined = s.parentKey; key; key = byKey.get(key)?.parentKey) {
+      if (seen.has(key)) return undefined;
+      seen.add(key);
+    }
+    return s.parentKey;
+  };
+
+  const nodes = new Map<string, SessionTreeNode<T>>();
+  for (const session of sessions) {
+    nodes.set(session.key, { session, children: [], branchTokens: 0, descendants: 0, branchActive: false });
+  }
+  const roots: SessionTreeNode<T>[] = [];
+  for (const session of sessions) {
+    const node = nodes.get(session.key)!;
+    const parent = parentOf(session);
+    if (parent) nodes.get(parent)!.children.push(node);
+    else roots.push(node);
+  }
+
+  const total = (node: SessionTreeNode<T>) => {
+    node.branchTokens = node.session.tokenCount;
+    node.branchActive = node.session.active;
+    node.descendants = 0;
+    for (const child of node.children) {
+      total(child);
+      node.branchTokens += child.branchTokens;
+      node.branchActive ||= child.branchActive;
+      node.descendants += 1 + child.descendants;
+    }
+  };
+  roots.forEach(total);
+  return roots;
+}
+
+function formatTokens(n: number): string {
+  return n >= 1000 ? `${(n / 1000).toFixed(1)}k` : String(n);
+}
+
+function TreeBranch<T extends TreeSession>({ node, renderSession }: {
+  node: SessionTreeNode<T>;
+  renderSession: (session: T) => ReactNode;
+}) {
+  const [open, setOpen] = useState(node.children.length <= AUTO_EXPAND_CHILDREN);
+
+  if (node.children.length === 0) return <>{renderSession(node.session)}</>;
+
+  return (
+    <div className="space-y-2">
+      {renderSession(node.session)}
+      <button
+        onClick={() => setOpen((o) => !o)}
+        className="flex items-center gap-1.5 text-xs text-zinc-500 hover:text-zinc-300 ml-2"
+      >
+        {open ? <ChevronDown className="w-3.5 h-3.5" /> : <ChevronRight className="w-3.5 h-3.5" />}
+        <GitBranch className="w-3.5 h-3.5 text-purple-400" />
+        {node.descendants} spawned
+        <span className="text-zinc-600">·</span>
+        <span className="tabular-nums">{formatTokens(node.branchTokens)} tokens in branch</span>
+      </button>
+      {open && (
+        <div className="ml-2 pl-3 border-l border-zinc-800 space-y-2">
+          {node.children.map((child) => (
+            <TreeBranch key={child.session.key} node={child} renderSession={renderSession} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/** Sessions as a parent/child tree; each branch shows what it fanned out into. */
+export function SessionTree<T extends TreeSession>({ nodes, renderSession }: {
+  nodes: SessionTreeNode<T>[];
+  renderSession: (session: T) => ReactNode;
+}) {
+  return (
+    <>
+      {nodes.map((node) => (
+        <TreeBranch key={node.session.key} node={node} renderSession={renderSession} />
+      ))}
+    </>
+  );
+}
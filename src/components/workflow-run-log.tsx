@@ -0,0 +1,257 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { X, Loader2, CheckCircle, XCircle, AlertCircle, Square, Workflow, MinusCircle, Circle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import { useLiveRefresh } from "@/lib/use-live-events";
+import type { ScriptRunRecord } from "@/lib/script-history";
+import type { ScriptOutputChunk } from "@/lib/script-runs";
+import type { WorkflowRunRecord, WorkflowStepResult } from "@/lib/workflow-runs";
+
+interface WorkflowRunLogProps {
+  runId: string;
+  canCancel: boolean;
+  onClose: () => void;
+}
+
+const RUN_STATUS_LABEL: Record<WorkflowRunRecord["status"], string> = {
+  running: "Running",
+  ok: "Completed",
+  error: "Failed",
+  cancelled: "Cancelled",
+};
+
+const STEP_STATUS_LABEL: Record<WorkflowStepResult["status"], string> = {
+  pending: "Waiting",
+  running: "Running",
+  skipped: "Skipped",
+  ok: "Success",
+  error: "Failed",
+  cancelled: "Cancelled",
+  timeout: "Timed out",
+};
+
+function formatDuration(ms: number): string {
+  if (ms < 1000) return `${ms}ms`;
+  const seconds = ms / 1000;
+  if (seconds < 60) return `${seconds.toFixed(1)}s`;
+  return `${Math.floor(seconds / 60)}m ${Math.round(seconds % 60)}s`;
+}
+
+function StepIcon({ status }: { status: WorkflowStepResult["status"] }) {
+  if (status === "running") return <Loader2 className="w-4 h-4 text-emerald-400 animate-spin shrink-0" />;
+  if (status === "ok") return <CheckCircle className="w-4 h-4 text-emerald-400 shrink-0" />;
+  if (status === "error") return <XCircle className="w-4 h-4 text-red-400 shrink-0" />;
+  if (status === "skipped") return <MinusCircle className="w-4 h-4 text-zinc-600 shrink-0" />;
+  if (status === "pending") return <Circle className="w-4 h-4 text-zinc-600 shrink-0" />;
+  return <AlertCircle className="w-4 h-4 text-yellow-500 shrink-0" />;
+}
+
+const OUTPUT_CLASS = "text-xs bg-zinc-950 rounded p-2 max-h-60 overflow-auto whitespace-pre-wrap break-all";
+
+/** Output of the step that is running now, streamed like the single-script view. */
+function LiveStepOutput({ runId }: { runId: string }) {
+  const [chunks, setChunks] = useState<ScriptOutputChunk[]>([]);
+
+  useEffect(() => {
+    let lastSeq = 0;
+    const es = new EventSource(`/api/exec?runId=${encodeURIComponent(runId)}`);
+    es.addEventListener("output", (ev) => {
+      try {
+        const chunk: ScriptOutputChunk = JSON.parse((ev as MessageEvent<string>).data);
+        if (chunk.seq <= lastSeq) return;
+        lastSeq = chunk.seq;
+        setChunks((prev) => [...prev, chunk]);
+      } catch {
+        // ignore a malformed frame
+      }
+    });
+    es.addEventListener("exit", () => es.close());
+    return () => es.close();
+  }, [runId]);
+
+  if (chunks.length === 0) return <p className="text-xs text-zinc-500 mt-2">Waiting for output…</p>;
+  return (
+    <pre className={cn(OUTPUT_CLASS, "mt-2 text-zinc-300")}>
+      {chunks.map((chunk) => (
+        <span key={chunk.seq} className={chunk.stream === "stderr" ? "text-yellow-400" : undefined}>
+          {chunk.text}
+        </span>
+      ))}
+    </pre>
+  );
+}
+
+/** Archived stdout/stderr of a finished step. */
+function ArchivedStepOutput({ runId }: { runId: string }) {
+  const [record, setRecord] = useState<ScriptRunRecord | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch(`/api/script-runs?id=${encodeURIComponent(runId)}`)
+      .then(async (res) => {
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || `HTTP ${res.status}`);
+        if (!cancelled) setRecord(data.run);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : String(err));
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [runId]);
+
+  if (error) return <p className="text-xs text-red-400 mt-2">{error}</p>;
+  if (!record) return <Loader2 className="w-4 h-4 text-zinc-500 animate-spin mt-2" />;
+  if (!record.stdout && !record.stderr) return <p className="text-xs text-zinc-500 mt-2">No output</p>;
+  return (
+    <div className="mt-2 space-y-2">
+      {record.stdout && <pre className={cn(OUTPUT_CLASS, "text-zinc-300")}>{record.stdout}</pre>}
+      {record.stderr && <pre className={cn(OUTPUT_CLASS, "text-yellow-400")}>{record.stderr}</pre>}
+    </div>
+  );
+}
+
+/** Combined log of one workflow run: every step's outcome and output, in order. */
+export function WorkflowRunLog({ runId, canCancel, onClose }: WorkflowRunLogProps) {
+  const [run, setRun] = useState<WorkflowRunRecord | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [cancelling, setCancelling] = useState(false);
+
+  const load = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/workflows?runId=${encodeURIComponent(runId)}`);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || `HTTP ${res.status}`);
+      setRun(data.run);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  }, [runId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  useLiveRefresh(["scripts"], () => load());
+
+  const handleCancel = async () => {
+    setCancelling(true);
+    try {
+      const res = await fetch("/api/workflows", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action: "cancel", runId }),
+      });
+      const data = await res.json();
+      if (!res.ok) setError(data.error || "Failed to cancel");
+      await load();
+    } catch (err) {
+      setError(String(err));
+    } finally {
+      setCancelling(false);
+    }
+  };
+
+  const running = run?.status === "running";
+
+  return (
+    <div className="fixed inset-0 bg-black/80 z-50 flex items-end sm:items-center justify-center p-0 sm:p-4">
+      <div className="bg-zinc-900 rounded-t-2xl sm:rounded-xl border border-zinc-800 w-full max-w-2xl max-h-[85vh] flex flex-col">
+        <div className="w-10 h-1 bg-zinc-700 rounded-full mx-auto mt-2 sm:hidden" />
+        <div className="flex items-center justify-between gap-2 p-4 border-b border-zinc-800">
+          <div className="min-w-0">
+            <h3 className="font-semibold text-lg flex items-center gap-2">
+              <Workflow className="w-5 h-5 text-zinc-400 shrink-0" />
+              <span className="truncate">{run?.name ?? "Workflow run"}</span>
+            </h3>
+            {run && (
+              <p className="text-xs text-zinc-400 mt-0.5">
+                <span
+                  className={cn(
+                    run.status === "ok" && "text-emerald-400",
+                    run.status === "error" && "text-red-400",
+                    run.status === "cancelled" && "text-yellow-500"
+                  )}
+                >
+                  {RUN_STATUS_LABEL[run.status]}
+                </span>
+                {" · "}
+                {new Date(run.startedAt).toLocaleString()}
+                {run.trigger === "schedule" ? " · scheduled" : run.startedBy ? ` · by ${run.startedBy}` : ""}
+                {run.finishedAt !== undefined && ` · ${formatDuration(run.finishedAt - run.startedAt)}`}
+              </p>
+            )}
+          </div>
+          <div className="flex items-center gap-1 shrink-0">
+            {running && canCancel && (
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={handleCancel}
+                disabled={cancelling}
+                className="h-8 text-xs text-red-400 border-red-500/30 hover:bg-red-500/10"
+              >
+                {cancelling ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Square className="w-3.5 h-3.5 mr-1" />}
+                Cancel
+              </Button>
+            )}
+            <button onClick={onClose} className="p-1 rounded hover:bg-zinc-800 transition-colors">
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+
+        <div className="p-4 space-y-3 overflow-y-auto flex-1">
+          {error && <p className="text-sm text-red-400">{error}</p>}
+          {!run && !error && (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="w-6 h-6 text-emerald-500 animate-spin" />
+            </div>
+          )}
+          {run?.steps.map((step) => (
+            <div key={step.index} className="rounded-lg bg-zinc-800/30 border border-zinc-800 px-3 py-2 text-sm">
+              <div className="flex items-center gap-2">
+                <StepIcon status={step.status} />
+                <span className="text-zinc-500 text-xs">{step.index + 1}.</span>
+                <span className={cn("truncate", step.status === "skipped" ? "text-zinc-500" : "text-zinc-200")}>
+                  {step.name}
+                </span>
+                {step.name !== step.script && (
+                  <span className="text-xs text-zinc-500 font-mono truncate hidden sm:inline">{step.script}</span>
+                )}
+                <span className="text-xs text-zinc-500 ml-auto shrink-0">
+                  {STEP_STATUS_LABEL[step.status]}
+                  {step.exitCode != null && step.status !== "ok" && ` · exit ${step.exitCode}`}
+                  {step.startedAt !== undefined &&
+                    step.finishedAt !== undefined &&
+                    ` · ${formatDuration(step.finishedAt - step.startedAt)}`}
+                </span>
+              </div>
+              {step.error && (
+                <p
+                  className={cn(
+                    "text-xs mt-1 break-words",
+                    step.status === "skipped" ? "text-zinc-500" : "text-red-400"
+                  )}
+                >
+                  {step.error}
+                </p>
+              )}
+              {step.runId &&
+                (step.status === "running" ? (
+                  <LiveStepOutput key={`${step.runId}-live`} runId={step.runId} />
+                ) : (
+                  <ArchivedStepOutput key={step.runId} runId={step.runId} />
+                ))}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,213 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import {
+  Play, Loader2, CheckCircle, XCircle, AlertCircle, AlertTriangle, Workflow as WorkflowIcon,
+  CalendarClock, ScrollText, ChevronRight, X,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { WorkflowRunLog } from "@/components/workflow-run-log";
+import { describeCron } from "@/lib/cron-expr";
+import { cn } from "@/lib/utils";
+import { useCurrentUser } from "@/lib/use-auth";
+import { useLiveRefresh } from "@/lib/use-live-events";
+import type { WorkflowRunRecord } from "@/lib/workflow-runs";
+import type { Workflow, WorkflowFileError } from "@/lib/workflows";
+
+type WorkflowItem = Workflow & { nextRunAtMs?: number };
+
+interface WorkflowsData {
+  path: string;
+  exists: boolean;
+  workflows: WorkflowItem[];
+  errors: WorkflowFileError[];
+  runs: WorkflowRunRecord[];
+}
+
+function formatWhen(ms: number): string {
+  return new Date(ms).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+function RunStatusIcon({ status }: { status: WorkflowRunRecord["status"] }) {
+  if (status === "running") return <Loader2 className="w-3.5 h-3.5 text-emerald-400 animate-spin shrink-0" />;
+  if (status === "ok") return <CheckCircle className="w-3.5 h-3.5 text-emerald-400 shrink-0" />;
+  if (status === "error") return <XCircle className="w-3.5 h-3.5 text-red-400 shrink-0" />;
+  return <AlertCircle className="w-3.5 h-3.5 text-yellow-500 shrink-0" />;
+}
+
+/**
+ * Workflows from workflows.json on the Scripts tab: run one on demand and
+ * open the combined log of its latest run. Hidden until the file exists.
+ */
+export function WorkflowsPanel() {
+  const { can } = useCurrentUser();
+  const [data, setData] = useState<WorkflowsData | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [startingId, setStartingId] = useState<string | null>(null);
+  const [openRunId, setOpenRunId] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      const res = await fetch("/api/workflows");
+      const body = await res.json();
+      if (!res.ok) throw new Error(body.error || `HTTP ${res.status}`);
+      setData(body);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  useLiveRefresh(["scripts"], () => load());
+
+  const handleRun = async (workflow: WorkflowItem) => {
+    setStartingId(workflow.id);
+    setError(null);
+    try {
+      const res = await fetch("/api/workflows", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action: "run", id: workflow.id }),
+      });
+      const body = await res.json();
+      if (!res.ok) throw new Error(body.error || `HTTP ${res.status}`);
+      setOpenRunId(body.run.id);
+      await load();
+    } catch (err) {
+      setError(`Couldn't start "${workflow.name}": ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      setStartingId(null);
+    }
+  };
+
+  if (!data || (!data.exists && data.errors.length === 0)) return null;
+
+  return (
+    <section className="space-y-3">
+      <h2 className="text-xs font-medium text-zinc-500 uppercase tracking-wider flex items-center gap-2">
+        <WorkflowIcon className="w-3.5 h-3.5" />
+        Workflows
+      </h2>
+
+      {error && (
+        <div className="flex items-start gap-2 text-sm text-red-400 bg-red-500/10 border border-red-500/20 rounded-lg px-3 py-2">
+          <XCircle className="w-4 h-4 shrink-0 mt-0.5" />
+          <span className="flex-1 break-words">{error}</span>
+          <button onClick={() => setError(null)} className="p-0.5 rounded hover:bg-zinc-800">
+            <X className="w-3.5 h-3.5" />
+          </button>
+        </div>
+      )}
+
+      {data.errors.length > 0 && (
+        <div className="flex items-start gap-2 text-xs text-amber-400 bg-amber-500/10 border border-amber-500/20 rounded-lg px-3 py-2">
+          <AlertTriangle className="w-3.5 h-3.5 shrink-0 mt-px" />
+          <div className="min-w-0 space-y-0.5">
+            <p>
+              Problems in <span className="font-mono break-all">{data.path}</span>:
+            </p>
+            {data.errors.map((e, i) => (
+              <p key={i} className="break-words">
+                {e.workflow && <span className="font-mono">{e.workflow}: </span>}
+                {e.message}
+              </p>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {data.workflows.map((workflow) => {
+        const lastRun = data.runs.find((r) => r.workflowId === workflow.id);
+        const running = lastRun?.status === "running";
+        return (
+          <div key={workflow.id} className="bg-zinc-900 rounded-xl border border-zinc-800 p-3 sm:p-4">
+            <div className="flex items-center gap-2 flex-wrap">
+              <h3 className="font-medium text-sm truncate">{workflow.name}</h3>
+              <Badge variant="secondary" className="text-xs shrink-0">
+                {workflow.steps.length} {workflow.steps.length === 1 ? "step" : "steps"}
+              </Badge>
+              {workflow.onFailure === "continue" && (
+                <Badge variant="outline" className="text-xs shrink-0">
+                  continues on failure
+                </Badge>
+              )}
+            </div>
+            {workflow.description && (
+              <p className="text-xs sm:text-sm text-zinc-400 mt-1.5 break-words">{workflow.description}</p>
+            )}
+            <div className="flex items-center gap-1 mt-2 text-xs text-zinc-500 font-mono flex-wrap">
+              {workflow.steps.map((step, i) => (
+                <span key={i} className="flex items-center gap-1">
+                  {i > 0 && <ChevronRight className="w-3 h-3 text-zinc-700" />}
+                  <span className={cn(step.when && step.when !== "always" && "italic text-zinc-600")}>
+                    {step.name}
+                  </span>
+                </span>
+              ))}
+            </div>
+            <div className="flex items-center gap-3 mt-2 text-xs text-zinc-500 flex-wrap">
+              {workflow.schedule && (
+                <span className="flex items-center gap-1">
+                  <CalendarClock className="w-3 h-3 text-sky-400" />
+                  {describeCron(workflow.schedule)}
+                  {workflow.tz && ` (${workflow.tz})`}
+                  {!workflow.enabled
+                    ? " · paused"
+                    : workflow.nextRunAtMs !== undefined && ` · next ${formatWhen(workflow.nextRunAtMs)}`}
+                </span>
+              )}
+              {lastRun && (
+                <span className="flex items-center gap-1">
+                  <RunStatusIcon status={lastRun.status} />
+                  {running ? "Running since" : "Last run"} {formatWhen(lastRun.startedAt)}
+                </span>
+              )}
+            </div>
+            <div className="flex items-center gap-2 mt-3">
+              <Button
+                size="sm"
+                onClick={() => handleRun(workflow)}
+                disabled={running || startingId === workflow.id || !can("scripts.run")}
+                className="h-8 px-3 bg-emerald-500 hover:bg-emerald-600 text-white text-xs"
+              >
+                {startingId === workflow.id ? (
+                  <Loader2 className="w-4 h-4 animate-spin" />
+                ) : (
+                  <>
+                    <Play className="w-3.5 h-3.5 mr-1" />
+                    Run
+                  </>
+                )}
+              </Button>
+              {lastRun && (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => setOpenRunId(lastRun.id)}
+                  className="h-8 px-2 sm:px-3 text-xs text-zinc-400 border-zinc-700 hover:bg-zinc-800"
+                  title="Combined log of the latest run"
+                >
+                  <ScrollText className="w-3.5 h-3.5 mr-1" />
+                  Log
+                </Button>
+              )}
+            </div>
+          </div>
+        );
+      })}
+
+      {openRunId && (
+        <WorkflowRunLog runId={openRunId} canCancel={can("scripts.run")} onClose={() => setOpenRunId(null)} />
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,12 @@
+// Runs once when the server starts. Background jobs that have to run without
+// a browser open (workflow schedules, alert checks) start here.
+
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== "nodejs") return;
+  const { captureRemoteAddresses } = await import("@/lib/client-address");
+  captureRemoteAddresses();
+  const { startWorkflowScheduler } = await import("@/lib/workflow-runs");
+  startWorkflowScheduler();
+  const { startAlertEvaluator } = await import("@/lib/alerts");
+  startAlertEvaluator();
+}
@@ -0,0 +1,120 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterAll, describe, expect, it } from "vitest";
+
+const root = await fs.mkdtemp(path.join(os.tmpdir(), "cc-activity-index-"));
+process.env.OPENCLAW_ROOT = root;
+
+const { refreshActivityIndex } = await import("@/lib/activity-index");
+const { CRON_RUNS_DIR } = await import("@/lib/cron-runs");
+const { ACTIVITY_LOG_PATH } = await import("@/lib/activity-log");
+const { agentSessionsPath } = await import("@/lib/agents");
+
+const RUNS_PATH = path.join(CRON_RUNS_DIR, "nightly.jsonl");
+const INDEX_PATH = path.join(root, "command-center", "activity-index.json");
+const JOURNAL_PATH = path.join(root, "command-center", "activity-index.jsonl");
+
+/** A finished-run line of about a kilobyte, so a few thousand span several read chunks. */
+function runLine(n: number): string {
+  return `${JSON.stringify({ action: "finished", ts: n * 1000, status: "ok", summary: `run ${n} ${"x".repeat(1000)}` })}\n`;
+}
+
+/** Drops the in-memory index, as a server restart would. */
+function restart() {
+  delete (globalThis as { __activityIndex?: unknown }).__activityIndex;
+}
+
+async function journalLines(): Promise<string[]> {
+  return (await fs.readFile(JOURNAL_PATH, "utf-8")).split("\n").filter(Boolean);
+}
+
+afterAll(async () => {
+  await fs.rm(root, { recursive: true, force: true });
+});
+
+describe("activity index", () => {
+  it("tails a log longer than a read chunk, holding back an unfinished last line", async () => {
+    await fs.mkdir(CRON_RUNS_DIR, { recursive: true });
+    const lines = Array.from({ length: 3000 }, (_, i) => runLine(i + 1));
+    const partial = runLine(3001);
+    await fs.writeFile(RUNS_PATH, lines.join("") + partial.slice(0, 500));
+
+    const entries = await refreshActivityIndex();
+    expect(entries).toHaveLength(3000);
+    let offset = 0;
+    const expected = lines.map((line, i) => {
+      const entry = { id: `cron:nightly.jsonl:${offset}`, ts: (i + 1) * 1000, summary: `run ${i + 1} ${"x".repeat(1000)}` };
+      offset += Buffer.byteLength(line);
+      return entry;
+    });
+    expect(entries.map(({ id, ts, summary }) => ({ id, ts, summary }))).toEqual(expected.reverse());
+
+    await fs.appendFile(RUNS_PATH, partial.slice(500));
+    const [newest] = await refreshActivityIndex();
+    expect(newest).toMatchObject({ id: `cron:nightly.jsonl:${offset}`, ts: 3001_000, source: "nightly" });
+  });
+
+  it("appends only the new log entries to the journal and keeps just offsets in the index file", async () => {
+    expect(await journalLines()).toHaveLength(3001);
+    const saved = JSON.parse(await fs.readFile(INDEX_PATH, "utf-8"));
+    expect(Object.keys(saved)).toEqual(["version", "files"]);
+
+    await fs.appendFile(RUNS_PATH, runLine(3002));
+    await refreshActivityIndex();
+    const journal = await journalLines();
+    expect(journal).toHaveLength(3002);
+    expect(JSON.parse(journal[3001])).toMatchObject({ ts: 3002_000 });
+  });
+
+  it("leaves the journal alone when only sessions change, and rebuilds sessions after a restart", async () => {
+    const before = await Promise.all([fs.stat(JOURNAL_PATH), fs.stat(INDEX_PATH)]);
+    const sessionsPath = agentSessionsPath("main");
+    await fs.mkdir(path.dirname(sessionsPath), { recursive: true });
+    await fs.writeFile(sessionsPath, JSON.stringify({ "agent:main:main": { updatedAt: 5000_000, turnCount: 3 } }));
+
+    const [newest] = await refreshActivityIndex();
+    expect(newest).toMatchObject({ id: "session:agent:main:main", type: "session", summary: "3 turns, 0 tokens" });
+    const after = await Promise.all([fs.stat(JOURNAL_PATH), fs.stat(INDEX_PATH)]);
+    expect(after.map((s) => s.mtimeMs)).toEqual(before.map((s) => s.mtimeMs));
+
+    const entries = await refreshActivityIndex();
+    restart();
+    expect(await refreshActivityIndex()).toEqual(entries);
+  });
+
+  it("rewrites the journal when a log is replaced", async () => {
+    await fs.writeFile(RUNS_PATH, runLine(9000));
+    const entries = await refreshActivityIndex();
+    expect(entries.filter((e) => e.type === "cron")).toHaveLength(1);
+    expect(await journalLines()).toHaveLength(1);
+
+    restart();
+    expect(await refreshActivityIndex()).toEqual(entries);
+  });
+
+  it("cuts a torn last line left in the journal by an interrupted append", async () => {
+    const entries = await refreshActivityIndex();
+    await fs.appendFile(JOURNAL_PATH, '{"id":"cron:nightly.jsonl:1');
+
+    restart();
+    expect(await refreshActivityIndex()).toEqual(entries);
+    await fs.appendFile(RUNS_PATH, runLine(9001));
+    await refreshActivityIndex();
+    expect((await journalLines()).map((line) => JSON.parse(line).ts)).toEqual([9000_000, 9001_000]);
+  });
+
+  it("keeps lines read before a later source fails, to index them on the next update", async () => {
+    const before = await refreshActivityIndex();
+    await fs.appendFile(RUNS_PATH, runLine(9002));
+    // A log that can't be read: the update fails after the runs file was tailed
+    await fs.mkdir(ACTIVITY_LOG_PATH, { recursive: true });
+    await fs.writeFile(path.join(ACTIVITY_LOG_PATH, "x"), "");
+    await expect(refreshActivityIndex()).rejects.toThrow();
+
+    await fs.rm(ACTIVITY_LOG_PATH, { recursive: true });
+    const after = await refreshActivityIndex();
+    expect(after).toHaveLength(before.length + 1);
+    expect(after[0]).toMatchObject({ ts: 9002_000, type: "cron" });
+  });
+});
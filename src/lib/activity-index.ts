@@ -0,0 +1,554 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { randomBytes } from "node:crypto";
+import { listAgents } from "@/lib/agents";
+import { ACTIVITY_LOG_PATH, parseActivityRecord } from "@/lib/activity-log";
+import { CRON_RUNS_DIR, parseCronRunLine } from "@/lib/cron-runs";
+import { SCRIPT_HISTORY_PATH, parseScriptRunRecord } from "@/lib/script-history";
+import { agentIdOfSessionKey, parseSessionKey } from "@/lib/session-keys";
+
+// The activity timeline: cron runs, script runs, session activity, config
+// saves and pairing decisions as one list of LogEntry, newest first. The
+// append-only logs (cron/runs/*.jsonl, script-runs.jsonl, activity.jsonl) are
+// tailed from the byte offset reached last time; each agent's sessions.json
+// is re-read when its mtime changes. The offsets are saved to
+// command-center/activity-index.json and the entries read from the logs are
+// appended to activity-index.jsonl, so a restart picks up where it left off;
+// session entries are rebuilt from sessions.json instead. Server-only; client
+// code imports the types.
+
+const OPENCLAW_ROOT = process.env.OPENCLAW_ROOT || "/home/clawdbot/.openclaw";
+const INDEX_PATH = path.join(OPENCLAW_ROOT, "command-center", "activity-index.json");
+const JOURNAL_PATH = path.join(OPENCLAW_ROOT, "command-center", "activity-index.jsonl");
+const INDEX_VERSION = 2;
+
+/** The oldest entries are dropped beyond this. */
+const MAX_ENTRIES = 20_000;
+
+/** The journal is rewritten with just the live entries once it grows past this many lines. */
+const MAX_JOURNAL_LINES = 2 * MAX_ENTRIES;
+
+/** Bytes read at a time when tailing a log. */
+const TAIL_CHUNK_BYTES = 1024 * 1024;
+
+export const MAX_ACTIVITY_PAGE = 200;
+
+export type ActivityType = "cron" | "session" | "script" | "config" | "pairing";
+export const ACTIVITY_TYPES: ActivityType[] = ["cron", "session", "script", "config", "pairing"];
+
+export interface LogEntry {
+  /** Stable across refreshes; with `ts`, the sort key cursors point into. */
+  id: string;
+  ts: number;
+  type: ActivityType;
+  source: string;
+  summary: string;
+  status?: string;
+  durationMs?: number;
+  sessionKey?: string;
+  /** Script run id, for opening its archived output. */
+  runId?: string;
+  jobId?: string;
+  /** Set for sessions, and for cron runs whose session names its agent. */
+  agentId?: string;
+  channel?: string;
+  /** Sender id on `channel`. */
+  contact?: string;
+  /** Command-center user who started or made the change. */
+  actor?: string;
+}
+
+export interface ActivityFilter {
+  types?: ActivityType[];
+  statuses?: string[];
+  jobId?: string;
+  channel?: string;
+  contact?: string;
+  since?: number;
+  until?: number;
+  search?: string;
+  /** Only this agent's cron runs and sessions; script, config and pairing entries are shared. */
+  agentId?: string;
+  /** Agent of each cron job, for runs whose session doesn't say. */
+  cronJobAgents?: Map<string, string>;
+  defaultAgentId?: string;
+}
+
+export interface ActivityPage {
+  entries: LogEntry[];
+  /** Entries matching the filter, on every page. */
+  total: number;
+  /** Pass back as `cursor` for the next page; null on the last one. */
+  nextCursor: string | null;
+}
+
+export class ActivityQueryError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = "ActivityQueryError";
+  }
+}
+
+interface TailState {
+  offset: number;
+  ino: number;
+}
+
+interface ActivityIndex {
+  version: number;
+  /** Bytes consumed of each tailed file; a partial last line waits for its newline. */
+  files: Record<string, TailState>;
+  /** sessions.json mtime last indexed, per agent. */
+  sessions: Record<string, number>;
+  /** Newest first: ts, then id, descending. */
+  entries: LogEntry[];
+  /** Lines in the journal, including entries since replaced or dropped. */
+  journalLines: number;
+  /** Set when the journal no longer matches `entries` and must be rewritten. */
+  rewriteJournal: boolean;
+}
+
+/** activity-index.json: only the offsets, so saving it stays cheap. */
+interface SavedIndex {
+  version: number;
+  files: Record<string, TailState>;
+}
+
+/** What an update changed, for saveIndex. */
+interface IndexChanges {
+  /** Entries read from the logs, to append to the journal. */
+  logged: LogEntry[];
+  /** A tail offset moved. */
+  files: boolean;
+}
+
+// Kept on globalThis so dev-mode module reloads don't re-read the index
+const globalForActivity = globalThis as unknown as {
+  __activityIndex?: Promise<ActivityIndex>;
+  __activityIndexRefresh?: Promise<LogEntry[]> | null;
+};
+
+function newestFirst(a: LogEntry, b: LogEntry): number {
+  return b.ts - a.ts || (a.id < b.id ? 1 : a.id > b.id ? -1 : 0);
+}
+
+async function loadIndex(): Promise<ActivityIndex> {
+  const fresh: ActivityIndex = {
+    version: INDEX_VERSION,
+    files: {},
+    sessions: {},
+    entries: [],
+    journalLines: 0,
+    rewriteJournal: true,
+  };
+  let saved: SavedIndex;
+  try {
+    saved = JSON.parse(await fs.readFile(INDEX_PATH, "utf-8")) as SavedIndex;
+  } catch {
+    // missing or unreadable: rebuild from the logs
+    return fresh;
+  }
+  if (saved?.version !== INDEX_VERSION || !saved.files) return fresh;
+
+  // Later lines win: an entry is appended again when its log is re-read
+  const byId = new Map<string, LogEntry>();
+  let journalLines = 0;
+  try {
+    const journal = await tailFile(JOURNAL_PATH, undefined, (lines) => {
+      for (const line of lines) {
+        const entry = JSON.parse(line.text) as LogEntry;
+        byId.set(entry.id, entry);
+        journalLines++;
+      }
+    });
+    // Without the entries the offsets are worthless
+    if (!journal) return fresh;
+    // A torn last line from an interrupted append: cut it so the next one starts clean
+    if ((await fs.stat(JOURNAL_PATH)).size > journal.state.offset) {
+      await fs.truncate(JOURNAL_PATH, journal.state.offset);
+    }
+  } catch {
+    return fresh;
+  }
+  return {
+    version: INDEX_VERSION,
+    files: saved.files,
+    sessions: {},
+    entries: [...byId.values()].sort(newestFirst).slice(0, MAX_ENTRIES),
+    journalLines,
+    rewriteJournal: false,
+  };
+}
+
+async function writeAtomic(filePath: string, data: string): Promise<void> {
+  const tmpPath = `${filePath}.${randomBytes(8).toString("hex")}.tmp`;
+  await fs.writeFile(tmpPath, data, { mode: 0o600 });
+  await fs.rename(tmpPath, filePath);
+}
+
+function journalText(entries: LogEntry[]): string {
+  return entries.map((e) => `${JSON.stringify(e)}\n`).join("");
+}
+
+/**
+ * Appends the newly logged entries to the journal — or, once it has grown
+ * long or stopped matching the index, rewrites it — then saves the offsets.
+ * The journal goes first: offsets behind it only mean lines read twice.
+ */
+async function saveIndex(index: ActivityIndex, changes: IndexChanges): Promise<void> {
+  const journalLines = index.journalLines + changes.logged.length;
+  const rewrite = index.rewriteJournal || journalLines > MAX_JOURNAL_LINES;
+  if (!rewrite && changes.logged.length === 0 && !changes.files) return;
+
+  await fs.mkdir(path.dirname(INDEX_PATH), { recursive: true, mode: 0o700 });
+  if (rewrite) {
+    // Session entries come from sessions.json on every start
+    const logged = index.entries.filter((e) => e.type !== "session");
+    await writeAtomic(JOURNAL_PATH, journalText(logged));
+    index.journalLines = logged.length;
+    index.rewriteJournal = false;
+  } else if (changes.logged.length > 0) {
+    await fs.appendFile(JOURNAL_PATH, journalText(changes.logged), { mode: 0o600 });
+    index.journalLines = journalLines;
+  }
+  const saved: SavedIndex = { version: INDEX_VERSION, files: index.files };
+  await writeAtomic(INDEX_PATH, JSON.stringify(saved));
+}
+
+interface TailedLine {
+  text: string;
+  /** Byte offset of the line in the file. */
+  offset: number;
+}
+
+/**
+ * Feeds the complete lines appended to `filePath` since `state` to `onLines`,
+ * a chunk at a time, so a first build over a long log never holds all of it.
+ * `reset` means the file was replaced or truncated and was read from the
+ * start. Null if it's gone.
+ */
+async function tailFile(
+  filePath: string,
+  state: TailState | undefined,
+  onLines: (lines: TailedLine[]) => void
+): Promise<{ state: TailState; reset: boolean } | null> {
+  let stat;
+  try {
+    stat = await fs.stat(filePath);
+  } catch {
+    return null;
+  }
+  const reset = !state || state.ino !== stat.ino || stat.size < state.offset;
+  // Byte offset of the first line not yet handed over
+  let offset = reset ? 0 : state.offset;
+  if (stat.size === offset) return { state: { offset, ino: stat.ino }, reset };
+
+  const handle = await fs.open(filePath, "r");
+  try {
+    // The unfinished line at the end of the previous chunk
+    let carry = Buffer.alloc(0);
+    for (let pos = offset; pos < stat.size; ) {
+      const chunk = Buffer.alloc(Math.min(TAIL_CHUNK_BYTES, stat.size - pos));
+      const { bytesRead } = await handle.read(chunk, 0, chunk.length, pos);
+      // Truncated while we read: the next update starts over
+      if (bytesRead === 0) break;
+      pos += bytesRead;
+      const data = carry.length > 0 ? Buffer.concat([carry, chunk.subarray(0, bytesRead)]) : chunk.subarray(0, bytesRead);
+
+      const lines: TailedLine[] = [];
+      let lineStart = 0;
+      for (let nl = data.indexOf(10); nl !== -1; nl = data.indexOf(10, lineStart)) {
+        const text = data.toString("utf-8", lineStart, nl).trim();
+        if (text) lines.push({ text, offset: offset + lineStart });
+        lineStart = nl + 1;
+      }
+      offset += lineStart;
+      carry = data.subarray(lineStart);
+      if (lines.length > 0) onLines(lines);
+    }
+  } finally {
+    await handle.close();
+  }
+  return { state: { offset, ino: stat.ino }, reset };
+}
+
+function cronEntries(file: string, lines: TailedLine[]): LogEntry[] {
+  const fallbackJobId = path.basename(file, ".jsonl");
+  const entries: LogEntry[] = [];
+  for (const line of lines) {
+    const run = parseCronRunLine(line.text, fallbackJobId);
+    if (!run) continue;
+    entries.push({
+      id: `cron:${path.basename(file)}:${line.offset}`,
+      ts: run.finishedAtMs,
+      type: "cron",
+      source: run.jobId,
+      summary: run.summary || run.error || "Cron run",
+      status: run.status,
+      durationMs: run.durationMs,
+      sessionKey: run.sessionKey,
+      jobId: run.jobId,
+      agentId: (run.sessionKey && agentIdOfSessionKey(run.sessionKey)) || undefined,
+    });
+  }
+  return entries;
+}
+
+function scriptEntries(lines: TailedLine[]): LogEntry[] {
+  const entries: LogEntry[] = [];
+  for (const line of lines) {
+    const run = parseScriptRunRecord(line.text);
+    if (!run) continue;
+    const parts = [
+      run.error || (run.exitCode !== null ? `Exit ${run.exitCode}` : "Finished"),
+      run.args.length > 0 ? `args: ${run.args.join(" ")}` : null,
+      run.startedBy ? `by ${run.startedBy}` : null,
+    ];
+    entries.push({
+      id: `script:${run.id}`,
+      ts: run.startedAt,
+      type: "script",
+      source: run.script,
+      summary: parts.filter(Boolean).join(" · "),
+      status: run.status,
+      durationMs: run.durationMs,
+      runId: run.id,
+      actor: run.startedBy,
+    });
+  }
+  return entries;
+}
+
+function recordEntries(lines: TailedLine[]): LogEntry[] {
+  const entries: LogEntry[] = [];
+  for (const line of lines) {
+    const record = parseActivityRecord(line.text);
+    if (!record) continue;
+    entries.push({
+      id: `${record.kind}:${record.id}`,
+      ts: record.ts,
+      type: record.kind,
+      source: record.kind === "config" ? "openclaw.json" : `${record.channel ?? "unknown"} ${record.action}`,
+      summary: record.actor ? `${record.summary} · by ${record.actor}` : record.summary,
+      status: record.status,
+      channel: record.channel,
+      contact: record.contact,
+      actor: record.actor,
+    });
+  }
+  return entries;
+}
+
+interface SessionsFileEntry {
+  updatedAt?: number;
+  createdAt?: number;
+  tokenCount?: number;
+  turnCount?: number;
+}
+
+function sessionEntries(agentId: string, sessions: Record<string, SessionsFileEntry>): LogEntry[] {
+  return Object.entries(sessions).map(([key, session]) => {
+    const parsed = parseSessionKey(key);
+    return {
+      id: `session:${key}`,
+      ts: session.updatedAt || session.createdAt || 0,
+      type: "session" as const,
+      source: parsed.label,
+      summary: `${session.turnCount || 0} turns, ${session.tokenCount ? `${(session.tokenCount / 1000).toFixed(1)}k tokens` : "0 tokens"}`,
+      sessionKey: key,
+      jobId: parsed.cronJobId,
+      agentId: agentIdOfSessionKey(key) ?? agentId,
+      channel: parsed.channel,
+      contact: parsed.contactId || undefined,
+    };
+  });
+}
+
+/**
+ * Folds new lines from every source into the index. Offsets, entries and
+ * session mtimes are only applied once every source has been read, so a
+ * failure part way leaves the index as it was, to be read again next time.
+ */
+async function updateIndex(index: ActivityIndex): Promise<IndexChanges> {
+  const files = { ...index.files };
+  const sessionMtimes = { ...index.sessions };
+  let entries = index.entries;
+  const logged: LogEntry[] = [];
+  const added: LogEntry[] = [];
+  let moved = false;
+  let dropped = false;
+
+  const tail = async (
+    filePath: string,
+    dropOnReset: (entry: LogEntry) => boolean,
+    toEntries: (lines: TailedLine[]) => LogEntry[]
+  ) => {
+    const previous = files[filePath];
+    const result = await tailFile(filePath, previous, (lines) => logged.push(...toEntries(lines)));
+    if (!result) return;
+    if (!previous || previous.offset !== result.state.offset || previous.ino !== result.state.ino) moved = true;
+    if (result.reset && previous) {
+      const kept = entries.filter((e) => !dropOnReset(e));
+      // The journal still holds the dropped entries
+      if (kept.length < entries.length) dropped = true;
+      entries = kept;
+    }
+    files[filePath] = result.state;
+  };
+
+  let runFiles: string[] = [];
+  try {
+    runFiles = (await fs.readdir(CRON_RUNS_DIR)).filter((f) => f.endsWith(".jsonl")).sort();
+  } catch {
+    // cron runs dir may not exist
+  }
+  for (const file of runFiles) {
+    const prefix = `cron:${file}:`;
+    await tail(
+      path.join(CRON_RUNS_DIR, file),
+      (e) => e.id.startsWith(prefix),
+      (lines) => cronEntries(file, lines)
+    );
+  }
+  for (const filePath of Object.keys(files)) {
+    // A deleted job's runs file: keep its entries as history
+    if (path.dirname(filePath) === CRON_RUNS_DIR && !runFiles.includes(path.basename(filePath))) {
+      delete files[filePath];
+      moved = true;
+    }
+  }
+
+  // Rotation starts the script history afresh; the runs moved out stay as history
+  await tail(SCRIPT_HISTORY_PATH, () => false, scriptEntries);
+  await tail(ACTIVITY_LOG_PATH, (e) => e.type === "config" || e.type === "pairing", recordEntries);
+
+  added.push(...logged);
+
+  // sessions.json is rewritten in place, so each changed file replaces its agent's entries
+  for (const agent of await listAgents()) {
+    const sessionsPath = path.join(agent.sessionsDir, "sessions.json");
+    let mtimeMs: number;
+    try {
+      mtimeMs = (await fs.stat(sessionsPath)).mtimeMs;
+    } catch {
+      continue;
+    }
+    if (sessionMtimes[agent.id] === mtimeMs) continue;
+    let sessions: Record<string, SessionsFileEntry>;
+    try {
+      sessions = JSON.parse(await fs.readFile(sessionsPath, "utf-8"));
+    } catch {
+      // mid-write or malformed: try again next time
+      continue;
+    }
+    entries = entries.filter((e) => !(e.type === "session" && e.agentId === agent.id));
+    added.push(...sessionEntries(agent.id, sessions ?? {}));
+    sessionMtimes[agent.id] = mtimeMs;
+  }
+
+  // Everything is read: apply it all at once
+  if (added.length > 0 || entries !== index.entries) {
+    // Re-read lines (e.g. a reset file) replace what they indexed before
+    const ids = new Set(added.map((e) => e.id));
+    index.entries = [...entries.filter((e) => !ids.has(e.id)), ...added].sort(newestFirst).slice(0, MAX_ENTRIES);
+  }
+  index.files = files;
+  index.sessions = sessionMtimes;
+  if (dropped) index.rewriteJournal = true;
+  return { logged, files: moved };
+}
+
+/**
+ * Brings the index up to date with the logs and returns its entries, newest
+ * first. Concurrent callers share one update.
+ */
+export async function refreshActivityIndex(): Promise<LogEntry[]> {
+  if (globalForActivity.__activityIndexRefresh) return globalForActivity.__activityIndexRefresh;
+  const refresh = (async () => {
+    const index = await (globalForActivity.__activityIndex ??= loadIndex());
+    const changes = await updateIndex(index);
+    try {
+      await saveIndex(index, changes);
+    } catch (error) {
+      // Still serve from memory; the next update rewrites the journal
+      index.rewriteJournal = true;
+      console.error("Activity index save error:", error);
+    }
+    return index.entries;
+  })();
+  globalForActivity.__activityIndexRefresh = refresh;
+  try {
+    return await refresh;
+  } finally {
+    globalForActivity.__activityIndexRefresh = null;
+  }
+}
+
+function encodeCursor(entry: LogEntry): string {
+  return Buffer.from(JSON.stringify([entry.ts, entry.id])).toString("base64url");
+}
+
+function decodeCursor(cursor: string): LogEntry {
+  try {
+    const [ts, id] = JSON.parse(Buffer.from(cursor, "base64url").toString("utf-8"));
+    if (typeof ts === "number" && typeof id === "string") return { ts, id } as LogEntry;
+  } catch {
+    // fall through
+  }
+  throw new ActivityQueryError("Invalid cursor");
+}
+
+function entryAgent(entry: LogEntry, filter: ActivityFilter): string | undefined {
+  if (entry.type === "session") return entry.agentId;
+  if (entry.type === "cron") {
+    return entry.agentId ?? (entry.jobId && filter.cronJobAgents?.get(entry.jobId)) ?? filter.defaultAgentId;
+  }
+  return undefined;
+}
+
+function matches(entry: LogEntry, filter: ActivityFilter, search: string | undefined): boolean {
+  if (filter.types && !filter.types.includes(entry.type)) return false;
+  if (filter.statuses && !filter.statuses.includes(entry.status ?? "")) return false;
+  if (filter.jobId && entry.jobId !== filter.jobId) return false;
+  if (filter.channel && entry.channel !== filter.channel) return false;
+  if (filter.contact && entry.contact !== filter.contact) return false;
+  if (filter.since !== undefined && entry.ts < filter.since) return false;
+  if (filter.until !== undefined && entry.ts > filter.until) return false;
+  if (filter.agentId) {
+    const agent = entryAgent(entry, filter);
+    if (agent !== undefined && agent !== filter.agentId) return false;
+  }
+  if (search && !entry.source.toLowerCase().includes(search) && !entry.summary.toLowerCase().includes(search)) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * One page of `entries` (newest first, as the index keeps them) matching
+ * `filter`, starting after `cursor`. Cursors name a position rather than a
+ * count, so entries arriving between pages don't shift what comes next.
+ */
+export function queryActivity(
+  entries: LogEntry[],
+  filter: ActivityFilter,
+  { cursor, limit }: { cursor?: string | null; limit: number }
+): ActivityPage {
+  const after = cursor ? decodeCursor(cursor) : null;
+  const search = filter.search?.toLowerCase();
+  const page: LogEntry[] = [];
+  let total = 0;
+  let more = false;
+  for (const entry of entries) {
+    if (!matches(entry, filter, search)) continue;
+    total++;
+    if (after && newestFirst(entry, after) <= 0) continue;
+    if (page.length < limit) page.push(entry);
+    else more = true;
+  }
+  return {
+    entries: page,
+    total,
+    nextCursor: more && page.length > 0 ? encodeCursor(page[page.length - 1]) : null,
+  };
+}
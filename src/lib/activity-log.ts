@@ -0,0 +1,52 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { randomBytes } from "node:crypto";
+
+// Command-center actions that leave no log of their own — openclaw.json
+// saves and pairing approvals/rejections — one JSON line each in
+// command-center/activity.jsonl. The activity index tails it alongside the
+// cron and script run logs. Server-only; client code imports the types.
+
+const OPENCLAW_ROOT = process.env.OPENCLAW_ROOT || "/home/clawdbot/.openclaw";
+export const ACTIVITY_LOG_PATH = path.join(OPENCLAW_ROOT, "command-center", "activity.jsonl");
+
+export type ActivityRecordKind = "config" | "pairing";
+
+export interface ActivityRecord {
+  id: string;
+  ts: number;
+  kind: ActivityRecordKind;
+  /** e.g. "save" for config, "approve"/"reject" for pairing. */
+  action: string;
+  summary: string;
+  status: "ok" | "error";
+  actor?: string;
+  channel?: string;
+  /** Sender id on `channel` (DM pairing) or device id (device pairing). */
+  contact?: string;
+}
+
+/**
+ * Appends a record. Never throws: a failed log write is reported but must not
+ * fail the action it describes.
+ */
+export async function recordActivity(record: Omit<ActivityRecord, "id" | "ts">): Promise<void> {
+  const full: ActivityRecord = { id: randomBytes(8).toString("hex"), ts: Date.now(), ...record };
+  try {
+    await fs.mkdir(path.dirname(ACTIVITY_LOG_PATH), { recursive: true, mode: 0o700 });
+    await fs.appendFile(ACTIVITY_LOG_PATH, `${JSON.stringify(full)}\n`, { mode: 0o600 });
+  } catch (error) {
+    console.error("Activity log error:", error);
+  }
+}
+
+export function parseActivityRecord(line: string): ActivityRecord | null {
+  try {
+    const parsed = JSON.parse(line) as ActivityRecord;
+    if (!parsed || typeof parsed.id !== "string" || typeof parsed.ts !== "number") return null;
+    if (parsed.kind !== "config" && parsed.kind !== "pairing") return null;
+    return parsed;
+  } catch {
+    return null;
+  }
+}
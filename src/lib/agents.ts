@@ -0,0 +1,187 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { DEFAULT_AGENT_NAME, readAgentIdentity } from "@/lib/agent-identity";
+
+// Agents: one directory per agent under agents/<id>/ (its sessions live in
+// agents/<id>/sessions/), with names, workspaces and models from the
+// agents.list in openclaw.json. The command center shows one agent at a time,
+// the one picked in the header switcher, remembered in the cc_agent cookie;
+// a request can also name one with ?agent=. Server-only; client code imports
+// the types.
+
+const OPENCLAW_ROOT = process.env.OPENCLAW_ROOT || "/home/clawdbot/.openclaw";
+const OPENCLAW_CONFIG = process.env.OPENCLAW_CONFIG || path.join(OPENCLAW_ROOT, "openclaw.json");
+export const AGENTS_DIR = path.join(OPENCLAW_ROOT, "agents");
+
+export const DEFAULT_AGENT_ID = "main";
+export const AGENT_COOKIE = "cc_agent";
+
+const AGENT_ID_PATTERN = /^[a-z0-9][a-z0-9_-]{0,63}$/i;
+
+export interface AgentDescriptor {
+  id: string;
+  /** Name from openclaw.json, if it gives one. */
+  name?: string;
+  /** The agent that handles anything not routed elsewhere. */
+  isDefault: boolean;
+  /** Primary model from openclaw.json, when the agent overrides the default. */
+  model?: string;
+  workspace: string;
+  sessionsDir: string;
+}
+
+/** Files an agent's identity and memory views read, inside its workspace. */
+export interface AgentPaths {
+  workspace: string;
+  identityPath: string;
+  soulPath: string;
+  memoryDir: string;
+  intelligenceDir: string;
+  sessionsPath: string;
+}
+
+interface ConfigAgent {
+  id?: unknown;
+  name?: unknown;
+  default?: unknown;
+  workspace?: unknown;
+  model?: unknown;
+}
+
+export function isAgentId(value: unknown): value is string {
+  return typeof value === "string" && AGENT_ID_PATTERN.test(value);
+}
+
+export function agentSessionsDir(agentId: string): string {
+  return path.join(AGENTS_DIR, agentId, "sessions");
+}
+
+export function agentSessionsPath(agentId: string): string {
+  return path.join(agentSessionsDir(agentId), "sessions.json");
+}
+
+function expandHome(p: string): string {
+  return p === "~" || p.startsWith("~/") ? path.join(os.homedir(), p.slice(1)) : p;
+}
+
+async function readConfigAgents(): Promise<ConfigAgent[]> {
+  try {
+    const config = JSON.parse(await fs.readFile(OPENCLAW_CONFIG, "utf-8"));
+    const list = config?.agents?.list;
+    return Array.isArray(list) ? list.filter((a): a is ConfigAgent => a && typeof a === "object") : [];
+  } catch {
+    return [];
+  }
+}
+
+async function agentDirs(): Promise<string[]> {
+  try {
+    const entries = await fs.readdir(AGENTS_DIR, { withFileTypes: true });
+    return entries.filter((e) => e.isDirectory() && isAgentId(e.name)).map((e) => e.name);
+  } catch {
+    return [];
+  }
+}
+
+function modelName(raw: unknown): string | undefined {
+  if (typeof raw === "string" && raw) return raw;
+  const primary = (raw as { primary?: unknown } | null)?.primary;
+  return typeof primary === "string" && primary ? primary : undefined;
+}
+
+/**
+ * Every agent: those with a directory under agents/ and those listed in
+ * openclaw.json, default first. There is always at least the default one.
+ */
+export async function listAgents(): Promise<AgentDescriptor[]> {
+  const [configured, dirs] = await Promise.all([readConfigAgents(), agentDirs()]);
+  const byId = new Map<string, ConfigAgent>();
+  for (const agent of configured) {
+    if (isAgentId(agent.id) && !byId.has(agent.id)) byId.set(agent.id, agent);
+  }
+
+  const ids = new Set([...byId.keys(), ...dirs]);
+  const explicitDefault = configured.find((a) => a.default === true && isAgentId(a.id))?.id as string | undefined;
+  const defaultId =
+    explicitDefault ?? (ids.has(DEFAULT_AGENT_ID) || ids.size === 0 ? DEFAULT_AGENT_ID : [...ids].sort()[0]);
+  ids.add(defaultId);
+
+  return [...ids]
+    .map((id) => {
+      const config = byId.get(id);
+      const isDefault = id === defaultId;
+      // Same fallbacks as the gateway: the default agent uses the main
+      // workspace, the others a workspace-<id> beside it
+      const workspace =
+        typeof config?.workspace === "string" && config.workspace
+          ? expandHome(config.workspace)
+          : isDefault
+            ? process.env.WORKSPACE_PATH || path.join(OPENCLAW_ROOT, "workspace")
+            : path.join(OPENCLAW_ROOT, `workspace-${id}`);
+      return {
+        id,
+        name: typeof config?.name === "string" && config.name ? config.name : undefined,
+        isDefault,
+        model: modelName(config?.model),
+        workspace,
+        sessionsDir: agentSessionsDir(id),
+      };
+    })
+    .sort((a, b) => (a.isDefault === b.isDefault ? a.id.localeCompare(b.id) : a.isDefault ? -1 : 1));
+}
+
+function cookieValue(request: Request, name: string): string | undefined {
+  for (const part of (request.headers.get("cookie") ?? "").split(";")) {
+    const [key, ...rest] = part.trim().split("=");
+    if (key === name) return decodeURIComponent(rest.join("="));
+  }
+  return undefined;
+}
+
+/** The agent a request is about: ?agent=, else the switcher's cookie, else the default. */
+export async function agentFromRequest(request: Request): Promise<AgentDescriptor> {
+  const agents = await listAgents();
+  const requested = new URL(request.url).searchParams.get("agent") ?? cookieValue(request, AGENT_COOKIE);
+  return agents.find((a) => a.id === requested) ?? agents.find((a) => a.isDefault) ?? agents[0];
+}
+
+/**
+ * Identity, memory and sessions files for `agent`. The IDENTITY_PATH,
+ * SOUL_PATH, MEMORY_PATH and INTELLIGENCE_PATH overrides only apply to the
+ * default agent.
+ */
+export function agentPaths(agent: AgentDescriptor): AgentPaths {
+  const env = (name: string) => (agent.isDefault ? process.env[name] : undefined);
+  return {
+    workspace: agent.workspace,
+    identityPath: env("IDENTITY_PATH") || path.join(agent.workspace, "IDENTITY.md"),
+    soulPath: env("SOUL_PATH") || path.join(agent.workspace, "SOUL.md"),
+    memoryDir: env("MEMORY_PATH") || path.join(agent.workspace, "memory"),
+    intelligenceDir: env("INTELLIGENCE_PATH") || path.join(agent.workspace, "intelligence"),
+    sessionsPath: agentSessionsPath(agent.id),
+  };
+}
+
+/** Name, emoji and description from the agent's workspace, falling back to openclaw.json. */
+export async function agentIdentity(
+  agent: AgentDescriptor
+): Promise<{ name: string; emoji: string; description: string }> {
+  const { identityPath, soulPath } = agentPaths(agent);
+  // agents.defaults.name in the config only names the default agent
+  const identity = await readAgentIdentity({
+    identityPath,
+    soulPath,
+    configPath: agent.isDefault ? OPENCLAW_CONFIG : undefined,
+  });
+  return {
+    name: identity.name || agent.name || (agent.isDefault ? DEFAULT_AGENT_NAME : agent.id),
+    emoji: identity.emoji || "🦞",
+    description: identity.description || "",
+  };
+}
+
+/** The agent a cron job runs as; jobs without one run as the default agent. */
+export function cronJobAgent(job: { agentId?: string }, defaultAgentId: string): string {
+  return job.agentId || defaultAgentId;
+}
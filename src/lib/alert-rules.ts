@@ -0,0 +1,218 @@
+// Alert rule and sink definitions, shared by the server (validation,
+// evaluation) and the client (rule and sink forms). Keep this file free of
+// Node imports.
+
+// ─── Conditions ──────────────────────────────────────────────
+
+export type AlertCondition =
+  | "gateway-disconnected"
+  | "cron-error"
+  | "cron-last-error"
+  | "memory-percent"
+  | "heartbeat-stale"
+  | "pairing-pending";
+
+export interface AlertConditionInfo {
+  label: string;
+  description: string;
+  /** What `threshold` means for this condition; absent when it takes none. */
+  threshold?: { label: string; unit: string; default: number; min: number; max?: number };
+}
+
+export const ALERT_CONDITIONS: Record<AlertCondition, AlertConditionInfo> = {
+  "gateway-disconnected": {
+    label: "Gateway disconnected",
+    description: "The gateway doesn't answer system-presence (or status).",
+  },
+  "cron-error": {
+    label: "Cron run failed",
+    description: "A cron job's last run ended with status error. One alert per job.",
+  },
+  "cron-last-error": {
+    label: "Cron job reports an error",
+    description: "A cron job has lastError set, whatever its last status. One alert per job.",
+  },
+  "memory-percent": {
+    label: "Memory usage high",
+    description: "Host memory in use, as on the system health panel, is over the threshold.",
+    threshold: { label: "Over", unit: "%", default: 90, min: 1, max: 100 },
+  },
+  "heartbeat-stale": {
+    label: "Heartbeat late",
+    description: "The agent's last heartbeat is older than the threshold.",
+    threshold: { label: "Older than", unit: "min", default: 60, min: 1 },
+  },
+  "pairing-pending": {
+    label: "Pairing request waiting",
+    description: "A device or a channel contact is waiting for pairing approval. One alert per request.",
+  },
+};
+
+export const ALERT_CONDITION_IDS = Object.keys(ALERT_CONDITIONS) as AlertCondition[];
+
+// ─── Rules and sinks ─────────────────────────────────────────
+
+export interface AlertRule {
+  id: string;
+  name: string;
+  condition: AlertCondition;
+  enabled: boolean;
+  threshold?: number;
+  /** Only fire once the condition has held this long (0 fires on the first check). */
+  forMinutes: number;
+  /** Notify again while still firing, this often; 0 notifies once. */
+  repeatMinutes: number;
+  /** Also notify when the alert clears. */
+  notifyResolved: boolean;
+  /** Sinks notified; a rule with none still shows up as firing in the UI. */
+  sinkIds: string[];
+}
+
+export type AlertSinkKind = "webhook" | "channel";
+
+export interface AlertSink {
+  id: string;
+  name: string;
+  kind: AlertSinkKind;
+  enabled: boolean;
+  /** webhook: receives a JSON POST per notification. */
+  url?: string;
+  /** channel: a channel from openclaw.json (e.g. "telegram"), sent through the gateway. */
+  channel?: string;
+  /** channel: recipient id or handle on that channel. */
+  to?: string;
+  /** channel: account to send from, on channels with more than one. */
+  accountId?: string;
+}
+
+export interface AlertConfig {
+  rules: AlertRule[];
+  sinks: AlertSink[];
+}
+
+export class AlertConfigError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = "AlertConfigError";
+  }
+}
+
+const ID_PATTERN = /^[a-z0-9][a-z0-9_-]{0,63}$/i;
+
+function text(value: unknown): string {
+  return typeof value === "string" ? value.trim() : "";
+}
+
+function minutes(value: unknown, what: string, fallback: number): number {
+  if (value === undefined || value === null || value === "") return fallback;
+  const n = typeof value === "string" ? Number(value) : value;
+  if (typeof n !== "number" || !Number.isFinite(n) || n < 0) {
+    throw new AlertConfigError(`${what} must be a number of minutes`);
+  }
+  return n;
+}
+
+function checkId(value: unknown, what: string, seen: Set<string>): string {
+  const id = text(value);
+  if (!ID_PATTERN.test(id)) {
+    throw new AlertConfigError(`${what}: id must be letters, digits, "-" or "_"`);
+  }
+  if (seen.has(id)) throw new AlertConfigError(`Duplicate id: ${id}`);
+  seen.add(id);
+  return id;
+}
+
+/** Checks a sink list from a request; throws AlertConfigError naming the bad entry. */
+export function validateAlertSinks(raw: unknown): AlertSink[] {
+  if (!Array.isArray(raw)) throw new AlertConfigError("Sinks must be a list");
+  const seen = new Set<string>();
+  return raw.map((value, i) => {
+    const entry = (value ?? {}) as Record<string, unknown>;
+    const name = text(entry.name) || `Sink ${i + 1}`;
+    const id = checkId(entry.id, name, seen);
+    const sink: AlertSink = { id, name, kind: "webhook", enabled: entry.enabled !== false };
+    if (entry.kind === "webhook") {
+      const url = text(entry.url);
+      let parsed: URL;
+      try {
+        parsed = new URL(url);
+      } catch {
+        throw new AlertConfigError(`${name}: webhook URL required`);
+      }
+      if (parsed.protocol !== "https:" && parsed.protocol !== "http:") {
+        throw new AlertConfigError(`${name}: webhook URL must be http(s)`);
+      }
+      sink.url = url;
+    } else if (entry.kind === "channel") {
+      const channel = text(entry.channel);
+      const to = text(entry.to);
+      if (!channel) throw new AlertConfigError(`${name}: channel required`);
+      if (!to) throw new AlertConfigError(`${name}: recipient required`);
+      sink.kind = "channel";
+      sink.channel = channel;
+      sink.to = to;
+      const accountId = text(entry.accountId);
+      if (accountId) sink.accountId = accountId;
+    } else {
+      throw new AlertConfigError(`${name}: kind must be webhook or channel`);
+    }
+    return sink;
+  });
+}
+
+/** Checks a rule list from a request against the sinks it may use. */
+export function validateAlertRules(raw: unknown, sinks: AlertSink[]): AlertRule[] {
+  if (!Array.isArray(raw)) throw new AlertConfigError("Rules must be a list");
+  const sinkIds = new Set(sinks.map((s) => s.id));
+  const seen = new Set<string>();
+  return raw.map((value, i) => {
+    const entry = (value ?? {}) as Record<string, unknown>;
+    const name = text(entry.name) || `Rule ${i + 1}`;
+    const id = checkId(entry.id, name, seen);
+    const condition = entry.condition as AlertCondition;
+    if (!ALERT_CONDITION_IDS.includes(condition)) {
+      throw new AlertConfigError(`${name}: unknown condition ${String(entry.condition)}`);
+    }
+    const rule: AlertRule = {
+      id,
+      name,
+      condition,
+      enabled: entry.enabled !== false,
+      forMinutes: minutes(entry.forMinutes, `${name}: "for"`, 0),
+      repeatMinutes: minutes(entry.repeatMinutes, `${name}: repeat`, 0),
+      notifyResolved: entry.notifyResolved === true,
+      sinkIds: [],
+    };
+
+    const spec = ALERT_CONDITIONS[condition].threshold;
+    if (spec) {
+      const t = entry.threshold === undefined || entry.threshold === "" ? spec.default : Number(entry.threshold);
+      if (!Number.isFinite(t) || t < spec.min || (spec.max !== undefined && t > spec.max)) {
+        throw new AlertConfigError(
+          `${name}: threshold must be ${spec.max !== undefined ? `${spec.min}–${spec.max}` : `at least ${spec.min}`} ${spec.unit}`
+        );
+      }
+      rule.threshold = t;
+    }
+
+    if (entry.sinkIds !== undefined && !Array.isArray(entry.sinkIds)) {
+      throw new AlertConfigError(`${name}: sinks must be a list`);
+    }
+    for (const sinkId of (entry.sinkIds as unknown[] | undefined) ?? []) {
+      if (typeof sinkId !== "string" || !sinkIds.has(sinkId)) {
+        throw new AlertConfigError(`${name}: unknown sink ${String(sinkId)}`);
+      }
+      if (!rule.sinkIds.includes(sinkId)) rule.sinkIds.push(sinkId);
+    }
+    return rule;
+  });
+}
+
+/** The rules a fresh install starts with: every condition watched, nothing delivered yet. */
+export const DEFAULT_ALERT_RULES: AlertRule[] = [
+  { id: "gateway-down", name: "Gateway down", condition: "gateway-disconnected", forMinutes: 2 },
+  { id: "cron-failed", name: "Cron run failed", condition: "cron-error", forMinutes: 0 },
+  { id: "memory-high", name: "Memory over 90%", condition: "memory-percent", threshold: 90, forMinutes: 5 },
+  { id: "heartbeat-late", name: "No heartbeat for an hour", condition: "heartbeat-stale", threshold: 60, forMinutes: 0 },
+  { id: "pairing-waiting", name: "Pairing request waiting", condition: "pairing-pending", forMinutes: 0 },
+].map((rule) => ({ enabled: true, repeatMinutes: 0, notifyResolved: true, sinkIds: [], ...rule }) as AlertRule);
@@ -0,0 +1,634 @@
+import { randomBytes, randomUUID } from "node:crypto";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import {
+  AlertConfigError,
+  DEFAULT_ALERT_RULES,
+  validateAlertRules,
+  validateAlertSinks,
+  type AlertCondition,
+  type AlertConfig,
+  type AlertRule,
+  type AlertSink,
+} from "@/lib/alert-rules";
+import { publishLiveEvent } from "@/lib/event-hub";
+import { readLinesBefore } from "@/lib/file-lines";
+import {
+  validateGatewayCall,
+  type CronJob,
+  type GatewayMethod,
+  type GatewayParams,
+  type GatewayResult,
+} from "@/lib/gateway-methods";
+import { getGatewayTransport } from "@/lib/gateway-transport";
+
+// Alerting: the rules in command-center/alerts.json are checked every minute
+// against the gateway, cron jobs, host memory and pairing stores. Each thing
+// a rule finds wrong (the gateway, one cron job, one pairing request) is an
+// alert, tracked in command-center/alerts-state.json so it's notified once
+// rather than every check, and can be snoozed. Fired, resolved, snoozed and
+// delivered notifications are logged to command-center/alerts.jsonl.
+// Server-only; client code imports the types.
+
+const OPENCLAW_ROOT = process.env.OPENCLAW_ROOT || "/home/clawdbot/.openclaw";
+const OPENCLAW_CREDENTIALS = process.env.OPENCLAW_CREDENTIALS || path.join(OPENCLAW_ROOT, "credentials");
+export const ALERT_CONFIG_PATH = path.join(OPENCLAW_ROOT, "command-center", "alerts.json");
+const ALERT_STATE_PATH = path.join(OPENCLAW_ROOT, "command-center", "alerts-state.json");
+export const ALERT_HISTORY_PATH = path.join(OPENCLAW_ROOT, "command-center", "alerts.jsonl");
+
+export const ALERT_INTERVAL_MS = 60_000;
+const WEBHOOK_TIMEOUT_MS = 10_000;
+export const MAX_ALERT_HISTORY = 500;
+
+/** One thing a rule found wrong, e.g. one failing cron job. */
+export interface AlertInstance {
+  /** `${ruleId}:${key}` */
+  id: string;
+  ruleId: string;
+  key: string;
+  subject: string;
+  message: string;
+  /** First check that found it. */
+  since: number;
+  lastSeenAt: number;
+  /** When it had held for the rule's `forMinutes`; unset while pending. */
+  firedAt?: number;
+  /** Last notification sent to the rule's sinks. */
+  notifiedAt?: number;
+  snoozedUntil?: number;
+}
+
+export interface AlertView extends AlertInstance {
+  ruleName: string;
+  condition: AlertCondition;
+  firing: boolean;
+  /** This alert's snooze or its rule's, whichever ends later. */
+  snoozedUntil?: number;
+}
+
+export interface AlertStatus {
+  evaluatedAt?: number;
+  intervalMs: number;
+  active: AlertView[];
+  /** Rule id → snoozed until (epoch ms). */
+  ruleSnoozes: Record<string, number>;
+  lastError?: string;
+}
+
+export type AlertEventType = "fired" | "resolved" | "notified" | "snoozed" | "unsnoozed";
+
+export interface AlertEvent {
+  id: string;
+  ts: number;
+  type: AlertEventType;
+  ruleId: string;
+  ruleName: string;
+  /** Absent for rule-wide snoozes. */
+  alertId?: string;
+  message: string;
+  sinkId?: string;
+  sinkName?: string;
+  status?: "ok" | "error";
+  error?: string;
+  actor?: string;
+}
+
+/** The body POSTed to webhooks; `text` is what channel sinks send. */
+export interface AlertNotification {
+  event: "firing" | "resolved" | "test";
+  rule?: { id: string; name: string; condition: AlertCondition };
+  alertId?: string;
+  subject?: string;
+  message: string;
+  since?: number;
+  ts: number;
+  text: string;
+}
+
+interface AlertState {
+  evaluatedAt?: number;
+  instances: Record<string, AlertInstance>;
+  ruleSnoozes: Record<string, number>;
+  lastError?: string;
+}
+
+// Kept on globalThis so dev-mode module reloads share one state and one timer
+const globalForAlerts = globalThis as unknown as {
+  __alertState?: Promise<AlertState>;
+  __alertEvaluation?: Promise<void> | null;
+  __alertTimer?: ReturnType<typeof setInterval>;
+};
+
+// ─── Storage ─────────────────────────────────────────────────
+
+async function writeJsonAtomic(filePath: string, value: unknown): Promise<void> {
+  await fs.mkdir(path.dirname(filePath), { recursive: true, mode: 0o700 });
+  const tmpPath = `${filePath}.${randomBytes(8).toString("hex")}.tmp`;
+  await fs.writeFile(tmpPath, JSON.stringify(value, null, 2), { encoding: "utf-8", mode: 0o600 });
+  await fs.rename(tmpPath, filePath);
+}
+
+/** Rules and sinks; the default rules (with no sinks) until some are saved. */
+export async function readAlertConfig(): Promise<AlertConfig> {
+  try {
+    const parsed = JSON.parse(await fs.readFile(ALERT_CONFIG_PATH, "utf-8")) as Partial<AlertConfig>;
+    return {
+      rules: Array.isArray(parsed.rules) ? parsed.rules : [],
+      sinks: Array.isArray(parsed.sinks) ? parsed.sinks : [],
+    };
+  } catch {
+    return { rules: DEFAULT_ALERT_RULES, sinks: [] };
+  }
+}
+
+/** Validates and saves rules, sinks or both. Rules stop using sinks that were removed. */
+export async function saveAlertConfig(patch: { rules?: unknown; sinks?: unknown }): Promise<AlertConfig> {
+  const current = await readAlertConfig();
+  const sinks = patch.sinks === undefined ? current.sinks : validateAlertSinks(patch.sinks);
+  const known = new Set(sinks.map((s) => s.id));
+  const rules =
+    patch.rules === undefined
+      ? current.rules.map((rule) => ({ ...rule, sinkIds: rule.sinkIds.filter((id) => known.has(id)) }))
+      : validateAlertRules(patch.rules, sinks);
+  const next = { rules, sinks };
+  await writeJsonAtomic(ALERT_CONFIG_PATH, next);
+  return next;
+}
+
+async function loadState(): Promise<AlertState> {
+  try {
+    const saved = JSON.parse(await fs.readFile(ALERT_STATE_PATH, "utf-8")) as AlertState;
+    if (saved && typeof saved.instances === "object" && typeof saved.ruleSnoozes === "object") return saved;
+  } catch {
+    // missing or unreadable: start clean
+  }
+  return { instances: {}, ruleSnoozes: {} };
+}
+
+function alertState(): Promise<AlertState> {
+  return (globalForAlerts.__alertState ??= loadState());
+}
+
+async function saveState(state: AlertState): Promise<void> {
+  try {
+    await writeJsonAtomic(ALERT_STATE_PATH, state);
+  } catch (error) {
+    // Still tracked in memory; the next check tries again
+    console.error("Alert state save error:", error);
+  }
+}
+
+/** Appends events to the history. Never throws. */
+async function recordAlertEvents(events: Array<Omit<AlertEvent, "id">>): Promise<void> {
+  if (events.length === 0) return;
+  const lines = events.map((e) => JSON.stringify({ id: randomBytes(8).toString("hex"), ...e })).join("\n");
+  try {
+    await fs.mkdir(path.dirname(ALERT_HISTORY_PATH), { recursive: true, mode: 0o700 });
+    await fs.appendFile(ALERT_HISTORY_PATH, `${lines}\n`, { mode: 0o600 });
+  } catch (error) {
+    console.error("Alert history error:", error);
+  }
+}
+
+/** The most recent history events, newest first. */
+export async function readAlertHistory(limit = 100): Promise<AlertEvent[]> {
+  let handle: fs.FileHandle;
+  try {
+    handle = await fs.open(ALERT_HISTORY_PATH, "r");
+  } catch {
+    return [];
+  }
+  try {
+    const { size } = await handle.stat();
+    const lines = await readLinesBefore(handle, size, Math.min(limit, MAX_ALERT_HISTORY));
+    const events: AlertEvent[] = [];
+    for (const line of lines.reverse()) {
+      try {
+        const parsed = JSON.parse(line.text) as AlertEvent;
+        if (parsed && typeof parsed.ts === "number" && typeof parsed.type === "string") events.push(parsed);
+      } catch {
+        // torn or foreign line
+      }
+    }
+    return events;
+  } finally {
+    await handle.close();
+  }
+}
+
+// ─── Checks ──────────────────────────────────────────────────
+
+interface Finding {
+  key: string;
+  subject: string;
+  message: string;
+}
+
+// The route-level gateway cache lives in the API layer; checks run once a
+// minute, so they call the transport directly (still through the allowlist).
+async function gatewayCall<M extends GatewayMethod>(method: M, params: GatewayParams<M>): Promise<GatewayResult<M>> {
+  const { spec } = validateGatewayCall(method, params);
+  const result = await getGatewayTransport().call(method, params as Record<string, unknown>, {
+    idempotent: spec.permission === "read",
+  });
+  return result as GatewayResult<M>;
+}
+
+interface PairingFile {
+  requests?: Array<{ id: string; code: string; meta?: Record<string, string> }>;
+}
+
+/** Channel pairing requests waiting in credentials/<channel>-pairing.json. */
+async function channelPairingRequests(): Promise<Finding[]> {
+  let names: string[];
+  try {
+    names = await fs.readdir(OPENCLAW_CREDENTIALS);
+  } catch {
+    return [];
+  }
+  const findings: Finding[] = [];
+  for (const name of names.filter((n) => n.endsWith("-pairing.json"))) {
+    const channel = name.slice(0, -"-pairing.json".length);
+    try {
+      const data = JSON.parse(await fs.readFile(path.join(OPENCLAW_CREDENTIALS, name), "utf-8")) as PairingFile;
+      for (const request of Array.isArray(data.requests) ? data.requests : []) {
+        const who = request.meta?.name || request.meta?.username || request.id;
+        findings.push({
+          key: `${channel}:${request.id}`,
+          subject: `${who} on ${channel}`,
+          message: `${who} is waiting for pairing approval on ${channel} (code ${request.code})`,
+        });
+      }
+    } catch {
+      // unreadable store: nothing to report from it
+    }
+  }
+  return findings;
+}
+
+/**
+ * Data for one round of checks, each fetched at most once however many
+ * rules need it. A null result means it couldn't be read, so the alerts it
+ * feeds are left as they are rather than resolved.
+ */
+function checkSources() {
+  const memo = new Map<string, Promise<unknown>>();
+  const once = <T>(key: string, load: () => Promise<T>): Promise<T> => {
+    if (!memo.has(key)) memo.set(key, load());
+    return memo.get(key) as Promise<T>;
+  };
+  return {
+    // Same probe as the dashboard: presence, falling back to status
+    gatewayUp: () =>
+      once("presence", () =>
+        gatewayCall("system-presence", {}).then(
+          () => true,
+          () => gatewayCall("status", {}).then(() => true, () => false)
+        )
+      ),
+    cronJobs: () =>
+      once("cron", () =>
+        gatewayCall("cron.list", { includeDisabled: true }).then((r) => r?.jobs ?? [], () => null as CronJob[] | null)
+      ),
+    heartbeat: () =>
+      once("heartbeat", () => gatewayCall("last-heartbeat", {}).then((r) => ({ ts: r?.ts }), () => null)),
+    pairing: () =>
+      once("pairing", async () => {
+        const devices = await gatewayCall("device.pair.list", {}).catch(() => null);
+        if (!devices) return null;
+        const findings: Finding[] = (devices.pending ?? []).map((request) => {
+          const who = request.displayName || request.deviceId;
+          return {
+            key: `device:${request.requestId}`,
+            subject: who,
+            message: `Device ${who}${request.platform ? ` (${request.platform})` : ""} is waiting for pairing approval`,
+          };
+        });
+        return [...findings, ...(await channelPairingRequests())];
+      }),
+  };
+}
+
+type CheckSources = ReturnType<typeof checkSources>;
+
+function jobLabel(job: CronJob): string {
+  return `Cron job "${job.name}"${job.agentId ? ` (agent ${job.agentId})` : ""}`;
+}
+
+async function findProblems(rule: AlertRule, sources: CheckSources, now: number): Promise<Finding[] | null> {
+  switch (rule.condition) {
+    case "gateway-disconnected":
+      return (await sources.gatewayUp())
+        ? []
+        : [{ key: "gateway", subject: "Gateway", message: "The gateway isn't answering" }];
+
+    case "cron-error": {
+      const jobs = await sources.cronJobs();
+      return (
+        jobs
+          ?.filter((job) => job.enabled && job.state?.lastStatus === "error")
+          .map((job) => ({
+            key: job.id,
+            subject: job.name,
+            message: `${jobLabel(job)} failed${job.state?.lastError ? `: ${job.state.lastError}` : ""}`,
+          })) ?? null
+      );
+    }
+
+    case "cron-last-error": {
+      const jobs = await sources.cronJobs();
+      return (
+        jobs
+          ?.filter((job) => job.enabled && job.state?.lastError)
+          .map((job) => ({
+            key: job.id,
+            subject: job.name,
+            message: `${jobLabel(job)} reports: ${job.state!.lastError}`,
+          })) ?? null
+      );
+    }
+
+    case "memory-percent": {
+      const total = os.totalmem();
+      const used = total - os.freemem();
+      const percent = Math.round((used / total) * 100);
+      if (percent <= (rule.threshold ?? 90)) return [];
+      const mb = (n: number) => Math.round(n / 1024 / 1024);
+      return [
+        { key: "memory", subject: "Memory", message: `Memory at ${percent}% (${mb(used)} of ${mb(total)} MB in use)` },
+      ];
+    }
+
+    case "heartbeat-stale": {
+      const heartbeat = await sources.heartbeat();
+      if (!heartbeat) return null;
+      // Never had one: nothing to be late against
+      if (!heartbeat.ts) return [];
+      const ageMinutes = Math.floor((now - heartbeat.ts) / 60_000);
+      if (ageMinutes < (rule.threshold ?? 60)) return [];
+      return [{ key: "heartbeat", subject: "Heartbeat", message: `Last heartbeat was ${ageMinutes} minutes ago` }];
+    }
+
+    case "pairing-pending":
+      return sources.pairing();
+  }
+}
+
+// ─── Delivery ────────────────────────────────────────────────
+
+function notificationFor(
+  rule: AlertRule,
+  alert: AlertInstance,
+  event: "firing" | "resolved",
+  now: number
+): AlertNotification {
+  const text =
+    event === "firing"
+      ? `🚨 ${rule.name}: ${alert.message}`
+      : `✅ Resolved — ${rule.name}: ${alert.subject}`;
+  return {
+    event,
+    rule: { id: rule.id, name: rule.name, condition: rule.condition },
+    alertId: alert.id,
+    subject: alert.subject,
+    message: alert.message,
+    since: alert.since,
+    ts: now,
+    text,
+  };
+}
+
+async function deliver(sink: AlertSink, notification: AlertNotification): Promise<void> {
+  if (sink.kind === "webhook") {
+    const res = await fetch(sink.url!, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(notification),
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+    });
+    if (!res.ok) throw new Error(`Webhook answered HTTP ${res.status}`);
+    return;
+  }
+  await gatewayCall("send", {
+    to: sink.to!,
+    message: notification.text,
+    channel: sink.channel,
+    accountId: sink.accountId,
+    idempotencyKey: randomUUID(),
+  });
+}
+
+/** Sends to every sink, logging each outcome; a failing sink doesn't stop the others. */
+async function notify(rule: AlertRule, sinks: AlertSink[], notification: AlertNotification): Promise<void> {
+  const events = await Promise.all(
+    sinks.map(async (sink): Promise<Omit<AlertEvent, "id">> => {
+      const event: Omit<AlertEvent, "id"> = {
+        ts: Date.now(),
+        type: "notified",
+        ruleId: rule.id,
+        ruleName: rule.name,
+        alertId: notification.alertId,
+        message: notification.text,
+        sinkId: sink.id,
+        sinkName: sink.name,
+        status: "ok",
+      };
+      try {
+        await deliver(sink, notification);
+      } catch (error) {
+        event.status = "error";
+        event.error = error instanceof Error ? error.message : String(error);
+      }
+      return event;
+    })
+  );
+  await recordAlertEvents(events);
+}
+
+/** Sends a test notification to one sink; throws with the sink's error. */
+export async function testAlertSink(sinkId: string): Promise<void> {
+  const { sinks } = await readAlertConfig();
+  const sink = sinks.find((s) => s.id === sinkId);
+  if (!sink) throw new AlertConfigError(`Unknown sink: ${sinkId}`, 404);
+  const message = `Test notification from the command center to ${sink.name}`;
+  await deliver(sink, { event: "test", message, ts: Date.now(), text: `🔔 ${message}` });
+}
+
+// ─── Evaluation ──────────────────────────────────────────────
+
+function isSnoozed(state: AlertState, alert: AlertInstance, now: number): boolean {
+  return (state.ruleSnoozes[alert.ruleId] ?? 0) > now || (alert.snoozedUntil ?? 0) > now;
+}
+
+async function runEvaluation(): Promise<void> {
+  const [config, state] = await Promise.all([readAlertConfig(), alertState()]);
+  const now = Date.now();
+  const sources = checkSources();
+  const events: Array<Omit<AlertEvent, "id">> = [];
+  const outgoing: Array<{ rule: AlertRule; sinks: AlertSink[]; notification: AlertNotification }> = [];
+  const stillActive = new Set<string>();
+
+  const sinksFor = (rule: AlertRule) =>
+    rule.sinkIds
+      .map((id) => config.sinks.find((s) => s.id === id))
+      .filter((s): s is AlertSink => !!s && s.enabled);
+
+  for (const rule of config.rules.filter((r) => r.enabled)) {
+    let findings: Finding[] | null;
+    try {
+      findings = await findProblems(rule, sources, now);
+    } catch (error) {
+      console.error(`Alert rule ${rule.id} check error:`, error);
+      findings = null;
+    }
+    if (findings === null) {
+      // Couldn't check: keep what's tracked until we can
+      for (const alert of Object.values(state.instances)) {
+        if (alert.ruleId === rule.id) stillActive.add(alert.id);
+      }
+      continue;
+    }
+
+    const sinks = sinksFor(rule);
+    for (const finding of findings) {
+      const id = `${rule.id}:${finding.key}`;
+      stillActive.add(id);
+      const alert = (state.instances[id] ??= { id, ruleId: rule.id, ...finding, since: now, lastSeenAt: now });
+      alert.subject = finding.subject;
+      alert.message = finding.message;
+      alert.lastSeenAt = now;
+
+      if (alert.firedAt === undefined && now - alert.since >= rule.forMinutes * 60_000) {
+        alert.firedAt = now;
+        events.push({ ts: now, type: "fired", ruleId: rule.id, ruleName: rule.name, alertId: id, message: alert.message });
+      }
+      if (alert.firedAt === undefined || sinks.length === 0 || isSnoozed(state, alert, now)) continue;
+      const due =
+        alert.notifiedAt === undefined ||
+        (rule.repeatMinutes > 0 && now - alert.notifiedAt >= rule.repeatMinutes * 60_000);
+      if (due) {
+        alert.notifiedAt = now;
+        outgoing.push({ rule, sinks, notification: notificationFor(rule, alert, "firing", now) });
+      }
+    }
+  }
+
+  // Whatever wasn't found again has cleared (or its rule was disabled or removed)
+  for (const alert of Object.values(state.instances)) {
+    if (stillActive.has(alert.id)) continue;
+    delete state.instances[alert.id];
+    if (alert.firedAt === undefined) continue;
+    const rule = config.rules.find((r) => r.id === alert.ruleId);
+    events.push({
+      ts: now,
+      type: "resolved",
+      ruleId: alert.ruleId,
+      ruleName: rule?.name ?? alert.ruleId,
+      alertId: alert.id,
+      message: alert.message,
+    });
+    if (rule?.enabled && rule.notifyResolved && alert.notifiedAt !== undefined && !isSnoozed(state, alert, now)) {
+      const sinks = sinksFor(rule);
+      if (sinks.length > 0) outgoing.push({ rule, sinks, notification: notificationFor(rule, alert, "resolved", now) });
+    }
+  }
+
+  for (const [ruleId, until] of Object.entries(state.ruleSnoozes)) {
+    if (until <= now) delete state.ruleSnoozes[ruleId];
+  }
+  state.evaluatedAt = now;
+  state.lastError = undefined;
+  await saveState(state);
+  await recordAlertEvents(events);
+  await Promise.all(outgoing.map(({ rule, sinks, notification }) => notify(rule, sinks, notification)));
+  if (events.length > 0 || outgoing.length > 0) {
+    publishLiveEvent("alerts", "alerts.changed", { events: events.length, notifications: outgoing.length });
+  }
+}
+
+/** Runs the checks now. Concurrent callers share one run. */
+export async function evaluateAlerts(): Promise<void> {
+  const running = (globalForAlerts.__alertEvaluation ??= runEvaluation()
+    .catch(async (error) => {
+      console.error("Alert evaluation error:", error);
+      (await alertState()).lastError = error instanceof Error ? error.message : String(error);
+    })
+    .finally(() => {
+      globalForAlerts.__alertEvaluation = null;
+    }));
+  await running;
+}
+
+/**
+ * Check the alert rules every minute. Safe to call more than once; only one
+ * timer runs.
+ */
+export function startAlertEvaluator() {
+  if (globalForAlerts.__alertTimer) return;
+  globalForAlerts.__alertTimer = setInterval(() => void evaluateAlerts(), ALERT_INTERVAL_MS);
+  globalForAlerts.__alertTimer.unref?.();
+}
+
+// ─── Status and snooze ───────────────────────────────────────
+
+export async function getAlertStatus(): Promise<AlertStatus> {
+  const [config, state] = await Promise.all([readAlertConfig(), alertState()]);
+  const now = Date.now();
+  const active = Object.values(state.instances).map((alert): AlertView => {
+    const rule = config.rules.find((r) => r.id === alert.ruleId);
+    const snoozedUntil = Math.max(alert.snoozedUntil ?? 0, state.ruleSnoozes[alert.ruleId] ?? 0);
+    return {
+      ...alert,
+      ruleName: rule?.name ?? alert.ruleId,
+      condition: rule?.condition ?? "gateway-disconnected",
+      firing: alert.firedAt !== undefined,
+      snoozedUntil: snoozedUntil > now ? snoozedUntil : undefined,
+    };
+  });
+  active.sort((a, b) => Number(b.firing) - Number(a.firing) || b.since - a.since);
+  return {
+    evaluatedAt: state.evaluatedAt,
+    intervalMs: ALERT_INTERVAL_MS,
+    active,
+    ruleSnoozes: Object.fromEntries(Object.entries(state.ruleSnoozes).filter(([, until]) => until > now)),
+    lastError: state.lastError,
+  };
+}
+
+/**
+ * Holds notifications for one alert (`alertId`) or every alert of a rule
+ * (`ruleId`) for `minutes`; 0 lifts the snooze. Alerts keep being tracked
+ * while snoozed, and one still firing when the snooze ends is notified then
+ * if it hadn't been already.
+ */
+export async function snoozeAlerts(
+  target: { ruleId?: string; alertId?: string },
+  minutes: number,
+  actor?: string
+): Promise<void> {
+  if (!Number.isFinite(minutes) || minutes < 0) throw new AlertConfigError("Snooze must be a number of minutes");
+  const [config, state] = await Promise.all([readAlertConfig(), alertState()]);
+  const until = minutes > 0 ? Date.now() + minutes * 60_000 : undefined;
+  const type: AlertEventType = until ? "snoozed" : "unsnoozed";
+  const detail = until ? `Snoozed until ${new Date(until).toISOString()}` : "Snooze lifted";
+
+  if (target.alertId) {
+    const alert = state.instances[target.alertId];
+    if (!alert) throw new AlertConfigError(`No active alert ${target.alertId}`, 404);
+    alert.snoozedUntil = until;
+    const ruleName = config.rules.find((r) => r.id === alert.ruleId)?.name ?? alert.ruleId;
+    await saveState(state);
+    await recordAlertEvents([
+      { ts: Date.now(), type, ruleId: alert.ruleId, ruleName, alertId: alert.id, message: `${detail}: ${alert.subject}`, actor },
+    ]);
+  } else {
+    const rule = config.rules.find((r) => r.id === target.ruleId);
+    if (!rule) throw new AlertConfigError(`Unknown rule: ${target.ruleId}`, 404);
+    if (until) state.ruleSnoozes[rule.id] = until;
+    else delete state.ruleSnoozes[rule.id];
+    await saveState(state);
+    await recordAlertEvents([{ ts: Date.now(), type, ruleId: rule.id, ruleName: rule.name, message: detail, actor }]);
+  }
+  publishLiveEvent("alerts", `alerts.${type}`, target);
+}
@@ -0,0 +1,91 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterAll, describe, expect, it } from "vitest";
+
+const root = await fs.mkdtemp(path.join(os.tmpdir(), "cc-auth-"));
+process.env.OPENCLAW_ROOT = root;
+delete process.env.COMMAND_CENTER_AUTH_DIR;
+
+const {
+  SESSION_TTL_MS,
+  createSession,
+  createUser,
+  getSession,
+  listSessions,
+  listUsers,
+  revokeSessionByToken,
+  revokeUserSessions,
+} = await import("@/lib/auth");
+
+const SESSIONS_PATH = path.join(root, "command-center", "sessions.json");
+const USERS_PATH = path.join(root, "command-center", "users.json");
+
+/** A users.json entry as an older or hand-edited file might hold it. */
+function storedUser(username: string, role?: unknown) {
+  const user = { username, passwordHash: "scrypt$16384$8$1$x$y", createdAt: 1, updatedAt: 1 };
+  return role === undefined ? user : { ...user, role };
+}
+
+async function rolesOf(store: unknown): Promise<Record<string, string>> {
+  await fs.writeFile(USERS_PATH, JSON.stringify(store));
+  return Object.fromEntries((await listUsers()).map((u) => [u.username, u.role]));
+}
+
+/** Backdates every session's lastSeenAt so the next getSession touches it. */
+async function backdateLastSeen() {
+  const store = JSON.parse(await fs.readFile(SESSIONS_PATH, "utf-8"));
+  for (const session of store.sessions) session.lastSeenAt = Date.now() - SESSION_TTL_MS / 2;
+  await fs.writeFile(SESSIONS_PATH, JSON.stringify(store));
+}
+
+afterAll(async () => {
+  await fs.rm(root, { recursive: true, force: true });
+});
+
+describe("session store", () => {
+  it("keeps every session from concurrent logins", async () => {
+    const logins = await Promise.all(Array.from({ length: 20 }, () => createSession("alice")));
+    const ids = (await listSessions("alice")).map((s) => s.id).sort();
+    expect(ids).toEqual(logins.map((l) => l.session.id).sort());
+  });
+
+  it("doesn't bring back a session revoked while its lastSeenAt is being touched", async () => {
+    const { token } = await createSession("bob");
+    await backdateLastSeen();
+    const [seen] = await Promise.all([getSession(token), revokeSessionByToken(token)]);
+    expect(seen?.username).toBe("bob");
+    expect(await getSession(token)).toBeNull();
+    expect(await listSessions("bob")).toEqual([]);
+  });
+
+  it("doesn't bring back sessions revoked together while one is being touched", async () => {
+    const logins = await Promise.all([createSession("carol"), createSession("carol")]);
+    await backdateLastSeen();
+    const [, removed] = await Promise.all([getSession(logins[0].token), revokeUserSessions("carol")]);
+    expect(removed).toBe(2);
+    expect(await listSessions("carol")).toEqual([]);
+  });
+});
+
+describe("user roles", () => {
+  it("makes the one account of a store from before roles an admin, once", async () => {
+    expect(await rolesOf({ version: 1, users: [storedUser("owner")] })).toEqual({ owner: "admin" });
+
+    await createUser("guest", "correct horse", "viewer");
+    const saved = JSON.parse(await fs.readFile(USERS_PATH, "utf-8"));
+    expect(saved.version).toBe(2);
+    expect(saved.users.map((u: { role: string }) => u.role)).toEqual(["admin", "viewer"]);
+  });
+
+  it("gives a missing or unknown role viewer rights", async () => {
+    expect(
+      await rolesOf({
+        version: 1,
+        users: [storedUser("a"), storedUser("b", "operator"), storedUser("c", "root"), storedUser("d", null)],
+      })
+    ).toEqual({ a: "viewer", b: "operator", c: "viewer", d: "viewer" });
+    expect(await rolesOf({ version: 1, users: [storedUser("solo", "superuser")] })).toEqual({ solo: "viewer" });
+    expect(await rolesOf({ version: 2, users: [storedUser("solo")] })).toEqual({ solo: "viewer" });
+  });
+});
@@ -0,0 +1,468 @@
+import { NextResponse } from "next/server";
+import fs from "node:fs/promises";
+import path from "node:path";
+import {
+  createHash,
+  randomBytes,
+  scrypt as scryptCb,
+  timingSafeEqual,
+  type ScryptOptions,
+} from "node:crypto";
+import { can, isRole, type Permission, type Role } from "@/lib/permissions";
+
+// ─── Storage locations ──────────────────────────────────────
+// Credentials live next to (not inside) the agent workspace so the agent
+// itself can never read or rewrite them through its file tools.
+
+const OPENCLAW_ROOT = process.env.OPENCLAW_ROOT || "/home/clawdbot/.openclaw";
+const AUTH_DIR =
+  process.env.COMMAND_CENTER_AUTH_DIR || path.join(OPENCLAW_ROOT, "command-center");
+const USERS_PATH = path.join(AUTH_DIR, "users.json");
+const SESSIONS_PATH = path.join(AUTH_DIR, "sessions.json");
+
+export const SESSION_COOKIE = "cc_session";
+export const SESSION_TTL_MS = 14 * 24 * 60 * 60 * 1000;
+const SESSION_TOUCH_INTERVAL_MS = 5 * 60 * 1000;
+const MIN_PASSWORD_LENGTH = 8;
+/** users.json from version 2 on records every user's role. */
+const USERS_VERSION = 2;
+
+// ─── Types ──────────────────────────────────────────────────
+
+export interface AuthUser {
+  username: string;
+  passwordHash: string;
+  role: Role;
+  createdAt: number;
+  updatedAt: number;
+}
+
+interface UsersStore {
+  version: number;
+  users: AuthUser[];
+}
+
+export interface AuthSessionRecord {
+  id: string;
+  tokenHash: string;
+  username: string;
+  createdAt: number;
+  expiresAt: number;
+  lastSeenAt: number;
+  userAgent?: string;
+  ip?: string;
+}
+
+interface SessionsStore {
+  version: number;
+  sessions: AuthSessionRecord[];
+}
+
+/** Session record as exposed to the browser (no token hash). */
+export interface AuthSessionInfo {
+  id: string;
+  username: string;
+  createdAt: number;
+  expiresAt: number;
+  lastSeenAt: number;
+  userAgent?: string;
+  ip?: string;
+  current?: boolean;
+}
+
+export class AuthError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = "AuthError";
+  }
+}
+
+// ─── File helpers ───────────────────────────────────────────
+
+async function readStore<T>(filePath: string, fallback: T): Promise<T> {
+  try {
+    const raw = await fs.readFile(filePath, "utf-8");
+    return (JSON.parse(raw) as T) ?? fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+async function writeStore(filePath: string, value: unknown): Promise<void> {
+  await fs.mkdir(path.dirname(filePath), { recursive: true, mode: 0o700 });
+  const tmpPath = `${filePath}.${randomBytes(8).toString("hex")}.tmp`;
+  await fs.writeFile(tmpPath, JSON.stringify(value, null, 2), { encoding: "utf-8", mode: 0o600 });
+  await fs.rename(tmpPath, filePath);
+}
+
+async function readUsers(): Promise<UsersStore> {
+  const store = await readStore<UsersStore>(USERS_PATH, { version: USERS_VERSION, users: [] });
+  const users = Array.isArray(store.users) ? store.users : [];
+  // Before roles, setup could only create one account, and it ran everything
+  const preRoles =
+    (store.version ?? 1) < USERS_VERSION && users.length === 1 && !Object.hasOwn(users[0] ?? {}, "role");
+  return {
+    // Saved back as the current version, so the migration happens once
+    version: USERS_VERSION,
+    // A missing or unknown role otherwise gets the least access, never admin
+    users: users.map((u) => ({ ...u, role: isRole(u.role) ? u.role : preRoles ? "admin" : "viewer" })),
+  };
+}
+
+async function readSessions(): Promise<SessionsStore> {
+  const store = await readStore<SessionsStore>(SESSIONS_PATH, { version: 1, sessions: [] });
+  return {
+    version: store.version ?? 1,
+    sessions: Array.isArray(store.sessions) ? store.sessions : [],
+  };
+}
+
+// Every change to users.json and sessions.json is read-modify-write, so they
+// take turns: each applies to a fresh read, and a slow one (a lastSeenAt
+// touch) can't write back a copy that predates a logout or revoke. Kept on
+// globalThis so dev-mode module reloads share the queue.
+const globalForAuth = globalThis as unknown as { __authStoreQueue?: Promise<unknown> };
+
+function enqueue<T>(run: () => Promise<T>): Promise<T> {
+  const task = (globalForAuth.__authStoreQueue ?? Promise.resolve()).then(run);
+  globalForAuth.__authStoreQueue = task.catch(() => {});
+  return task;
+}
+
+/**
+ * Read users.json, let `mutate` edit it and write it back; a throw leaves the
+ * file alone. Concurrent calls run one after another.
+ */
+function updateUsers<T>(mutate: (store: UsersStore) => T | Promise<T>): Promise<T> {
+  return enqueue(async () => {
+    const store = await readUsers();
+    const result = await mutate(store);
+    await writeStore(USERS_PATH, store);
+    return result;
+  });
+}
+
+/**
+ * Read sessions.json and let `mutate` work out the change; the `sessions` it
+ * returns, if any, replace the list. Shares updateUsers' queue.
+ */
+function updateSessions<T>(
+  mutate: (store: SessionsStore) => { result: T; sessions?: AuthSessionRecord[] }
+): Promise<T> {
+  return enqueue(async () => {
+    const store = await readSessions();
+    const { result, sessions } = mutate(store);
+    if (sessions) await writeStore(SESSIONS_PATH, { ...store, sessions });
+    return result;
+  });
+}
+
+// ─── Password hashing (scrypt) ──────────────────────────────
+
+const SCRYPT_PARAMS = { N: 16384, r: 8, p: 1 };
+const SCRYPT_KEYLEN = 64;
+
+function scrypt(password: string, salt: Buffer, keylen: number, options: ScryptOptions): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scryptCb(password, salt, keylen, options, (err, key) => (err ? reject(err) : resolve(key)));
+  });
+}
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const key = await scrypt(password, salt, SCRYPT_KEYLEN, SCRYPT_PARAMS);
+  const { N, r, p } = SCRYPT_PARAMS;
+  return `scrypt$${N}$${r}$${p}$${salt.toString("base64url")}$${key.toString("base64url")}`;
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const parts = stored.split("$");
+  if (parts.length !== 6 || parts[0] !== "scrypt") return false;
+  const [, n, r, p, saltB64, keyB64] = parts;
+  const expected = Buffer.from(keyB64, "base64url");
+  const actual = await scrypt(password, Buffer.from(saltB64, "base64url"), expected.length, {
+    N: Number(n),
+    r: Number(r),
+    p: Number(p),
+  });
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+function toSessionInfo(record: AuthSessionRecord): AuthSessionInfo {
+  return {
+    id: record.id,
+    username: record.username,
+    createdAt: record.createdAt,
+    expiresAt: record.expiresAt,
+    lastSeenAt: record.lastSeenAt,
+    userAgent: record.userAgent,
+    ip: record.ip,
+  };
+}
+
+function validateCredentials(username: string, password: string): void {
+  if (!/^[a-zA-Z0-9_.-]{2,40}$/.test(username)) {
+    throw new AuthError("Username must be 2-40 characters (letters, digits, . _ -)");
+  }
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    throw new AuthError(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+  }
+}
+
+// ─── Users ──────────────────────────────────────────────────
+
+export async function hasUsers(): Promise<boolean> {
+  const { users } = await readUsers();
+  return users.length > 0;
+}
+
+/** User record as exposed to the browser (no password hash). */
+export interface AuthUserInfo {
+  username: string;
+  role: Role;
+  createdAt: number;
+  updatedAt: number;
+}
+
+function toUserInfo(user: AuthUser): AuthUserInfo {
+  return {
+    username: user.username,
+    role: user.role,
+    createdAt: user.createdAt,
+    updatedAt: user.updatedAt,
+  };
+}
+
+export async function getUser(username: string): Promise<AuthUserInfo | null> {
+  const { users } = await readUsers();
+  const user = users.find((u) => u.username === username);
+  return user ? toUserInfo(user) : null;
+}
+
+export async function listUsers(): Promise<AuthUserInfo[]> {
+  const { users } = await readUsers();
+  return users.map(toUserInfo).sort((a, b) => a.username.localeCompare(b.username));
+}
+
+export async function createUser(
+  username: string,
+  password: string,
+  role: Role = "viewer"
+): Promise<AuthUser> {
+  validateCredentials(username, password);
+  const passwordHash = await hashPassword(password);
+  return updateUsers((store) => {
+    if (store.users.some((u) => u.username === username)) {
+      throw new AuthError("User already exists", 409);
+    }
+    const now = Date.now();
+    const user: AuthUser = { username, passwordHash, role, createdAt: now, updatedAt: now };
+    store.users.push(user);
+    return user;
+  });
+}
+
+/** Returns the user when the password matches, otherwise null. */
+export async function verifyCredentials(
+  username: string,
+  password: string
+): Promise<AuthUser | null> {
+  const { users } = await readUsers();
+  const user = users.find((u) => u.username === username);
+  if (!user) {
+    // Burn comparable CPU time so unknown usernames are not distinguishable by timing
+    await hashPassword(password);
+    return null;
+  }
+  return (await verifyPassword(password, user.passwordHash)) ? user : null;
+}
+
+export async function changePassword(
+  username: string,
+  currentPassword: string,
+  nextPassword: string
+): Promise<void> {
+  validateCredentials(username, nextPassword);
+  const passwordHash = await hashPassword(nextPassword);
+  await updateUsers(async (store) => {
+    const user = store.users.find((u) => u.username === username);
+    if (!user || !(await verifyPassword(currentPassword, user.passwordHash))) {
+      throw new AuthError("Current password is incorrect", 403);
+    }
+    user.passwordHash = passwordHash;
+    user.updatedAt = Date.now();
+  });
+}
+
+/** Change a user's role. Refuses to demote the last remaining admin. */
+export async function updateUserRole(username: string, role: Role): Promise<AuthUserInfo> {
+  return updateUsers((store) => {
+    const user = store.users.find((u) => u.username === username);
+    if (!user) throw new AuthError("User not found", 404);
+    const admins = store.users.filter((u) => u.role === "admin");
+    if (user.role === "admin" && role !== "admin" && admins.length <= 1) {
+      throw new AuthError("Cannot demote the last admin", 409);
+    }
+    user.role = role;
+    user.updatedAt = Date.now();
+    return toUserInfo(user);
+  });
+}
+
+/** Delete a user and all of their sessions. Refuses to delete the last admin. */
+export async function deleteUser(username: string): Promise<void> {
+  await updateUsers((store) => {
+    const user = store.users.find((u) => u.username === username);
+    if (!user) throw new AuthError("User not found", 404);
+    if (user.role === "admin" && store.users.filter((u) => u.role === "admin").length <= 1) {
+      throw new AuthError("Cannot delete the last admin", 409);
+    }
+    store.users = store.users.filter((u) => u.username !== username);
+  });
+  await revokeUserSessions(username);
+}
+
+// ─── Sessions ───────────────────────────────────────────────
+
+export async function createSession(
+  username: string,
+  meta: { userAgent?: string; ip?: string } = {}
+): Promise<{ token: string; session: AuthSessionInfo }> {
+  const token = randomBytes(32).toString("base64url");
+  const now = Date.now();
+  const record: AuthSessionRecord = {
+    id: randomBytes(8).toString("hex"),
+    tokenHash: hashToken(token),
+    username,
+    createdAt: now,
+    expiresAt: now + SESSION_TTL_MS,
+    lastSeenAt: now,
+    userAgent: meta.userAgent?.slice(0, 200),
+    ip: meta.ip,
+  };
+  await updateSessions((store) => ({
+    result: undefined,
+    // Drop expired sessions opportunistically on every login
+    sessions: [...store.sessions.filter((s) => s.expiresAt > now), record],
+  }));
+  return { token, session: toSessionInfo(record) };
+}
+
+/** Resolve a session cookie value to its session, or null if unknown/expired. */
+export async function getSession(token: string | undefined): Promise<AuthSessionInfo | null> {
+  if (!token) return null;
+  const tokenHash = hashToken(token);
+  const store = await readSessions();
+  const record = store.sessions.find((s) => s.tokenHash === tokenHash);
+  const now = Date.now();
+  if (!record || record.expiresAt <= now) return null;
+
+  if (now - record.lastSeenAt > SESSION_TOUCH_INTERVAL_MS) {
+    record.lastSeenAt = now;
+    // Touch a fresh copy: one revoked since the read above stays revoked
+    await updateSessions((latest) => {
+      const current = latest.sessions.find((s) => s.tokenHash === tokenHash);
+      if (!current) return { result: undefined };
+      current.lastSeenAt = now;
+      return { result: undefined, sessions: latest.sessions };
+    }).catch(() => {
+      // lastSeenAt is informational; never fail the request over it
+    });
+  }
+  return toSessionInfo(record);
+}
+
+export async function listSessions(username?: string): Promise<AuthSessionInfo[]> {
+  const now = Date.now();
+  const { sessions } = await readSessions();
+  return sessions
+    .filter((s) => s.expiresAt > now && (!username || s.username === username))
+    .sort((a, b) => b.lastSeenAt - a.lastSeenAt)
+    .map(toSessionInfo);
+}
+
+export async function revokeSessionByToken(token: string): Promise<void> {
+  const tokenHash = hashToken(token);
+  await updateSessions((store) => {
+    const next = store.sessions.filter((s) => s.tokenHash !== tokenHash);
+    return { result: undefined, sessions: next.length !== store.sessions.length ? next : undefined };
+  });
+}
+
+/** Revoke one session by id. When `username` is given, only that user's sessions match. */
+export async function revokeSession(id: string, username?: string): Promise<boolean> {
+  return updateSessions((store) => {
+    const next = store.sessions.filter(
+      (s) => !(s.id === id && (!username || s.username === username))
+    );
+    if (next.length === store.sessions.length) return { result: false };
+    return { result: true, sessions: next };
+  });
+}
+
+/** Revoke every session of a user, optionally keeping one (e.g. the caller's). */
+export async function revokeUserSessions(username: string, keepId?: string): Promise<number> {
+  return updateSessions((store) => {
+    const next = store.sessions.filter((s) => s.username !== username || s.id === keepId);
+    const removed = store.sessions.length - next.length;
+    return { result: removed, sessions: removed > 0 ? next : undefined };
+  });
+}
+
+// ─── Initial setup ──────────────────────────────────────────
+
+/**
+ * The first account can only be created by someone who already holds a
+ * server secret: COMMAND_CENTER_SETUP_TOKEN, or the gateway token from .env.local.
+ */
+export function checkSetupToken(candidate: string): boolean {
+  const expected = process.env.COMMAND_CENTER_SETUP_TOKEN || process.env.GATEWAY_TOKEN;
+  if (!expected || !candidate) return false;
+  const a = Buffer.from(hashToken(candidate));
+  const b = Buffer.from(hashToken(expected));
+  return timingSafeEqual(a, b);
+}
+
+// ─── Request identity ───────────────────────────────────────
+// src/proxy.ts resolves the session cookie once per request and forwards the
+// result to route handlers in these headers (client-supplied values are stripped).
+
+export const AUTH_USER_HEADER = "x-cc-user";
+export const AUTH_SESSION_HEADER = "x-cc-session";
+export const AUTH_ROLE_HEADER = "x-cc-role";
+
+export interface RequestUser {
+  username: string;
+  sessionId: string;
+  role: Role;
+}
+
+export function getRequestUser(request: Request): RequestUser | null {
+  const username = request.headers.get(AUTH_USER_HEADER);
+  const sessionId = request.headers.get(AUTH_SESSION_HEADER);
+  const role = request.headers.get(AUTH_ROLE_HEADER);
+  if (!username || !sessionId || !isRole(role)) return null;
+  return { username, sessionId, role };
+}
+
+/**
+ * Route-level permission check. Returns a 401/403 response to send back when
+ * the caller may not perform `permission`, or null when the call may proceed.
+ */
+export function requirePermission(request: Request, permission: Permission): NextResponse | null {
+  const user = getRequestUser(request);
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  if (!can(user.role, permission)) {
+    return NextResponse.json(
+      { error: `Forbidden: requires ${permission} (your role: ${user.role})` },
+      { status: 403 }
+    );
+  }
+  return null;
+}
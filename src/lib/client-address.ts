@@ -0,0 +1,66 @@
+import http from "node:http";
+
+// Which address a request came from, for the login throttle and the session
+// list. Route handlers never see the socket, and Next only fills in
+// X-Forwarded-For from it when the client didn't send one, so the header on
+// its own is whatever the client says. captureRemoteAddresses() stamps the
+// socket address on every request before Next reads it; forwarding headers
+// are only believed when that address is one of TRUSTED_PROXIES.
+// Server-only.
+
+export const REMOTE_ADDR_HEADER = "x-cc-remote-addr";
+
+// Comma-separated addresses of reverse proxies in front of the app, e.g. "127.0.0.1,::1"
+const TRUSTED_PROXIES = new Set(
+  (process.env.TRUSTED_PROXIES || "")
+    .split(",")
+    .map((s) => normalizeAddress(s.trim()))
+    .filter(Boolean)
+);
+
+function normalizeAddress(address: string): string {
+  // IPv4 clients of a dual-stack socket show up as ::ffff:1.2.3.4
+  return address.startsWith("::ffff:") ? address.slice(7) : address;
+}
+
+const globalForAddress = globalThis as unknown as { __remoteAddressCapture?: boolean };
+
+/**
+ * Copies each incoming request's socket address into REMOTE_ADDR_HEADER,
+ * overwriting anything the client sent under that name. Call once at server
+ * startup; safe to call again.
+ */
+export function captureRemoteAddresses() {
+  if (globalForAddress.__remoteAddressCapture) return;
+  globalForAddress.__remoteAddressCapture = true;
+  const emit = http.Server.prototype.emit;
+  http.Server.prototype.emit = function (this: http.Server, event: string | symbol, ...args: unknown[]) {
+    if (event === "request") {
+      const req = args[0] as http.IncomingMessage;
+      req.headers[REMOTE_ADDR_HEADER] = req.socket?.remoteAddress ?? "";
+    }
+    return emit.apply(this, [event, ...args] as Parameters<typeof emit>);
+  } as typeof emit;
+}
+
+/**
+ * The client's address: the socket address, or — when the socket belongs to
+ * a trusted proxy — the nearest untrusted hop in X-Forwarded-For (or
+ * X-Real-IP). "unknown" if the socket address wasn't captured.
+ */
+export function clientAddress(request: Request): string {
+  const socket = normalizeAddress(request.headers.get(REMOTE_ADDR_HEADER) || "");
+  if (!socket) return "unknown";
+  if (!TRUSTED_PROXIES.has(socket)) return socket;
+
+  const hops = (request.headers.get("x-forwarded-for") || "")
+    .split(",")
+    .map((s) => normalizeAddress(s.trim()))
+    .filter(Boolean);
+  // Walk back from the hop our proxy added; earlier entries are the client's word
+  for (let i = hops.length - 1; i >= 0; i--) {
+    if (!TRUSTED_PROXIES.has(hops[i])) return hops[i];
+  }
+  const realIp = normalizeAddress(request.headers.get("x-real-ip")?.trim() || "");
+  return realIp || socket;
+}
@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import { nextCronRun, nextCronRuns, parseCron, type CronField } from "@/lib/cron-expr";
+
+const at = (iso: string) => Date.parse(iso);
+const iso = (runs: { atMs: number }[]) => runs.map((r) => new Date(r.atMs).toISOString());
+
+/** Makes `field` count the values the walk looks at. */
+function counting(field: CronField): { looked: number } {
+  const tally = { looked: 0 };
+  const { values } = field;
+  field.values = Object.assign([...values], {
+    *[Symbol.iterator]() {
+      for (const value of values) {
+        tally.looked++;
+        yield value;
+      }
+    },
+  });
+  return tally;
+}
+
+describe("nextCronRuns", () => {
+  it("returns the next minutes of an every-minute schedule", () => {
+    const runs = nextCronRuns("* * * * *", { tz: "UTC", from: at("2026-06-01T10:15:30Z"), count: 3 });
+    expect(iso(runs)).toEqual(["2026-06-01T10:16:00.000Z", "2026-06-01T10:17:00.000Z", "2026-06-01T10:18:00.000Z"]);
+  });
+
+  it("stops as soon as it has enough runs", () => {
+    const cron = parseCron("* * * * *");
+    const minutes = counting(cron.minute);
+    const runs = nextCronRuns(cron, { tz: "Europe/Berlin", from: at("2026-06-01T10:15:30Z"), count: 1 });
+    expect(iso(runs)).toEqual(["2026-06-01T10:16:00.000Z"]);
+    // Hours already past are skipped whole; the walk stops at 10:16
+    expect(minutes.looked).toBe(17);
+  });
+
+  it("doesn't look at the times of days that don't match", () => {
+    const cron = parseCron("0 0 29 2 *");
+    const hours = counting(cron.hour);
+    const runs = nextCronRuns(cron, { tz: "Europe/Berlin", from: at("2026-10-20T00:00:00Z"), count: 1 });
+    expect(iso(runs)).toEqual(["2028-02-28T23:00:00.000Z"]);
+    expect(hours.looked).toBe(1);
+  });
+
+  it("skips to the next matching day, month and year", () => {
+    expect(nextCronRun("0 9 * * 1", { tz: "UTC", from: at("2026-10-20T12:00:00Z") })).toBe(at("2026-10-26T09:00:00Z"));
+    expect(nextCronRun("0 0 1 3 *", { tz: "UTC", from: at("2026-10-20T00:00:00Z") })).toBe(at("2027-03-01T00:00:00Z"));
+    expect(nextCronRun("0 0 29 2 *", { tz: "UTC", from: at("2026-10-20T00:00:00Z") })).toBe(at("2028-02-29T00:00:00Z"));
+    expect(nextCronRuns("0 0 30 2 *", { tz: "UTC", count: 1 })).toEqual([]);
+  });
+
+  it("follows the wall clock of the timezone", () => {
+    const runs = nextCronRuns("0 9 * * *", { tz: "Asia/Kolkata", from: at("2026-06-01T00:00:00Z"), count: 2 });
+    expect(iso(runs)).toEqual(["2026-06-01T03:30:00.000Z", "2026-06-02T03:30:00.000Z"]);
+    expect(runs[0].offsetMinutes).toBe(330);
+  });
+
+  it("shifts a fixed time skipped by spring-forward past the gap", () => {
+    const runs = nextCronRuns("30 2 * * *", { tz: "Europe/Berlin", from: at("2026-03-28T12:00:00Z"), count: 2 });
+    expect(iso(runs)).toEqual(["2026-03-29T01:30:00.000Z", "2026-03-30T00:30:00.000Z"]);
+    expect(runs[0].shifted).toBe(true);
+  });
+
+  it("runs a fixed time repeated by fall-back once, and an hourly job in both copies", () => {
+    const from = at("2026-10-24T22:00:00Z");
+    expect(iso(nextCronRuns("30 2 * * *", { tz: "Europe/Berlin", from, count: 1 }))).toEqual([
+      "2026-10-25T00:30:00.000Z",
+    ]);
+    expect(iso(nextCronRuns("30 * * * *", { tz: "Europe/Berlin", from, count: 4 }))).toEqual([
+      "2026-10-24T22:30:00.000Z",
+      "2026-10-24T23:30:00.000Z",
+      "2026-10-25T00:30:00.000Z",
+      "2026-10-25T01:30:00.000Z",
+    ]);
+  });
+});
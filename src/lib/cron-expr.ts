@@ -0,0 +1,437 @@
+// Five-field cron expressions: parsing, validation, human descriptions and
+// next-run evaluation in any IANA timezone. Shared by the schedule editors and
+// /api/crontab; no Node imports.
+
+// ─── Parsing ─────────────────────────────────────────────────
+
+type FieldName = "minute" | "hour" | "dayOfMonth" | "month" | "dayOfWeek";
+
+interface FieldDef {
+  name: FieldName;
+  label: string;
+  min: number;
+  max: number;
+  names?: readonly string[];
+}
+
+const MONTH_NAMES = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"] as const;
+const DAY_NAMES = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"] as const;
+
+const FIELDS: readonly FieldDef[] = [
+  { name: "minute", label: "minute", min: 0, max: 59 },
+  { name: "hour", label: "hour", min: 0, max: 23 },
+  { name: "dayOfMonth", label: "day of month", min: 1, max: 31 },
+  { name: "month", label: "month", min: 1, max: 12, names: MONTH_NAMES },
+  // 7 is accepted as Sunday and folded to 0
+  { name: "dayOfWeek", label: "day of week", min: 0, max: 7, names: DAY_NAMES },
+];
+
+const MACROS: Record<string, string> = {
+  "@yearly": "0 0 1 1 *",
+  "@annually": "0 0 1 1 *",
+  "@monthly": "0 0 1 * *",
+  "@weekly": "0 0 * * 0",
+  "@daily": "0 0 * * *",
+  "@midnight": "0 0 * * *",
+  "@hourly": "0 * * * *",
+};
+
+export interface CronField {
+  /** Token as written, e.g. "*\/15" or "1-5". */
+  source: string;
+  /** Sorted matching values. */
+  values: number[];
+  /** True for "*" (or a "*\/1" step), i.e. the field doesn't restrict anything. */
+  wildcard: boolean;
+}
+
+export interface ParsedCron {
+  /** The expression as five fields, with macros expanded. */
+  expr: string;
+  minute: CronField;
+  hour: CronField;
+  dayOfMonth: CronField;
+  month: CronField;
+  dayOfWeek: CronField;
+}
+
+export class CronParseError extends Error {
+  constructor(message: string, public field?: FieldName) {
+    super(message);
+    this.name = "CronParseError";
+  }
+}
+
+function parseValue(raw: string, def: FieldDef): number {
+  const lower = raw.toLowerCase();
+  const named = def.names?.indexOf(lower as never) ?? -1;
+  if (named !== -1) return def.name === "month" ? named + 1 : named;
+  if (!/^\d+$/.test(raw)) {
+    throw new CronParseError(`Invalid ${def.label} value "${raw}"`, def.name);
+  }
+  const n = Number(raw);
+  if (n < def.min || n > def.max) {
+    throw new CronParseError(
+      `${def.label[0].toUpperCase()}${def.label.slice(1)} ${n} is out of range (${def.min}-${def.max})`,
+      def.name
+    );
+  }
+  return n;
+}
+
+function parseField(token: string, def: FieldDef): CronField {
+  const values = new Set<number>();
+  let wildcard = false;
+
+  for (const part of token.split(",")) {
+    if (!part) throw new CronParseError(`Empty list item in ${def.label}`, def.name);
+    const [range, stepRaw, extra] = part.split("/");
+    if (extra !== undefined) throw new CronParseError(`Invalid step in ${def.label} "${part}"`, def.name);
+
+    let step = 1;
+    if (stepRaw !== undefined) {
+      if (!/^\d+$/.test(stepRaw) || Number(stepRaw) === 0) {
+        throw new CronParseError(`Invalid step "${stepRaw}" in ${def.label}`, def.name);
+      }
+      step = Number(stepRaw);
+    }
+
+    let start: number;
+    let end: number;
+    if (range === "*") {
+      start = def.min;
+      end = def.name === "dayOfWeek" ? 6 : def.max;
+      if (step === 1) wildcard = true;
+    } else if (range.includes("-")) {
+      const [a, b, more] = range.split("-");
+      if (more !== undefined || !a || !b) {
+        throw new CronParseError(`Invalid range in ${def.label} "${range}"`, def.name);
+      }
+      start = parseValue(a, def);
+      end = parseValue(b, def);
+      if (start > end) {
+        throw new CronParseError(`Range ${range} in ${def.label} runs backwards`, def.name);
+      }
+    } else {
+      start = parseValue(range, def);
+      // "5/15" means "from 5, every 15"
+      end = stepRaw !== undefined ? def.max : start;
+    }
+
+    for (let v = start; v <= end; v += step) {
+      values.add(def.name === "dayOfWeek" && v === 7 ? 0 : v);
+    }
+  }
+
+  return { source: token, values: [...values].sort((a, b) => a - b), wildcard };
+}
+
+/** Parse a five-field expression or macro (@daily etc). Throws CronParseError. */
+export function parseCron(expression: string): ParsedCron {
+  const trimmed = expression.trim();
+  if (!trimmed) throw new CronParseError("Expression is empty");
+
+  let expr = trimmed;
+  if (trimmed.startsWith("@")) {
+    const expanded = MACROS[trimmed.toLowerCase()];
+    if (!expanded) throw new CronParseError(`Unsupported macro ${trimmed}`);
+    expr = expanded;
+  }
+
+  const tokens = expr.split(/\s+/);
+  if (tokens.length !== 5) {
+    throw new CronParseError(`Expected 5 fields (minute hour day month weekday), got ${tokens.length}`);
+  }
+
+  const fields = Object.fromEntries(
+    FIELDS.map((def, i) => [def.name, parseField(tokens[i], def)])
+  ) as Record<FieldName, CronField>;
+
+  return { expr: tokens.join(" "), ...fields };
+}
+
+/** Error message for an invalid expression, or null if it parses. */
+export function validateCron(expression: string): string | null {
+  try {
+    parseCron(expression);
+    return null;
+  } catch (err) {
+    return err instanceof Error ? err.message : String(err);
+  }
+}
+
+// ─── Timezones ───────────────────────────────────────────────
+
+export function isValidTimeZone(tz: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: tz });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Timezone of the current runtime (the browser, or the server for /api/crontab). */
+export function localTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function partsFormatter(tz: string): Intl.DateTimeFormat {
+  let fmt = formatters.get(tz);
+  if (!fmt) {
+    fmt = new Intl.DateTimeFormat("en-US", {
+      timeZone: tz,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+    });
+    formatters.set(tz, fmt);
+  }
+  return fmt;
+}
+
+/** Minutes to add to UTC to get wall-clock time in `tz` at instant `ms`. */
+export function timeZoneOffset(tz: string, ms: number): number {
+  const parts: Record<string, number> = {};
+  for (const p of partsFormatter(tz).formatToParts(new Date(ms))) {
+    if (p.type !== "literal") parts[p.type] = Number(p.value);
+  }
+  const wall = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return Math.round((wall - Math.floor(ms / 1000) * 1000) / 60000);
+}
+
+const HOUR_MS = 3_600_000;
+const DAY_MS = 86_400_000;
+
+/**
+ * Instants for a wall-clock minute in `tz` (wall time given as a UTC epoch).
+ * Usually one; two when the clock falls back over it; none when a
+ * spring-forward skips it, in which case `shifted` is where Temporal's
+ * "compatible" disambiguation would put it (pushed forward by the gap).
+ */
+function wallTimeInstants(tz: string, wall: number): { instants: number[]; shifted?: number } {
+  const before = timeZoneOffset(tz, wall - DAY_MS);
+  const after = timeZoneOffset(tz, wall + DAY_MS);
+  const found = new Set<number>();
+  for (const offset of [before, after]) {
+    const t = wall - offset * 60000;
+    if (timeZoneOffset(tz, t) === offset) found.add(t);
+  }
+  if (found.size === 0) return { instants: [], shifted: wall - before * 60000 };
+  return { instants: [...found].sort((a, b) => a - b) };
+}
+
+// ─── Evaluation ──────────────────────────────────────────────
+
+export interface CronRun {
+  atMs: number;
+  /** UTC offset in `tz` at this run, in minutes. */
+  offsetMinutes: number;
+  /** The run was moved forward because its wall time didn't exist (spring forward). */
+  shifted?: boolean;
+}
+
+export interface NextRunsOptions {
+  /** IANA timezone the expression is evaluated in; defaults to the runtime's. */
+  tz?: string;
+  /** Runs strictly after this instant; defaults to now. */
+  from?: number;
+  count?: number;
+}
+
+// Long enough for "29 Feb on a Monday"-style schedules (28-year cycle)
+const MAX_DAYS = 366 * 28;
+
+function matchesDay(cron: ParsedCron, year: number, month: number, day: number): boolean {
+  if (!cron.month.values.includes(month)) return false;
+  const dom = cron.dayOfMonth.values.includes(day);
+  const dow = cron.dayOfWeek.values.includes(new Date(Date.UTC(year, month - 1, day)).getUTCDay());
+  // Classic cron: when both day fields are restricted, either may match
+  if (!cron.dayOfMonth.wildcard && !cron.dayOfWeek.wildcard) return dom || dow;
+  return dom && dow;
+}
+
+/**
+ * The next `count` fire times of `expression` after `from`, evaluated on the
+ * wall clock of `tz`. Across DST changes, like cron itself: a fixed time
+ * skipped by spring-forward runs once, shifted past the gap, and one repeated
+ * by fall-back runs on its first occurrence only. Jobs with "*" hours simply
+ * skip the missing hour and run in both copies of the repeated one.
+ * Returns fewer runs if the schedule can never fire (e.g. 30 February).
+ *
+ * Days that don't match are skipped without looking at their times, and on
+ * days without a clock change the times are plain arithmetic from one
+ * offset, so the walk stops as soon as `count` runs are found.
+ */
+export function nextCronRuns(expression: string | ParsedCron, options: NextRunsOptions = {}): CronRun[] {
+  const cron = typeof expression === "string" ? parseCron(expression) : expression;
+  const tz = options.tz || localTimeZone();
+  if (!isValidTimeZone(tz)) throw new CronParseError(`Unknown timezone "${tz}"`);
+  const from = options.from ?? Date.now();
+  const count = options.count ?? 10;
+
+  const runs: CronRun[] = [];
+  const seen = new Set<number>();
+
+  // Walk wall-clock days in tz, starting with the day `from` falls on there
+  const startWall = from + timeZoneOffset(tz, from) * 60000;
+  const start = new Date(startWall);
+  let day = Date.UTC(start.getUTCFullYear(), start.getUTCMonth(), start.getUTCDate());
+
+  for (let i = 0; i < MAX_DAYS && runs.length < count; i++, day += DAY_MS) {
+    const date = new Date(day);
+    if (!matchesDay(cron, date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate())) continue;
+
+    // UTC offsets stay within ±14h, so this window holds every instant of the day
+    const offset = timeZoneOffset(tz, day - 14 * HOUR_MS);
+    if (offset === timeZoneOffset(tz, day + DAY_MS + 14 * HOUR_MS)) {
+      for (const hour of cron.hour.values) {
+        const hourStart = day + hour * HOUR_MS - offset * 60000;
+        if (hourStart + HOUR_MS <= from) continue;
+        for (const minute of cron.minute.values) {
+          const atMs = hourStart + minute * 60000;
+          if (atMs <= from || seen.has(atMs)) continue;
+          seen.add(atMs);
+          runs.push({ atMs, offsetMinutes: offset });
+          if (runs.length === count) return runs;
+        }
+      }
+      continue;
+    }
+
+    // A clock change: work out each wall time's instants
+    const today: CronRun[] = [];
+    for (const hour of cron.hour.values) {
+      for (const minute of cron.minute.values) {
+        const wall = day + hour * HOUR_MS + minute * 60000;
+        const { instants, shifted } = wallTimeInstants(tz, wall);
+        const picked = cron.hour.wildcard ? instants : instants.slice(0, 1);
+        const candidates: CronRun[] = picked.map((atMs) => ({ atMs, offsetMinutes: timeZoneOffset(tz, atMs) }));
+        if (shifted !== undefined && !cron.hour.wildcard) {
+          candidates.push({ atMs: shifted, offsetMinutes: timeZoneOffset(tz, shifted), shifted: true });
+        }
+        for (const run of candidates) {
+          if (run.atMs <= from || seen.has(run.atMs)) continue;
+          seen.add(run.atMs);
+          today.push(run);
+        }
+      }
+    }
+    today.sort((a, b) => a.atMs - b.atMs);
+    runs.push(...today.slice(0, count - runs.length));
+  }
+
+  return runs;
+}
+
+/** The next fire time, or null if the expression is invalid or never fires. */
+export function nextCronRun(expression: string, options: Omit<NextRunsOptions, "count"> = {}): number | null {
+  try {
+    return nextCronRuns(expression, { ...options, count: 1 })[0]?.atMs ?? null;
+  } catch {
+    return null;
+  }
+}
+
+// ─── Descriptions ────────────────────────────────────────────
+
+const MONTH_LABELS = [
+  "January", "February", "March", "April", "May", "June",
+  "July", "August", "September", "October", "November", "December",
+];
+const DAY_LABELS = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+function joinList(items: string[]): string {
+  if (items.length <= 1) return items.join("");
+  return `${items.slice(0, -1).join(", ")} and ${items[items.length - 1]}`;
+}
+
+function pad(n: number): string {
+  return String(n).padStart(2, "0");
+}
+
+function ordinal(n: number): string {
+  const rem = n % 100;
+  if (rem >= 11 && rem <= 13) return `${n}th`;
+  return `${n}${["th", "st", "nd", "rd"][n % 10] ?? "th"}`;
+}
+
+/**
+ * Phrases for one field, one per comma-separated part. Numeric fields get
+ * `noun` in front of plain values ("hour 9 through 17"); named fields use
+ * `format` alone ("Monday through Friday").
+ */
+function describeField(field: CronField, def: FieldDef, noun: string, format: (n: number) => string = String): string[] {
+  const prefix = noun ? `${noun} ` : "";
+  if (/^[\d,]+$/.test(field.source)) return [`${prefix}${joinList(field.values.map(format))}`];
+  return field.source.split(",").map((part) => {
+    const [range, stepRaw] = part.split("/");
+    const step = stepRaw ? Number(stepRaw) : 1;
+    const unit = noun || "day";
+    const every = step === 1 ? `every ${unit}` : `every ${ordinal(step)} ${unit}`;
+    if (range === "*") return every;
+    if (range.includes("-")) {
+      const [a, b] = range.split("-").map((v) => parseValue(v, def));
+      const span = `${format(a)} through ${format(b)}`;
+      return step === 1 ? `${prefix}${span}` : `${every} from ${span}`;
+    }
+    const v = parseValue(range, def);
+    return stepRaw ? `${every} from ${format(v)}` : `${prefix}${format(def.name === "dayOfWeek" && v === 7 ? 0 : v)}`;
+  });
+}
+
+/** Plain-English description, e.g. "At 09:00 on Monday through Friday". */
+export function describeParsedCron(cron: ParsedCron): string {
+  const { minute, hour, dayOfMonth, month, dayOfWeek } = cron;
+  const [minDef, hourDef, domDef, monDef, dowDef] = FIELDS;
+  const simpleMinute = /^[\d,]+$/.test(minute.source);
+  const simpleHour = /^[\d,]+$/.test(hour.source);
+
+  let time: string;
+  if (minute.wildcard && hour.wildcard) {
+    time = "Every minute";
+  } else if (/^\*\/\d+$/.test(minute.source) && hour.wildcard) {
+    time = `Every ${minute.source.slice(2)} minutes`;
+  } else if (simpleMinute && hour.wildcard) {
+    time = `Hourly at ${joinList(minute.values.map((m) => `:${pad(m)}`))}`;
+  } else if (simpleMinute && simpleHour && minute.values.length * hour.values.length <= 6) {
+    const times = hour.values.flatMap((h) => minute.values.map((m) => `${pad(h)}:${pad(m)}`));
+    time = `At ${joinList(times)}`;
+  } else {
+    const minutes = joinList(describeField(minute, minDef, "minute"));
+    const hours = hour.wildcard ? "" : ` past ${joinList(describeField(hour, hourDef, "hour"))}`;
+    time = `${minutes.startsWith("every") ? "E" + minutes.slice(1) : `At ${minutes}`}${hours}`;
+  }
+
+  const days: string[] = [];
+  if (!dayOfMonth.wildcard) {
+    days.push(`on ${joinList(describeField(dayOfMonth, domDef, "day"))} of the month`);
+  }
+  if (!dayOfWeek.wildcard) {
+    days.push(`on ${joinList(describeField(dayOfWeek, dowDef, "", (d) => DAY_LABELS[d]))}`);
+  }
+  const months = month.wildcard
+    ? ""
+    : ` in ${joinList(describeField(month, monDef, "", (m) => MONTH_LABELS[m - 1]))}`;
+
+  if (days.length === 0 && !months && /^At \d\d:\d\d$/.test(time)) {
+    return `Daily at ${time.slice(3)}`;
+  }
+  // Both day fields restricted: cron fires when either matches
+  return `${time}${days.length ? ` ${days.join(" or ")}` : ""}${months}`;
+}
+
+/** Description of `expression`, or the expression itself if it doesn't parse. */
+export function describeCron(expression: string): string {
+  try {
+    return describeParsedCron(parseCron(expression));
+  } catch {
+    return expression;
+  }
+}
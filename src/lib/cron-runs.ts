@@ -0,0 +1,174 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+
+// Cron run logs written by the gateway to cron/runs/<jobId>.jsonl: one line
+// per finished run. Server-only; client code imports the types.
+
+const OPENCLAW_ROOT = process.env.OPENCLAW_ROOT || "/home/clawdbot/.openclaw";
+export const CRON_RUNS_DIR = path.join(OPENCLAW_ROOT, "cron", "runs");
+
+export type CronRunStatus = "ok" | "error" | "skipped";
+
+export interface CronRunRecord {
+  jobId: string;
+  startedAtMs: number;
+  finishedAtMs: number;
+  durationMs?: number;
+  status: CronRunStatus;
+  error?: string;
+  summary?: string;
+  /** Session the run used; isolated jobs get a fresh one per run. */
+  sessionId?: string;
+  sessionKey?: string;
+}
+
+export interface CronRunStats {
+  total: number;
+  ok: number;
+  errors: number;
+  skipped: number;
+  /** ok / (ok + errors), 0–1; null until something has run. */
+  successRate: number | null;
+  avgDurationMs: number | null;
+  p50DurationMs: number | null;
+  p95DurationMs: number | null;
+  maxDurationMs: number | null;
+  /** Median duration of the latest runs vs the ones before them. */
+  durationTrend: { direction: "up" | "down" | "flat"; changePct: number } | null;
+  lastRunAtMs: number | null;
+  lastErrorAtMs: number | null;
+  /** Current run of consecutive failures, newest first. */
+  failureStreak: number;
+}
+
+function normaliseStatus(parsed: Record<string, unknown>): CronRunStatus {
+  const status = typeof parsed.status === "string" ? parsed.status.toLowerCase() : "";
+  if (status === "skipped") return "skipped";
+  if (status === "error" || status === "failed" || parsed.success === false || parsed.error) return "error";
+  return "ok";
+}
+
+function str(value: unknown): string | undefined {
+  return typeof value === "string" && value ? value : undefined;
+}
+
+function num(value: unknown): number | undefined {
+  return typeof value === "number" && Number.isFinite(value) ? value : undefined;
+}
+
+/**
+ * One runs-file line as a CronRunRecord, or null for malformed lines and
+ * "started" markers (only finished runs count).
+ */
+export function parseCronRunLine(line: string, fallbackJobId: string): CronRunRecord | null {
+  let parsed: Record<string, unknown>;
+  try {
+    parsed = JSON.parse(line);
+  } catch {
+    return null;
+  }
+  if (!parsed || typeof parsed !== "object") return null;
+  if (parsed.action && parsed.action !== "finished") return null;
+
+  const durationMs = num(parsed.durationMs);
+  const finishedAtMs = num(parsed.ts) ?? num(parsed.timestamp) ?? num(parsed.finishedAtMs);
+  const startedAtMs =
+    num(parsed.runAtMs) ??
+    num(parsed.startedAtMs) ??
+    (finishedAtMs !== undefined && durationMs !== undefined ? finishedAtMs - durationMs : finishedAtMs);
+  if (startedAtMs === undefined) return null;
+
+  return {
+    jobId: str(parsed.jobId) ?? fallbackJobId,
+    startedAtMs,
+    finishedAtMs: finishedAtMs ?? startedAtMs + (durationMs ?? 0),
+    durationMs,
+    status: normaliseStatus(parsed),
+    error: str(parsed.error) ?? str(parsed.lastError),
+    summary: str(parsed.summary) ?? str(parsed.message),
+    sessionId: str(parsed.sessionId),
+    sessionKey: str(parsed.sessionKey),
+  };
+}
+
+/** Job ids are used as file names; refuse anything that could leave the runs dir. */
+export function isSafeJobId(jobId: string): boolean {
+  return /^[\w.-]+$/.test(jobId) && !jobId.startsWith(".");
+}
+
+/** Every finished run of `jobId`, newest first. Empty if it has never run. */
+export async function readCronRuns(jobId: string): Promise<CronRunRecord[]> {
+  if (!isSafeJobId(jobId)) return [];
+  let raw: string;
+  try {
+    raw = await fs.readFile(path.join(CRON_RUNS_DIR, `${jobId}.jsonl`), "utf-8");
+  } catch {
+    return [];
+  }
+  const runs: CronRunRecord[] = [];
+  for (const line of raw.split("\n")) {
+    if (!line.trim()) continue;
+    const run = parseCronRunLine(line, jobId);
+    // Older gateways wrote shared files; keep only this job's lines
+    if (run && run.jobId === jobId) runs.push(run);
+  }
+  return runs.sort((a, b) => b.startedAtMs - a.startedAtMs);
+}
+
+function percentile(sorted: number[], p: number): number {
+  const idx = Math.min(sorted.length - 1, Math.max(0, Math.ceil((p / 100) * sorted.length) - 1));
+  return sorted[idx];
+}
+
+function median(values: number[]): number {
+  return percentile([...values].sort((a, b) => a - b), 50);
+}
+
+// Latest TREND_WINDOW timed runs are compared against the TREND_WINDOW before
+const TREND_WINDOW = 10;
+const TREND_FLAT_PCT = 10;
+
+/** Aggregate stats over runs sorted newest first (as readCronRuns returns them). */
+export function computeCronRunStats(runs: CronRunRecord[]): CronRunStats {
+  const ok = runs.filter((r) => r.status === "ok").length;
+  const errors = runs.filter((r) => r.status === "error").length;
+  const timed = runs.filter((r) => r.status !== "skipped" && r.durationMs !== undefined);
+  const durations = timed.map((r) => r.durationMs!).sort((a, b) => a - b);
+
+  let durationTrend: CronRunStats["durationTrend"] = null;
+  if (timed.length >= 4) {
+    const window = Math.min(TREND_WINDOW, Math.floor(timed.length / 2));
+    const recent = median(timed.slice(0, window).map((r) => r.durationMs!));
+    const before = median(timed.slice(window, window * 2).map((r) => r.durationMs!));
+    const changePct = before > 0 ? Math.round(((recent - before) / before) * 100) : 0;
+    durationTrend = {
+      direction: Math.abs(changePct) < TREND_FLAT_PCT ? "flat" : changePct > 0 ? "up" : "down",
+      changePct,
+    };
+  }
+
+  let failureStreak = 0;
+  for (const run of runs) {
+    if (run.status === "skipped") continue;
+    if (run.status !== "error") break;
+    failureStreak++;
+  }
+
+  return {
+    total: runs.length,
+    ok,
+    errors,
+    skipped: runs.length - ok - errors,
+    successRate: ok + errors > 0 ? ok / (ok + errors) : null,
+    avgDurationMs: durations.length
+      ? Math.round(durations.reduce((sum, d) => sum + d, 0) / durations.length)
+      : null,
+    p50DurationMs: durations.length ? percentile(durations, 50) : null,
+    p95DurationMs: durations.length ? percentile(durations, 95) : null,
+    maxDurationMs: durations.length ? durations[durations.length - 1] : null,
+    durationTrend,
+    lastRunAtMs: runs[0]?.startedAtMs ?? null,
+    lastErrorAtMs: runs.find((r) => r.status === "error")?.startedAtMs ?? null,
+    failureStreak,
+  };
+}
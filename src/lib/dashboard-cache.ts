@@ -3,7 +3,22 @@
 const CACHE_KEY = "cc:dashboard";
 const CACHE_MAX_AGE_MS = 5 * 60 * 1000; // stale data shown for max 5 min
 
+/** One agent on the dashboard's cross-agent overview. */
+export interface AgentOverview {
+  id: string;
+  name: string;
+  emoji: string;
+  isDefault: boolean;
+  sessions: { total: number; active: number; tokens: number };
+  cronJobs: number;
+  /** Jobs whose last run failed. */
+  cronErrors: number;
+}
+
 export interface DashboardData {
+  /** The agent the rest of the data is about. */
+  agentId: string;
+  agents: AgentOverview[];
   health: { connected: boolean; uptime?: number };
   cronJobs: Array<Record<string, unknown>>;
   heartbeat: Record<string, unknown> | null;
@@ -59,3 +74,13 @@ export function writeDashboardCache(data: DashboardData): void {
     // localStorage full or unavailable
   }
 }
+
+/** Drop cached dashboard data, e.g. when it belongs to another agent. */
+export function clearDashboardCache(): void {
+  if (typeof window === "undefined") return;
+  try {
+    window.localStorage.removeItem(CACHE_KEY);
+  } catch {
+    // localStorage unavailable
+  }
+}
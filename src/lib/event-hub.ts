@@ -0,0 +1,89 @@
+import type { LiveEvent, LiveTopic } from "@/lib/live-events";
+
+// In-process fan-out for live events: a bounded replay buffer plus the set of
+// open SSE streams. Server-only.
+
+const BUFFER_SIZE = 500;
+
+type Listener = (evt: LiveEvent) => void;
+
+interface Hub {
+  /** Identifies this process's sequence; a client holding another epoch must resync. */
+  epoch: string;
+  nextId: number;
+  buffer: LiveEvent[];
+  listeners: Set<Listener>;
+  lastEventAt: Partial<Record<LiveTopic, number>>;
+}
+
+// Kept on globalThis so dev-mode module reloads share one hub
+const globalForHub = globalThis as unknown as { __liveEventHub?: Hub };
+
+function hub(): Hub {
+  if (!globalForHub.__liveEventHub) {
+    globalForHub.__liveEventHub = {
+      epoch: Date.now().toString(36),
+      nextId: 1,
+      buffer: [],
+      listeners: new Set(),
+      lastEventAt: {},
+    };
+  }
+  return globalForHub.__liveEventHub;
+}
+
+export function publishLiveEvent(
+  topic: LiveTopic,
+  event: string,
+  payload?: unknown,
+  gatewaySeq?: number
+): LiveEvent {
+  const h = hub();
+  const evt: LiveEvent = { id: h.nextId++, topic, event, payload, gatewaySeq, ts: Date.now() };
+  h.buffer.push(evt);
+  if (h.buffer.length > BUFFER_SIZE) h.buffer.shift();
+  h.lastEventAt[topic] = evt.ts;
+  for (const listener of h.listeners) {
+    try {
+      listener(evt);
+    } catch (err) {
+      console.error("Live event listener error:", err);
+    }
+  }
+  return evt;
+}
+
+export function subscribeLiveEvents(listener: Listener): () => void {
+  const h = hub();
+  h.listeners.add(listener);
+  return () => {
+    h.listeners.delete(listener);
+  };
+}
+
+export function liveEventEpoch(): string {
+  return hub().epoch;
+}
+
+/**
+ * Buffered events after `lastId` of `epoch`. `gap` is true when some of them
+ * have already been dropped from the buffer or the id is from another server
+ * process, so the client should refetch instead of trusting the replay.
+ */
+export function liveEventsSince(
+  epoch: string,
+  lastId: number
+): { events: LiveEvent[]; gap: boolean } {
+  const h = hub();
+  if (epoch !== h.epoch || lastId >= h.nextId) {
+    return { events: [], gap: true };
+  }
+  const oldest = h.buffer[0]?.id ?? h.nextId;
+  return { events: h.buffer.filter((e) => e.id > lastId), gap: lastId + 1 < oldest };
+}
+
+/** When the last event for any of `topics` arrived (0 if never). */
+export function lastLiveEventAt(topics: LiveTopic[]): number {
+  const h = hub();
+  return Math.max(0, ...topics.map((t) => h.lastEventAt[t] ?? 0));
+}
@@ -0,0 +1,124 @@
+import type fs from "node:fs/promises";
+
+// Reading a text file a line at a time from any byte offset, backwards or
+// forwards, a chunk at a time. Lines are identified by the byte offset they
+// start at, which is what paging cursors hold. Shared by session transcripts
+// and the log tail viewer. Server-only.
+
+const CHUNK_BYTES = 64 * 1024;
+/** Lines longer than this (huge tool output) are cut to their start. */
+const MAX_LINE_BYTES = 2 * 1024 * 1024;
+
+export interface RawLine {
+  offset: number;
+  end: number;
+  text: string;
+}
+
+/**
+ * Bytes of the line being assembled, capped at MAX_LINE_BYTES: past the cap
+ * only the line's start is kept, which is all that gets shown of it.
+ */
+class LineBuffer {
+  private parts: Buffer[] = [];
+  private bytes = 0;
+
+  append(part: Buffer) {
+    const room = MAX_LINE_BYTES - this.bytes;
+    if (room <= 0 || part.length === 0) return;
+    const kept = part.length > room ? part.subarray(0, room) : part;
+    this.parts.push(kept);
+    this.bytes += kept.length;
+  }
+
+  /** Reading backwards, parts arrive right to left; drop from the right instead. */
+  prepend(part: Buffer) {
+    if (part.length === 0) return;
+    this.parts.unshift(part);
+    this.bytes += part.length;
+    while (this.bytes > MAX_LINE_BYTES) {
+      const last = this.parts[this.parts.length - 1];
+      const excess = this.bytes - MAX_LINE_BYTES;
+      if (last.length <= excess) {
+        this.parts.pop();
+        this.bytes -= last.length;
+      } else {
+        this.parts[this.parts.length - 1] = last.subarray(0, last.length - excess);
+        this.bytes -= excess;
+      }
+    }
+  }
+
+  take(offset: number, end: number): RawLine | null {
+    const text = Buffer.concat(this.parts).toString("utf-8").replace(/\r$/, "");
+    this.parts = [];
+    this.bytes = 0;
+    return text.trim() ? { offset, end, text } : null;
+  }
+}
+
+/** Up to `limit` complete lines ending at byte `before`, oldest first. */
+export async function readLinesBefore(handle: fs.FileHandle, before: number, limit: number): Promise<RawLine[]> {
+  const lines: RawLine[] = [];
+  const current = new LineBuffer();
+  let pos = before;
+  // Offset of the newline (or end) closing the line being assembled
+  let lineEnd = before;
+
+  while (pos > 0 && lines.length < limit) {
+    const size = Math.min(CHUNK_BYTES, pos);
+    pos -= size;
+    const chunk = Buffer.alloc(size);
+    await handle.read(chunk, 0, size, pos);
+
+    let to = size;
+    let nl = chunk.lastIndexOf(0x0a, to - 1);
+    while (nl !== -1 && lines.length < limit) {
+      current.prepend(chunk.subarray(nl + 1, to));
+      const line = current.take(pos + nl + 1, lineEnd);
+      if (line) lines.push(line);
+      lineEnd = pos + nl;
+      to = nl;
+      nl = to > 0 ? chunk.lastIndexOf(0x0a, to - 1) : -1;
+    }
+    if (lines.length < limit) current.prepend(chunk.subarray(0, to));
+  }
+  if (pos === 0 && lines.length < limit) {
+    const line = current.take(0, lineEnd);
+    if (line) lines.push(line);
+  }
+  return lines.reverse();
+}
+
+/** Up to `limit` complete lines starting at byte `after` (a line start). */
+export async function readLinesAfter(handle: fs.FileHandle, after: number, size: number, limit: number): Promise<RawLine[]> {
+  const lines: RawLine[] = [];
+  const current = new LineBuffer();
+  let pos = after;
+  let lineStart = after;
+
+  while (pos < size && lines.length < limit) {
+    const len = Math.min(CHUNK_BYTES, size - pos);
+    const chunk = Buffer.alloc(len);
+    await handle.read(chunk, 0, len, pos);
+
+    let from = 0;
+    let nl = chunk.indexOf(0x0a);
+    while (nl !== -1 && lines.length < limit) {
+      current.append(chunk.subarray(from, nl));
+      const line = current.take(lineStart, pos + nl);
+      if (line) lines.push(line);
+      from = nl + 1;
+      lineStart = pos + from;
+      nl = chunk.indexOf(0x0a, from);
+    }
+    if (lines.length < limit) current.append(chunk.subarray(from));
+    pos += len;
+  }
+  // The file's last line may have no trailing newline
+  if (pos >= size && lines.length < limit) {
+    const line = current.take(lineStart, size);
+    if (line) lines.push(line);
+  }
+  return lines;
+}
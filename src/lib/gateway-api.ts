@@ -2,82 +2,42 @@
 
 // Gateway API client - calls server-side proxy instead of direct WebSocket
 
-export interface CronJob {
-  id: string;
-  agentId?: string;
-  name: string;
-  enabled: boolean;
-  createdAtMs?: number;
-  updatedAtMs?: number;
-  schedule: {
-    kind: "cron" | "every" | "at";
-    expr?: string;
-    tz?: string;
-    everyMs?: number;
-    atMs?: number;
-  };
-  sessionTarget: "main" | "isolated";
-  wakeMode: "now" | "next-heartbeat";
-  payload: {
-    kind: "systemEvent" | "agentTurn";
-    text?: string;
-    message?: string;
-  };
-  state?: {
-    nextRunAtMs?: number;
-    lastRunAtMs?: number;
-    lastStatus?: string;
-    lastDurationMs?: number;
-    runCount?: number;
-    lastError?: string;
-  };
-}
-
-export interface CronStatus {
-  enabled: boolean;
-  jobs: number;
-  nextWakeAtMs?: number;
-}
-
-export interface HeartbeatEvent {
-  ts?: number;
-  text?: string;
-  source?: string;
-}
-
-export interface SkillStatusEntry {
-  skillKey: string;
-  name: string;
-  description: string;
-  emoji?: string;
-  source: string;
-  eligible: boolean;
-  disabled: boolean;
-  blockedByAllowlist?: boolean;
-  always?: boolean;
-  requirements?: {
-    bins?: string[];
-    anyBins?: string[];
-    env?: string[];
-    config?: string[];
-    os?: string[];
-  };
-  missing?: {
-    bins?: string[];
-    anyBins?: string[];
-    env?: string[];
-    config?: string[];
-    os?: string[];
-  };
-}
-
-export interface SkillStatusReport {
-  workspaceDir?: string;
-  managedSkillsDir?: string;
-  skills: SkillStatusEntry[];
-}
-
-async function gatewayCall<T>(method: string, params: unknown = {}): Promise<T> {
+import type {
+  CronCreateParams,
+  CronJob,
+  CronJobPatch,
+  CronStatus,
+  DeviceListResponse,
+  GatewayMethod,
+  GatewayParams,
+  GatewayResult,
+  HeartbeatEvent,
+  SessionHistoryEntry,
+  SessionListEntry,
+  SessionStatus,
+  SkillStatusReport,
+} from "@/lib/gateway-methods";
+
+export type {
+  CronCreateParams,
+  CronJob,
+  CronJobPatch,
+  CronStatus,
+  DeviceListResponse,
+  DevicePairingPendingRequest,
+  HeartbeatEvent,
+  PairedDevice,
+  SessionHistoryEntry,
+  SessionListEntry,
+  SessionStatus,
+  SkillStatusEntry,
+  SkillStatusReport,
+} from "@/lib/gateway-methods";
+
+async function gatewayCall<M extends GatewayMethod>(
+  method: M,
+  params: GatewayParams<M>
+): Promise<GatewayResult<M>> {
   const res = await fetch("/api/gateway", {
     method: "POST",
     headers: { "Content-Type": "application/json" },
@@ -90,16 +50,16 @@ async function gatewayCall<T>(method: string, params: unknown = {}): Promise<T>
     throw new Error(data.error || "Gateway request failed");
   }
   
-  return data.data as T;
+  return data.data as GatewayResult<M>;
 }
 
 export async function getCronJobs(): Promise<CronJob[]> {
-  const result = await gatewayCall<{ jobs: CronJob[] }>("cron.list", { includeDisabled: true });
+  const result = await gatewayCall("cron.list", { includeDisabled: true });
   return result.jobs || [];
 }
 
 export async function getCronStatus(): Promise<CronStatus> {
-  return gatewayCall<CronStatus>("cron.status", {});
+  return gatewayCall("cron.status", {});
 }
 
 export async function runCronJob(jobId: string): Promise<void> {
@@ -107,12 +67,16 @@ export async function runCronJob(jobId: string): Promise<void> {
 }
 
 export async function toggleCronJob(jobId: string, enabled: boolean): Promise<void> {
-  await gatewayCall("cron.update", { id: jobId, patch: { enabled } });
+  await updateCronJob(jobId, { enabled });
+}
+
+export async function updateCronJob(jobId: string, patch: CronJobPatch): Promise<CronJob> {
+  return gatewayCall("cron.update", { id: jobId, patch });
 }
 
 export async function getLastHeartbeat(): Promise<HeartbeatEvent | null> {
   try {
-    return await gatewayCall<HeartbeatEvent>("last-heartbeat", {});
+    return await gatewayCall("last-heartbeat", {});
   } catch {
     return null;
   }
@@ -120,7 +84,7 @@ export async function getLastHeartbeat(): Promise<HeartbeatEvent | null> {
 
 export async function getSkillsStatus(): Promise<SkillStatusReport | null> {
   try {
-    return await gatewayCall<SkillStatusReport>("skills.status", {});
+    return await gatewayCall("skills.status", {});
   } catch {
     return null;
   }
@@ -130,7 +94,7 @@ export async function getGatewayHealth(): Promise<{ connected: boolean; uptime?:
   try {
     // Single call -- the server-side cache means this is fast on repeat calls.
     // system-presence is lightweight; the server route handles fallback internally.
-    const result = await gatewayCall<{ uptime?: number }>("system-presence", {});
+    const result = await gatewayCall("system-presence", {});
     return { connected: true, uptime: result?.uptime };
   } catch {
     return { connected: false };
@@ -139,17 +103,8 @@ export async function getGatewayHealth(): Promise<{ connected: boolean; uptime?:
 
 // ─── Cron CRUD ───────────────────────────────────────────────
 
-export interface CronCreateParams {
-  name: string;
-  schedule: CronJob["schedule"];
-  payload: CronJob["payload"];
-  sessionTarget?: "main" | "isolated";
-  wakeMode?: "now" | "next-heartbeat";
-  enabled?: boolean;
-}
-
 export async function createCronJob(params: CronCreateParams): Promise<CronJob> {
-  return gatewayCall<CronJob>("cron.create", params);
+  return gatewayCall("cron.create", params);
 }
 
 export async function deleteCronJob(jobId: string): Promise<void> {
@@ -176,38 +131,8 @@ export async function installSkill(skillKey: string): Promise<void> {
 
 // ─── Device management ───────────────────────────────────────
 
-export interface DevicePairingPendingRequest {
-  requestId: string;
-  deviceId: string;
-  publicKey?: string;
-  displayName?: string;
-  platform?: string;
-  clientId?: string;
-  clientMode?: string;
-  role?: string;
-  ts?: number;
-}
-
-export interface PairedDevice {
-  deviceId: string;
-  publicKey?: string;
-  displayName?: string;
-  platform?: string;
-  clientId?: string;
-  clientMode?: string;
-  role?: string;
-  createdAtMs?: number;
-  approvedAtMs?: number;
-  tokens?: Record<string, { role: string; scopes: string[]; createdAtMs: number }>;
-}
-
-export interface DeviceListResponse {
-  pending: DevicePairingPendingRequest[];
-  paired: PairedDevice[];
-}
-
 export async function listDevices(): Promise<DeviceListResponse> {
-  return gatewayCall<DeviceListResponse>("device.pair.list", {});
+  return gatewayCall("device.pair.list", {});
 }
 
 export async function approveDevice(requestId: string): Promise<void> {
@@ -224,36 +149,9 @@ export async function revokeDeviceToken(deviceId: string, role = "operator"): Pr
 
 // ─── Session management ──────────────────────────────────────
 
-export interface SessionListEntry {
-  key: string;
-  type: string;
-  model?: string;
-  tokenCount?: number;
-  turnCount?: number;
-  updatedAt?: number;
-  createdAt?: number;
-  active?: boolean;
-}
-
-export interface SessionStatus {
-  key: string;
-  active: boolean;
-  model?: string;
-  tokenCount?: number;
-  turnCount?: number;
-  updatedAt?: number;
-}
-
-export interface SessionHistoryEntry {
-  role: string;
-  content?: string;
-  ts?: number;
-  tokenCount?: number;
-}
-
 export async function listSessions(): Promise<SessionListEntry[]> {
   try {
-    return await gatewayCall<SessionListEntry[]>("sessions_list", {});
+    return await gatewayCall("sessions_list", {});
   } catch {
     // Gateway method may not be available, fall back to API route
     const res = await fetch("/api/sessions");
@@ -264,7 +162,7 @@ export async function listSessions(): Promise<SessionListEntry[]> {
 
 export async function getSessionStatus(sessionId: string): Promise<SessionStatus | null> {
   try {
-    return await gatewayCall<SessionStatus>("session_status", { sessionId });
+    return await gatewayCall("session_status", { sessionId });
   } catch {
     return null;
   }
@@ -275,7 +173,7 @@ export async function getSessionHistory(
   limit = 20
 ): Promise<SessionHistoryEntry[]> {
   try {
-    return await gatewayCall<SessionHistoryEntry[]>("sessions_history", {
+    return await gatewayCall("sessions_history", {
       sessionId,
       limit,
     });
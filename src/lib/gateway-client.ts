@@ -1,4 +1,5 @@
-"use client";
+// Protocol-3 gateway client. Runtime-neutral: the browser uses the global
+// WebSocket, the server passes the `ws` implementation via `webSocket`.
 
 export type GatewayEventFrame = {
   type: "event";
@@ -33,11 +34,53 @@ export type GatewayHelloOk = {
 type Pending = {
   resolve: (value: unknown) => void;
   reject: (err: unknown) => void;
+  timer?: ReturnType<typeof setTimeout>;
 };
 
+/** Minimal WebSocket surface shared by the DOM and `ws` implementations. */
+export interface GatewaySocket {
+  readonly readyState: number;
+  send(data: string): void;
+  close(code?: number, reason?: string): void;
+  addEventListener(type: "open", listener: () => void): void;
+  addEventListener(type: "message", listener: (ev: { data: unknown }) => void): void;
+  addEventListener(type: "close", listener: (ev: { code: number; reason: unknown }) => void): void;
+  addEventListener(type: "error", listener: () => void): void;
+}
+
+export type GatewaySocketConstructor = new (url: string) => GatewaySocket;
+
+const SOCKET_OPEN = 1;
+
+/** The gateway answered the request with ok: false. */
+export class GatewayResponseError extends Error {
+  constructor(
+    message: string,
+    public code?: string,
+    public details?: unknown
+  ) {
+    super(message);
+    this.name = "GatewayResponseError";
+  }
+}
+
+/** The request was never sent: nothing is connected to the gateway. */
+export class GatewayUnavailableError extends Error {
+  constructor(message = "gateway not connected") {
+    super(message);
+    this.name = "GatewayUnavailableError";
+  }
+}
+
 export type GatewayClientOptions = {
   url: string;
   token?: string;
+  /** WebSocket implementation; defaults to the global one. */
+  webSocket?: GatewaySocketConstructor;
+  /** Reported in the connect frame. */
+  platform?: string;
+  /** Reject requests that get no response within this time. */
+  requestTimeoutMs?: number;
   onHello?: (hello: GatewayHelloOk) => void;
   onEvent?: (evt: GatewayEventFrame) => void;
   onClose?: (info: { code: number; reason: string }) => void;
@@ -59,12 +102,13 @@ function generateUUID(): string {
 }
 
 export class GatewayClient {
-  private ws: WebSocket | null = null;
+  private ws: GatewaySocket | null = null;
   private pending = new Map<string, Pending>();
   private closed = false;
   private connectSent = false;
   private backoffMs = 800;
   private helloReceived = false;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
 
   constructor(private opts: GatewayClientOptions) {}
 
@@ -75,33 +119,39 @@ export class GatewayClient {
 
   stop() {
     this.closed = true;
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+    this.reconnectTimer = null;
     this.ws?.close();
     this.ws = null;
     this.flushPending(new Error("gateway client stopped"));
   }
 
   get connected() {
-    return this.ws?.readyState === WebSocket.OPEN && this.helloReceived;
+    return this.ws?.readyState === SOCKET_OPEN && this.helloReceived;
   }
 
   private connect() {
     if (this.closed) return;
 
-    this.ws = new WebSocket(this.opts.url);
+    const Socket = this.opts.webSocket ?? (WebSocket as unknown as GatewaySocketConstructor);
+    const ws = new Socket(this.opts.url);
+    this.ws = ws;
     this.connectSent = false;
     this.helloReceived = false;
 
-    this.ws.addEventListener("open", () => {
+    ws.addEventListener("open", () => {
       // Send connect frame after a short delay (like OpenClaw does)
       setTimeout(() => this.sendConnect(), 100);
     });
 
-    this.ws.addEventListener("message", (ev) => {
+    ws.addEventListener("message", (ev) => {
       this.handleMessage(String(ev.data ?? ""));
     });
 
-    this.ws.addEventListener("close", (ev) => {
+    ws.addEventListener("close", (ev) => {
       const reason = String(ev.reason ?? "");
+      // A stale socket closing after stop()/start() must not touch the new one
+      if (this.ws !== ws) return;
       this.ws = null;
       this.helloReceived = false;
       this.flushPending(new Error(`gateway closed (${ev.code}): ${reason}`));
@@ -110,7 +160,7 @@ export class GatewayClient {
       this.scheduleReconnect();
     });
 
-    this.ws.addEventListener("error", () => {
+    ws.addEventListener("error", () => {
       // ignored; close handler will fire
     });
   }
@@ -119,11 +169,15 @@ export class GatewayClient {
     if (this.closed) return;
     const delay = this.backoffMs;
     this.backoffMs = Math.min(this.backoffMs * 1.7, 15_000);
-    setTimeout(() => this.connect(), delay);
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connect();
+    }, delay);
   }
 
   private flushPending(err: Error) {
     for (const [, p] of this.pending) {
+      if (p.timer) clearTimeout(p.timer);
       p.reject(err);
     }
     this.pending.clear();
@@ -139,7 +193,8 @@ export class GatewayClient {
       client: {
         id: "command-center",
         version: "1.0.0",
-        platform: typeof navigator !== "undefined" ? navigator.platform : "web",
+        platform:
+          this.opts.platform ?? (typeof navigator !== "undefined" ? navigator.platform : "web"),
         mode: "command-center",
       },
       role: "operator",
@@ -182,23 +237,38 @@ export class GatewayClient {
       if (!pending) return;
 
       this.pending.delete(res.id);
+      if (pending.timer) clearTimeout(pending.timer);
       if (res.ok) {
         pending.resolve(res.payload);
       } else {
-        pending.reject(new Error(res.error?.message ?? "request failed"));
+        pending.reject(
+          new GatewayResponseError(
+            res.error?.message ?? "request failed",
+            res.error?.code,
+            res.error?.details
+          )
+        );
       }
       return;
     }
   }
 
   request<T = unknown>(method: string, params?: unknown): Promise<T> {
-    if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
-      return Promise.reject(new Error("gateway not connected"));
+    if (!this.ws || this.ws.readyState !== SOCKET_OPEN) {
+      return Promise.reject(new GatewayUnavailableError());
     }
     const id = generateUUID();
     const frame = { type: "req", id, method, params };
+    const timeoutMs = this.opts.requestTimeoutMs;
     const p = new Promise<T>((resolve, reject) => {
-      this.pending.set(id, { resolve: (v) => resolve(v as T), reject });
+      const entry: Pending = { resolve: (v) => resolve(v as T), reject };
+      if (timeoutMs) {
+        entry.timer = setTimeout(() => {
+          this.pending.delete(id);
+          reject(new Error(`gateway request ${method} timed out after ${timeoutMs}ms`));
+        }, timeoutMs);
+      }
+      this.pending.set(id, entry);
     });
     this.ws.send(JSON.stringify(frame));
     return p;
@@ -0,0 +1,92 @@
+import { describe, expect, it } from "vitest";
+import { GatewayCallError, validateGatewayCall } from "@/lib/gateway-methods";
+
+const job = {
+  name: "Morning brief",
+  schedule: { kind: "cron", expr: "0 7 * * *", tz: "Europe/Berlin" },
+  payload: { kind: "agentTurn", message: "Summarise the news" },
+};
+
+function rejection(method: string, params: unknown): string {
+  try {
+    validateGatewayCall(method, params);
+  } catch (error) {
+    expect(error).toBeInstanceOf(GatewayCallError);
+    return (error as Error).message;
+  }
+  throw new Error(`${method} was accepted`);
+}
+
+describe("validateGatewayCall: cron.create", () => {
+  it("accepts each schedule and payload kind", () => {
+    for (const schedule of [
+      job.schedule,
+      { kind: "every", everyMs: 1_800_000 },
+      { kind: "at", atMs: Date.parse("2026-01-01T09:00:00Z") },
+    ]) {
+      for (const payload of [job.payload, { kind: "systemEvent", text: "tick" }]) {
+        expect(() => validateGatewayCall("cron.create", { ...job, schedule, payload })).not.toThrow();
+      }
+    }
+  });
+
+  it("rejects unknown kinds", () => {
+    expect(rejection("cron.create", { ...job, schedule: { kind: "hourly" } })).toBe(
+      'cron.create: param "schedule.kind" must be one of cron, every, at'
+    );
+    expect(rejection("cron.create", { ...job, payload: { kind: "shell", text: "rm -rf /" } })).toBe(
+      'cron.create: param "payload.kind" must be one of systemEvent, agentTurn'
+    );
+  });
+
+  it("rejects missing kinds and wrongly typed fields", () => {
+    expect(rejection("cron.create", { ...job, schedule: { expr: "* * * * *" } })).toBe(
+      'cron.create: missing param "schedule.kind"'
+    );
+    expect(rejection("cron.create", { ...job, schedule: { kind: "every", everyMs: "60000" } })).toBe(
+      'cron.create: param "schedule.everyMs" must be number, got string'
+    );
+    expect(rejection("cron.create", { ...job, payload: { kind: "agentTurn", message: ["hi"] } })).toBe(
+      'cron.create: param "payload.message" must be string, got array'
+    );
+    expect(rejection("cron.create", { ...job, schedule: "0 7 * * *" })).toBe(
+      'cron.create: param "schedule" must be object, got string'
+    );
+  });
+
+  it("rejects unknown keys inside schedule and payload", () => {
+    expect(rejection("cron.create", { ...job, schedule: { ...job.schedule, command: "id" } })).toBe(
+      'cron.create: unknown param "schedule.command"'
+    );
+    expect(rejection("cron.create", { ...job, payload: { ...job.payload, model: "x" } })).toBe(
+      'cron.create: unknown param "payload.model"'
+    );
+  });
+});
+
+describe("validateGatewayCall: cron.update", () => {
+  it("accepts a partial patch", () => {
+    expect(() => validateGatewayCall("cron.update", { id: "job-1", patch: { enabled: false } })).not.toThrow();
+    expect(() =>
+      validateGatewayCall("cron.update", { id: "job-1", patch: { schedule: { kind: "every", everyMs: 60_000 } } })
+    ).not.toThrow();
+  });
+
+  it("checks the patch at every level", () => {
+    expect(rejection("cron.update", { id: "job-1", patch: { state: { runCount: 0 } } })).toBe(
+      'cron.update: unknown param "patch.state"'
+    );
+    expect(rejection("cron.update", { id: "job-1", patch: { schedule: { kind: "sometimes" } } })).toBe(
+      'cron.update: param "patch.schedule.kind" must be one of cron, every, at'
+    );
+    expect(rejection("cron.update", { id: "job-1", patch: { payload: { kind: "agentTurn", extra: 1 } } })).toBe(
+      'cron.update: unknown param "patch.payload.extra"'
+    );
+    expect(rejection("cron.update", { id: "job-1", patch: { wakeMode: "later" } })).toBe(
+      'cron.update: param "patch.wakeMode" must be one of now, next-heartbeat'
+    );
+    expect(rejection("cron.update", { id: "job-1", patch: { enabled: "yes" } })).toBe(
+      'cron.update: param "patch.enabled" must be boolean, got string'
+    );
+  });
+});
@@ -0,0 +1,457 @@
+// Registry of gateway methods the command center may call through
+// /api/gateway. Shared by the server (allowlist, param validation,
+// permissions, caching) and the client (typed gatewayCall). Keep this file
+// free of Node imports.
+
+import type { LiveTopic } from "@/lib/live-events";
+import type { Permission } from "@/lib/permissions";
+
+// ─── Response types ──────────────────────────────────────────
+
+export interface CronJob {
+  id: string;
+  agentId?: string;
+  name: string;
+  enabled: boolean;
+  createdAtMs?: number;
+  updatedAtMs?: number;
+  schedule: {
+    kind: "cron" | "every" | "at";
+    expr?: string;
+    tz?: string;
+    everyMs?: number;
+    atMs?: number;
+  };
+  sessionTarget: "main" | "isolated";
+  wakeMode: "now" | "next-heartbeat";
+  payload: {
+    kind: "systemEvent" | "agentTurn";
+    text?: string;
+    message?: string;
+  };
+  state?: {
+    nextRunAtMs?: number;
+    lastRunAtMs?: number;
+    lastStatus?: string;
+    lastDurationMs?: number;
+    runCount?: number;
+    lastError?: string;
+  };
+}
+
+export interface CronStatus {
+  enabled: boolean;
+  jobs: number;
+  nextWakeAtMs?: number;
+}
+
+export interface CronCreateParams {
+  name: string;
+  schedule: CronJob["schedule"];
+  payload: CronJob["payload"];
+  sessionTarget?: "main" | "isolated";
+  wakeMode?: "now" | "next-heartbeat";
+  enabled?: boolean;
+  /** Agent the job runs as; omitted for the default agent. */
+  agentId?: string;
+}
+
+/** Fields `cron.update` can change; omitted fields are left as they are. */
+export type CronJobPatch = Partial<
+  Pick<CronJob, "name" | "enabled" | "schedule" | "payload" | "sessionTarget" | "wakeMode">
+>;
+
+export interface HeartbeatEvent {
+  ts?: number;
+  text?: string;
+  source?: string;
+}
+
+export interface SkillStatusEntry {
+  skillKey: string;
+  name: string;
+  description: string;
+  emoji?: string;
+  source: string;
+  eligible: boolean;
+  disabled: boolean;
+  blockedByAllowlist?: boolean;
+  always?: boolean;
+  requirements?: {
+    bins?: string[];
+    anyBins?: string[];
+    env?: string[];
+    config?: string[];
+    os?: string[];
+  };
+  missing?: {
+    bins?: string[];
+    anyBins?: string[];
+    env?: string[];
+    config?: string[];
+    os?: string[];
+  };
+}
+
+export interface SkillStatusReport {
+  workspaceDir?: string;
+  managedSkillsDir?: string;
+  skills: SkillStatusEntry[];
+}
+
+export interface DevicePairingPendingRequest {
+  requestId: string;
+  deviceId: string;
+  publicKey?: string;
+  displayName?: string;
+  platform?: string;
+  clientId?: string;
+  clientMode?: string;
+  role?: string;
+  ts?: number;
+}
+
+export interface PairedDevice {
+  deviceId: string;
+  publicKey?: string;
+  displayName?: string;
+  platform?: string;
+  clientId?: string;
+  clientMode?: string;
+  role?: string;
+  createdAtMs?: number;
+  approvedAtMs?: number;
+  tokens?: Record<string, { role: string; scopes: string[]; createdAtMs: number }>;
+}
+
+export interface DeviceListResponse {
+  pending: DevicePairingPendingRequest[];
+  paired: PairedDevice[];
+}
+
+export interface SessionListEntry {
+  key: string;
+  type: string;
+  model?: string;
+  tokenCount?: number;
+  turnCount?: number;
+  updatedAt?: number;
+  createdAt?: number;
+  active?: boolean;
+}
+
+export interface SessionStatus {
+  key: string;
+  active: boolean;
+  model?: string;
+  tokenCount?: number;
+  turnCount?: number;
+  updatedAt?: number;
+}
+
+export interface SessionHistoryEntry {
+  role: string;
+  content?: string;
+  ts?: number;
+  tokenCount?: number;
+}
+
+export interface ChatSendParams {
+  sessionKey: string;
+  message: string;
+  /** Makes a retried send land once; the gateway also uses it as the run id. */
+  idempotencyKey: string;
+}
+
+/** An outbound message on one of the agent's channels (not into a session). */
+export interface MessageSendParams {
+  to: string;
+  message: string;
+  channel?: string;
+  accountId?: string;
+  idempotencyKey: string;
+}
+
+export interface ChatSendResult {
+  runId?: string;
+  status?: string;
+}
+
+/** Payload of a gateway "chat" event: the agent's reply to a chat.send, as it streams. */
+export interface ChatEvent {
+  runId?: string;
+  sessionKey?: string;
+  seq?: number;
+  state: "delta" | "final" | "aborted" | "error";
+  /** The reply so far (deltas) or in full (final), as a transcript message. */
+  message?: unknown;
+  errorMessage?: string;
+}
+
+export interface GatewayPresence {
+  uptime?: number;
+  [key: string]: unknown;
+}
+
+type Empty = Record<string, never>;
+
+/** Params and result type for every allowed method. */
+export interface GatewayMethodTypes {
+  "status": { params: Empty; result: GatewayPresence };
+  "health": { params: Empty; result: Record<string, unknown> };
+  "system-presence": { params: Empty; result: GatewayPresence };
+  "last-heartbeat": { params: Empty; result: HeartbeatEvent | null };
+  "cron.list": { params: { includeDisabled?: boolean }; result: { jobs: CronJob[] } };
+  "cron.status": { params: Empty; result: CronStatus };
+  "cron.run": { params: { id: string; mode?: "force" | "due" }; result: unknown };
+  "cron.create": { params: CronCreateParams; result: CronJob };
+  "cron.update": { params: { id: string; patch: CronJobPatch }; result: CronJob };
+  "cron.delete": { params: { id: string }; result: unknown };
+  "skills.status": { params: Empty; result: SkillStatusReport };
+  "skills.enable": { params: { key: string }; result: unknown };
+  "skills.disable": { params: { key: string }; result: unknown };
+  "skills.install": { params: { key: string }; result: unknown };
+  "skills.uninstall": { params: { key: string }; result: unknown };
+  "device.pair.list": { params: Empty; result: DeviceListResponse };
+  "device.pair.approve": { params: { requestId: string }; result: unknown };
+  "device.pair.reject": { params: { requestId: string }; result: unknown };
+  "device.token.revoke": { params: { deviceId: string; role?: string }; result: unknown };
+  "sessions_list": { params: Empty; result: SessionListEntry[] };
+  "session_status": { params: { sessionId: string }; result: SessionStatus };
+  "sessions_history": { params: { sessionId: string; limit?: number }; result: SessionHistoryEntry[] };
+  "chat.send": { params: ChatSendParams; result: ChatSendResult };
+  "send": { params: MessageSendParams; result: unknown };
+  "sessions.reset": { params: { key: string }; result: unknown };
+  "sessions.compact": { params: { key: string }; result: unknown };
+  "sessions.delete": { params: { key: string; deleteTranscript?: boolean }; result: unknown };
+}
+
+export type GatewayMethod = keyof GatewayMethodTypes;
+export type GatewayParams<M extends GatewayMethod> = GatewayMethodTypes[M]["params"];
+export type GatewayResult<M extends GatewayMethod> = GatewayMethodTypes[M]["result"];
+
+// ─── Param schemas ───────────────────────────────────────────
+
+type FieldType = "string" | "number" | "boolean" | "object";
+
+interface FieldSpec {
+  type: FieldType;
+  optional?: boolean;
+  values?: readonly string[];
+  /** Keys an object may have, checked like the params themselves. */
+  fields?: ParamSchema;
+}
+
+type ParamSchema = Record<string, FieldSpec>;
+
+export interface GatewayMethodSpec {
+  permission: Permission;
+  params: ParamSchema;
+  /** Cache successful responses for this long (reads only). */
+  cacheTtlMs?: number;
+  /** Live event topics that make a cached response stale before its TTL. */
+  staleOn?: LiveTopic[];
+  /** Cached reads this method changes; dropped as soon as it completes (writes only). */
+  invalidates?: GatewayMethod[];
+}
+
+export interface ValidatedGatewayCall {
+  method: GatewayMethod;
+  params: Record<string, unknown>;
+  spec: GatewayMethodSpec;
+}
+
+const id: FieldSpec = { type: "string" };
+const CRON_READS: GatewayMethod[] = ["cron.list", "cron.status"];
+
+// Shapes of CronJob["schedule"] and CronJob["payload"]
+const cronSchedule: ParamSchema = {
+  kind: { type: "string", values: ["cron", "every", "at"] },
+  expr: { type: "string", optional: true },
+  tz: { type: "string", optional: true },
+  everyMs: { type: "number", optional: true },
+  atMs: { type: "number", optional: true },
+};
+const cronPayload: ParamSchema = {
+  kind: { type: "string", values: ["systemEvent", "agentTurn"] },
+  text: { type: "string", optional: true },
+  message: { type: "string", optional: true },
+};
+const sessionTarget: FieldSpec = { type: "string", optional: true, values: ["main", "isolated"] };
+const wakeMode: FieldSpec = { type: "string", optional: true, values: ["now", "next-heartbeat"] };
+
+export const GATEWAY_METHODS: Record<GatewayMethod, GatewayMethodSpec> = {
+  // Tiered cache TTLs: volatile data gets short TTL, stable data gets longer
+  "status": { permission: "read", params: {}, cacheTtlMs: 10_000, staleOn: ["gateway"] },
+  "health": { permission: "read", params: {}, cacheTtlMs: 10_000, staleOn: ["gateway"] },
+  "system-presence": { permission: "read", params: {}, cacheTtlMs: 8_000, staleOn: ["gateway"] },
+  "last-heartbeat": { permission: "read", params: {}, cacheTtlMs: 10_000, staleOn: ["heartbeat"] },
+  "cron.list": {
+    permission: "read",
+    params: { includeDisabled: { type: "boolean", optional: true } },
+    cacheTtlMs: 15_000,
+    staleOn: ["cron"],
+  },
+  "cron.status": { permission: "read", params: {}, cacheTtlMs: 15_000, staleOn: ["cron"] },
+  "cron.run": {
+    permission: "cron.run",
+    params: { id, mode: { type: "string", optional: true, values: ["force", "due"] } },
+    invalidates: CRON_READS,
+  },
+  "cron.create": {
+    permission: "cron.manage",
+    params: {
+      name: { type: "string" },
+      schedule: { type: "object", fields: cronSchedule },
+      payload: { type: "object", fields: cronPayload },
+      sessionTarget,
+      wakeMode,
+      enabled: { type: "boolean", optional: true },
+      agentId: { type: "string", optional: true },
+    },
+    invalidates: CRON_READS,
+  },
+  "cron.update": {
+    permission: "cron.manage",
+    params: {
+      id,
+      // CronJobPatch
+      patch: {
+        type: "object",
+        fields: {
+          name: { type: "string", optional: true },
+          enabled: { type: "boolean", optional: true },
+          schedule: { type: "object", optional: true, fields: cronSchedule },
+          payload: { type: "object", optional: true, fields: cronPayload },
+          sessionTarget,
+          wakeMode,
+        },
+      },
+    },
+    invalidates: CRON_READS,
+  },
+  "cron.delete": { permission: "cron.manage", params: { id }, invalidates: CRON_READS },
+  "skills.status": { permission: "read", params: {}, cacheTtlMs: 30_000 },
+  "skills.enable": { permission: "skills.manage", params: { key: id }, invalidates: ["skills.status"] },
+  "skills.disable": { permission: "skills.manage", params: { key: id }, invalidates: ["skills.status"] },
+  "skills.install": { permission: "skills.manage", params: { key: id }, invalidates: ["skills.status"] },
+  "skills.uninstall": { permission: "skills.manage", params: { key: id }, invalidates: ["skills.status"] },
+  "device.pair.list": { permission: "read", params: {}, cacheTtlMs: 20_000, staleOn: ["devices"] },
+  "device.pair.approve": {
+    permission: "devices.manage",
+    params: { requestId: id },
+    invalidates: ["device.pair.list"],
+  },
+  "device.pair.reject": {
+    permission: "devices.manage",
+    params: { requestId: id },
+    invalidates: ["device.pair.list"],
+  },
+  "device.token.revoke": {
+    permission: "devices.manage",
+    params: { deviceId: id, role: { type: "string", optional: true } },
+    invalidates: ["device.pair.list"],
+  },
+  "sessions_list": { permission: "read", params: {} },
+  "session_status": { permission: "read", params: { sessionId: id } },
+  "sessions_history": {
+    permission: "read",
+    params: { sessionId: id, limit: { type: "number", optional: true } },
+  },
+  "chat.send": {
+    permission: "sessions.send",
+    params: { sessionKey: id, message: { type: "string" }, idempotencyKey: id },
+  },
+  // Alert notifications; only alert admins may message arbitrary recipients
+  "send": {
+    permission: "alerts.manage",
+    params: {
+      to: id,
+      message: { type: "string" },
+      channel: { type: "string", optional: true },
+      accountId: { type: "string", optional: true },
+      idempotencyKey: id,
+    },
+  },
+  "sessions.reset": { permission: "sessions.manage", params: { key: id } },
+  "sessions.compact": { permission: "sessions.manage", params: { key: id } },
+  "sessions.delete": {
+    permission: "sessions.delete",
+    params: { key: id, deleteTranscript: { type: "boolean", optional: true } },
+  },
+};
+
+export function isGatewayMethod(method: unknown): method is GatewayMethod {
+  return typeof method === "string" && Object.hasOwn(GATEWAY_METHODS, method);
+}
+
+/** Rejected call: unknown method or params that don't match its schema. */
+export class GatewayCallError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = "GatewayCallError";
+  }
+}
+
+function typeOf(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
+
+/** Checks `values` against `schema`; `prefix` names nested keys in errors, e.g. "patch.schedule.". */
+function checkFields(method: string, schema: ParamSchema, values: Record<string, unknown>, prefix = "") {
+  for (const key of Object.keys(values)) {
+    if (!Object.hasOwn(schema, key)) {
+      throw new GatewayCallError(`${method}: unknown param "${prefix}${key}"`);
+    }
+  }
+
+  for (const [key, field] of Object.entries(schema)) {
+    const name = `${prefix}${key}`;
+    const value = values[key];
+    if (value === undefined) {
+      if (!field.optional) throw new GatewayCallError(`${method}: missing param "${name}"`);
+      continue;
+    }
+    const actual = typeOf(value);
+    if (actual !== field.type) {
+      throw new GatewayCallError(`${method}: param "${name}" must be ${field.type}, got ${actual}`);
+    }
+    if (field.type === "string" && !field.optional && !(value as string).trim()) {
+      throw new GatewayCallError(`${method}: param "${name}" must not be empty`);
+    }
+    if (field.values && !field.values.includes(value as string)) {
+      throw new GatewayCallError(
+        `${method}: param "${name}" must be one of ${field.values.join(", ")}`
+      );
+    }
+    if (field.fields) {
+      checkFields(method, field.fields, value as Record<string, unknown>, `${name}.`);
+    }
+  }
+}
+
+/**
+ * Checks a call against the registry and returns its spec plus normalised
+ * params. Throws GatewayCallError (400) for unknown methods, non-object
+ * params, unknown keys, missing required keys or wrong types, at any depth.
+ */
+export function validateGatewayCall(method: unknown, params: unknown): ValidatedGatewayCall {
+  if (typeof method !== "string" || !method) {
+    throw new GatewayCallError("Method required");
+  }
+  if (!isGatewayMethod(method)) {
+    throw new GatewayCallError(`Unknown gateway method: ${method}`);
+  }
+  const spec = GATEWAY_METHODS[method];
+
+  const input = params ?? {};
+  if (typeOf(input) !== "object") {
+    throw new GatewayCallError(`${method}: params must be an object, got ${typeOf(input)}`);
+  }
+  const values = input as Record<string, unknown>;
+  checkFields(method, spec.params, values);
+
+  return { method, params: values, spec };
+}
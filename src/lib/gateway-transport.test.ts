@@ -0,0 +1,188 @@
+import type { AddressInfo } from "node:net";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { WebSocketServer, type WebSocket } from "ws";
+import { GatewayUnavailableError } from "@/lib/gateway-client";
+import { createGatewayTransport, type GatewayTransport } from "@/lib/gateway-transport";
+
+// A stand-in gateway: answers the connect handshake, then `echo` after
+// params.delayMs; `drop` closes the socket without answering.
+class FakeGateway {
+  readonly server = new WebSocketServer({ host: "127.0.0.1", port: 0 });
+  readonly sockets = new Set<WebSocket>();
+  connections = 0;
+  requests: string[] = [];
+
+  constructor() {
+    this.server.on("connection", (socket) => {
+      this.connections++;
+      this.sockets.add(socket);
+      socket.on("close", () => this.sockets.delete(socket));
+      socket.on("message", (data) => this.handle(socket, JSON.parse(String(data))));
+    });
+  }
+
+  get url() {
+    return `ws://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+  }
+
+  ready() {
+    return new Promise<void>((resolve) => this.server.once("listening", () => resolve()));
+  }
+
+  /** Drops every open connection, as a restarting gateway would. */
+  dropAll() {
+    for (const socket of this.sockets) socket.terminate();
+  }
+
+  close() {
+    this.dropAll();
+    return new Promise<void>((resolve) => this.server.close(() => resolve()));
+  }
+
+  private handle(socket: WebSocket, frame: { id: string; method: string; params?: Record<string, unknown> }) {
+    const reply = (payload: unknown) => socket.send(JSON.stringify({ type: "res", id: frame.id, ok: true, payload }));
+    if (frame.method === "connect") return reply({ type: "hello-ok", protocol: 3 });
+    this.requests.push(frame.method);
+    if (frame.method === "drop") return socket.terminate();
+    if (frame.method === "fail") {
+      return socket.send(
+        JSON.stringify({ type: "res", id: frame.id, ok: false, error: { code: "INVALID", message: "bad params" } })
+      );
+    }
+    setTimeout(() => reply({ echo: frame.params?.value }), Number(frame.params?.delayMs ?? 0));
+  }
+}
+
+/** A port nothing listens on. */
+async function closedPort(): Promise<number> {
+  const server = new WebSocketServer({ host: "127.0.0.1", port: 0 });
+  await new Promise((resolve) => server.once("listening", resolve));
+  const { port } = server.address() as AddressInfo;
+  await new Promise((resolve) => server.close(resolve));
+  return port;
+}
+
+function waitFor(condition: () => boolean, timeoutMs = 5000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  return new Promise((resolve, reject) => {
+    const check = () => {
+      if (condition()) return resolve();
+      if (Date.now() > deadline) return reject(new Error("timed out waiting"));
+      setTimeout(check, 20);
+    };
+    check();
+  });
+}
+
+let gateway: FakeGateway;
+let transport: GatewayTransport | undefined;
+const cli = vi.fn(async (method: string, params: Record<string, unknown>) => ({ via: "cli", method, params }));
+
+beforeEach(async () => {
+  gateway = new FakeGateway();
+  await gateway.ready();
+  cli.mockClear();
+});
+
+afterEach(async () => {
+  transport?.close();
+  transport = undefined;
+  await gateway.close();
+});
+
+describe("gateway transport over the socket", () => {
+  it("matches concurrent responses to their requests on one connection", async () => {
+    transport = createGatewayTransport({ url: gateway.url, mode: "auto", cli });
+    const order: string[] = [];
+    const track = (name: string, p: Promise<unknown>) => p.then((result) => (order.push(name), result));
+
+    const results = await Promise.all([
+      track("slow", transport.call("echo", { value: "slow", delayMs: 150 })),
+      track("medium", transport.call("echo", { value: "medium", delayMs: 75 })),
+      track("fast", transport.call("echo", { value: "fast" })),
+    ]);
+
+    expect(results).toEqual([{ echo: "slow" }, { echo: "medium" }, { echo: "fast" }]);
+    expect(order).toEqual(["fast", "medium", "slow"]);
+    expect(gateway.connections).toBe(1);
+    expect(cli).not.toHaveBeenCalled();
+    expect(transport.status()).toMatchObject({ connected: true, wsCalls: 3, cliCalls: 0 });
+  });
+
+  it("passes the gateway's rejection through without trying the CLI", async () => {
+    transport = createGatewayTransport({ url: gateway.url, mode: "auto", cli });
+    await expect(transport.call("fail", {}, { idempotent: true })).rejects.toMatchObject({
+      name: "GatewayResponseError",
+      code: "INVALID",
+      message: "bad params",
+    });
+    expect(cli).not.toHaveBeenCalled();
+  });
+
+  it("reconnects after the gateway drops the socket", async () => {
+    const changes: boolean[] = [];
+    transport = createGatewayTransport({
+      url: gateway.url,
+      mode: "auto",
+      cli,
+      onConnectionChange: (connected) => changes.push(connected),
+    });
+    await expect(transport.call("echo", { value: 1 })).resolves.toEqual({ echo: 1 });
+
+    gateway.dropAll();
+    await waitFor(() => changes.length === 3);
+    expect(changes).toEqual([true, false, true]);
+
+    await expect(transport.call("echo", { value: 2 })).resolves.toEqual({ echo: 2 });
+    expect(gateway.connections).toBe(2);
+    expect(cli).not.toHaveBeenCalled();
+  });
+
+  it("repeats only idempotent calls over the CLI when the socket drops mid-request", async () => {
+    transport = createGatewayTransport({ url: gateway.url, mode: "auto", cli });
+    await expect(transport.call("drop", { n: 1 })).rejects.toThrow(/gateway closed/);
+    expect(cli).not.toHaveBeenCalled();
+
+    await waitFor(() => transport!.status().connected);
+    await expect(transport.call("drop", { n: 2 }, { idempotent: true })).resolves.toEqual({
+      via: "cli",
+      method: "drop",
+      params: { n: 2 },
+    });
+    expect(cli).toHaveBeenCalledTimes(1);
+    expect(gateway.requests).toEqual(["drop", "drop"]);
+  });
+});
+
+describe("gateway transport without a socket", () => {
+  it("falls back to the CLI when nothing is listening", async () => {
+    transport = createGatewayTransport({ url: `ws://127.0.0.1:${await closedPort()}`, mode: "auto", cli });
+    await expect(transport.call("sessions.list", { limit: 5 })).resolves.toEqual({
+      via: "cli",
+      method: "sessions.list",
+      params: { limit: 5 },
+    });
+    // Once the socket is known to be down, calls go straight to the CLI
+    const started = Date.now();
+    await transport.call("sessions.list", {});
+    expect(Date.now() - started).toBeLessThan(500);
+    expect(transport.status()).toMatchObject({ connected: false, wsCalls: 0, cliCalls: 2 });
+  });
+
+  it("refuses the call in socket-only mode", async () => {
+    transport = createGatewayTransport({
+      url: `ws://127.0.0.1:${await closedPort()}`,
+      mode: "ws",
+      cli,
+      connectWaitMs: 200,
+    });
+    await expect(transport.call("sessions.list", {})).rejects.toBeInstanceOf(GatewayUnavailableError);
+    expect(cli).not.toHaveBeenCalled();
+  });
+
+  it("never opens a socket in CLI mode", async () => {
+    transport = createGatewayTransport({ url: gateway.url, mode: "cli", cli });
+    await expect(transport.call("echo", { value: 1 })).resolves.toMatchObject({ via: "cli" });
+    expect(gateway.connections).toBe(0);
+  });
+});
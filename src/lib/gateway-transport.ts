@@ -0,0 +1,229 @@
+import { execFile } from "node:child_process";
+import { promisify } from "node:util";
+import WebSocket from "ws";
+import {
+  GatewayClient,
+  GatewayResponseError,
+  GatewayUnavailableError,
+  type GatewayEventFrame,
+  type GatewaySocketConstructor,
+} from "@/lib/gateway-client";
+import { publishLiveEvent } from "@/lib/event-hub";
+import { topicForGatewayEvent } from "@/lib/live-events";
+
+// Server-side gateway transport: one long-lived protocol-3 WebSocket shared
+// by every API route, with the `openclaw gateway call` CLI as a fallback
+// while the socket is down.
+
+const execFileAsync = promisify(execFile);
+
+const GATEWAY_WS_URL = process.env.GATEWAY_WS_URL || "ws://127.0.0.1:18789";
+const GATEWAY_TOKEN = process.env.GATEWAY_TOKEN;
+// "auto" (socket, CLI fallback), "ws" (socket only) or "cli" (never open a socket)
+const GATEWAY_TRANSPORT = process.env.GATEWAY_TRANSPORT || "auto";
+const GATEWAY_TIMEOUT_MS = 15_000;
+// What the CLI reports when nothing is listening where the gateway should be
+const CLI_UNREACHABLE = /ECONNREFUSED|connection refused|EHOSTUNREACH|gateway (?:is )?not (?:running|reachable)/i;
+
+export type GatewayTransportMode = "auto" | "ws" | "cli";
+
+export interface GatewayCallOptions {
+  /**
+   * Safe to repeat over the CLI if the socket drops mid-request. Mutations
+   * must leave this off so a call the gateway may already have applied is
+   * never sent twice.
+   */
+  idempotent?: boolean;
+}
+
+export interface GatewayTransportStatus {
+  mode: GatewayTransportMode;
+  url: string;
+  connected: boolean;
+  wsCalls: number;
+  cliCalls: number;
+  lastError?: string;
+  connectedSince?: number;
+}
+
+export interface GatewayTransportOptions {
+  url?: string;
+  token?: string;
+  mode?: GatewayTransportMode;
+  /** How long a call waits for the first connect before falling back. */
+  connectWaitMs?: number;
+  requestTimeoutMs?: number;
+  webSocket?: GatewaySocketConstructor;
+  /** Fallback bridge; defaults to the openclaw CLI. */
+  cli?: (method: string, params: Record<string, unknown>) => Promise<unknown>;
+  onEvent?: (evt: GatewayEventFrame) => void;
+  onConnectionChange?: (connected: boolean) => void;
+}
+
+export interface GatewayTransport {
+  call(method: string, params: Record<string, unknown>, opts?: GatewayCallOptions): Promise<unknown>;
+  status(): GatewayTransportStatus;
+  close(): void;
+}
+
+// ─── CLI bridge ──────────────────────────────────────────────
+
+/**
+ * One call through `openclaw gateway call`. Throws GatewayUnavailableError
+ * when the CLI couldn't connect; any other failure (a timeout, odd output)
+ * may have happened after the gateway took the call.
+ */
+export async function cliGatewayCall(
+  method: string,
+  params: Record<string, unknown>
+): Promise<unknown> {
+  let stdout: string;
+  let stderr: string;
+  try {
+    ({ stdout, stderr } = await execFileAsync(
+      "openclaw",
+      [
+        "gateway",
+        "call",
+        method,
+        "--json",
+        "--timeout",
+        String(GATEWAY_TIMEOUT_MS),
+        "--params",
+        JSON.stringify(params),
+      ],
+      { timeout: GATEWAY_TIMEOUT_MS + 3000 }
+    ));
+  } catch (error) {
+    // The message carries the CLI's stderr
+    const message = error instanceof Error ? error.message : String(error);
+    if (CLI_UNREACHABLE.test(message)) throw new GatewayUnavailableError(message.trim());
+    throw error;
+  }
+
+  const trimmed = stdout.trim();
+  if (!trimmed) {
+    throw new Error(`Gateway call returned empty output${stderr ? `: ${stderr.trim()}` : ""}`);
+  }
+
+  try {
+    return JSON.parse(trimmed);
+  } catch {
+    throw new Error(`Gateway call returned non-JSON output: ${trimmed.slice(0, 400)}`);
+  }
+}
+
+// ─── Transport ───────────────────────────────────────────────
+
+export function createGatewayTransport(options: GatewayTransportOptions = {}): GatewayTransport {
+  const url = options.url ?? GATEWAY_WS_URL;
+  const mode = options.mode ?? (GATEWAY_TRANSPORT as GatewayTransportMode);
+  const connectWaitMs = options.connectWaitMs ?? 1500;
+  const cli = options.cli ?? cliGatewayCall;
+
+  const state: GatewayTransportStatus = { mode, url, connected: false, wsCalls: 0, cliCalls: 0 };
+  const waiters = new Set<(connected: boolean) => void>();
+
+  let client: GatewayClient | null = null;
+  if (mode !== "cli") {
+    client = new GatewayClient({
+      url,
+      token: options.token ?? GATEWAY_TOKEN,
+      webSocket: options.webSocket ?? (WebSocket as unknown as GatewaySocketConstructor),
+      platform: `node-${process.platform}`,
+      requestTimeoutMs: options.requestTimeoutMs ?? GATEWAY_TIMEOUT_MS,
+      onEvent: options.onEvent,
+      onConnect: () => {
+        state.connected = true;
+        state.connectedSince = Date.now();
+        state.lastError = undefined;
+        for (const wake of waiters) wake(true);
+        waiters.clear();
+        options.onConnectionChange?.(true);
+      },
+      onDisconnect: () => {
+        state.connected = false;
+        state.connectedSince = undefined;
+        options.onConnectionChange?.(false);
+      },
+      onClose: ({ code, reason }) => {
+        state.lastError = `closed (${code})${reason ? `: ${reason}` : ""}`;
+      },
+    });
+    client.start();
+  }
+
+  function waitForConnection(): Promise<boolean> {
+    if (!client) return Promise.resolve(false);
+    if (client.connected) return Promise.resolve(true);
+    // Known to be down: don't make every call pay the wait, go straight to the CLI
+    if (state.lastError) return Promise.resolve(false);
+    return new Promise((resolve) => {
+      const wake = (connected: boolean) => {
+        clearTimeout(timer);
+        resolve(connected);
+      };
+      const timer = setTimeout(() => {
+        waiters.delete(wake);
+        resolve(false);
+      }, connectWaitMs);
+      waiters.add(wake);
+    });
+  }
+
+  async function viaCli(method: string, params: Record<string, unknown>) {
+    if (mode === "ws") {
+      throw new GatewayUnavailableError(`Gateway socket not connected (${state.lastError ?? url})`);
+    }
+    state.cliCalls++;
+    return cli(method, params);
+  }
+
+  return {
+    async call(method, params, opts = {}) {
+      if (!(await waitForConnection()) || !client) {
+        return viaCli(method, params);
+      }
+      try {
+        const result = await client.request(method, params);
+        state.wsCalls++;
+        return result;
+      } catch (error) {
+        // The gateway itself rejected the call: that's the answer
+        if (error instanceof GatewayResponseError) throw error;
+        state.lastError = error instanceof Error ? error.message : String(error);
+        // Never sent (the socket closed just before): the CLI can't repeat it
+        if (!opts.idempotent && !(error instanceof GatewayUnavailableError)) throw error;
+        return viaCli(method, params);
+      }
+    },
+    status() {
+      return { ...state, connected: client?.connected ?? false };
+    },
+    close() {
+      client?.stop();
+      client = null;
+      for (const wake of waiters) wake(false);
+      waiters.clear();
+    },
+  };
+}
+
+// One transport per server process; kept on globalThis so dev-mode module
+// reloads don't leak sockets. Its events feed the /api/events relay.
+const globalForGateway = globalThis as unknown as { __gatewayTransport?: GatewayTransport };
+
+export function getGatewayTransport(): GatewayTransport {
+  if (!globalForGateway.__gatewayTransport) {
+    globalForGateway.__gatewayTransport = createGatewayTransport({
+      onEvent: (evt) => {
+        const topic = topicForGatewayEvent(evt.event);
+        if (topic) publishLiveEvent(topic, evt.event, evt.payload, evt.seq);
+      },
+      onConnectionChange: (connected) => {
+        publishLiveEvent("gateway", connected ? "gateway.connected" : "gateway.disconnected");
+      },
+    });
+  }
+  return globalForGateway.__gatewayTransport;
+}
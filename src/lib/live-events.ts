@@ -0,0 +1,58 @@
+// Live gateway events relayed to the browser over /api/events (SSE).
+// Shared by the server relay and the client hook; no Node imports.
+
+// "scripts" and "alerts" are published by the command center itself (script
+// runs, alert evaluations), not relayed
+// "chat" carries the streamed replies to messages sent with chat.send
+export type LiveTopic =
+  | "gateway"
+  | "heartbeat"
+  | "cron"
+  | "sessions"
+  | "chat"
+  | "pairing"
+  | "devices"
+  | "scripts"
+  | "alerts";
+
+export const LIVE_TOPICS: LiveTopic[] = [
+  "gateway",
+  "heartbeat",
+  "cron",
+  "sessions",
+  "chat",
+  "pairing",
+  "devices",
+  "scripts",
+  "alerts",
+];
+
+export interface LiveEvent {
+  /** Relay sequence number; the SSE `id`, used to resume after a reconnect. */
+  id: number;
+  topic: LiveTopic;
+  /** Gateway event name, e.g. "cron" or "device.pair.requested". */
+  event: string;
+  payload?: unknown;
+  /** Sequence number from the gateway frame, when it sent one. */
+  gatewaySeq?: number;
+  ts: number;
+}
+
+/**
+ * Which topic a gateway event belongs to, or null for events we don't relay
+ * (ticks, presence, agent tool streams).
+ */
+export function topicForGatewayEvent(event: string): LiveTopic | null {
+  if (event === "heartbeat") return "heartbeat";
+  if (event === "cron" || event.startsWith("cron.")) return "cron";
+  if (event.startsWith("session")) return "sessions";
+  if (event === "chat") return "chat";
+  if (event.startsWith("device.pair")) return "devices";
+  if (event.startsWith("pairing") || event.startsWith("node.pair")) return "pairing";
+  return null;
+}
+
+export function isLiveTopic(value: unknown): value is LiveTopic {
+  return typeof value === "string" && (LIVE_TOPICS as string[]).includes(value);
+}
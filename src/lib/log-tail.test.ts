@@ -0,0 +1,72 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+
+const root = await fs.mkdtemp(path.join(os.tmpdir(), "cc-log-tail-"));
+process.env.OPENCLAW_ROOT = root;
+delete process.env.COMMAND_CENTER_AUTH_DIR;
+delete process.env.OPENCLAW_CONFIG;
+
+const { SettingsError, updateSettings, validateLogFiles } = await import("@/lib/settings");
+const { listLogFiles, resolveLogFile } = await import("@/lib/log-tail");
+
+beforeAll(async () => {
+  await fs.mkdir(path.join(root, "logs"));
+  await fs.mkdir(path.join(root, "command-center"));
+  await fs.writeFile(path.join(root, "logs", "gateway.log"), "started\n");
+  await fs.writeFile(path.join(root, "journal.log"), "booted\n");
+  await fs.writeFile(path.join(root, "command-center", "users.json"), "{}");
+  await fs.writeFile(path.join(root, "command-center", "server.log"), "secret\n");
+  await fs.writeFile(path.join(root, "openclaw.json"), "{}");
+});
+
+afterAll(async () => {
+  await fs.rm(root, { recursive: true, force: true });
+});
+
+function refusal(paths: string[]): string {
+  try {
+    validateLogFiles(paths);
+  } catch (error) {
+    expect(error).toBeInstanceOf(SettingsError);
+    return (error as Error).message;
+  }
+  throw new Error(`${paths.join(", ")} accepted`);
+}
+
+describe("log files", () => {
+  it("accepts *.log files under the root", () => {
+    expect(validateLogFiles(["journal.log", { path: "./logs/gateway.log", label: "Gateway" }])).toEqual([
+      { path: "journal.log" },
+      { path: "logs/gateway.log", label: "Gateway" },
+    ]);
+  });
+
+  it("refuses other files, the command center's own and anything outside the root", () => {
+    expect(refusal(["command-center/users.json"])).toMatch(/\*\.log/);
+    expect(refusal(["command-center/sessions.json"])).toMatch(/\*\.log/);
+    expect(refusal(["openclaw.json"])).toMatch(/\*\.log/);
+    expect(refusal(["command-center/server.log"])).toMatch(/command-center/);
+    expect(refusal(["logs/../command-center/server.log"])).toMatch(/command-center/);
+    expect(refusal(["../elsewhere.log"])).toMatch(/under/);
+    expect(refusal([path.join(os.tmpdir(), "x.log")])).toMatch(/under/);
+  });
+
+  it("doesn't follow a log's symlink to a private file", async () => {
+    await fs.symlink(path.join(root, "command-center", "users.json"), path.join(root, "logs", "users.log"));
+    expect((await listLogFiles()).map((f) => f.id)).toContain("logs/users.log");
+    await expect(resolveLogFile("logs/users.log")).rejects.toMatchObject({ status: 404 });
+    await expect(resolveLogFile("logs/gateway.log")).resolves.toBe(
+      path.join(await fs.realpath(root), "logs", "gateway.log")
+    );
+  });
+
+  it("stops offering files saved before the *.log rule", async () => {
+    await updateSettings({ logFiles: [{ path: "command-center/users.json" }, { path: "journal.log" }] });
+    const ids = (await listLogFiles()).map((f) => f.id);
+    expect(ids).toContain("journal.log");
+    expect(ids).not.toContain("command-center/users.json");
+    await expect(resolveLogFile("command-center/users.json")).rejects.toMatchObject({ status: 404 });
+  });
+});
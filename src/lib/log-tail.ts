@@ -0,0 +1,483 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import vm from "node:vm";
+import { readLinesAfter, readLinesBefore, type RawLine } from "@/lib/file-lines";
+import { logFileRefusal, readSettings } from "@/lib/settings";
+
+// The gateway's and agents' own log files, for the tail viewer: every *.log
+// under logs/ plus the files listed in settings (e.g. journald output
+// captured with `journalctl -o short-iso -f > logs/journal.log`). Only *.log
+// files inside OPENCLAW_ROOT, outside command-center/, are read. Lines are addressed by byte offset, like
+// transcript turns, so paging, follow mode and resume all share one cursor.
+// Server-only; client code imports the types.
+
+const OPENCLAW_ROOT = process.env.OPENCLAW_ROOT || "/home/clawdbot/.openclaw";
+const LOGS_DIR = path.join(OPENCLAW_ROOT, "logs");
+
+/** Bytes a filtered page may read looking for matches before it gives up and returns what it has. */
+const SCAN_BUDGET_BYTES = 8 * 1024 * 1024;
+/** Lines read per batch while scanning. */
+const SCAN_BATCH = 500;
+/** Shown text per line; the rest is cut. */
+const MAX_LINE_CHARS = 8000;
+/** Time one read may spend running the search pattern before the search is refused. */
+const MATCH_BUDGET_MS = 250;
+export const MAX_LOG_PAGE = 1000;
+export const MAX_PATTERN_LENGTH = 200;
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+export const LOG_LEVELS: LogLevel[] = ["debug", "info", "warn", "error"];
+
+export interface LogFileInfo {
+  /** Path relative to OPENCLAW_ROOT; what the API takes as `file`. */
+  id: string;
+  label: string;
+  /** From settings rather than found in logs/. */
+  configured: boolean;
+  exists: boolean;
+  sizeBytes: number;
+  modifiedAt: number | null;
+}
+
+export interface LogLine {
+  offset: number;
+  text: string;
+  level?: LogLevel;
+  ts?: number;
+}
+
+export interface LogPage {
+  file: string;
+  sizeBytes: number;
+  /** Oldest first. With a filter, only the matching lines. */
+  lines: LogLine[];
+  /** Where the next older page ends (`before`). */
+  startOffset: number;
+  /** Where the next newer page starts (`after`), and where follow mode picks up. */
+  endOffset: number;
+  hasOlder: boolean;
+  hasNewer: boolean;
+}
+
+export interface LogFilter {
+  /** Lowest level shown; lines without one take the level of the line above (stack traces). */
+  minLevel?: LogLevel;
+  pattern?: LogPattern;
+}
+
+/** A compiled search; see compilePattern. */
+export interface LogPattern {
+  source: string;
+  /** Which of `texts` match. Throws LogTailError if that takes longer than `timeoutMs`. */
+  test(texts: string[], timeoutMs: number): boolean[];
+}
+
+export class LogTailError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = "LogTailError";
+  }
+}
+
+/** Every log file the viewer may open: logs/*.log, then the configured ones. */
+export async function listLogFiles(): Promise<LogFileInfo[]> {
+  const found: Array<{ id: string; label: string; configured: boolean }> = [];
+  try {
+    const names = (await fs.readdir(LOGS_DIR)).filter((n) => n.endsWith(".log")).sort();
+    for (const name of names) found.push({ id: path.join("logs", name), label: name, configured: false });
+  } catch {
+    // no logs dir
+  }
+  const { logFiles } = await readSettings();
+  // Entries saved before the *.log rule are no longer offered
+  for (const file of logFiles.filter((f) => !logFileRefusal(f.path))) {
+    const existing = found.find((f) => f.id === file.path);
+    if (existing) {
+      existing.configured = true;
+      if (file.label) existing.label = file.label;
+    } else {
+      found.push({ id: file.path, label: file.label || path.basename(file.path), configured: true });
+    }
+  }
+
+  return Promise.all(
+    found.map(async (f) => {
+      try {
+        const stat = await fs.stat(path.join(OPENCLAW_ROOT, f.id));
+        return { ...f, exists: stat.isFile(), sizeBytes: stat.size, modifiedAt: stat.mtimeMs };
+      } catch {
+        return { ...f, exists: false, sizeBytes: 0, modifiedAt: null };
+      }
+    })
+  );
+}
+
+/**
+ * Absolute path of a listed log file, after following symlinks, so a link
+ * can't lead outside OPENCLAW_ROOT or to a file that isn't a log. Throws
+ * LogTailError (404) otherwise.
+ */
+export async function resolveLogFile(id: string): Promise<string> {
+  const files = await listLogFiles();
+  if (!files.some((f) => f.id === id && f.exists)) {
+    throw new LogTailError(`Log file not found: ${id}`, 404);
+  }
+  const [real, realRoot] = await Promise.all([
+    fs.realpath(path.join(OPENCLAW_ROOT, id)),
+    fs.realpath(OPENCLAW_ROOT),
+  ]);
+  if (logFileRefusal(path.relative(realRoot, real))) {
+    throw new LogTailError(`Log file not found: ${id}`, 404);
+  }
+  return real;
+}
+
+function slowPatternError() {
+  return new LogTailError("Search pattern is too slow on this log; try a simpler one", 422);
+}
+
+const MATCH_SCRIPT = new vm.Script("texts.map((text) => pattern.test(text))");
+
+/**
+ * A user-supplied search as a case-insensitive regex; throws LogTailError
+ * when it doesn't compile. It runs in a context of its own so that a pattern
+ * that backtracks catastrophically, like `(a+)+$`, can be stopped by a
+ * timeout instead of holding the event loop for the whole app.
+ */
+export function compilePattern(source: string): LogPattern {
+  if (source.length > MAX_PATTERN_LENGTH) {
+    throw new LogTailError(`Search pattern too long (max ${MAX_PATTERN_LENGTH} characters)`);
+  }
+  try {
+    // Compiling is safe here; only matching can run away
+    new RegExp(source, "i");
+  } catch (error) {
+    throw new LogTailError(`Invalid pattern: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  const context = vm.createContext({ source, texts: [] as string[] });
+  vm.runInContext(`var pattern = new RegExp(source, "i");`, context);
+  return {
+    source,
+    test(texts, timeoutMs) {
+      context.texts = texts;
+      try {
+        return MATCH_SCRIPT.runInContext(context, { timeout: Math.max(Math.ceil(timeoutMs), 1) });
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ERR_SCRIPT_EXECUTION_TIMEOUT") {
+          throw slowPatternError();
+        }
+        throw error;
+      } finally {
+        context.texts = [];
+      }
+    },
+  };
+}
+
+// ─── Parsing ─────────────────────────────────────────────────
+
+const LEVEL_WORDS: Record<string, LogLevel> = {
+  trace: "debug",
+  debug: "debug",
+  verbose: "debug",
+  info: "info",
+  notice: "info",
+  warn: "warn",
+  warning: "warn",
+  error: "error",
+  err: "error",
+  fatal: "error",
+  crit: "error",
+  critical: "error",
+  panic: "error",
+};
+
+// pino-style numeric levels
+function numericLevel(n: number): LogLevel {
+  if (n >= 50) return "error";
+  if (n >= 40) return "warn";
+  if (n >= 30) return "info";
+  return "debug";
+}
+
+const LEADING_TIMESTAMP =
+  /^\[?(\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}:\d{2}(?:[.,]\d+)?(?:Z|[+-]\d{2}:?\d{2})?)/;
+const LEVEL_WORD = /\b(TRACE|DEBUG|VERBOSE|INFO|NOTICE|WARN|WARNING|ERROR|ERR|FATAL|CRIT|CRITICAL|PANIC)\b/i;
+
+function toTs(value: unknown): number | undefined {
+  if (typeof value === "number" && Number.isFinite(value)) return value < 1e12 ? value * 1000 : value;
+  if (typeof value === "string" && value) {
+    const ts = Date.parse(value.replace(",", "."));
+    return Number.isFinite(ts) ? ts : undefined;
+  }
+  return undefined;
+}
+
+function toLevel(value: unknown): LogLevel | undefined {
+  if (typeof value === "number") return numericLevel(value);
+  if (typeof value === "string") return LEVEL_WORDS[value.toLowerCase()];
+  return undefined;
+}
+
+/** Level and time of a log line: JSON (pino, tslog, …) or text with a leading ISO timestamp. */
+export function parseLogLine(text: string): { level?: LogLevel; ts?: number } {
+  if (text.startsWith("{")) {
+    try {
+      const json = JSON.parse(text) as Record<string, unknown>;
+      const meta = (json._meta ?? {}) as Record<string, unknown>;
+      return {
+        level: toLevel(json.level ?? json.lvl ?? json.severity ?? meta.logLevelName),
+        ts: toTs(json.time ?? json.ts ?? json.timestamp ?? json["@timestamp"] ?? meta.date),
+      };
+    } catch {
+      // not JSON after all
+    }
+  }
+  const head = text.slice(0, 160);
+  const stamp = LEADING_TIMESTAMP.exec(head);
+  const word = LEVEL_WORD.exec(stamp ? head.slice(stamp[0].length) : head);
+  return {
+    level: word ? LEVEL_WORDS[word[1].toLowerCase()] : undefined,
+    ts: stamp ? toTs(stamp[1].replace(" ", "T")) : undefined,
+  };
+}
+
+/** Parses raw lines (oldest first); unlevelled lines inherit the level above them. */
+function toLogLines(raw: RawLine[]): LogLine[] {
+  let level: LogLevel | undefined;
+  return raw.map((line) => {
+    const parsed = parseLogLine(line.text);
+    level = parsed.level ?? level;
+    const text = line.text.length > MAX_LINE_CHARS ? `${line.text.slice(0, MAX_LINE_CHARS)} …` : line.text;
+    return { offset: line.offset, text, level, ts: parsed.ts };
+  });
+}
+
+/** Matching time left for one read, shared by its batches. */
+interface MatchBudget {
+  ms: number;
+}
+
+function newBudget(): MatchBudget {
+  return { ms: MATCH_BUDGET_MS };
+}
+
+/** Which of `lines` pass `filter`; the pattern's running time comes out of `budget`. */
+function matchLines(lines: LogLine[], filter: LogFilter, budget: MatchBudget): boolean[] {
+  const levelled = lines.map(
+    (line) => !filter.minLevel || LOG_LEVELS.indexOf(line.level ?? "info") >= LOG_LEVELS.indexOf(filter.minLevel)
+  );
+  if (!filter.pattern) return levelled;
+
+  const candidates = lines.filter((_, i) => levelled[i]);
+  if (candidates.length === 0) return levelled;
+  if (budget.ms <= 0) {
+    throw slowPatternError();
+  }
+  const started = performance.now();
+  const hits = filter.pattern.test(candidates.map((line) => line.text), budget.ms);
+  budget.ms -= performance.now() - started;
+  let next = 0;
+  return levelled.map((ok) => ok && hits[next++]);
+}
+
+function isFiltered(filter: LogFilter): boolean {
+  return !!filter.minLevel || !!filter.pattern;
+}
+
+// ─── Paging ──────────────────────────────────────────────────
+
+export interface LogPageOptions {
+  /** Lines ending before this byte offset (older); defaults to the end of the file. */
+  before?: number;
+  /** Lines starting at this byte offset (newer). Takes precedence over `before`. */
+  after?: number;
+  limit?: number;
+  filter?: LogFilter;
+}
+
+/**
+ * A page of matching lines. Filtered pages scan up to SCAN_BUDGET_BYTES for
+ * matches; the offsets say where scanning stopped, so the next page carries on
+ * from there even when this one came back short.
+ */
+export async function readLogPage(filePath: string, options: LogPageOptions = {}): Promise<LogPage> {
+  const limit = Math.min(Math.max(options.limit ?? 200, 1), MAX_LOG_PAGE);
+  const filter = options.filter ?? {};
+  const batch = isFiltered(filter) ? SCAN_BATCH : limit;
+  const budget = newBudget();
+  const handle = await fs.open(filePath, "r");
+  try {
+    const { size } = await handle.stat();
+    const lines: LogLine[] = [];
+
+    if (options.after !== undefined) {
+      const start = Math.min(Math.max(options.after, 0), size);
+      let pos = start;
+      scan: while (pos < size && pos - start < SCAN_BUDGET_BYTES) {
+        const raw = await readLinesAfter(handle, pos, size, batch);
+        // A last line without its newline may still be being written: leave it for the next read
+        const complete = raw.filter((l) => l.end < size);
+        if (complete.length === 0) break;
+        const parsed = toLogLines(complete);
+        const matched = matchLines(parsed, filter, budget);
+        for (let i = 0; i < parsed.length; i++) {
+          if (lines.length >= limit) break scan;
+          if (matched[i]) lines.push(parsed[i]);
+          pos = complete[i].end + 1;
+        }
+        if (complete.length < raw.length) break;
+      }
+      return {
+        file: path.basename(filePath),
+        sizeBytes: size,
+        lines,
+        startOffset: lines[0]?.offset ?? start,
+        endOffset: pos,
+        hasOlder: (lines[0]?.offset ?? start) > 0,
+        hasNewer: pos < size,
+      };
+    }
+
+    const end = Math.min(Math.max(options.before ?? size, 0), await completeEnd(handle, size));
+    let pos = end;
+    while (lines.length < limit && pos > 0 && end - pos < SCAN_BUDGET_BYTES) {
+      const raw = await readLinesBefore(handle, pos, batch);
+      if (raw.length === 0) break;
+      const parsed = toLogLines(raw);
+      const hits = matchLines(parsed, filter, budget);
+      const matched: LogLine[] = [];
+      // Newest first, so the page keeps the lines closest to `before`
+      for (let i = parsed.length - 1; i >= 0 && lines.length + matched.length < limit; i--) {
+        pos = parsed[i].offset;
+        if (hits[i]) matched.push(parsed[i]);
+      }
+      lines.unshift(...matched.reverse());
+    }
+    return {
+      file: path.basename(filePath),
+      sizeBytes: size,
+      lines,
+      startOffset: pos,
+      endOffset: end,
+      hasOlder: pos > 0,
+      hasNewer: end < size,
+    };
+  } finally {
+    await handle.close();
+  }
+}
+
+/** End of the last complete line: a last line without its newline is still being written. */
+async function completeEnd(handle: fs.FileHandle, size: number): Promise<number> {
+  if (size === 0) return 0;
+  const last = Buffer.alloc(1);
+  await handle.read(last, 0, 1, size - 1);
+  if (last[0] === 0x0a) return size;
+  const [partial] = await readLinesBefore(handle, size, 1);
+  return partial ? partial.offset : size;
+}
+
+/** Time of the first timestamped line at or after byte `from`, and where that line starts. */
+async function firstTimestampAfter(
+  handle: fs.FileHandle,
+  from: number,
+  size: number
+): Promise<{ offset: number; ts: number } | null> {
+  const raw = await readLinesAfter(handle, from, size, 50);
+  for (const line of raw) {
+    const { ts } = parseLogLine(line.text);
+    if (ts !== undefined) return { offset: line.offset, ts };
+  }
+  return null;
+}
+
+/** Start of the first line at or after byte `pos`. */
+async function lineStartAfter(handle: fs.FileHandle, pos: number, size: number): Promise<number> {
+  if (pos === 0) return 0;
+  const [line] = await readLinesBefore(handle, pos, 1);
+  // `pos` fell inside that line: skip to the next one
+  return line && line.end >= pos ? Math.min(line.end + 1, size) : pos;
+}
+
+/**
+ * Byte offset of the first line logged at or after `ts`, by binary search
+ * over the file (log lines are in time order). The end of the file if
+ * everything is older.
+ */
+export async function findLogOffset(filePath: string, ts: number): Promise<number> {
+  const handle = await fs.open(filePath, "r");
+  try {
+    const { size } = await handle.stat();
+    let lo = 0;
+    let hi = size;
+    while (hi - lo > 4096) {
+      const mid = await lineStartAfter(handle, Math.floor((lo + hi) / 2), size);
+      const found = mid < hi ? await firstTimestampAfter(handle, mid, size) : null;
+      if (!found || found.offset >= hi) {
+        hi = Math.floor((lo + hi) / 2);
+      } else if (found.ts < ts) {
+        lo = found.offset + 1;
+      } else {
+        hi = found.offset;
+      }
+    }
+    // Finish with a linear pass over what's left
+    let pos = await lineStartAfter(handle, lo, size);
+    while (pos < size) {
+      const raw = await readLinesAfter(handle, pos, size, SCAN_BATCH);
+      if (raw.length === 0) break;
+      for (const line of raw) {
+        const parsed = parseLogLine(line.text);
+        if (parsed.ts !== undefined && parsed.ts >= ts) return line.offset;
+      }
+      const last = raw[raw.length - 1];
+      if (last.end >= size) break;
+      pos = last.end + 1;
+    }
+    return size;
+  } finally {
+    await handle.close();
+  }
+}
+
+/** State of a file being followed, carried between polls. */
+export interface FollowCursor {
+  offset: number;
+  ino: number;
+}
+
+/** Where following `filePath` starts: byte `offset`, or the end of the file. */
+export async function startFollowing(filePath: string, offset?: number): Promise<FollowCursor> {
+  const stat = await fs.stat(filePath);
+  return { offset: offset ?? stat.size, ino: stat.ino };
+}
+
+/**
+ * Complete lines written since `cursor`, matching `filter`. `reset` means the
+ * file was rotated or truncated and reading restarted from its beginning.
+ */
+export async function readLogAppends(
+  filePath: string,
+  cursor: FollowCursor,
+  filter: LogFilter,
+  maxLines = MAX_LOG_PAGE
+): Promise<{ lines: LogLine[]; cursor: FollowCursor; reset: boolean }> {
+  const handle = await fs.open(filePath, "r");
+  try {
+    const stat = await handle.stat();
+    const reset = cursor.ino !== stat.ino || stat.size < cursor.offset;
+    const start = reset ? 0 : cursor.offset;
+    const raw = (await readLinesAfter(handle, start, stat.size, maxLines)).filter((l) => l.end < stat.size);
+    const last = raw[raw.length - 1];
+    const parsed = toLogLines(raw);
+    const matched = matchLines(parsed, filter, newBudget());
+    return {
+      lines: parsed.filter((_, i) => matched[i]),
+      cursor: { offset: last ? last.end + 1 : start, ino: stat.ino },
+      reset,
+    };
+  } finally {
+    await handle.close();
+  }
+}
@@ -0,0 +1,63 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+
+// Messages an operator sent into a session from the command center, one JSON
+// line each in command-center/operator-messages.jsonl. The transcript only
+// shows them as ordinary user turns; this log is what says who sent them.
+// Server-only; client code imports the types.
+
+const OPENCLAW_ROOT = process.env.OPENCLAW_ROOT || "/home/clawdbot/.openclaw";
+export const OPERATOR_MESSAGES_PATH = path.join(
+  OPENCLAW_ROOT,
+  "command-center",
+  "operator-messages.jsonl"
+);
+
+/** Longest message the composer may send. */
+export const MAX_OPERATOR_MESSAGE_LENGTH = 8000;
+
+export interface OperatorMessageRecord {
+  /** Also the idempotency key of the chat.send call. */
+  id: string;
+  sessionKey: string;
+  text: string;
+  sentBy?: string;
+  sentAt: number;
+  /** Gateway run that answers it; replies stream as "chat" events with this id. */
+  runId?: string;
+  status: "sent" | "error";
+  error?: string;
+}
+
+export async function appendOperatorMessage(record: OperatorMessageRecord): Promise<void> {
+  await fs.mkdir(path.dirname(OPERATOR_MESSAGES_PATH), { recursive: true, mode: 0o700 });
+  await fs.appendFile(OPERATOR_MESSAGES_PATH, `${JSON.stringify(record)}\n`, { mode: 0o600 });
+}
+
+function parseRecord(line: string): OperatorMessageRecord | null {
+  try {
+    const parsed = JSON.parse(line) as OperatorMessageRecord;
+    if (!parsed || typeof parsed.id !== "string" || typeof parsed.sessionKey !== "string") return null;
+    if (typeof parsed.text !== "string" || typeof parsed.sentAt !== "number") return null;
+    return parsed;
+  } catch {
+    return null;
+  }
+}
+
+/** Messages sent into `sessionKey` (every session if omitted), newest first. */
+export async function readOperatorMessages(sessionKey?: string): Promise<OperatorMessageRecord[]> {
+  let raw: string;
+  try {
+    raw = await fs.readFile(OPERATOR_MESSAGES_PATH, "utf-8");
+  } catch {
+    return [];
+  }
+  const records: OperatorMessageRecord[] = [];
+  for (const line of raw.split("\n")) {
+    if (!line.trim()) continue;
+    const record = parseRecord(line);
+    if (record && (!sessionKey || record.sessionKey === sessionKey)) records.push(record);
+  }
+  return records.sort((a, b) => b.sentAt - a.sentAt);
+}
@@ -0,0 +1,56 @@
+// Role and permission table shared by the server (enforcement) and the
+// client (hiding controls). Keep this file free of Node imports.
+
+export type Role = "viewer" | "operator" | "admin";
+
+export const ROLES: Role[] = ["viewer", "operator", "admin"];
+
+const ROLE_RANK: Record<Role, number> = {
+  viewer: 0,
+  operator: 1,
+  admin: 2,
+};
+
+/** Minimum role required for each action. */
+export const PERMISSIONS = {
+  // Viewer: read-only dashboards, sessions, logs
+  "read": "viewer",
+  // Operator: day-to-day running of the agent
+  "cron.run": "operator",
+  "cron.manage": "operator",
+  "scripts.run": "operator",
+  "contacts.edit": "operator",
+  "agent.edit": "operator",
+  "sessions.send": "operator",
+  "sessions.manage": "operator",
+  "logs.tail": "operator",
+  "alerts.snooze": "operator",
+  // Admin: anything that changes access, config or installed code
+  "scripts.edit": "admin",
+  "scripts.delete": "admin",
+  "sessions.delete": "admin",
+  "crontab.force": "admin",
+  "config.write": "admin",
+  "settings.write": "admin",
+  "alerts.manage": "admin",
+  "contacts.access": "admin",
+  "groups.manage": "admin",
+  "skills.manage": "admin",
+  "devices.manage": "admin",
+  "users.manage": "admin",
+} as const satisfies Record<string, Role>;
+
+export type Permission = keyof typeof PERMISSIONS;
+
+export function isRole(value: unknown): value is Role {
+  return typeof value === "string" && (ROLES as string[]).includes(value);
+}
+
+export function hasRole(role: Role | null | undefined, minimum: Role): boolean {
+  if (!role) return false;
+  return ROLE_RANK[role] >= ROLE_RANK[minimum];
+}
+
+export function can(role: Role | null | undefined, permission: Permission): boolean {
+  return hasRole(role, PERMISSIONS[permission]);
+}
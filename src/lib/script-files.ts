@@ -0,0 +1,225 @@
+import { execFile } from "node:child_process";
+import { randomBytes } from "node:crypto";
+import fs from "node:fs/promises";
+import path from "node:path";
+import { promisify } from "node:util";
+import { findTrustedScript, TRUSTED_SCRIPT_DIRS } from "@/lib/trusted-scripts";
+
+// Reading, creating and editing script files. Only the workspace scripts dir
+// is writable; every save is syntax-checked with `bash -n` first and the
+// previous revision is kept under command-center/script-backups/<name>/.
+// Server-only.
+
+const execFileAsync = promisify(execFile);
+
+const OPENCLAW_ROOT = process.env.OPENCLAW_ROOT || "/home/clawdbot/.openclaw";
+const BACKUP_DIR = path.join(OPENCLAW_ROOT, "command-center", "script-backups");
+const MAX_REVISIONS = 20;
+const MAX_SCRIPT_BYTES = 256 * 1024;
+
+/** Where new and edited scripts live. */
+export const WRITABLE_SCRIPTS_DIR = TRUSTED_SCRIPT_DIRS[0];
+
+const SCRIPT_NAME = /^[A-Za-z0-9][\w.-]*\.sh$/;
+
+export interface ScriptSource {
+  name: string;
+  content: string;
+  modifiedAt: string;
+  /** False for scripts outside the workspace scripts dir. */
+  editable: boolean;
+}
+
+export interface ScriptRevision {
+  /** Backup file id, usable with readScriptRevision. */
+  id: string;
+  savedAt: string;
+  sizeBytes: number;
+}
+
+export class ScriptFileError extends Error {
+  constructor(
+    message: string,
+    public status = 400,
+    public code?: "syntax" | "conflict" | "not-found"
+  ) {
+    super(message);
+    this.name = "ScriptFileError";
+  }
+}
+
+export function isValidScriptName(name: string): boolean {
+  return SCRIPT_NAME.test(name) && path.basename(name) === name && !name.includes("..");
+}
+
+/** The real workspace scripts dir, created if missing. */
+async function writableDir(): Promise<string> {
+  await fs.mkdir(WRITABLE_SCRIPTS_DIR, { recursive: true });
+  return fs.realpath(WRITABLE_SCRIPTS_DIR);
+}
+
+/**
+ * Path of `name` in the writable dir, or null when it doesn't exist yet.
+ * Refuses anything that resolves outside the dir (symlinks) or isn't a file.
+ */
+async function existingWritablePath(name: string, realDir: string): Promise<string | null> {
+  const scriptPath = path.join(realDir, name);
+  let realPath: string;
+  try {
+    realPath = await fs.realpath(scriptPath);
+  } catch {
+    return null;
+  }
+  if (!realPath.startsWith(realDir + path.sep)) {
+    throw new ScriptFileError("Script resolves outside the scripts directory", 403);
+  }
+  if (!(await fs.stat(realPath)).isFile()) {
+    throw new ScriptFileError("Not a regular file", 400);
+  }
+  return realPath;
+}
+
+export async function readScriptSource(name: string): Promise<ScriptSource> {
+  const scriptPath = isValidScriptName(name) ? await findTrustedScript(name) : null;
+  if (!scriptPath) throw new ScriptFileError(`Script not found: ${name}`, 404, "not-found");
+  const [content, stat] = await Promise.all([fs.readFile(scriptPath, "utf-8"), fs.stat(scriptPath)]);
+  return {
+    name,
+    content,
+    modifiedAt: stat.mtime.toISOString(),
+    editable: path.dirname(scriptPath) === path.resolve(WRITABLE_SCRIPTS_DIR),
+  };
+}
+
+// ─── Syntax check ────────────────────────────────────────────
+
+/** Null when `bash -n` accepts the file, otherwise its complaint. */
+async function syntaxError(filePath: string, name: string): Promise<string | null> {
+  try {
+    await execFileAsync("bash", ["-n", filePath], { timeout: 5000 });
+    return null;
+  } catch (error) {
+    const err = error as { stderr?: string; message?: string };
+    const message = (err.stderr || err.message || "bash -n failed").trim();
+    // Point at the script, not the temp file
+    return message.split(filePath).join(name);
+  }
+}
+
+// ─── Revisions ───────────────────────────────────────────────
+
+function revisionDir(name: string): string {
+  return path.join(BACKUP_DIR, name);
+}
+
+async function backupRevision(name: string, content: string): Promise<void> {
+  const dir = revisionDir(name);
+  await fs.mkdir(dir, { recursive: true, mode: 0o700 });
+  const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+  await fs.writeFile(path.join(dir, `${stamp}.sh`), content, { mode: 0o600 });
+
+  const revisions = (await fs.readdir(dir)).filter((f) => f.endsWith(".sh")).sort();
+  for (const old of revisions.slice(0, Math.max(0, revisions.length - MAX_REVISIONS))) {
+    await fs.unlink(path.join(dir, old)).catch(() => {});
+  }
+}
+
+/** Saved revisions of `name`, newest first. */
+export async function listScriptRevisions(name: string): Promise<ScriptRevision[]> {
+  if (!isValidScriptName(name)) return [];
+  let files: string[];
+  try {
+    files = (await fs.readdir(revisionDir(name))).filter((f) => f.endsWith(".sh"));
+  } catch {
+    return [];
+  }
+  const revisions = await Promise.all(
+    files.map(async (file) => {
+      const stat = await fs.stat(path.join(revisionDir(name), file));
+      return { id: file.replace(/\.sh$/, ""), savedAt: stat.mtime.toISOString(), sizeBytes: stat.size };
+    })
+  );
+  return revisions.sort((a, b) => b.id.localeCompare(a.id));
+}
+
+export async function readScriptRevision(name: string, id: string): Promise<string> {
+  if (!isValidScriptName(name) || !/^[\w-]+$/.test(id)) {
+    throw new ScriptFileError("Revision not found", 404, "not-found");
+  }
+  try {
+    return await fs.readFile(path.join(revisionDir(name), `${id}.sh`), "utf-8");
+  } catch {
+    throw new ScriptFileError("Revision not found", 404, "not-found");
+  }
+}
+
+// ─── Saving ──────────────────────────────────────────────────
+
+export interface SaveScriptInput {
+  name: string;
+  content: string;
+  /** Refuse to overwrite an existing script (new-script form). */
+  create?: boolean;
+  /** modifiedAt the editor loaded; a newer file on disk is a conflict. */
+  expectedModifiedAt?: string;
+}
+
+/**
+ * Create or replace a script in the workspace scripts dir. The content must
+ * pass `bash -n`; the old file is backed up before it's replaced.
+ */
+export async function saveScript(input: SaveScriptInput): Promise<ScriptSource> {
+  const { name, create } = input;
+  if (!isValidScriptName(name)) {
+    throw new ScriptFileError("Script names must end in .sh and use only letters, digits, '.', '_' and '-'");
+  }
+  // Scripts run with bash; keep line endings Unix so they do too
+  const content = input.content.replace(/\r\n/g, "\n");
+  if (Buffer.byteLength(content) > MAX_SCRIPT_BYTES) {
+    throw new ScriptFileError(`Scripts are limited to ${MAX_SCRIPT_BYTES / 1024} KB`, 413);
+  }
+
+  const realDir = await writableDir();
+  const existing = await existingWritablePath(name, realDir);
+  if (existing && create) {
+    throw new ScriptFileError(`${name} already exists`, 409, "conflict");
+  }
+  if (!existing && !create) {
+    const elsewhere = await findTrustedScript(name);
+    throw elsewhere
+      ? new ScriptFileError("Only scripts in the workspace scripts directory can be edited", 403)
+      : new ScriptFileError(`Script not found: ${name}`, 404, "not-found");
+  }
+
+  let previous: string | null = null;
+  let mode = 0o755;
+  if (existing) {
+    const stat = await fs.stat(existing);
+    if (input.expectedModifiedAt && stat.mtime.toISOString() !== input.expectedModifiedAt) {
+      throw new ScriptFileError(
+        "The script changed on disk since you opened it. Reload it and re-apply your edits.",
+        409,
+        "conflict"
+      );
+    }
+    previous = await fs.readFile(existing, "utf-8");
+    mode = stat.mode & 0o777;
+  }
+
+  const target = existing ?? path.join(realDir, name);
+  const tmpPath = path.join(realDir, `.${name}.${randomBytes(6).toString("hex")}.tmp`);
+  await fs.writeFile(tmpPath, content, { mode });
+  try {
+    const problem = await syntaxError(tmpPath, name);
+    if (problem) throw new ScriptFileError(problem, 422, "syntax");
+    if (previous !== null) await backupRevision(name, previous);
+    await fs.chmod(tmpPath, mode);
+    await fs.rename(tmpPath, target);
+  } catch (error) {
+    await fs.unlink(tmpPath).catch(() => {});
+    throw error;
+  }
+
+  const stat = await fs.stat(target);
+  return { name, content, modifiedAt: stat.mtime.toISOString(), editable: true };
+}
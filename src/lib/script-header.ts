@@ -0,0 +1,249 @@
+// Settings declared in a script's leading comment block, e.g.
+//
+//   #!/bin/bash
+//   # Rotate logs and upload them
+//   # timeout: 10m
+//   # cwd: data/exports
+//   # @param bucket string required -- Where to upload
+//
+// Shared by /api/scripts (listing) and the run registry; no Node imports.
+
+export const DEFAULT_SCRIPT_TIMEOUT_MS = 60_000;
+export const MAX_SCRIPT_TIMEOUT_MS = 24 * 60 * 60_000;
+
+const UNIT_MS: Record<string, number> = { s: 1000, m: 60_000, h: 3_600_000 };
+const TIMEOUT_LINE = /^@?timeout\s*[:=]?\s*(\d+(?:\.\d+)?)\s*([smh])?\s*$/i;
+const CWD_LINE = /^@?cwd\s*[:=]\s*(\S.*?)\s*$/i;
+
+/** The comment lines before the first command, without "#" and the shebang. */
+export function headerComments(content: string): string[] {
+  const comments: string[] = [];
+  for (const line of content.split("\n")) {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith("#!")) continue;
+    if (!trimmed.startsWith("#")) break;
+    comments.push(trimmed.slice(1).trim());
+  }
+  return comments;
+}
+
+/**
+ * Timeout from a "# timeout: 90", "# timeout: 10m" or "# timeout: 2h" header
+ * line (seconds if no unit), capped at 24h. Null when the script doesn't set
+ * one or the value is unreadable.
+ */
+export function parseScriptTimeout(content: string): number | null {
+  for (const comment of headerComments(content)) {
+    const match = comment.match(TIMEOUT_LINE);
+    if (!match) continue;
+    const ms = Number(match[1]) * UNIT_MS[(match[2] || "s").toLowerCase()];
+    if (!Number.isFinite(ms) || ms <= 0) return null;
+    return Math.min(Math.round(ms), MAX_SCRIPT_TIMEOUT_MS);
+  }
+  return null;
+}
+
+/**
+ * Working directory from a "# cwd: some/dir" header line, as written; the run
+ * registry resolves it against the workspace and refuses anything outside.
+ */
+export function parseScriptWorkdir(content: string): string | null {
+  for (const comment of headerComments(content)) {
+    const match = comment.match(CWD_LINE);
+    if (match) return match[1];
+  }
+  return null;
+}
+
+/** Header comments that configure the script rather than describe it. */
+export function isSettingComment(comment: string): boolean {
+  return TIMEOUT_LINE.test(comment) || CWD_LINE.test(comment) || PARAM_LINE.test(comment);
+}
+
+// ─── Parameters ──────────────────────────────────────────────
+//
+//   # @param env enum(staging|prod) required -- Where to deploy
+//   # @param count int default=3 -- How many hosts at once
+//   # @param token string secret required
+//   # @param dry_run bool default=false
+//
+// Values reach the script as positional arguments in declaration order
+// ($1 is the first @param); bools as "true"/"false", unset optional ones as "".
+
+export type ScriptParamType = "string" | "int" | "number" | "bool" | "enum";
+
+export interface ScriptParam {
+  name: string;
+  type: ScriptParamType;
+  /** Allowed values for enum params. */
+  choices?: string[];
+  default?: string;
+  required: boolean;
+  /** Masked in run history, live events and the UI. */
+  secret: boolean;
+  description?: string;
+}
+
+/** Shown instead of secret values. */
+export const SECRET_MASK = "••••••";
+
+const PARAM_LINE = /^@param\s+(.*)$/i;
+const PARAM_NAME = /^[A-Za-z_][A-Za-z0-9_]*$/;
+const TYPE_ALIASES: Record<string, ScriptParamType> = {
+  string: "string",
+  str: "string",
+  int: "int",
+  integer: "int",
+  number: "number",
+  float: "number",
+  bool: "bool",
+  boolean: "bool",
+};
+const TRUE_VALUES = ["true", "1", "yes", "on"];
+const FALSE_VALUES = ["false", "0", "no", "off"];
+
+/**
+ * A value for `param` in its canonical string form, or an error message.
+ * Empty values are the caller's concern (required / default).
+ */
+function coerceParamValue(param: ScriptParam, raw: string): { value: string } | { error: string } {
+  switch (param.type) {
+    case "int":
+      return /^-?\d+$/.test(raw.trim()) ? { value: raw.trim() } : { error: "must be a whole number" };
+    case "number":
+      return raw.trim() !== "" && Number.isFinite(Number(raw))
+        ? { value: raw.trim() }
+        : { error: "must be a number" };
+    case "bool": {
+      const lower = raw.trim().toLowerCase();
+      if (TRUE_VALUES.includes(lower)) return { value: "true" };
+      if (FALSE_VALUES.includes(lower)) return { value: "false" };
+      return { error: "must be true or false" };
+    }
+    case "enum":
+      return param.choices?.includes(raw)
+        ? { value: raw }
+        : { error: `must be one of ${(param.choices || []).join(", ")}` };
+    default:
+      return raw.includes("\0") ? { error: "must not contain NUL bytes" } : { value: raw };
+  }
+}
+
+function parseParamLine(spec: string): ScriptParam | string {
+  const sep = spec.indexOf(" -- ");
+  const description = sep === -1 ? undefined : spec.slice(sep + 4).trim() || undefined;
+  const tokens = (sep === -1 ? spec : spec.slice(0, sep)).match(/\w+="[^"]*"|\w+='[^']*'|\S+/g) || [];
+  const [name, typeToken, ...flags] = tokens;
+
+  if (!name || !PARAM_NAME.test(name)) return `invalid parameter name "${name ?? ""}"`;
+  if (!typeToken) return `${name}: missing type`;
+
+  const param: ScriptParam = { name, type: "string", required: false, secret: false, description };
+  const enumMatch = typeToken.match(/^enum\((.*)\)$/i);
+  if (enumMatch) {
+    const choices = enumMatch[1].split("|").map((c) => c.trim()).filter(Boolean);
+    if (choices.length === 0) return `${name}: enum needs at least one choice`;
+    param.type = "enum";
+    param.choices = choices;
+  } else if (TYPE_ALIASES[typeToken.toLowerCase()]) {
+    param.type = TYPE_ALIASES[typeToken.toLowerCase()];
+  } else {
+    return `${name}: unknown type "${typeToken}"`;
+  }
+
+  for (const flag of flags) {
+    const lower = flag.toLowerCase();
+    if (lower === "required") param.required = true;
+    else if (lower === "secret") param.secret = true;
+    else if (lower.startsWith("default=")) {
+      const raw = flag.slice("default=".length).replace(/^(["'])(.*)\1$/, "$2");
+      const coerced = coerceParamValue(param, raw);
+      if ("error" in coerced) return `${name}: default ${coerced.error}`;
+      param.default = coerced.value;
+    } else {
+      return `${name}: unknown flag "${flag}"`;
+    }
+  }
+  return param;
+}
+
+/**
+ * The "# @param" lines of a script's header. Lines that don't parse are
+ * reported in `errors` and left out of `params`.
+ */
+export function parseScriptParams(content: string): { params: ScriptParam[]; errors: string[] } {
+  const params: ScriptParam[] = [];
+  const errors: string[] = [];
+  for (const comment of headerComments(content)) {
+    const match = comment.match(PARAM_LINE);
+    if (!match) continue;
+    const parsed = parseParamLine(match[1].trim());
+    if (typeof parsed === "string") errors.push(parsed);
+    else if (params.some((p) => p.name === parsed.name)) errors.push(`${parsed.name}: declared twice`);
+    else params.push(parsed);
+  }
+  return { params, errors };
+}
+
+export interface ScriptParamValidation {
+  /** Positional arguments in declaration order; empty when there are errors. */
+  args: string[];
+  /** Canonical value per parameter, secrets masked, for history and display. */
+  display: Record<string, string>;
+  /** Indexes into `args` that hold secret values. */
+  secretIndexes: number[];
+  /** Problem per parameter name; empty when the input is valid. */
+  errors: Record<string, string>;
+}
+
+/** Check form input against a script's parameters and build its arguments. */
+export function validateScriptParams(
+  params: ScriptParam[],
+  input: Record<string, unknown>
+): ScriptParamValidation {
+  const args: string[] = [];
+  const display: Record<string, string> = {};
+  const secretIndexes: number[] = [];
+  const errors: Record<string, string> = {};
+
+  for (const param of params) {
+    const given = input[param.name];
+    const raw =
+      given === undefined || given === null
+        ? ""
+        : typeof given === "string" || typeof given === "number" || typeof given === "boolean"
+          ? String(given)
+          : null;
+    if (raw === null) {
+      errors[param.name] = "must be a text, number or boolean value";
+      continue;
+    }
+
+    let value = "";
+    if (raw.trim() === "") {
+      if (param.default !== undefined) value = param.default;
+      else if (param.required) {
+        errors[param.name] = "is required";
+        continue;
+      }
+    } else {
+      const coerced = coerceParamValue(param, raw);
+      if ("error" in coerced) {
+        errors[param.name] = coerced.error;
+        continue;
+      }
+      value = coerced.value;
+    }
+
+    if (param.secret) secretIndexes.push(args.length);
+    args.push(value);
+    display[param.name] = param.secret && value ? SECRET_MASK : value;
+  }
+
+  const unknown = Object.keys(input).filter((key) => !params.some((p) => p.name === key));
+  for (const key of unknown) errors[key] = "is not a parameter of this script";
+
+  return Object.keys(errors).length > 0
+    ? { args: [], display: {}, secretIndexes: [], errors }
+    : { args, display, secretIndexes, errors };
+}
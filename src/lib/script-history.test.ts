@@ -0,0 +1,135 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterAll, beforeEach, describe, expect, it } from "vitest";
+
+const root = await fs.mkdtemp(path.join(os.tmpdir(), "cc-script-history-"));
+process.env.OPENCLAW_ROOT = root;
+process.env.SCRIPT_HISTORY_GENERATIONS = "2";
+
+const { SCRIPT_HISTORY_PATH, ScriptHistoryError, appendScriptRunRecord, getScriptRunRecord, readScriptRunRecords } =
+  await import("@/lib/script-history");
+type ScriptRunRecord = Parameters<typeof appendScriptRunRecord>[0];
+
+const ROTATED_PATH = path.join(path.dirname(SCRIPT_HISTORY_PATH), "script-runs.1.jsonl");
+
+function record(n: number, script = "backup.sh"): ScriptRunRecord {
+  return {
+    id: `run-${n}`,
+    script,
+    args: [],
+    startedAt: n * 1000,
+    finishedAt: n * 1000 + 500,
+    durationMs: 500,
+    status: "ok",
+    exitCode: 0,
+    signal: null,
+    stdout: `output of ${n}`,
+    stderr: "",
+    outputTruncated: false,
+  };
+}
+
+/** Every page of a listing, following nextCursor to the end. */
+async function allPages(script: string | undefined, limit: number): Promise<string[][]> {
+  const pages: string[][] = [];
+  let cursor: string | null = null;
+  do {
+    const page = await readScriptRunRecords({ script, limit, cursor });
+    pages.push(page.runs.map((r) => r.id));
+    cursor = page.nextCursor;
+  } while (cursor);
+  return pages;
+}
+
+beforeEach(async () => {
+  await fs.rm(path.dirname(SCRIPT_HISTORY_PATH), { recursive: true, force: true });
+});
+
+afterAll(async () => {
+  await fs.rm(root, { recursive: true, force: true });
+});
+
+describe("readScriptRunRecords", () => {
+  it("pages newest first and ends without an empty page", async () => {
+    for (let n = 1; n <= 7; n++) await appendScriptRunRecord(record(n, n % 2 ? "backup.sh" : "deploy.sh"));
+    expect(await allPages(undefined, 3)).toEqual([
+      ["run-7", "run-6", "run-5"],
+      ["run-4", "run-3", "run-2"],
+      ["run-1"],
+    ]);
+    expect(await allPages("backup.sh", 2)).toEqual([["run-7", "run-5"], ["run-3", "run-1"]]);
+    expect(await allPages("deploy.sh", 3)).toEqual([["run-6", "run-4", "run-2"]]);
+  });
+
+  it("ignores a script name that only appears in another run's output", async () => {
+    await appendScriptRunRecord({ ...record(1), stdout: '"script":"deploy.sh"' });
+    await appendScriptRunRecord(record(2, "deploy.sh"));
+    expect(await allPages("deploy.sh", 10)).toEqual([["run-2"]]);
+  });
+
+  it("skips damaged lines", async () => {
+    await appendScriptRunRecord(record(1));
+    await fs.appendFile(SCRIPT_HISTORY_PATH, '{"id":"torn", "scr\n');
+    await appendScriptRunRecord(record(2));
+    expect(await allPages(undefined, 10)).toEqual([["run-2", "run-1"]]);
+  });
+
+  it("rejects a cursor it didn't issue", async () => {
+    await expect(readScriptRunRecords({ limit: 10, cursor: "nonsense" })).rejects.toBeInstanceOf(ScriptHistoryError);
+  });
+});
+
+describe("rotation", () => {
+  it("moves a full history file aside and keeps reading through both", async () => {
+    await appendScriptRunRecord(record(1));
+    await appendScriptRunRecord(record(2));
+    // Pad the file to the cap so the next append rotates it
+    await fs.appendFile(SCRIPT_HISTORY_PATH, `${" ".repeat(16 * 1024 * 1024)}\n`);
+    await appendScriptRunRecord(record(3));
+
+    expect((await fs.readFile(SCRIPT_HISTORY_PATH, "utf-8")).trim()).toBe(JSON.stringify(record(3)));
+    expect(await fs.stat(ROTATED_PATH)).toBeTruthy();
+    expect(await allPages(undefined, 2)).toEqual([["run-3", "run-2"], ["run-1"]]);
+    expect((await getScriptRunRecord("run-1"))?.stdout).toBe("output of 1");
+  });
+
+  it("keeps cursors valid across a rotation", async () => {
+    for (let n = 1; n <= 4; n++) await appendScriptRunRecord(record(n));
+    const first = await readScriptRunRecords({ limit: 2 });
+    expect(first.runs.map((r) => r.id)).toEqual(["run-4", "run-3"]);
+
+    await fs.appendFile(SCRIPT_HISTORY_PATH, `${" ".repeat(16 * 1024 * 1024)}\n`);
+    await appendScriptRunRecord(record(5));
+
+    const second = await readScriptRunRecords({ limit: 2, cursor: first.nextCursor });
+    expect(second.runs.map((r) => r.id)).toEqual(["run-2", "run-1"]);
+    expect(second.nextCursor).toBeNull();
+  });
+
+  it("keeps SCRIPT_HISTORY_GENERATIONS rotated files and drops the oldest", async () => {
+    for (let n = 1; n <= 4; n++) {
+      await appendScriptRunRecord(record(n));
+      if (n < 4) await fs.appendFile(SCRIPT_HISTORY_PATH, `${" ".repeat(16 * 1024 * 1024)}\n`);
+    }
+    const files = (await fs.readdir(path.dirname(SCRIPT_HISTORY_PATH))).sort();
+    expect(files).toEqual(["script-runs.1.jsonl", "script-runs.2.jsonl", "script-runs.jsonl"]);
+    expect(await allPages(undefined, 10)).toEqual([["run-4", "run-3", "run-2"]]);
+    expect(await getScriptRunRecord("run-1")).toBeNull();
+  });
+
+  it("serialises concurrent appends", async () => {
+    await Promise.all(Array.from({ length: 20 }, (_, i) => appendScriptRunRecord(record(i + 1))));
+    const [page] = await allPages(undefined, 50);
+    expect(page).toHaveLength(20);
+  });
+});
+
+describe("getScriptRunRecord", () => {
+  it("finds a run by id and nothing for an unknown one", async () => {
+    for (let n = 1; n <= 3; n++) await appendScriptRunRecord(record(n));
+    expect((await getScriptRunRecord("run-2"))?.stdout).toBe("output of 2");
+    expect(await getScriptRunRecord("run-9")).toBeNull();
+    expect(await getScriptRunRecord("run")).toBeNull();
+  });
+});
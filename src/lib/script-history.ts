@@ -0,0 +1,282 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { readLinesBefore, type RawLine } from "@/lib/file-lines";
+import type { ScriptOutputChunk, ScriptRunStatus, ScriptRunSummary } from "@/lib/script-runs";
+
+// Finished script runs, one JSON line each, appended to
+// command-center/script-runs.jsonl. Lines are never rewritten; once the file
+// reaches MAX_HISTORY_BYTES it becomes script-runs.1.jsonl, the one before
+// that .2, and so on up to SCRIPT_HISTORY_GENERATIONS, past which the oldest
+// is deleted. Reads go newest first from the end, so recent runs never cost a
+// pass over the whole history. Server-only; client code imports the types.
+
+const OPENCLAW_ROOT = process.env.OPENCLAW_ROOT || "/home/clawdbot/.openclaw";
+export const SCRIPT_HISTORY_PATH = path.join(OPENCLAW_ROOT, "command-center", "script-runs.jsonl");
+
+const MAX_HISTORY_BYTES = 16 * 1024 * 1024;
+/** Rotated files kept besides the live one. */
+const HISTORY_GENERATIONS = (() => {
+  const n = Number(process.env.SCRIPT_HISTORY_GENERATIONS);
+  return Number.isInteger(n) && n > 0 ? n : 5;
+})();
+
+function rotatedHistoryPath(generation: number): string {
+  return path.join(path.dirname(SCRIPT_HISTORY_PATH), `script-runs.${generation}.jsonl`);
+}
+
+/** Newest first, the order reads go through them. */
+const HISTORY_FILES = [
+  SCRIPT_HISTORY_PATH,
+  ...Array.from({ length: HISTORY_GENERATIONS }, (_, i) => rotatedHistoryPath(i + 1)),
+];
+/** Lines read from a history file at a time. */
+const READ_BATCH = 50;
+export const MAX_SCRIPT_RUN_PAGE = 500;
+
+/** Per stream; the end of the output is kept, since that's where errors show up. */
+const MAX_ARCHIVED_OUTPUT_BYTES = 64 * 1024;
+
+export interface ScriptRunRecord {
+  id: string;
+  script: string;
+  /** Secret parameter values are stored masked. */
+  args: string[];
+  params?: Record<string, string>;
+  startedBy?: string;
+  startedAt: number;
+  finishedAt: number;
+  durationMs: number;
+  status: Exclude<ScriptRunStatus, "running">;
+  exitCode: number | null;
+  signal: string | null;
+  error?: string;
+  stdout: string;
+  stderr: string;
+  /** Output was cut, either live (SCRIPT_MAX_OUTPUT_BYTES) or here (64 KB per stream). */
+  outputTruncated: boolean;
+}
+
+/** A record without its output, for lists. */
+export type ScriptRunListItem = Omit<ScriptRunRecord, "stdout" | "stderr">;
+
+export interface ScriptRunPage {
+  runs: ScriptRunRecord[];
+  /** Pass back as `cursor` for the next, older page; null on the last one. */
+  nextCursor: string | null;
+}
+
+export class ScriptHistoryError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = "ScriptHistoryError";
+  }
+}
+
+function tail(text: string): { text: string; cut: boolean } {
+  const bytes = Buffer.from(text, "utf-8");
+  if (bytes.length <= MAX_ARCHIVED_OUTPUT_BYTES) return { text, cut: false };
+  return { text: bytes.subarray(bytes.length - MAX_ARCHIVED_OUTPUT_BYTES).toString("utf-8"), cut: true };
+}
+
+/** The record for a finished run, with its output split by stream and capped. */
+export function toScriptRunRecord(run: ScriptRunSummary, output: ScriptOutputChunk[]): ScriptRunRecord {
+  const join = (stream: ScriptOutputChunk["stream"]) =>
+    output.filter((c) => c.stream === stream).map((c) => c.text).join("");
+  const stdout = tail(join("stdout"));
+  const stderr = tail(join("stderr"));
+  const finishedAt = run.finishedAt ?? Date.now();
+  return {
+    id: run.id,
+    script: run.script,
+    args: run.args,
+    params: run.params,
+    startedBy: run.startedBy,
+    startedAt: run.startedAt,
+    finishedAt,
+    durationMs: finishedAt - run.startedAt,
+    status: run.status === "running" ? "error" : run.status,
+    exitCode: run.exitCode ?? null,
+    signal: run.signal ?? null,
+    error: run.error,
+    stdout: stdout.text,
+    stderr: stderr.text,
+    outputTruncated: run.truncated || stdout.cut || stderr.cut,
+  };
+}
+
+// Appends run one at a time, so two runs finishing together can't both rotate
+// the file; on globalThis so dev-mode module reloads share the queue
+const globalForHistory = globalThis as unknown as { __scriptHistoryWrites?: Promise<unknown> };
+
+/**
+ * Shifts every generation up one, the live file becoming .1. Renames keep
+ * inodes, so cursors into older files stay valid; generations past the limit,
+ * including ones left by a larger setting, are deleted.
+ */
+async function rotateHistory(): Promise<void> {
+  const dir = path.dirname(SCRIPT_HISTORY_PATH);
+  for (const name of await fs.readdir(dir)) {
+    const generation = Number(name.match(/^script-runs\.(\d+)\.jsonl$/)?.[1]);
+    if (generation >= HISTORY_GENERATIONS) await fs.unlink(path.join(dir, name)).catch(() => {});
+  }
+  for (let generation = HISTORY_GENERATIONS - 1; generation > 0; generation--) {
+    await fs.rename(rotatedHistoryPath(generation), rotatedHistoryPath(generation + 1)).catch((error) => {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error;
+    });
+  }
+  await fs.rename(SCRIPT_HISTORY_PATH, rotatedHistoryPath(1));
+}
+
+export function appendScriptRunRecord(record: ScriptRunRecord): Promise<void> {
+  const line = `${JSON.stringify(record)}\n`;
+  const run = (globalForHistory.__scriptHistoryWrites ?? Promise.resolve()).then(async () => {
+    await fs.mkdir(path.dirname(SCRIPT_HISTORY_PATH), { recursive: true, mode: 0o700 });
+    const size = await fs.stat(SCRIPT_HISTORY_PATH).then((stat) => stat.size, () => 0);
+    if (size > 0 && size + Buffer.byteLength(line) > MAX_HISTORY_BYTES) {
+      await rotateHistory();
+    }
+    await fs.appendFile(SCRIPT_HISTORY_PATH, line, { mode: 0o600 });
+  });
+  globalForHistory.__scriptHistoryWrites = run.catch(() => {});
+  return run;
+}
+
+export function parseScriptRunRecord(line: string): ScriptRunRecord | null {
+  try {
+    const parsed = JSON.parse(line) as ScriptRunRecord;
+    if (!parsed || typeof parsed.id !== "string" || typeof parsed.script !== "string") return null;
+    if (typeof parsed.startedAt !== "number") return null;
+    return parsed;
+  } catch {
+    return null;
+  }
+}
+
+// ─── Reading ─────────────────────────────────────────────────
+
+/** A line start in one history file, named by inode so it survives rotation. */
+interface HistoryPosition {
+  ino: number;
+  offset: number;
+}
+
+function encodeCursor(position: HistoryPosition): string {
+  return Buffer.from(JSON.stringify([position.ino, position.offset])).toString("base64url");
+}
+
+function decodeCursor(cursor: string): HistoryPosition {
+  try {
+    const [ino, offset] = JSON.parse(Buffer.from(cursor, "base64url").toString("utf-8"));
+    if (Number.isInteger(ino) && Number.isInteger(offset) && offset >= 0) return { ino, offset };
+  } catch {
+    // fall through
+  }
+  throw new ScriptHistoryError("Invalid cursor");
+}
+
+/**
+ * Hands history lines to `visit` newest first, from `from` (or the end),
+ * until it returns false. A position in a file that has since been rotated
+ * away yields nothing.
+ */
+async function scanHistory(
+  from: HistoryPosition | null,
+  visit: (line: RawLine, ino: number) => boolean
+): Promise<void> {
+  let started = !from;
+  for (const filePath of HISTORY_FILES) {
+    let handle: fs.FileHandle;
+    try {
+      handle = await fs.open(filePath, "r");
+    } catch {
+      continue;
+    }
+    try {
+      const { ino, size } = await handle.stat();
+      let pos = size;
+      if (from && !started) {
+        if (ino !== from.ino) continue;
+        pos = Math.min(from.offset, size);
+        started = true;
+      }
+      while (pos > 0) {
+        const lines = await readLinesBefore(handle, pos, READ_BATCH);
+        if (lines.length === 0) break;
+        for (let i = lines.length - 1; i >= 0; i--) {
+          if (!visit(lines[i], ino)) return;
+        }
+        pos = lines[0].offset;
+      }
+    } finally {
+      await handle.close();
+    }
+  }
+}
+
+/**
+ * Recorded runs, or only those of `script`, most recently finished first,
+ * `limit` at a time. Lines that can't be the script's are skipped without
+ * being parsed.
+ */
+export async function readScriptRunRecords({
+  script,
+  limit,
+  cursor,
+}: {
+  script?: string;
+  limit: number;
+  cursor?: string | null;
+}): Promise<ScriptRunPage> {
+  const from = cursor ? decodeCursor(cursor) : null;
+  const needle = script ? `"script":${JSON.stringify(script)}` : null;
+  const runs: ScriptRunRecord[] = [];
+  let next: HistoryPosition | null = null;
+  let last: HistoryPosition | null = null;
+
+  await scanHistory(from, (line, ino) => {
+    if (needle && !line.text.includes(needle)) return true;
+    const record = parseScriptRunRecord(line.text);
+    if (!record || (script && record.script !== script)) return true;
+    // One more than the page: there is a next page, and it starts after the last run shown
+    if (runs.length === limit) {
+      next = last;
+      return false;
+    }
+    runs.push(record);
+    last = { ino, offset: line.offset };
+    return true;
+  });
+  return { runs, nextCursor: next ? encodeCursor(next) : null };
+}
+
+/** One run by id; stops at the first match, so recent runs are found quickly. */
+export async function getScriptRunRecord(id: string): Promise<ScriptRunRecord | null> {
+  const needle = `"id":${JSON.stringify(id)}`;
+  let found: ScriptRunRecord | null = null;
+  await scanHistory(null, (line) => {
+    if (!line.text.includes(needle)) return true;
+    const record = parseScriptRunRecord(line.text);
+    if (record?.id !== id) return true;
+    found = record;
+    return false;
+  });
+  return found;
+}
+
+export function toListItem(record: ScriptRunRecord): ScriptRunListItem {
+  return {
+    id: record.id,
+    script: record.script,
+    args: record.args,
+    params: record.params,
+    startedBy: record.startedBy,
+    startedAt: record.startedAt,
+    finishedAt: record.finishedAt,
+    durationMs: record.durationMs,
+    status: record.status,
+    exitCode: record.exitCode,
+    signal: record.signal,
+    error: record.error,
+    outputTruncated: record.outputTruncated,
+  };
+}
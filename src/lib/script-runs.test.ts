@@ -0,0 +1,130 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+
+// Scripts run for real: `bash <script> ...args` in a scratch workspace, with
+// the history file under a scratch OpenClaw root. The paths are read when the
+// modules load, so they're imported after the environment is set.
+
+const root = await fs.mkdtemp(path.join(os.tmpdir(), "cc-script-runs-"));
+process.env.OPENCLAW_ROOT = root;
+process.env.WORKSPACE_PATH = path.join(root, "workspace");
+
+const { ScriptRunError, listScriptRuns, prepareScriptInput, startScriptRun, subscribeScriptRun, waitForScriptRun } =
+  await import("@/lib/script-runs");
+
+// Echoes each argument NUL-terminated, so the test sees exactly where one ends
+const ECHO_ARGS = `#!/usr/bin/env bash
+for arg in "$@"; do printf '%s\\0' "$arg"; done
+`;
+
+const HOSTILE_ARGS = [
+  "$(touch pwned-subst)",
+  "`touch pwned-backtick`",
+  "'single' quotes",
+  '"double" quotes',
+  "it's",
+  "a; touch pwned-semicolon",
+  "a && touch pwned-and | cat > pwned-pipe",
+  "line one\nline two",
+  "\r\n",
+  "$HOME ${PATH} $1",
+  "*",
+  "~",
+  "--help",
+  "-e",
+  "",
+  "  spaced  ",
+  "tab\there",
+  "back\\slash",
+  "ünïcødé ✓",
+];
+
+async function writeScript(name: string, content: string): Promise<string> {
+  const scriptPath = path.join(root, "scripts", name);
+  await fs.writeFile(scriptPath, content, { mode: 0o755 });
+  return scriptPath;
+}
+
+/** Runs the script to the end and returns the argv it saw. */
+async function argvSeen(scriptPath: string, args: string[], secretIndexes?: number[]): Promise<string[]> {
+  const started = await startScriptRun(scriptPath, args, { secretIndexes });
+  const finished = await waitForScriptRun(started.id);
+  expect(finished?.status).toBe("ok");
+
+  let stdout = "";
+  subscribeScriptRun(started.id, 0, (evt) => {
+    if (evt.type === "output" && evt.chunk.stream === "stdout") stdout += evt.chunk.text;
+  });
+  const items = stdout.split("\0");
+  expect(items.pop()).toBe("");
+  return items;
+}
+
+beforeAll(async () => {
+  await fs.mkdir(path.join(root, "scripts"), { recursive: true });
+  await fs.mkdir(path.join(root, "workspace"), { recursive: true });
+});
+
+afterAll(async () => {
+  await fs.rm(root, { recursive: true, force: true });
+});
+
+describe("startScriptRun", () => {
+  it("passes each hostile argument through as one exact argv item", async () => {
+    const scriptPath = await writeScript("echo-args.sh", ECHO_ARGS);
+    expect(await argvSeen(scriptPath, HOSTILE_ARGS)).toEqual(HOSTILE_ARGS);
+    // Nothing was run by a shell along the way
+    expect(await fs.readdir(path.join(root, "workspace"))).toEqual([]);
+  });
+
+  it("passes arguments one at a time, each on its own", async () => {
+    const scriptPath = await writeScript("echo-one.sh", ECHO_ARGS);
+    for (const arg of HOSTILE_ARGS) {
+      expect(await argvSeen(scriptPath, [arg])).toEqual([arg]);
+    }
+  });
+
+  it("rejects NUL bytes before anything is spawned", async () => {
+    const scriptPath = await writeScript("echo-nul.sh", ECHO_ARGS);
+    const before = listScriptRuns().length;
+    for (const arg of ["a\0b", "\0", "trailing\0"]) {
+      const attempt = startScriptRun(scriptPath, ["fine", arg]);
+      await expect(attempt).rejects.toBeInstanceOf(ScriptRunError);
+      await expect(attempt).rejects.toThrow("NUL");
+    }
+    expect(listScriptRuns()).toHaveLength(before);
+  });
+});
+
+describe("prepareScriptInput", () => {
+  const PARAM_SCRIPT = `#!/usr/bin/env bash
+# @param target string required -- Where to
+# @param token string secret
+# @param count int default=1
+${ECHO_ARGS.split("\n").slice(1).join("\n")}`;
+
+  it("delivers hostile parameter values as exact positional arguments", async () => {
+    const scriptPath = await writeScript("echo-params.sh", PARAM_SCRIPT);
+    // Blank values count as not given, so they're left to the required check
+    for (const value of HOSTILE_ARGS.filter((arg) => arg.trim())) {
+      const prepared = await prepareScriptInput(scriptPath, { params: { target: value, token: value } });
+      expect(await argvSeen(scriptPath, prepared.args, prepared.secretIndexes)).toEqual([value, value, "1"]);
+    }
+  });
+
+  it("rejects NUL bytes in parameter values", async () => {
+    const scriptPath = await writeScript("echo-params-nul.sh", PARAM_SCRIPT);
+    const attempt = prepareScriptInput(scriptPath, { params: { target: "a\0b" } });
+    await expect(attempt).rejects.toBeInstanceOf(ScriptRunError);
+    await expect(attempt).rejects.toMatchObject({ fieldErrors: { target: expect.stringContaining("NUL") } });
+  });
+
+  it("passes free-form args through untouched for scripts without parameters", async () => {
+    const scriptPath = await writeScript("echo-free.sh", ECHO_ARGS);
+    const prepared = await prepareScriptInput(scriptPath, { args: HOSTILE_ARGS });
+    expect(prepared.args).toEqual(HOSTILE_ARGS);
+    expect(await argvSeen(scriptPath, prepared.args)).toEqual(HOSTILE_ARGS);
+  });
+});
@@ -0,0 +1,445 @@
+import { spawn, type ChildProcess } from "node:child_process";
+import { randomBytes } from "node:crypto";
+import fs from "node:fs/promises";
+import path from "node:path";
+import { publishLiveEvent } from "@/lib/event-hub";
+import { appendScriptRunRecord, toScriptRunRecord } from "@/lib/script-history";
+import {
+  DEFAULT_SCRIPT_TIMEOUT_MS,
+  parseScriptParams,
+  parseScriptTimeout,
+  parseScriptWorkdir,
+  SECRET_MASK,
+  validateScriptParams,
+} from "@/lib/script-header";
+import { WORKSPACE_DIR } from "@/lib/trusted-scripts";
+
+// Script runs in flight (and recently finished) in this server process. Each
+// run gets an id; output is buffered per run so any number of SSE streams can
+// follow it and resume after a reconnect. Finished runs are also written to
+// the script history file. Server-only.
+//
+// Scripts are spawned as `bash <path> ...args` with no shell in between, so
+// arguments are never expanded, and they get a cleaned environment (see
+// scriptEnv) rather than the server's own.
+
+function envInt(value: string | undefined, fallback: number): number {
+  const n = Number(value);
+  return Number.isInteger(n) && n > 0 ? n : fallback;
+}
+
+/** Output kept per run; the rest is dropped and the run marked truncated. */
+const MAX_OUTPUT_BYTES = envInt(process.env.SCRIPT_MAX_OUTPUT_BYTES, 1024 * 1024);
+/** Runs of the same script allowed at once. */
+const MAX_CONCURRENT_RUNS = envInt(process.env.SCRIPT_MAX_CONCURRENT_RUNS, 1);
+const KEEP_FINISHED_RUNS = 50;
+/** How long a cancelled or timed-out script gets to exit before SIGKILL. */
+const KILL_GRACE_MS = 5000;
+
+// Variables passed through from the server's environment; everything else
+// (auth secrets, gateway tokens) stays out of scripts. SCRIPT_ENV_ALLOWLIST
+// adds more names, comma-separated.
+const ENV_ALLOWLIST = [
+  "PATH", "HOME", "USER", "LOGNAME", "SHELL", "LANG", "LC_ALL", "LC_CTYPE", "TZ", "TERM", "TMPDIR",
+  "OPENCLAW_ROOT", "WORKSPACE_PATH", "SCRIPTS_PATH",
+  ...(process.env.SCRIPT_ENV_ALLOWLIST || "").split(",").map((name) => name.trim()).filter(Boolean),
+];
+
+export class ScriptRunError extends Error {
+  constructor(
+    message: string,
+    public status = 400,
+    /** Problem per declared parameter, when the input didn't validate. */
+    public fieldErrors?: Record<string, string>
+  ) {
+    super(message);
+    this.name = "ScriptRunError";
+  }
+}
+
+export type ScriptRunStatus = "running" | "ok" | "error" | "cancelled" | "timeout";
+
+export interface ScriptOutputChunk {
+  seq: number;
+  stream: "stdout" | "stderr";
+  text: string;
+}
+
+export interface ScriptRunSummary {
+  id: string;
+  script: string;
+  /** Arguments as passed, with secret parameter values masked. */
+  args: string[];
+  /** Declared parameter values by name (secrets masked), for scripts that have them. */
+  params?: Record<string, string>;
+  startedBy?: string;
+  startedAt: number;
+  finishedAt?: number;
+  timeoutMs: number;
+  status: ScriptRunStatus;
+  exitCode?: number | null;
+  signal?: string | null;
+  error?: string;
+  /** Output past MAX_OUTPUT_BYTES was dropped. */
+  truncated: boolean;
+}
+
+export interface StartScriptRunOptions {
+  startedBy?: string;
+  /** Parameter values for display; see validateScriptParams. */
+  params?: Record<string, string>;
+  /** Indexes of `args` to mask everywhere outside the process itself. */
+  secretIndexes?: number[];
+}
+
+export type ScriptRunEvent =
+  | { type: "output"; chunk: ScriptOutputChunk }
+  | { type: "exit"; run: ScriptRunSummary };
+
+interface ScriptRun extends ScriptRunSummary {
+  output: ScriptOutputChunk[];
+  outputBytes: number;
+  nextSeq: number;
+  child?: ChildProcess;
+  killTimer?: ReturnType<typeof setTimeout>;
+  timeoutTimer?: ReturnType<typeof setTimeout>;
+  listeners: Set<(evt: ScriptRunEvent) => void>;
+  /** Settles once the finished run is in the history file. */
+  recorded: Promise<ScriptRunSummary>;
+}
+
+// Kept on globalThis so dev-mode module reloads share one registry
+const globalForRuns = globalThis as unknown as { __scriptRuns?: Map<string, ScriptRun> };
+
+function runs(): Map<string, ScriptRun> {
+  if (!globalForRuns.__scriptRuns) globalForRuns.__scriptRuns = new Map();
+  return globalForRuns.__scriptRuns;
+}
+
+function summarizeRun(run: ScriptRun): ScriptRunSummary {
+  return {
+    id: run.id,
+    script: run.script,
+    args: run.args,
+    params: run.params,
+    startedBy: run.startedBy,
+    startedAt: run.startedAt,
+    finishedAt: run.finishedAt,
+    timeoutMs: run.timeoutMs,
+    status: run.status,
+    exitCode: run.exitCode,
+    signal: run.signal,
+    error: run.error,
+    truncated: run.truncated,
+  };
+}
+
+function emit(run: ScriptRun, evt: ScriptRunEvent) {
+  for (const listener of run.listeners) {
+    try {
+      listener(evt);
+    } catch (err) {
+      console.error("Script run listener error:", err);
+    }
+  }
+}
+
+function pruneFinished() {
+  const finished = [...runs().values()].filter((r) => r.finishedAt !== undefined);
+  for (const run of finished.slice(0, Math.max(0, finished.length - KEEP_FINISHED_RUNS))) {
+    runs().delete(run.id);
+  }
+}
+
+function appendOutput(run: ScriptRun, stream: ScriptOutputChunk["stream"], data: Buffer) {
+  if (run.truncated) return;
+  let text = data.toString("utf-8");
+  const room = MAX_OUTPUT_BYTES - run.outputBytes;
+  if (data.length > room) {
+    text = data.subarray(0, room).toString("utf-8");
+    run.truncated = true;
+  }
+  run.outputBytes += Buffer.byteLength(text);
+  const chunk: ScriptOutputChunk = { seq: run.nextSeq++, stream, text };
+  run.output.push(chunk);
+  emit(run, { type: "output", chunk });
+}
+
+/** Kill the whole process group: scripts often start children of their own. */
+function signalRun(run: ScriptRun, signal: NodeJS.Signals) {
+  const pid = run.child?.pid;
+  if (!pid) return;
+  try {
+    process.kill(-pid, signal);
+  } catch {
+    run.child?.kill(signal);
+  }
+}
+
+function stopRun(run: ScriptRun, status: "cancelled" | "timeout") {
+  if (run.status !== "running" || run.killTimer) return;
+  run.status = status;
+  signalRun(run, "SIGTERM");
+  run.killTimer = setTimeout(() => signalRun(run, "SIGKILL"), KILL_GRACE_MS);
+}
+
+/** The allowlisted part of the server's environment, plus PWD and CC_SCRIPT. */
+function baseEnv(script: string, cwd: string): Record<string, string> {
+  const env: Record<string, string> = {};
+  for (const name of ENV_ALLOWLIST) {
+    const value = process.env[name];
+    if (value !== undefined) env[name] = value;
+  }
+  env.PWD = cwd;
+  env.CC_SCRIPT = script;
+  return env;
+}
+
+function scriptEnv(run: ScriptRun, cwd: string): NodeJS.ProcessEnv {
+  const env = baseEnv(run.script, cwd) as NodeJS.ProcessEnv;
+  env.CC_RUN_ID = run.id;
+  if (run.startedBy) env.CC_STARTED_BY = run.startedBy;
+  return env;
+}
+
+/** The script's "# cwd:" directory inside the workspace, or the workspace itself. */
+async function resolveWorkdir(requested: string | null): Promise<string> {
+  const workspace = await fs.realpath(WORKSPACE_DIR).catch(() => path.resolve(WORKSPACE_DIR));
+  if (!requested) return workspace;
+  let dir: string;
+  try {
+    dir = await fs.realpath(path.resolve(workspace, requested));
+  } catch {
+    throw new ScriptRunError(`Working directory not found: ${requested}`);
+  }
+  if (dir !== workspace && !dir.startsWith(workspace + path.sep)) {
+    throw new ScriptRunError(`Working directory must be inside the workspace: ${requested}`);
+  }
+  if (!(await fs.stat(dir)).isDirectory()) {
+    throw new ScriptRunError(`Not a directory: ${requested}`);
+  }
+  return dir;
+}
+
+async function scriptSettings(scriptPath: string): Promise<{ timeoutMs: number; cwd: string }> {
+  const content = await fs.readFile(scriptPath, "utf-8").catch(() => "");
+  return {
+    timeoutMs: parseScriptTimeout(content) ?? DEFAULT_SCRIPT_TIMEOUT_MS,
+    cwd: await resolveWorkdir(parseScriptWorkdir(content)),
+  };
+}
+
+/** What a run started here is held to, for a crontab line to apply to itself. */
+export interface ScriptRunLimits {
+  cwd: string;
+  timeoutMs: number;
+  killGraceMs: number;
+  maxOutputBytes: number;
+  env: Record<string, string>;
+}
+
+/**
+ * The working directory, timeout, output cap and environment a run of the
+ * script would get here; system-crontab writes them into its lines so
+ * scheduled runs aren't looser than UI runs. Throws ScriptRunError for a
+ * "# cwd:" outside the workspace.
+ */
+export async function scriptRunLimits(scriptPath: string): Promise<ScriptRunLimits> {
+  const { timeoutMs, cwd } = await scriptSettings(scriptPath);
+  return {
+    cwd,
+    timeoutMs,
+    killGraceMs: KILL_GRACE_MS,
+    maxOutputBytes: MAX_OUTPUT_BYTES,
+    env: baseEnv(path.basename(scriptPath), cwd),
+  };
+}
+
+export interface ScriptRunInput {
+  /** Free-form arguments, for scripts without "# @param" lines. */
+  args?: string[];
+  /** Values by name, for scripts that declare parameters. */
+  params?: Record<string, unknown>;
+}
+
+export interface PreparedScriptInput {
+  args: string[];
+  params?: Record<string, string>;
+  secretIndexes: number[];
+}
+
+/**
+ * Turn run input into the argv and options for startScriptRun: scripts that
+ * declare parameters take `params`, checked against the declarations; others
+ * take free-form `args`. Throws ScriptRunError when the input doesn't fit.
+ */
+export async function prepareScriptInput(
+  scriptPath: string,
+  input: ScriptRunInput
+): Promise<PreparedScriptInput> {
+  const { args, params } = input;
+  const declared = parseScriptParams(await fs.readFile(scriptPath, "utf-8")).params;
+  if (declared.length === 0) {
+    if (params && Object.keys(params).length > 0) {
+      throw new ScriptRunError("This script doesn't declare any parameters");
+    }
+    return { args: args || [], secretIndexes: [] };
+  }
+
+  if (args && args.length > 0) {
+    throw new ScriptRunError("This script takes named parameters; send them as params");
+  }
+  const checked = validateScriptParams(declared, params || {});
+  if (Object.keys(checked.errors).length > 0) {
+    throw new ScriptRunError("Invalid parameters", 400, checked.errors);
+  }
+  return { args: checked.args, params: checked.display, secretIndexes: checked.secretIndexes };
+}
+
+/**
+ * Start `bash scriptPath ...args` in the workspace and return its summary
+ * straight away; follow it with subscribeScriptRun. Throws ScriptRunError
+ * for a bad working directory or when the script is already running as
+ * often as allowed.
+ */
+export async function startScriptRun(
+  scriptPath: string,
+  args: string[],
+  options: StartScriptRunOptions = {}
+): Promise<ScriptRunSummary> {
+  // argv entries are C strings; spawn would throw on these after registering the run
+  if (args.some((arg) => arg.includes("\0"))) {
+    throw new ScriptRunError("Arguments can't contain NUL bytes");
+  }
+  const { timeoutMs, cwd } = await scriptSettings(scriptPath);
+  const script = path.basename(scriptPath);
+  // Checked after the last await so two requests can't both slip through
+  const active = [...runs().values()].filter((r) => r.script === script && r.finishedAt === undefined);
+  if (active.length >= MAX_CONCURRENT_RUNS) {
+    throw new ScriptRunError(
+      MAX_CONCURRENT_RUNS === 1
+        ? `${script} is already running`
+        : `${script} already has ${active.length} runs in progress (limit ${MAX_CONCURRENT_RUNS})`,
+      429
+    );
+  }
+
+  const secret = new Set(options.secretIndexes);
+  let markRecorded: (summary: ScriptRunSummary) => void = () => {};
+  const run: ScriptRun = {
+    id: randomBytes(8).toString("hex"),
+    script,
+    args: args.map((arg, i) => (secret.has(i) && arg ? SECRET_MASK : arg)),
+    params: options.params,
+    startedBy: options.startedBy,
+    startedAt: Date.now(),
+    timeoutMs,
+    status: "running",
+    truncated: false,
+    output: [],
+    outputBytes: 0,
+    nextSeq: 1,
+    listeners: new Set(),
+    recorded: new Promise((resolve) => {
+      markRecorded = resolve;
+    }),
+  };
+  runs().set(run.id, run);
+
+  const child = spawn("bash", [scriptPath, ...args], {
+    cwd,
+    env: scriptEnv(run, cwd),
+    detached: true,
+    stdio: ["ignore", "pipe", "pipe"],
+  });
+  run.child = child;
+  child.stdout.on("data", (data: Buffer) => appendOutput(run, "stdout", data));
+  child.stderr.on("data", (data: Buffer) => appendOutput(run, "stderr", data));
+  run.timeoutTimer = setTimeout(() => stopRun(run, "timeout"), timeoutMs);
+
+  let settled = false;
+  const finish = (exitCode: number | null, signal: NodeJS.Signals | null, error?: string) => {
+    if (settled) return;
+    settled = true;
+    clearTimeout(run.timeoutTimer);
+    clearTimeout(run.killTimer);
+    run.child = undefined;
+    run.finishedAt = Date.now();
+    run.exitCode = exitCode;
+    run.signal = signal;
+    if (run.status === "running") run.status = exitCode === 0 ? "ok" : "error";
+    if (error) run.error = error;
+    else if (run.status === "timeout") run.error = `Timed out after ${Math.round(timeoutMs / 1000)}s`;
+    else if (run.status === "cancelled") run.error = "Cancelled";
+    else if (run.status === "error") run.error = signal ? `Killed by ${signal}` : `Exited with code ${exitCode}`;
+
+    const summary = summarizeRun(run);
+    emit(run, { type: "exit", run: summary });
+    run.listeners.clear();
+    pruneFinished();
+
+    // Announce the run once it's in the history file, so listeners that
+    // refetch the history see it
+    appendScriptRunRecord(toScriptRunRecord(summary, run.output))
+      .catch((err) => console.error("Script history write error:", err))
+      .finally(() => {
+        publishLiveEvent("scripts", "script.finished", summary);
+        markRecorded(summary);
+      });
+  };
+  child.on("error", (err) => finish(null, null, err.message));
+  child.on("close", (code, signal) => finish(code, signal));
+
+  publishLiveEvent("scripts", "script.started", summarizeRun(run));
+  return summarizeRun(run);
+}
+
+export function getScriptRun(id: string): ScriptRunSummary | null {
+  const run = runs().get(id);
+  return run ? summarizeRun(run) : null;
+}
+
+export function listScriptRuns(): ScriptRunSummary[] {
+  return [...runs().values()].map(summarizeRun).sort((a, b) => b.startedAt - a.startedAt);
+}
+
+/**
+ * The run's final summary, once it has finished and been written to the
+ * history file; null for an unknown run.
+ */
+export async function waitForScriptRun(id: string): Promise<ScriptRunSummary | null> {
+  const run = runs().get(id);
+  return run ? run.recorded : null;
+}
+
+/** SIGTERM the run, then SIGKILL if it is still alive after a grace period. */
+export function cancelScriptRun(id: string): boolean {
+  const run = runs().get(id);
+  if (!run || run.status !== "running") return false;
+  stopRun(run, "cancelled");
+  return true;
+}
+
+/**
+ * Replay output after `afterSeq`, then deliver live events until the run
+ * exits. Returns an unsubscribe function, or null for an unknown run.
+ */
+export function subscribeScriptRun(
+  id: string,
+  afterSeq: number,
+  listener: (evt: ScriptRunEvent) => void
+): (() => void) | null {
+  const run = runs().get(id);
+  if (!run) return null;
+  for (const chunk of run.output) {
+    if (chunk.seq > afterSeq) listener({ type: "output", chunk });
+  }
+  if (run.finishedAt !== undefined) {
+    listener({ type: "exit", run: summarizeRun(run) });
+    return () => {};
+  }
+  run.listeners.add(listener);
+  return () => {
+    run.listeners.delete(listener);
+  };
+}
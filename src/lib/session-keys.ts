@@ -0,0 +1,118 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+
+// Session keys (agent:main:<channel>:dm:<id>, agent:main:cron:<id>, …) and
+// the names behind them. Shared by the session list and usage analytics.
+// Server-only; client code imports the types.
+
+const OPENCLAW_ROOT = process.env.OPENCLAW_ROOT || "/home/clawdbot/.openclaw";
+const ADDRESS_BOOK_PATH = path.join(OPENCLAW_ROOT, "address-book.json");
+
+export type SessionType = "main" | "channel" | "cron" | "subagent" | "unknown";
+
+/** What a session key says about the session, with a readable label. */
+export function parseSessionKey(key: string): {
+  type: SessionType;
+  label: string;
+  channel?: string;
+  contactId?: string;
+  cronJobId?: string;
+  /** Set for one run of a cron job (agent:main:cron:<job>:run:<run>). */
+  cronRunId?: string;
+} {
+  const parts = key.split(":");
+  // agent:main:main -> Main session
+  // agent:main:telegram:dm:5546883071 -> Telegram DM
+  // agent:main:telegram:group:-5159692794 -> Telegram Group
+  // agent:main:cron:07c2a010... -> Cron job
+  // agent:main:cron:07c2a010...:run:9f1e... -> One run of a cron job
+  // agent:main:subagent:... -> Subagent
+
+  if (parts.length >= 3) {
+    const segment = parts[2];
+
+    if (segment === "main") {
+      return { type: "main", label: "Main Session" };
+    }
+
+    if (segment === "cron") {
+      const cronJobId = parts[3] ?? "";
+      if (parts[4] === "run" && parts.length > 5) {
+        const cronRunId = parts.slice(5).join(":");
+        return { type: "cron", label: `Cron: ${cronJobId.slice(0, 8)}... run`, cronJobId, cronRunId };
+      }
+      const cronId = parts.slice(3).join(":");
+      return { type: "cron", label: `Cron: ${cronId.slice(0, 8)}...`, cronJobId: cronId };
+    }
+
+    if (segment === "subagent") {
+      const subId = parts.slice(3).join(":");
+      return { type: "subagent", label: `Subagent: ${subId.slice(0, 12)}` };
+    }
+
+    // Channel sessions: agent:main:telegram:dm:ID or agent:main:telegram:group:ID
+    const channelName = segment;
+    const msgType = parts[3] || "dm";
+    const contactId = parts.slice(4).join(":");
+
+    if (msgType === "dm") {
+      return {
+        type: "channel",
+        label: `${capitalize(channelName)} DM: ${contactId}`,
+        channel: channelName,
+        contactId,
+      };
+    }
+    if (msgType === "group") {
+      return {
+        type: "channel",
+        label: `${capitalize(channelName)} Group: ${contactId}`,
+        channel: channelName,
+      };
+    }
+
+    return {
+      type: "channel",
+      label: `${capitalize(channelName)}: ${parts.slice(3).join(":")}`,
+      channel: channelName,
+      contactId,
+    };
+  }
+
+  return { type: "unknown", label: key };
+}
+
+/** The agent id a session key belongs to (agent:<id>:…), or null for a bare id. */
+export function agentIdOfSessionKey(key: string): string | null {
+  const parts = key.split(":");
+  return parts[0] === "agent" && parts[1] ? parts[1] : null;
+}
+
+export function capitalize(s: string): string {
+  return s.charAt(0).toUpperCase() + s.slice(1);
+}
+
+/** Contact display names from the address book, keyed `channel:id`. */
+export async function loadAddressBook(): Promise<Record<string, string>> {
+  const nameMap: Record<string, string> = {};
+  try {
+    const raw = await fs.readFile(ADDRESS_BOOK_PATH, "utf-8");
+    const book = JSON.parse(raw);
+    if (book.contacts) {
+      for (const contact of Object.values(book.contacts) as Array<{
+        displayName?: string;
+        identities?: Array<{ channel: string; id: string }>;
+      }>) {
+        if (contact.displayName && contact.identities) {
+          for (const id of contact.identities) {
+            nameMap[`${id.channel}:${id.id}`] = contact.displayName;
+          }
+        }
+      }
+    }
+  } catch {
+    // address book may not exist
+  }
+  return nameMap;
+}
+
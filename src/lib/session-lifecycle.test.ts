@@ -0,0 +1,58 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterAll, beforeEach, describe, expect, it } from "vitest";
+import { GatewayResponseError, GatewayUnavailableError } from "@/lib/gateway-client";
+
+const root = await fs.mkdtemp(path.join(os.tmpdir(), "cc-session-lifecycle-"));
+process.env.OPENCLAW_ROOT = root;
+
+const { SessionLifecycleError, runSessionAction } = await import("@/lib/session-lifecycle");
+const { agentSessionsDir } = await import("@/lib/agents");
+type SessionGateway = Parameters<typeof runSessionAction>[2]["gateway"];
+
+const KEY = "agent:main:telegram:dm:42";
+const SESSIONS_PATH = path.join(agentSessionsDir("main"), "sessions.json");
+const SESSIONS = JSON.stringify({ [KEY]: { sessionId: "abc", updatedAt: 1 } });
+
+/** A gateway whose every call fails with `error`. */
+function failingGateway(error: Error): SessionGateway {
+  const fail = async () => {
+    throw error;
+  };
+  return { reset: fail, compact: fail, delete: fail };
+}
+
+beforeEach(async () => {
+  await fs.mkdir(path.dirname(SESSIONS_PATH), { recursive: true });
+  await fs.writeFile(SESSIONS_PATH, SESSIONS);
+});
+
+afterAll(async () => {
+  await fs.rm(root, { recursive: true, force: true });
+});
+
+describe("session actions without the gateway", () => {
+  it("edits sessions.json when nothing accepts the connection", async () => {
+    const gateway = failingGateway(new GatewayUnavailableError());
+    await expect(runSessionAction("delete", KEY, { gateway })).resolves.toMatchObject({ ok: true, via: "files" });
+    expect(JSON.parse(await fs.readFile(SESSIONS_PATH, "utf-8"))).toEqual({});
+  });
+
+  it("leaves sessions.json alone when a running gateway lacks the method", async () => {
+    const gateway = failingGateway(new GatewayResponseError("unknown method: sessions.delete", "INVALID_REQUEST"));
+    const failure = runSessionAction("delete", KEY, { gateway });
+    await expect(failure).rejects.toBeInstanceOf(SessionLifecycleError);
+    await expect(failure).rejects.toMatchObject({
+      status: 501,
+      message: expect.stringMatching(/doesn't support sessions\.delete/),
+    });
+    expect(await fs.readFile(SESSIONS_PATH, "utf-8")).toBe(SESSIONS);
+  });
+
+  it("passes any other gateway refusal on", async () => {
+    const refusal = new GatewayResponseError("session is busy");
+    await expect(runSessionAction("reset", KEY, { gateway: failingGateway(refusal) })).rejects.toBe(refusal);
+    expect(await fs.readFile(SESSIONS_PATH, "utf-8")).toBe(SESSIONS);
+  });
+});
@@ -0,0 +1,354 @@
+import { randomBytes, randomUUID } from "node:crypto";
+import fs from "node:fs/promises";
+import path from "node:path";
+import { agentSessionsDir, DEFAULT_AGENT_ID } from "@/lib/agents";
+import { GatewayResponseError, GatewayUnavailableError } from "@/lib/gateway-client";
+import { agentIdOfSessionKey } from "@/lib/session-keys";
+import { ownTranscriptFile } from "@/lib/session-transcript";
+
+// Session lifecycle: reset, compact, archive and delete. Each change goes
+// through the gateway first, since it owns sessions.json while it runs. Only
+// when the gateway certainly isn't running (nothing accepts the connection)
+// is the same change made on disk instead, with the agent's sessions.json
+// (picked by the key's agent:<id>: prefix) rewritten atomically (temp file +
+// rename). Compaction needs the agent, so it has no fallback. Archived transcripts move to
+// command-center/session-archive/, listed in its index.jsonl.
+// Server-only; client code imports the types.
+
+const OPENCLAW_ROOT = process.env.OPENCLAW_ROOT || "/home/clawdbot/.openclaw";
+export const SESSION_ARCHIVE_DIR = path.join(OPENCLAW_ROOT, "command-center", "session-archive");
+const ARCHIVE_INDEX_PATH = path.join(SESSION_ARCHIVE_DIR, "index.jsonl");
+
+/** Per-session counters dropped by a file-based reset. */
+const USAGE_FIELDS = ["tokenCount", "turnCount", "inputTokens", "outputTokens", "totalTokens", "contextTokens"];
+
+export type SessionAction = "reset" | "compact" | "archive" | "delete";
+
+export const SESSION_ACTIONS: SessionAction[] = ["reset", "compact", "archive", "delete"];
+
+export interface SessionActionResult {
+  key: string;
+  action: SessionAction;
+  ok: boolean;
+  /** How it was done: by the gateway, or on disk because the gateway couldn't. */
+  via?: "gateway" | "files";
+  /** Transcript file name in the archive dir (archive, file-based reset). */
+  archivedAs?: string;
+  error?: string;
+}
+
+export interface ArchivedSession {
+  key: string;
+  sessionId?: string;
+  /** File name in the archive dir; absent when the session had no transcript. */
+  file?: string;
+  reason: "archive" | "reset";
+  archivedAt: number;
+  archivedBy?: string;
+  sizeBytes?: number;
+  /** The session's sessions.json entry when it was archived. */
+  entry: Record<string, unknown>;
+}
+
+/** Gateway calls the lifecycle uses; the API route binds them to the shared transport. */
+export interface SessionGateway {
+  reset(key: string): Promise<unknown>;
+  compact(key: string): Promise<unknown>;
+  delete(key: string, deleteTranscript: boolean): Promise<unknown>;
+}
+
+export interface SessionActionOptions {
+  gateway: SessionGateway;
+  user?: string;
+}
+
+export class SessionLifecycleError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = "SessionLifecycleError";
+  }
+}
+
+export function isSessionAction(value: unknown): value is SessionAction {
+  return typeof value === "string" && (SESSION_ACTIONS as string[]).includes(value);
+}
+
+// ─── sessions.json ───────────────────────────────────────────
+
+type SessionsFile = Record<string, Record<string, unknown>>;
+
+/** The sessions dir of the agent `key` belongs to. */
+function sessionsDirOf(key: string): string {
+  return agentSessionsDir(agentIdOfSessionKey(key) ?? DEFAULT_AGENT_ID);
+}
+
+async function readSessionsFile(sessionsPath: string): Promise<SessionsFile> {
+  let raw: string;
+  try {
+    raw = await fs.readFile(sessionsPath, "utf-8");
+  } catch {
+    return {};
+  }
+  try {
+    const parsed = JSON.parse(raw);
+    if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) return parsed as SessionsFile;
+  } catch {
+    // fall through
+  }
+  // Never rewrite a file we couldn't read: that would drop every session in it
+  throw new SessionLifecycleError("sessions.json is not valid JSON; leaving it alone", 500);
+}
+
+// Fallback edits are read-modify-write, so they run one at a time. The queue
+// lives on globalThis so dev-mode module reloads don't start a second one.
+const globalForSessions = globalThis as unknown as { __sessionsWriteQueue?: Promise<unknown> };
+
+function updateSessionsFile<T>(key: string, change: (sessions: SessionsFile) => T): Promise<T> {
+  const sessionsPath = path.join(sessionsDirOf(key), "sessions.json");
+  const run = (globalForSessions.__sessionsWriteQueue ?? Promise.resolve()).then(async () => {
+    const sessions = await readSessionsFile(sessionsPath);
+    const result = change(sessions);
+    const tmpPath = `${sessionsPath}.${randomBytes(8).toString("hex")}.tmp`;
+    await fs.writeFile(tmpPath, JSON.stringify(sessions, null, 2), { encoding: "utf-8", mode: 0o600 });
+    try {
+      await fs.rename(tmpPath, sessionsPath);
+    } catch (error) {
+      await fs.unlink(tmpPath).catch(() => {});
+      throw error;
+    }
+    return result;
+  });
+  globalForSessions.__sessionsWriteQueue = run.catch(() => {});
+  return run;
+}
+
+async function getEntry(key: string): Promise<Record<string, unknown>> {
+  const sessions = await readSessionsFile(path.join(sessionsDirOf(key), "sessions.json"));
+  if (!Object.hasOwn(sessions, key)) {
+    throw new SessionLifecycleError(`Session not found: ${key}`, 404);
+  }
+  return sessions[key] ?? {};
+}
+
+// ─── Transcript files ────────────────────────────────────────
+
+async function moveFile(from: string, to: string): Promise<void> {
+  try {
+    await fs.rename(from, to);
+  } catch (error) {
+    // The archive dir may be on another filesystem
+    if ((error as NodeJS.ErrnoException).code !== "EXDEV") throw error;
+    await fs.copyFile(from, to);
+    await fs.unlink(from);
+  }
+}
+
+/** Moves the transcript into the archive dir; returns its new name and size, or null if there was none. */
+async function archiveTranscript(filePath: string | null): Promise<{ file: string; sizeBytes: number } | null> {
+  if (!filePath) return null;
+  let size: number;
+  try {
+    ({ size } = await fs.stat(filePath));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+    throw error;
+  }
+  await fs.mkdir(SESSION_ARCHIVE_DIR, { recursive: true, mode: 0o700 });
+  const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+  const file = `${path.basename(filePath, ".jsonl")}.${stamp}.jsonl`;
+  await moveFile(filePath, path.join(SESSION_ARCHIVE_DIR, file));
+  return { file, sizeBytes: size };
+}
+
+async function appendArchiveIndex(record: ArchivedSession): Promise<void> {
+  await fs.mkdir(SESSION_ARCHIVE_DIR, { recursive: true, mode: 0o700 });
+  await fs.appendFile(ARCHIVE_INDEX_PATH, `${JSON.stringify(record)}\n`, { mode: 0o600 });
+}
+
+/** Archived sessions, newest first. */
+export async function listArchivedSessions(): Promise<ArchivedSession[]> {
+  let raw: string;
+  try {
+    raw = await fs.readFile(ARCHIVE_INDEX_PATH, "utf-8");
+  } catch {
+    return [];
+  }
+  const records: ArchivedSession[] = [];
+  for (const line of raw.split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      const record = JSON.parse(line) as ArchivedSession;
+      if (record && typeof record.key === "string" && typeof record.archivedAt === "number") records.push(record);
+    } catch {
+      // skip a damaged line
+    }
+  }
+  return records.sort((a, b) => b.archivedAt - a.archivedAt);
+}
+
+// ─── Actions ─────────────────────────────────────────────────
+
+/**
+ * Runs `call` (gateway `method`) on the gateway, or `fallback` on disk when
+ * nothing accepted the connection. Any other failure is an error: a timeout
+ * or a failed CLI run may have been applied by a gateway that is still
+ * running, and one that answers "unknown method" is running too, so editing
+ * its sessions.json underneath it would be overwritten or misread.
+ */
+async function viaGateway(
+  method: string,
+  call: () => Promise<unknown>,
+  fallback: () => Promise<void>
+): Promise<"gateway" | "files"> {
+  try {
+    await call();
+    return "gateway";
+  } catch (error) {
+    if (error instanceof GatewayResponseError && /unknown method/i.test(error.message)) {
+      throw new SessionLifecycleError(`The gateway doesn't support ${method}; update OpenClaw to use this action`, 501);
+    }
+    if (!(error instanceof GatewayUnavailableError)) throw error;
+    console.warn("Session action falling back to files:", error instanceof Error ? error.message : error);
+    await fallback();
+    return "files";
+  }
+}
+
+async function resetSession(key: string, { gateway, user }: SessionActionOptions): Promise<SessionActionResult> {
+  const entry = await getEntry(key);
+  let archivedAs: string | undefined;
+  const via = await viaGateway(
+    "sessions.reset",
+    () => gateway.reset(key),
+    async () => {
+      // Same effect as a gateway reset: the old transcript is set aside and
+      // the next message starts a new one under a fresh session id
+      const archived = await archiveTranscript(await ownTranscriptFile(key, entry, sessionsDirOf(key)));
+      archivedAs = archived?.file;
+      await updateSessionsFile(key, (sessions) => {
+        const current = sessions[key];
+        if (!current) return;
+        current.sessionId = randomUUID();
+        current.updatedAt = Date.now();
+        delete current.sessionFile;
+        for (const field of USAGE_FIELDS) delete current[field];
+      });
+      await appendArchiveIndex({
+        key,
+        sessionId: typeof entry.sessionId === "string" ? entry.sessionId : undefined,
+        file: archived?.file,
+        reason: "reset",
+        archivedAt: Date.now(),
+        archivedBy: user,
+        sizeBytes: archived?.sizeBytes,
+        entry,
+      });
+    }
+  );
+  return { key, action: "reset", ok: true, via, archivedAs };
+}
+
+async function compactSession(key: string, { gateway }: SessionActionOptions): Promise<SessionActionResult> {
+  await getEntry(key);
+  const via = await viaGateway(
+    "sessions.compact",
+    () => gateway.compact(key),
+    async () => {
+      throw new SessionLifecycleError("Compaction runs in the gateway, which isn't reachable right now", 503);
+    }
+  );
+  return { key, action: "compact", ok: true, via };
+}
+
+async function archiveSession(key: string, { gateway, user }: SessionActionOptions): Promise<SessionActionResult> {
+  const entry = await getEntry(key);
+  const source = await ownTranscriptFile(key, entry, sessionsDirOf(key));
+  // Unlist the session first: until the gateway has let go of it, it may
+  // still be writing to the transcript
+  const via = await viaGateway(
+    "sessions.delete",
+    () => gateway.delete(key, false),
+    () =>
+      updateSessionsFile(key, (sessions) => {
+        delete sessions[key];
+      })
+  );
+  let archived: Awaited<ReturnType<typeof archiveTranscript>>;
+  try {
+    archived = await archiveTranscript(source);
+  } catch (error) {
+    // The session is gone either way; record it so the entry isn't lost with it
+    await appendArchiveIndex({
+      key,
+      sessionId: typeof entry.sessionId === "string" ? entry.sessionId : undefined,
+      reason: "archive",
+      archivedAt: Date.now(),
+      archivedBy: user,
+      entry,
+    });
+    const message = error instanceof Error ? error.message : String(error);
+    throw new SessionLifecycleError(`Session removed, but its transcript was left in place: ${message}`, 500);
+  }
+  await appendArchiveIndex({
+    key,
+    sessionId: typeof entry.sessionId === "string" ? entry.sessionId : undefined,
+    file: archived?.file,
+    reason: "archive",
+    archivedAt: Date.now(),
+    archivedBy: user,
+    sizeBytes: archived?.sizeBytes,
+    entry,
+  });
+  return { key, action: "archive", ok: true, via, archivedAs: archived?.file };
+}
+
+async function deleteSession(key: string, { gateway }: SessionActionOptions): Promise<SessionActionResult> {
+  const entry = await getEntry(key);
+  const via = await viaGateway(
+    "sessions.delete",
+    () => gateway.delete(key, true),
+    async () => {
+      const transcript = await ownTranscriptFile(key, entry, sessionsDirOf(key));
+      await updateSessionsFile(key, (sessions) => {
+        delete sessions[key];
+      });
+      if (transcript) await fs.unlink(transcript).catch(() => {});
+    }
+  );
+  return { key, action: "delete", ok: true, via };
+}
+
+/** Applies `action` to one session. Throws SessionLifecycleError or the gateway's refusal. */
+export async function runSessionAction(
+  action: SessionAction,
+  key: string,
+  options: SessionActionOptions
+): Promise<SessionActionResult> {
+  switch (action) {
+    case "reset":
+      return resetSession(key, options);
+    case "compact":
+      return compactSession(key, options);
+    case "archive":
+      return archiveSession(key, options);
+    case "delete":
+      return deleteSession(key, options);
+  }
+}
+
+/** Applies `action` to each session in turn; one failing doesn't stop the rest. */
+export async function runSessionActions(
+  action: SessionAction,
+  keys: string[],
+  options: SessionActionOptions
+): Promise<SessionActionResult[]> {
+  const results: SessionActionResult[] = [];
+  for (const key of keys) {
+    try {
+      results.push(await runSessionAction(action, key, options));
+    } catch (error) {
+      results.push({ key, action, ok: false, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+  return results;
+}
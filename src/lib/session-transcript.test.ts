@@ -0,0 +1,53 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { findTranscriptFile, readTranscriptTail } from "@/lib/session-transcript";
+
+const dir = await fs.mkdtemp(path.join(os.tmpdir(), "cc-session-transcript-"));
+
+beforeAll(async () => {
+  await fs.writeFile(
+    path.join(dir, "sessions.json"),
+    JSON.stringify({
+      "agent:main:telegram:dm:1234567890": { sessionId: "aaaa-1111" },
+      "agent:main:discord:dm:42": { sessionId: "bbbb-2222", sessionFile: "custom-name.jsonl" },
+    })
+  );
+  for (const name of ["aaaa-1111.jsonl", "custom-name.jsonl", "agent_main_telegram_dm_99991234567890.jsonl"]) {
+    await fs.writeFile(path.join(dir, name), '{"role":"user"}\n');
+  }
+});
+
+afterAll(async () => {
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+describe("findTranscriptFile", () => {
+  it("finds a session by key or by id, through its sessions.json entry", async () => {
+    const aaaa = path.join(dir, "aaaa-1111.jsonl");
+    const custom = path.join(dir, "custom-name.jsonl");
+    expect(await findTranscriptFile("agent:main:telegram:dm:1234567890", dir)).toBe(aaaa);
+    expect(await findTranscriptFile("aaaa-1111", dir)).toBe(aaaa);
+    expect(await findTranscriptFile("agent:main:discord:dm:42", dir)).toBe(custom);
+    expect(await findTranscriptFile("bbbb-2222", dir)).toBe(custom);
+  });
+
+  it("doesn't settle for a file whose name merely ends like the key", async () => {
+    expect(await findTranscriptFile("agent:main:telegram:dm:4567890", dir)).toBeNull();
+    expect(await findTranscriptFile("1111", dir)).toBeNull();
+    expect(await findTranscriptFile("custom", dir)).toBeNull();
+  });
+});
+
+describe("readTranscriptTail", () => {
+  it("counts every line with text, across read chunks", async () => {
+    const filePath = path.join(dir, "long.jsonl");
+    const line = `${JSON.stringify({ role: "assistant", text: "y".repeat(1000) })}\n`;
+    await fs.writeFile(filePath, `${line.repeat(300)}\n\n${line.repeat(200)}not json`);
+
+    const { history, totalTurns } = await readTranscriptTail(filePath, 2);
+    expect(totalTurns).toBe(501);
+    expect(history).toEqual([{ role: "assistant", text: "y".repeat(1000) }, { raw: "not json" }]);
+  });
+});
@@ -0,0 +1,460 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { readLinesAfter, readLinesBefore } from "@/lib/file-lines";
+
+// Session transcripts (agents/<id>/sessions/*.jsonl) read a page at a time:
+// pages are cut from the end of the file backwards (or forwards from a byte
+// offset), so a transcript of any size costs one page of memory. Every turn
+// is identified by the byte offset of its line, which is also the paging
+// cursor. Server-only; client code imports the types.
+
+/** Text kept per content block; the rest is replaced by a note. */
+const MAX_BLOCK_CHARS = 20_000;
+const MAX_SEARCH_HITS = 200;
+
+export type TranscriptRole = "user" | "assistant" | "tool" | "system" | "event";
+
+export type TranscriptBlock =
+  | { kind: "text"; text: string }
+  | { kind: "thinking"; text: string }
+  | { kind: "toolCall"; name: string; input: string }
+  | { kind: "toolResult"; name?: string; text: string; isError?: boolean };
+
+export interface TurnUsage {
+  input?: number;
+  output?: number;
+  cacheRead?: number;
+  cacheWrite?: number;
+  total: number;
+}
+
+export interface TranscriptTurn {
+  /** Byte offset of the line in the file; stable id and paging cursor. */
+  offset: number;
+  /** Byte offset of the newline ending the line (or of the end of the file). */
+  end: number;
+  role: TranscriptRole;
+  timestamp?: number;
+  blocks: TranscriptBlock[];
+  usage?: TurnUsage;
+  model?: string;
+}
+
+export interface TranscriptPage {
+  file: string;
+  sizeBytes: number;
+  /** Oldest first. */
+  turns: TranscriptTurn[];
+  /** Offset of the first line returned; pass as `before` for older turns. */
+  startOffset: number;
+  /** Where the next forward page starts; pass as `after` for newer turns. */
+  endOffset: number;
+  hasOlder: boolean;
+  hasNewer: boolean;
+}
+
+export interface TranscriptSearchHit {
+  offset: number;
+  end: number;
+  role: TranscriptRole;
+  timestamp?: number;
+  snippet: string;
+}
+
+// ─── Locating the file ───────────────────────────────────────
+
+type SessionsIndex = Record<string, { sessionId?: string; sessionFile?: string }>;
+
+async function readSessionsIndex(sessionsDir: string): Promise<SessionsIndex> {
+  try {
+    return JSON.parse(await fs.readFile(path.join(sessionsDir, "sessions.json"), "utf-8")) as SessionsIndex;
+  } catch {
+    return {};
+  }
+}
+
+/** `name` inside `sessionsDir`, or null if it is a path that leads elsewhere. */
+export function inSessionsDir(name: string, sessionsDir: string): string | null {
+  const base = path.basename(name);
+  if (!base.endsWith(".jsonl") || base.includes("..")) return null;
+  return path.join(sessionsDir, base);
+}
+
+async function isFile(filePath: string): Promise<boolean> {
+  try {
+    return (await fs.stat(filePath)).isFile();
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * The session's own transcript: the file its sessions.json entry names, or
+ * one named after its id or key. Never guesses, so it's safe to act on.
+ */
+export async function ownTranscriptFile(
+  keyOrId: string,
+  entry: { sessionId?: unknown; sessionFile?: unknown } | undefined,
+  sessionsDir: string
+): Promise<string | null> {
+  const candidates = [
+    typeof entry?.sessionFile === "string" ? entry.sessionFile : null,
+    typeof entry?.sessionId === "string" ? `${entry.sessionId}.jsonl` : null,
+    `${keyOrId.replace(/[:/]/g, "_")}.jsonl`,
+    `${keyOrId}.jsonl`,
+  ];
+  for (const name of candidates) {
+    const filePath = name ? inSessionsDir(name, sessionsDir) : null;
+    if (filePath && (await isFile(filePath))) return filePath;
+  }
+  return null;
+}
+
+/**
+ * The transcript file in `sessionsDir` for a session key or a bare session
+ * id, both looked up in its sessions.json, or null if there is none. Only
+ * exact matches count: a near miss would show another session's transcript.
+ */
+export async function findTranscriptFile(keyOrId: string, sessionsDir: string): Promise<string | null> {
+  const index = await readSessionsIndex(sessionsDir);
+  const entry = Object.hasOwn(index, keyOrId)
+    ? index[keyOrId]
+    : Object.values(index).find((e) => e?.sessionId === keyOrId);
+  return ownTranscriptFile(keyOrId, entry, sessionsDir);
+}
+
+// ─── Parsing lines ───────────────────────────────────────────
+
+function clip(text: string): string {
+  if (text.length <= MAX_BLOCK_CHARS) return text;
+  return `${text.slice(0, MAX_BLOCK_CHARS)}\n… [${text.length - MAX_BLOCK_CHARS} more characters]`;
+}
+
+function toTimestamp(value: unknown): number | undefined {
+  if (typeof value === "number" && Number.isFinite(value)) return value < 1e12 ? value * 1000 : value;
+  if (typeof value === "string") {
+    const ms = Date.parse(value);
+    return Number.isNaN(ms) ? undefined : ms;
+  }
+  return undefined;
+}
+
+function num(value: unknown): number | undefined {
+  return typeof value === "number" && Number.isFinite(value) ? value : undefined;
+}
+
+function toUsage(raw: unknown, fallbackTotal?: unknown): TurnUsage | undefined {
+  if (raw && typeof raw === "object") {
+    const u = raw as Record<string, unknown>;
+    const input = num(u.input) ?? num(u.input_tokens) ?? num(u.inputTokens) ?? num(u.prompt_tokens);
+    const output = num(u.output) ?? num(u.output_tokens) ?? num(u.outputTokens) ?? num(u.completion_tokens);
+    const cacheRead = num(u.cacheRead) ?? num(u.cache_read_input_tokens);
+    const cacheWrite = num(u.cacheWrite) ?? num(u.cache_creation_input_tokens);
+    const total =
+      num(u.totalTokens) ?? num(u.total_tokens) ?? (input ?? 0) + (output ?? 0) + (cacheRead ?? 0) + (cacheWrite ?? 0);
+    if (total > 0) return { input, output, cacheRead, cacheWrite, total };
+  }
+  const total = num(fallbackTotal);
+  return total ? { total } : undefined;
+}
+
+function stringify(value: unknown): string {
+  if (typeof value === "string") return value;
+  try {
+    return JSON.stringify(value, null, 2) ?? "";
+  } catch {
+    return String(value);
+  }
+}
+
+function contentBlocks(content: unknown, role: TranscriptRole, toolName?: string, isError?: boolean): TranscriptBlock[] {
+  // Text inside a tool result message belongs to the result
+  const textBlock = (text: string): TranscriptBlock =>
+    role === "tool" ? { kind: "toolResult", name: toolName, text: clip(text), isError } : { kind: "text", text: clip(text) };
+  if (typeof content === "string") return [textBlock(content)];
+  if (!Array.isArray(content)) return [];
+
+  const blocks: TranscriptBlock[] = [];
+  for (const part of content) {
+    if (!part || typeof part !== "object") continue;
+    const p = part as Record<string, unknown>;
+    switch (p.type) {
+      case "text":
+        if (typeof p.text === "string" && p.text) blocks.push(textBlock(p.text));
+        break;
+      case "thinking":
+        if (typeof p.thinking === "string" && p.thinking) blocks.push({ kind: "thinking", text: clip(p.thinking) });
+        break;
+      case "toolCall":
+      case "tool_use":
+        blocks.push({
+          kind: "toolCall",
+          name: typeof p.name === "string" ? p.name : "tool",
+          input: clip(stringify(p.arguments ?? p.input ?? {})),
+        });
+        break;
+      case "tool_result": {
+        // Anthropic-style results nested in a user message
+        const text = Array.isArray(p.content)
+          ? contentBlocks(p.content, "assistant").map(blockText).join("\n")
+          : stringify(p.content);
+        blocks.push({ kind: "toolResult", text: clip(text), isError: p.is_error === true });
+        break;
+      }
+      case "image":
+        blocks.push({ kind: "text", text: "[image]" });
+        break;
+    }
+  }
+  return blocks;
+}
+
+function toRole(value: unknown): TranscriptRole {
+  if (value === "user" || value === "assistant" || value === "system") return value;
+  if (value === "toolResult" || value === "tool") return "tool";
+  return "event";
+}
+
+/** Summary for non-message lines (session start, model switch, compaction…). */
+function describeEvent(line: Record<string, unknown>): string | null {
+  switch (line.type) {
+    case "session":
+      return "Session started";
+    case "model_change":
+      return `Model changed to ${[line.provider, line.modelId ?? line.model].filter(Boolean).join("/")}`;
+    case "thinking_level_change":
+      return `Thinking level set to ${String(line.thinkingLevel ?? line.level ?? "?")}`;
+    case "compaction":
+      return typeof line.summary === "string" ? `Context compacted:\n${clip(line.summary)}` : "Context compacted";
+    case "custom":
+      return typeof line.customType === "string" ? `Event: ${line.customType}` : null;
+    default:
+      return typeof line.type === "string" ? `Event: ${line.type}` : null;
+  }
+}
+
+/** One transcript line as a turn; lines that aren't JSON show up as raw text. */
+export function parseTranscriptLine(text: string, offset: number, end: number): TranscriptTurn {
+  let line: Record<string, unknown>;
+  try {
+    line = JSON.parse(text);
+    if (!line || typeof line !== "object") throw new Error("not an object");
+  } catch {
+    return { offset, end, role: "event", blocks: [{ kind: "text", text: clip(text) }] };
+  }
+
+  // Agent transcripts wrap the message: { type: "message", timestamp, message: { role, content, usage } }.
+  // Older and gateway-shaped lines are flat: { role, content, ts, tokenCount }.
+  const message = (line.message && typeof line.message === "object" ? line.message : line) as Record<string, unknown>;
+  if (message.role === undefined) {
+    const summary = describeEvent(line);
+    return {
+      offset,
+      end,
+      role: "event",
+      timestamp: toTimestamp(line.timestamp ?? line.ts),
+      blocks: summary ? [{ kind: "text", text: summary }] : [],
+    };
+  }
+
+  const role = toRole(message.role);
+  const toolName = typeof message.toolName === "string" ? message.toolName : undefined;
+  return {
+    offset,
+    end,
+    role,
+    timestamp: toTimestamp(line.timestamp ?? message.timestamp ?? line.ts),
+    blocks: contentBlocks(message.content, role, toolName, message.isError === true),
+    usage: toUsage(message.usage ?? line.usage, message.tokenCount ?? line.tokenCount),
+    model: typeof message.model === "string" ? message.model : undefined,
+  };
+}
+
+/** Plain text of a block, as searched and shown in snippets. */
+export function blockText(block: TranscriptBlock): string {
+  switch (block.kind) {
+    case "toolCall":
+      return `${block.name} ${block.input}`;
+    default:
+      return block.text;
+  }
+}
+
+// ─── Paging ──────────────────────────────────────────────────
+
+export interface TranscriptPageOptions {
+  /** Turns ending before this byte offset (older); defaults to the end of the file. */
+  before?: number;
+  /** Turns starting at this byte offset (newer). Takes precedence over `before`. */
+  after?: number;
+  limit?: number;
+}
+
+export async function readTranscriptPage(filePath: string, options: TranscriptPageOptions = {}): Promise<TranscriptPage> {
+  const limit = Math.min(Math.max(options.limit ?? 50, 1), 500);
+  const handle = await fs.open(filePath, "r");
+  try {
+    const { size } = await handle.stat();
+    const forward = options.after !== undefined;
+    const lines = forward
+      ? await readLinesAfter(handle, Math.min(Math.max(options.after ?? 0, 0), size), size, limit)
+      : await readLinesBefore(handle, Math.min(Math.max(options.before ?? size, 0), size), limit);
+
+    const fallback = forward ? Math.min(options.after ?? 0, size) : Math.min(options.before ?? size, size);
+    const last = lines[lines.length - 1];
+    const startOffset = lines[0]?.offset ?? fallback;
+    // A last line without its newline may still be being written: the next
+    // forward page starts at it again, so the caller gets the finished line
+    const endOffset = !last ? fallback : last.end < size ? last.end + 1 : last.offset;
+    return {
+      file: path.basename(filePath),
+      sizeBytes: size,
+      turns: lines.map((l) => parseTranscriptLine(l.text, l.offset, l.end)),
+      startOffset,
+      endOffset,
+      hasOlder: startOffset > 0,
+      hasNewer: last ? last.end + 1 < size : fallback < size,
+    };
+  } finally {
+    await handle.close();
+  }
+}
+
+/** Lines with any text in them, counted a chunk at a time. */
+async function countLines(handle: fs.FileHandle, size: number): Promise<number> {
+  const chunk = Buffer.alloc(64 * 1024);
+  let count = 0;
+  // Whether the line running into the next chunk has any bytes yet
+  let open = false;
+  for (let pos = 0; pos < size; ) {
+    const { bytesRead } = await handle.read(chunk, 0, Math.min(chunk.length, size - pos), pos);
+    if (bytesRead === 0) break;
+    let from = 0;
+    for (let nl = chunk.indexOf(10, from); nl !== -1 && nl < bytesRead; nl = chunk.indexOf(10, from)) {
+      if (open || nl > from) count++;
+      open = false;
+      from = nl + 1;
+    }
+    if (from < bytesRead) open = true;
+    pos += bytesRead;
+  }
+  return open ? count + 1 : count;
+}
+
+/**
+ * The last `limit` lines as parsed JSON and how many lines there are in all,
+ * for the legacy ?id= detail view.
+ */
+export async function readTranscriptTail(
+  filePath: string,
+  limit: number
+): Promise<{ history: unknown[]; totalTurns: number }> {
+  const handle = await fs.open(filePath, "r");
+  try {
+    const { size } = await handle.stat();
+    const lines = await readLinesBefore(handle, size, Math.min(Math.max(limit, 1), 500));
+    const history = lines.map((line) => {
+      try {
+        return JSON.parse(line.text);
+      } catch {
+        return { raw: line.text };
+      }
+    });
+    return { history, totalTurns: await countLines(handle, size) };
+  } finally {
+    await handle.close();
+  }
+}
+
+export interface TranscriptScan {
+  sizeBytes: number;
+  /** Start of the first line not scanned (a last line still being written); pass back as `from`. */
+  resumeAt: number;
+}
+
+/**
+ * Every complete line from byte `from` on, parsed and passed to `visit`, a
+ * page at a time. `wanted` sees the raw text first so lines that can't matter
+ * skip the parse.
+ */
+export async function scanTranscript(
+  filePath: string,
+  from: number,
+  visit: (turn: TranscriptTurn) => void,
+  wanted: (text: string) => boolean = () => true
+): Promise<TranscriptScan> {
+  const handle = await fs.open(filePath, "r");
+  try {
+    const { size } = await handle.stat();
+    let pos = Math.min(Math.max(from, 0), size);
+    while (pos < size) {
+      const lines = await readLinesAfter(handle, pos, size, 500);
+      // Only a last line without its newline left: leave it for next time
+      const complete = lines.filter((l) => l.end < size);
+      for (const line of complete) {
+        if (wanted(line.text)) visit(parseTranscriptLine(line.text, line.offset, line.end));
+      }
+      if (complete.length === 0) break;
+      pos = complete[complete.length - 1].end + 1;
+    }
+    return { sizeBytes: size, resumeAt: pos };
+  } finally {
+    await handle.close();
+  }
+}
+
+// ─── Search ──────────────────────────────────────────────────
+
+function snippetAround(text: string, index: number, length: number): string {
+  const start = Math.max(0, index - 60);
+  const end = Math.min(text.length, index + length + 100);
+  return `${start > 0 ? "…" : ""}${text.slice(start, end).replace(/\s+/g, " ")}${end < text.length ? "…" : ""}`;
+}
+
+/**
+ * Turns whose text contains `query` (case-insensitive), newest first. Reads
+ * the file a page at a time; only the hits are kept. `truncated` means there
+ * were more than MAX_SEARCH_HITS and the oldest were dropped.
+ */
+export async function searchTranscript(
+  filePath: string,
+  query: string
+): Promise<{ hits: TranscriptSearchHit[]; truncated: boolean }> {
+  const needle = query.toLowerCase();
+  const hits: TranscriptSearchHit[] = [];
+  let truncated = false;
+
+  const handle = await fs.open(filePath, "r");
+  try {
+    const { size } = await handle.stat();
+    let pos = 0;
+    while (pos < size) {
+      const lines = await readLinesAfter(handle, pos, size, 500);
+      if (lines.length === 0) break;
+      pos = lines[lines.length - 1].end + 1;
+
+      for (const line of lines) {
+        // Cheap check on the raw line before parsing it
+        if (!line.text.toLowerCase().includes(needle)) continue;
+        const turn = parseTranscriptLine(line.text, line.offset, line.end);
+        const text = turn.blocks.map(blockText).join("\n");
+        const index = text.toLowerCase().indexOf(needle);
+        if (index === -1) continue;
+        hits.push({
+          offset: line.offset,
+          end: line.end,
+          role: turn.role,
+          timestamp: turn.timestamp,
+          snippet: snippetAround(text, index, needle.length),
+        });
+        if (hits.length > MAX_SEARCH_HITS) {
+          hits.shift();
+          truncated = true;
+        }
+      }
+    }
+  } finally {
+    await handle.close();
+  }
+  return { hits: hits.reverse(), truncated };
+}
@@ -0,0 +1,145 @@
+import { randomBytes } from "node:crypto";
+import fs from "node:fs/promises";
+import path from "node:path";
+
+// Command-center settings (not the agent's openclaw.json), kept in
+// command-center/settings.json. Server-only; client code imports the types.
+
+const OPENCLAW_ROOT = process.env.OPENCLAW_ROOT || "/home/clawdbot/.openclaw";
+export const SETTINGS_PATH = path.join(OPENCLAW_ROOT, "command-center", "settings.json");
+// Never offered as logs, relative to OPENCLAW_ROOT: the command center's own
+// files (users, sessions, settings) and the agent config, whose secrets the
+// config API masks
+const PRIVATE_PATHS = [
+  path.join(OPENCLAW_ROOT, "command-center"),
+  process.env.COMMAND_CENTER_AUTH_DIR || path.join(OPENCLAW_ROOT, "command-center"),
+  process.env.OPENCLAW_CONFIG || path.join(OPENCLAW_ROOT, "openclaw.json"),
+].map((p) => path.relative(OPENCLAW_ROOT, path.resolve(p)));
+
+/** USD per million tokens. Cache prices default to the input price. */
+export interface ModelPrice {
+  input: number;
+  output: number;
+  cacheRead?: number;
+  cacheWrite?: number;
+}
+
+/** A log file for the tail viewer, beyond the ones found in logs/. */
+export interface LogFileSetting {
+  /** Relative to OPENCLAW_ROOT, e.g. "logs/journal.log". */
+  path: string;
+  label?: string;
+}
+
+export interface CommandCenterSettings {
+  /**
+   * Keyed by model name or a part of it ("claude-sonnet-4" prices
+   * "anthropic/claude-sonnet-4-5"); the longest matching key wins.
+   */
+  modelPrices: Record<string, ModelPrice>;
+  logFiles: LogFileSetting[];
+}
+
+const DEFAULT_SETTINGS: CommandCenterSettings = { modelPrices: {}, logFiles: [] };
+
+export class SettingsError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = "SettingsError";
+  }
+}
+
+export async function readSettings(): Promise<CommandCenterSettings> {
+  try {
+    const parsed = JSON.parse(await fs.readFile(SETTINGS_PATH, "utf-8")) as Partial<CommandCenterSettings>;
+    return { ...DEFAULT_SETTINGS, ...parsed };
+  } catch {
+    return { ...DEFAULT_SETTINGS };
+  }
+}
+
+/** Applies `patch` to the stored settings and writes them atomically. */
+export async function updateSettings(patch: Partial<CommandCenterSettings>): Promise<CommandCenterSettings> {
+  const next = { ...(await readSettings()), ...patch };
+  await fs.mkdir(path.dirname(SETTINGS_PATH), { recursive: true, mode: 0o700 });
+  const tmpPath = `${SETTINGS_PATH}.${randomBytes(8).toString("hex")}.tmp`;
+  await fs.writeFile(tmpPath, JSON.stringify(next, null, 2), { encoding: "utf-8", mode: 0o600 });
+  await fs.rename(tmpPath, SETTINGS_PATH);
+  return next;
+}
+
+/** A price field from a request, or undefined when it was left empty. */
+function toPrice(value: unknown, model: string, field: string): number | undefined {
+  if (value === undefined || value === null || value === "") return undefined;
+  const n = typeof value === "string" ? Number(value) : value;
+  if (typeof n !== "number" || !Number.isFinite(n) || n < 0) {
+    throw new SettingsError(`${model}: ${field} price must be a number of dollars per million tokens`);
+  }
+  return n;
+}
+
+/** Checks a price table from a request; throws SettingsError naming the bad entry. */
+export function validateModelPrices(raw: unknown): Record<string, ModelPrice> {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    throw new SettingsError("Prices must be an object keyed by model");
+  }
+  const prices: Record<string, ModelPrice> = {};
+  for (const [rawModel, value] of Object.entries(raw as Record<string, unknown>)) {
+    const model = rawModel.trim();
+    if (!model) throw new SettingsError("Model name required");
+    if (!value || typeof value !== "object") throw new SettingsError(`${model}: price must be an object`);
+    const p = value as Record<string, unknown>;
+    const input = toPrice(p.input, model, "input");
+    const output = toPrice(p.output, model, "output");
+    if (input === undefined || output === undefined) {
+      throw new SettingsError(`${model}: input and output prices required`);
+    }
+    const entry: ModelPrice = { input, output };
+    const cacheRead = toPrice(p.cacheRead, model, "cache read");
+    const cacheWrite = toPrice(p.cacheWrite, model, "cache write");
+    if (cacheRead !== undefined) entry.cacheRead = cacheRead;
+    if (cacheWrite !== undefined) entry.cacheWrite = cacheWrite;
+    prices[model] = entry;
+  }
+  return prices;
+}
+
+/**
+ * Why the file at `relative` (to OPENCLAW_ROOT) can't be tailed, or null if
+ * it can: only *.log files inside the root, and nothing of the command
+ * center's own or the agent config.
+ */
+export function logFileRefusal(relative: string): string | null {
+  if (!relative || relative.startsWith("..") || path.isAbsolute(relative)) {
+    return `must be a file under ${OPENCLAW_ROOT}`;
+  }
+  if (!relative.endsWith(".log")) return "must be a *.log file";
+  if (PRIVATE_PATHS.some((p) => relative === p || relative.startsWith(`${p}${path.sep}`))) {
+    return "command-center files and openclaw.json can't be tailed";
+  }
+  return null;
+}
+
+/**
+ * Checks a log file list from a request: each path must pass
+ * logFileRefusal. Throws SettingsError naming the bad entry.
+ */
+export function validateLogFiles(raw: unknown): LogFileSetting[] {
+  if (!Array.isArray(raw)) throw new SettingsError("Log files must be a list");
+  const seen = new Set<string>();
+  const files: LogFileSetting[] = [];
+  for (const value of raw) {
+    const entry = (typeof value === "string" ? { path: value } : value) as Record<string, unknown> | null;
+    const rawPath = typeof entry?.path === "string" ? entry.path.trim() : "";
+    if (!rawPath) throw new SettingsError("Log file path required");
+    const resolved = path.resolve(OPENCLAW_ROOT, rawPath);
+    const relative = path.relative(OPENCLAW_ROOT, resolved);
+    const refusal = logFileRefusal(relative);
+    if (refusal) throw new SettingsError(`${rawPath}: ${refusal}`);
+    if (seen.has(relative)) continue;
+    seen.add(relative);
+    const label = typeof entry?.label === "string" ? entry.label.trim() : "";
+    files.push(label ? { path: relative, label } : { path: relative });
+  }
+  return files;
+}
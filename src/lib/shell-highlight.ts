@@ -0,0 +1,146 @@
+// A small bash tokenizer for the script editor: enough to colour comments,
+// strings, variables and keywords, not a parser. No Node imports.
+
+export type ShellTokenType = "plain" | "comment" | "string" | "variable" | "keyword" | "builtin" | "number";
+
+export interface ShellToken {
+  type: ShellTokenType;
+  text: string;
+}
+
+const KEYWORDS = new Set([
+  "if", "then", "else", "elif", "fi", "for", "while", "until", "do", "done", "case", "esac",
+  "in", "function", "select", "return", "break", "continue", "exit",
+]);
+
+const BUILTINS = new Set([
+  "echo", "printf", "read", "cd", "pwd", "test", "eval", "exec", "export", "local", "readonly",
+  "declare", "set", "unset", "shift", "trap", "source", "wait", "true", "false", "mkdir", "rm",
+  "cp", "mv", "cat", "grep", "sed", "awk", "curl", "jq", "sleep", "date", "tee", "xargs", "find",
+]);
+
+const SPECIAL_VARS = "@#?$!*-0123456789";
+
+function isWordChar(ch: string): boolean {
+  return /[\w-]/.test(ch);
+}
+
+/** Length of the variable reference at text[i] ("$x", "${x:-y}", "$1"), or 0 if none. */
+function variableLength(text: string, i: number): number {
+  const next = text[i + 1];
+  if (next === undefined) return 0;
+  if (next === "{") {
+    const end = text.indexOf("}", i + 2);
+    return end === -1 ? 0 : end - i + 1;
+  }
+  if (SPECIAL_VARS.includes(next)) return 2;
+  const match = /^[A-Za-z_]\w*/.exec(text.slice(i + 1, i + 65));
+  return match ? match[0].length + 1 : 0;
+}
+
+/** Split script text into coloured tokens; joining their text gives back the input. */
+export function tokenizeShell(text: string): ShellToken[] {
+  const tokens: ShellToken[] = [];
+  let plain = "";
+
+  const push = (type: ShellTokenType, value: string) => {
+    if (!value) return;
+    if (type === "plain") {
+      plain += value;
+      return;
+    }
+    if (plain) {
+      tokens.push({ type: "plain", text: plain });
+      plain = "";
+    }
+    tokens.push({ type, text: value });
+  };
+
+  let i = 0;
+  while (i < text.length) {
+    const ch = text[i];
+    const prev = i > 0 ? text[i - 1] : "\n";
+
+    // Comments start at a word boundary and run to the end of the line
+    if (ch === "#" && /[\s;(|&]/.test(prev)) {
+      const end = text.indexOf("\n", i);
+      const stop = end === -1 ? text.length : end;
+      push("comment", text.slice(i, stop));
+      i = stop;
+      continue;
+    }
+
+    if (ch === "\\" && i + 1 < text.length) {
+      push("plain", text.slice(i, i + 2));
+      i += 2;
+      continue;
+    }
+
+    if (ch === "'") {
+      const end = text.indexOf("'", i + 1);
+      const stop = end === -1 ? text.length : end + 1;
+      push("string", text.slice(i, stop));
+      i = stop;
+      continue;
+    }
+
+    // Double quotes: variables inside keep their own colour
+    if (ch === '"') {
+      let j = i + 1;
+      let start = i;
+      while (j < text.length && text[j] !== '"') {
+        if (text[j] === "\\") {
+          j += 2;
+          continue;
+        }
+        const varLen = text[j] === "$" ? variableLength(text, j) : 0;
+        if (varLen > 0) {
+          push("string", text.slice(start, j));
+          push("variable", text.slice(j, j + varLen));
+          j += varLen;
+          start = j;
+          continue;
+        }
+        j++;
+      }
+      const stop = Math.min(j + 1, text.length);
+      push("string", text.slice(start, stop));
+      i = stop;
+      continue;
+    }
+
+    if (ch === "$") {
+      const varLen = variableLength(text, i);
+      if (varLen > 0) {
+        push("variable", text.slice(i, i + varLen));
+        i += varLen;
+        continue;
+      }
+    }
+
+    if (/[A-Za-z_]/.test(ch) && !isWordChar(prev)) {
+      let j = i + 1;
+      while (j < text.length && isWordChar(text[j])) j++;
+      const word = text.slice(i, j);
+      push(KEYWORDS.has(word) ? "keyword" : BUILTINS.has(word) ? "builtin" : "plain", word);
+      i = j;
+      continue;
+    }
+
+    if (/\d/.test(ch) && !isWordChar(prev)) {
+      let j = i + 1;
+      while (j < text.length && /\d/.test(text[j])) j++;
+      if (j >= text.length || !isWordChar(text[j])) {
+        push("number", text.slice(i, j));
+        i = j;
+        continue;
+      }
+    }
+
+    push("plain", ch);
+    i++;
+  }
+
+  if (plain) tokens.push({ type: "plain", text: plain });
+  return tokens;
+}
@@ -0,0 +1,96 @@
+import { execFile } from "node:child_process";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { promisify } from "node:util";
+import { afterAll, describe, expect, it } from "vitest";
+
+// `crontab` is a stand-in on PATH that keeps the table in a scratch file, and
+// the lines it's given are run with sh as cron would. The paths and limits are
+// read when the modules load, so they're imported after the environment is set.
+
+const execFileAsync = promisify(execFile);
+
+const root = await fs.mkdtemp(path.join(os.tmpdir(), "cc-system-crontab-"));
+const bin = path.join(root, "bin");
+const scriptsDir = path.join(root, "workspace", "scripts");
+await fs.mkdir(bin, { recursive: true });
+await fs.mkdir(path.join(root, "workspace", "data"), { recursive: true });
+await fs.mkdir(scriptsDir, { recursive: true });
+await fs.writeFile(
+  path.join(bin, "crontab"),
+  `#!/bin/sh
+if [ "$1" = "-l" ]; then
+  [ -f "$CRONTAB_FILE" ] || { echo "no crontab for test" >&2; exit 1; }
+  exec cat "$CRONTAB_FILE"
+fi
+cat > "$CRONTAB_FILE"
+`,
+  { mode: 0o755 }
+);
+
+process.env.OPENCLAW_ROOT = root;
+process.env.WORKSPACE_PATH = path.join(root, "workspace");
+process.env.SCRIPTS_PATH = scriptsDir;
+process.env.CRONTAB_FILE = path.join(root, "crontab.txt");
+process.env.PATH = `${bin}:${process.env.PATH}`;
+process.env.SCRIPT_MAX_OUTPUT_BYTES = "64";
+process.env.CC_TEST_SECRET = "leaked";
+
+const { addCrontabEntry, listCrontab, updateCrontabEntry } = await import("@/lib/system-crontab");
+
+async function addScript(name: string, content: string): Promise<string> {
+  await fs.writeFile(path.join(scriptsDir, name), content);
+  const id = await addCrontabEntry({ expr: "0 * * * *", script: name });
+  return (await listCrontab()).find((e) => e.id === id)!.command;
+}
+
+/** Runs a crontab command the way cron does: `\%` unescaped, through sh. */
+async function runAsCron(command: string): Promise<string> {
+  const { stdout } = await execFileAsync("/bin/sh", ["-c", command.replace(/\\%/g, "%")], { timeout: 20_000 });
+  return stdout;
+}
+
+afterAll(async () => {
+  await fs.rm(root, { recursive: true, force: true });
+});
+
+describe("system crontab lines", () => {
+  it("run the script in its working directory with only the allowlisted environment", async () => {
+    const command = await addScript(
+      "env.sh",
+      `#!/usr/bin/env bash
+# cwd: data
+printf '%s|%s|%s\\n' "\${CC_TEST_SECRET-unset}" "$CC_SCRIPT" "$(pwd)"
+`
+    );
+    const real = await fs.realpath(path.join(root, "workspace", "data"));
+    expect(await runAsCron(command)).toBe(`unset|env.sh|${real}\n`);
+    expect((await listCrontab()).find((e) => e.command === command)).toMatchObject({ script: "env.sh" });
+  });
+
+  it("cap the output and stop the script at its timeout", async () => {
+    const command = await addScript(
+      "noisy.sh",
+      `#!/usr/bin/env bash
+# timeout: 1s
+head -c 1000 /dev/zero | tr '\\0' x
+sleep 30
+`
+    );
+    const started = Date.now();
+    expect(await runAsCron(command)).toBe("x".repeat(64));
+    expect(Date.now() - started).toBeLessThan(10_000);
+  });
+
+  it("pick up a changed timeout when a managed line is saved again", async () => {
+    const [entry] = (await listCrontab()).filter((e) => e.script === "noisy.sh");
+    expect(entry.command).toContain("timeout -k 5s 1s ");
+    await fs.writeFile(path.join(scriptsDir, "noisy.sh"), "#!/usr/bin/env bash\n# timeout: 2m\necho hi\n");
+
+    await updateCrontabEntry(entry.id, { label: "Noisy" });
+    const saved = (await listCrontab()).find((e) => e.id === entry.id)!;
+    expect(saved).toMatchObject({ comment: "Noisy", script: "noisy.sh" });
+    expect(saved.command).toContain("timeout -k 5s 120s ");
+  });
+});
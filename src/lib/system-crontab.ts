@@ -0,0 +1,368 @@
+import { execFile, spawn } from "node:child_process";
+import { createHash, randomBytes } from "node:crypto";
+import fs from "node:fs/promises";
+import path from "node:path";
+import { promisify } from "node:util";
+import { isValidTimeZone, nextCronRun, validateCron } from "@/lib/cron-expr";
+import { ScriptRunError, scriptRunLimits, type ScriptRunLimits } from "@/lib/script-runs";
+import { findTrustedScript, trustedScriptName } from "@/lib/trusted-scripts";
+
+// The server user's crontab: parsing, plus add/edit/enable/delete of lines
+// that run trusted scripts. Lines the command center writes carry a
+// "[cc:<tag>]" marker; anything else is only changed when forced. Every write
+// replaces the whole crontab through `crontab -` after backing up the old one.
+// Server-only.
+
+const execFileAsync = promisify(execFile);
+
+const OPENCLAW_ROOT = process.env.OPENCLAW_ROOT || "/home/clawdbot/.openclaw";
+const BACKUP_DIR = path.join(OPENCLAW_ROOT, "command-center", "crontab-backups");
+const MAX_BACKUPS = 20;
+
+const MANAGED_TAG = /\s*\[cc:([a-f0-9]+)\]$/;
+// Disabled lines are kept, commented out with this prefix
+const DISABLED_PREFIX = "#cc:off ";
+
+export interface SystemCronEntry {
+  id: string;
+  expr: string;
+  command: string;
+  comment?: string;
+  raw: string;
+  /** CRON_TZ in effect for this line (cronie); otherwise the server's zone. */
+  tz?: string;
+  nextRunAtMs?: number;
+  enabled: boolean;
+  /** Written by the command center; other lines need `force` to change. */
+  managed: boolean;
+  /** Trusted script the line runs, if it runs one. */
+  script?: string;
+}
+
+interface ParsedLine {
+  entry: SystemCronEntry;
+  lineIndex: number;
+  /** Text after " # " on the line itself, without the managed tag. */
+  inlineComment?: string;
+}
+
+export class CrontabError extends Error {
+  constructor(message: string, public status = 400, public code?: "unmanaged" | "not-found") {
+    super(message);
+    this.name = "CrontabError";
+  }
+}
+
+function lineHash(line: string): string {
+  return createHash("sha1").update(line).digest("hex").slice(0, 12);
+}
+
+function parseLines(lines: string[]): ParsedLine[] {
+  const entries: ParsedLine[] = [];
+  const seen = new Map<string, number>();
+  let pendingComment: string | undefined;
+  let cronTz: string | undefined;
+
+  lines.forEach((line, lineIndex) => {
+    let trimmed = line.trim();
+
+    // Skip empty lines
+    if (!trimmed) {
+      pendingComment = undefined;
+      return;
+    }
+
+    let enabled = true;
+    if (trimmed.startsWith(DISABLED_PREFIX)) {
+      enabled = false;
+      trimmed = trimmed.slice(DISABLED_PREFIX.length).trim();
+    } else if (trimmed.startsWith("#")) {
+      // Track comments (they often label the next cron line)
+      pendingComment = trimmed.slice(1).trim();
+      return;
+    }
+
+    // CRON_TZ applies to the lines after it
+    const tzMatch = trimmed.match(/^CRON_TZ\s*=\s*["']?([^"'\s]+)["']?$/);
+    if (tzMatch) {
+      cronTz = isValidTimeZone(tzMatch[1]) ? tzMatch[1] : undefined;
+      return;
+    }
+
+    // Parse cron line: 5 fields + command, or a macro (@daily) + command
+    // Format: min hour dom mon dow command
+    const match =
+      trimmed.match(/^(\S+\s+\S+\s+\S+\s+\S+\s+\S+)\s+(.+)$/) ||
+      trimmed.match(/^(@\w+)\s+(.+)$/);
+    if (!match || /^\w+\s*=/.test(trimmed)) return;
+
+    const expr = match[1].startsWith("@") ? match[1] : match[1].split(/\s+/).join(" ");
+    const commandWithComment = match[2];
+
+    // Extract inline comment from command (e.g. "cmd # My Comment")
+    let command = commandWithComment;
+    let inlineComment: string | undefined;
+    const commentIdx = commandWithComment.indexOf(" # ");
+    if (commentIdx !== -1) {
+      command = commandWithComment.slice(0, commentIdx).trim();
+      inlineComment = commandWithComment.slice(commentIdx + 3).trim();
+    }
+
+    const tag = inlineComment?.match(MANAGED_TAG)?.[1];
+    if (tag) inlineComment = inlineComment!.replace(MANAGED_TAG, "") || undefined;
+
+    // Unmanaged lines are identified by content; repeat lines get a suffix
+    let id = tag ? `cc-${tag}` : `syscron-${lineHash(trimmed)}`;
+    const count = seen.get(id) ?? 0;
+    seen.set(id, count + 1);
+    if (count > 0) id = `${id}-${count}`;
+
+    const scriptPath = command.match(/\bbash\s+'([^']+)'/)?.[1] ?? command.match(/\bbash\s+(\S+\.sh)\b/)?.[1];
+
+    entries.push({
+      entry: {
+        id,
+        expr,
+        command,
+        comment: inlineComment || pendingComment,
+        raw: line.trim(),
+        tz: cronTz,
+        nextRunAtMs: enabled ? (nextCronRun(expr, { tz: cronTz }) ?? undefined) : undefined,
+        enabled,
+        managed: !!tag,
+        script: scriptPath ? (trustedScriptName(scriptPath) ?? undefined) : undefined,
+      },
+      lineIndex,
+      inlineComment,
+    });
+
+    pendingComment = undefined;
+  });
+
+  return entries;
+}
+
+export function parseCrontab(output: string): SystemCronEntry[] {
+  return parseLines(output.split("\n")).map((parsed) => parsed.entry);
+}
+
+// ─── Reading and writing ─────────────────────────────────────
+
+export async function readCrontab(): Promise<string> {
+  try {
+    const { stdout } = await execFileAsync("crontab", ["-l"], { timeout: 5000 });
+    return stdout;
+  } catch (error) {
+    // crontab -l exits 1 when the user has no crontab yet
+    const err = error as { code?: unknown; stderr?: string };
+    if (err.code === 1 && /no crontab/i.test(err.stderr || "")) return "";
+    throw error;
+  }
+}
+
+export async function listCrontab(): Promise<SystemCronEntry[]> {
+  return parseCrontab(await readCrontab());
+}
+
+function installCrontab(content: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const child = spawn("crontab", ["-"], { stdio: ["pipe", "ignore", "pipe"] });
+    let stderr = "";
+    const timer = setTimeout(() => child.kill("SIGKILL"), 10_000);
+    child.stderr.on("data", (chunk) => {
+      stderr += chunk;
+    });
+    child.on("error", (err) => {
+      clearTimeout(timer);
+      reject(err);
+    });
+    child.on("close", (code) => {
+      clearTimeout(timer);
+      if (code === 0) resolve();
+      else reject(new CrontabError(`crontab rejected the update: ${stderr.trim() || `exit ${code}`}`, 500));
+    });
+    child.stdin.end(content);
+  });
+}
+
+async function backupCrontab(content: string): Promise<void> {
+  await fs.mkdir(BACKUP_DIR, { recursive: true, mode: 0o700 });
+  const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+  await fs.writeFile(path.join(BACKUP_DIR, `crontab-${stamp}.txt`), content, { mode: 0o600 });
+
+  const backups = (await fs.readdir(BACKUP_DIR)).filter((f) => f.startsWith("crontab-")).sort();
+  for (const old of backups.slice(0, Math.max(0, backups.length - MAX_BACKUPS))) {
+    await fs.unlink(path.join(BACKUP_DIR, old)).catch(() => {});
+  }
+}
+
+// Serialise read-modify-write cycles; kept on globalThis for dev reloads
+const globalForCrontab = globalThis as unknown as { __crontabLock?: Promise<unknown> };
+
+/**
+ * Read the crontab, let `mutate` edit its lines, back up the old content and
+ * install the result. Concurrent calls run one after another.
+ */
+async function updateCrontab<T>(
+  mutate: (lines: string[], entries: ParsedLine[]) => { lines: string[]; result: T }
+): Promise<T> {
+  const run = async () => {
+    const current = await readCrontab();
+    const lines = current ? current.replace(/\n$/, "").split("\n") : [];
+    const { lines: next, result } = mutate([...lines], parseLines(lines));
+    await backupCrontab(current);
+    await installCrontab(next.length ? `${next.join("\n")}\n` : "");
+    return result;
+  };
+  const previous = globalForCrontab.__crontabLock ?? Promise.resolve();
+  const task = previous.catch(() => {}).then(run);
+  globalForCrontab.__crontabLock = task;
+  return task;
+}
+
+// ─── Entry operations ────────────────────────────────────────
+
+export interface CrontabEntryInput {
+  expr: string;
+  /** Trusted script file name, e.g. "backup.sh". */
+  script: string;
+  label?: string;
+}
+
+function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+// cron turns % into newlines anywhere on the line, and labels must stay on it
+function cleanLabel(label?: string): string {
+  return (label || "").replace(/[%\r\n]/g, " ").replace(MANAGED_TAG, "").trim();
+}
+
+function checkExpr(expr: string): string {
+  const error = validateCron(expr);
+  if (error) throw new CrontabError(`Invalid schedule: ${error}`);
+  return expr.trim().split(/\s+/).join(" ");
+}
+
+function seconds(ms: number): string {
+  return `${Math.max(1, Math.ceil(ms / 1000))}s`;
+}
+
+/**
+ * `bash <script>` held to the limits of a run started from the UI: its
+ * "# cwd:" directory, only the allowlisted environment, its timeout (then
+ * SIGKILL after the grace period) and the output cap — past it, output is
+ * read and dropped rather than mailed by cron. The limits are fixed when
+ * the line is written, so a line is rewritten whenever it's saved.
+ */
+async function scriptCommand(script: string): Promise<string> {
+  const scriptPath = await findTrustedScript(script);
+  if (!scriptPath) throw new CrontabError(`Script not found or not allowed: ${script}`, 404);
+  let limits: ScriptRunLimits;
+  try {
+    limits = await scriptRunLimits(scriptPath);
+  } catch (error) {
+    if (error instanceof ScriptRunError) throw new CrontabError(error.message, error.status);
+    throw error;
+  }
+  // A value that would end the line or start its comment can't be written
+  const env = Object.entries(limits.env)
+    .filter(([, value]) => !/[\r\n]| # /.test(value))
+    .map(([name, value]) => `${name}=${shellQuote(value)}`);
+  const command = [
+    `cd ${shellQuote(limits.cwd)} &&`,
+    `timeout -k ${seconds(limits.killGraceMs)} ${seconds(limits.timeoutMs)}`,
+    `env -i ${env.join(" ")}`,
+    `bash ${shellQuote(scriptPath)} 2>&1`,
+    `| { head -c ${limits.maxOutputBytes}; cat >/dev/null; }`,
+  ].join(" ");
+  // cron turns an unescaped % into a newline
+  return command.replace(/%/g, "\\%");
+}
+
+function managedLine(expr: string, command: string, label: string, tag: string): string {
+  return `${expr} ${command} # ${label ? `${label} ` : ""}[cc:${tag}]`;
+}
+
+function findEntry(entries: ParsedLine[], id: string, force: boolean): ParsedLine {
+  const found = entries.find((e) => e.entry.id === id);
+  if (!found) {
+    throw new CrontabError("Crontab line not found; it may have changed. Refresh and try again.", 404, "not-found");
+  }
+  if (!found.entry.managed && !force) {
+    throw new CrontabError(
+      "This line wasn't created by the command center. Force the change to edit it anyway.",
+      409,
+      "unmanaged"
+    );
+  }
+  return found;
+}
+
+function withEnabled(line: string, enabled: boolean): string {
+  return enabled ? line : `${DISABLED_PREFIX}${line}`;
+}
+
+export async function addCrontabEntry(input: CrontabEntryInput): Promise<string> {
+  const expr = checkExpr(input.expr);
+  const command = await scriptCommand(input.script);
+  const tag = randomBytes(4).toString("hex");
+  const label = cleanLabel(input.label) || `Run ${input.script.replace(/\.sh$/, "")}`;
+  return updateCrontab((lines) => {
+    lines.push(managedLine(expr, command, label, tag));
+    return { lines, result: `cc-${tag}` };
+  });
+}
+
+export async function updateCrontabEntry(
+  id: string,
+  changes: Partial<CrontabEntryInput>,
+  force = false
+): Promise<void> {
+  const expr = changes.expr !== undefined ? checkExpr(changes.expr) : undefined;
+  let command: string | undefined;
+  let refreshed: { script: string; command: string } | undefined;
+  if (changes.script !== undefined) {
+    command = await scriptCommand(changes.script);
+  } else {
+    // Saving a managed line rewrites its limits from the script as it is now
+    const current = (await listCrontab()).find((e) => e.id === id);
+    if (current?.managed && current.script) {
+      const script = current.script;
+      refreshed = await scriptCommand(script).then(
+        (line) => ({ script, command: line }),
+        () => undefined
+      );
+    }
+  }
+  await updateCrontab((lines, entries) => {
+    const { entry, lineIndex, inlineComment } = findEntry(entries, id, force);
+    const nextExpr = expr ?? entry.expr;
+    const nextCommand = command ?? (refreshed && entry.script === refreshed.script ? refreshed.command : entry.command);
+    const label = changes.label !== undefined ? cleanLabel(changes.label) : inlineComment ?? "";
+    const tag = entry.managed ? id.replace(/^cc-/, "").replace(/-\d+$/, "") : null;
+    const line = tag
+      ? managedLine(nextExpr, nextCommand, label, tag)
+      : `${nextExpr} ${nextCommand}${label ? ` # ${label}` : ""}`;
+    lines[lineIndex] = withEnabled(line, entry.enabled);
+    return { lines, result: undefined };
+  });
+}
+
+export async function setCrontabEntryEnabled(id: string, enabled: boolean, force = false): Promise<void> {
+  await updateCrontab((lines, entries) => {
+    const { lineIndex } = findEntry(entries, id, force);
+    const line = lines[lineIndex].trim();
+    const active = line.startsWith(DISABLED_PREFIX) ? line.slice(DISABLED_PREFIX.length).trim() : line;
+    lines[lineIndex] = withEnabled(active, enabled);
+    return { lines, result: undefined };
+  });
+}
+
+export async function deleteCrontabEntry(id: string, force = false): Promise<void> {
+  await updateCrontab((lines, entries) => {
+    const { lineIndex } = findEntry(entries, id, force);
+    lines.splice(lineIndex, 1);
+    return { lines, result: undefined };
+  });
+}
@@ -0,0 +1,52 @@
+import path from "node:path";
+import fs from "node:fs/promises";
+
+// Trusted script directories - only scripts from these dirs can be executed
+// or scheduled. Server-only.
+export const TRUSTED_SCRIPT_DIRS = [
+  process.env.SCRIPTS_PATH || "/home/clawdbot/.openclaw/workspace/scripts",
+  "/home/clawdbot/.openclaw/scripts",
+];
+
+export const WORKSPACE_DIR = process.env.WORKSPACE_PATH || "/home/clawdbot/.openclaw/workspace";
+
+// Find the script in one of the trusted directories
+// Returns full path if found AND the script is a .sh file
+export async function findTrustedScript(scriptName: string): Promise<string | null> {
+  // Security: Only allow .sh files
+  if (!scriptName.endsWith(".sh")) {
+    return null;
+  }
+
+  // Security: No path traversal
+  const baseName = path.basename(scriptName);
+  if (baseName !== scriptName || scriptName.includes("..")) {
+    return null;
+  }
+
+  for (const dir of TRUSTED_SCRIPT_DIRS) {
+    const scriptPath = path.join(dir, baseName);
+    try {
+      const stat = await fs.stat(scriptPath);
+      if (stat.isFile()) {
+        // Verify the resolved path is still within the trusted directory
+        const realPath = await fs.realpath(scriptPath);
+        const realDir = await fs.realpath(dir).catch(() => dir);
+        if (realPath.startsWith(realDir)) {
+          return scriptPath;
+        }
+      }
+    } catch {
+      // Script not in this directory, try next
+    }
+  }
+  return null;
+}
+
+/** The trusted script a full path points at (by name), or null if it isn't one. */
+export function trustedScriptName(scriptPath: string): string | null {
+  const dir = path.dirname(scriptPath);
+  const name = path.basename(scriptPath);
+  if (!name.endsWith(".sh")) return null;
+  return TRUSTED_SCRIPT_DIRS.some((trusted) => path.resolve(trusted) === path.resolve(dir)) ? name : null;
+}
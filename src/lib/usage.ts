@@ -0,0 +1,323 @@
+import fs from "node:fs/promises";
+import { agentSessionsDir, agentSessionsPath } from "@/lib/agents";
+import { loadAddressBook, parseSessionKey, type SessionType } from "@/lib/session-keys";
+import { ownTranscriptFile, scanTranscript } from "@/lib/session-transcript";
+import { readSettings, type ModelPrice } from "@/lib/settings";
+
+// Token usage across one agent's sessions. Per-turn usage comes from the transcripts,
+// scanned incrementally: a file is read in full once, then only from where
+// the last scan stopped, with per-day, per-model counts kept in memory.
+// Sessions whose transcript has no per-turn usage count their sessions.json
+// total on the day they were last updated. Cost is estimated from the price
+// table in the command-center settings. Server-only; client code imports the
+// types.
+
+const UNKNOWN_MODEL = "unknown";
+
+export interface UsageCounts {
+  input: number;
+  output: number;
+  cacheRead: number;
+  cacheWrite: number;
+  total: number;
+  turns: number;
+}
+
+/** Usage of one session, on one day, with one model. */
+export interface UsageRow extends UsageCounts {
+  /** YYYY-MM-DD in the server's time zone. */
+  day: string;
+  sessionKey: string;
+  type: SessionType;
+  channel?: string;
+  /** Address book name of a DM contact. */
+  contact?: string;
+  model: string;
+  /** Estimated USD, or null when no price matches the model. */
+  cost: number | null;
+  /** Only the session's total was recorded, with no input/output split. */
+  fromTotals?: boolean;
+}
+
+export interface UsageGroup extends UsageCounts {
+  key: string;
+  cost: number;
+  /** Tokens whose model has no price, so aren't in `cost`. */
+  unpricedTokens: number;
+}
+
+export interface UsageReport {
+  agentId: string;
+  since: string;
+  until: string;
+  days: number;
+  totals: UsageGroup;
+  /** Every day in the range, oldest first, including empty ones. */
+  byDay: UsageGroup[];
+  /** The rest are sorted by total tokens, largest first. */
+  byChannel: UsageGroup[];
+  byContact: UsageGroup[];
+  byModel: UsageGroup[];
+  unpricedModels: string[];
+  prices: Record<string, ModelPrice>;
+}
+
+function emptyCounts(): UsageCounts {
+  return { input: 0, output: 0, cacheRead: 0, cacheWrite: 0, total: 0, turns: 0 };
+}
+
+function addCounts(into: UsageCounts, from: UsageCounts) {
+  into.input += from.input;
+  into.output += from.output;
+  into.cacheRead += from.cacheRead;
+  into.cacheWrite += from.cacheWrite;
+  into.total += from.total;
+  into.turns += from.turns;
+}
+
+export function dayKey(ms: number): string {
+  const d = new Date(ms);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+}
+
+// ─── Transcript scans ────────────────────────────────────────
+
+interface FileUsage {
+  resumeAt: number;
+  /** Keyed `${day}\t${model}`; model is "" when the turn didn't name one. */
+  buckets: Map<string, UsageCounts>;
+}
+
+// Kept on globalThis so dev-mode module reloads don't rescan everything
+const globalForUsage = globalThis as unknown as {
+  __usageScans?: Map<string, FileUsage>;
+  __usageScansInflight?: Map<string, Promise<FileUsage>>;
+};
+const scans = (globalForUsage.__usageScans ??= new Map());
+const inflight = (globalForUsage.__usageScansInflight ??= new Map());
+
+async function scanFile(filePath: string): Promise<FileUsage> {
+  const { size, mtimeMs } = await fs.stat(filePath);
+  let usage = scans.get(filePath);
+  // Shorter than where we stopped: the file was rewritten, count it again
+  if (!usage || size < usage.resumeAt) {
+    usage = { resumeAt: 0, buckets: new Map() };
+    scans.set(filePath, usage);
+  }
+  if (size === usage.resumeAt) return usage;
+
+  const state = usage;
+  const scan = await scanTranscript(
+    filePath,
+    state.resumeAt,
+    (turn) => {
+      if (!turn.usage) return;
+      // A turn without a timestamp is counted on the day the file last changed
+      const key = `${dayKey(turn.timestamp ?? mtimeMs)}\t${turn.model ?? ""}`;
+      let bucket = state.buckets.get(key);
+      if (!bucket) state.buckets.set(key, (bucket = emptyCounts()));
+      bucket.input += turn.usage.input ?? 0;
+      bucket.output += turn.usage.output ?? 0;
+      bucket.cacheRead += turn.usage.cacheRead ?? 0;
+      bucket.cacheWrite += turn.usage.cacheWrite ?? 0;
+      bucket.total += turn.usage.total;
+      bucket.turns += 1;
+    },
+    (text) => text.includes('"usage"') || text.includes('"tokenCount"')
+  );
+  state.resumeAt = scan.resumeAt;
+  return state;
+}
+
+/** One scan per file at a time, so concurrent requests don't count a line twice. */
+function scanFileOnce(filePath: string): Promise<FileUsage> {
+  let pending = inflight.get(filePath);
+  if (!pending) {
+    pending = scanFile(filePath).finally(() => inflight.delete(filePath));
+    inflight.set(filePath, pending);
+  }
+  return pending;
+}
+
+// ─── Pricing ─────────────────────────────────────────────────
+
+/** The price for `model`: an exact key, else the longest key it contains. */
+export function priceFor(model: string, prices: Record<string, ModelPrice>): ModelPrice | null {
+  if (prices[model]) return prices[model];
+  const lower = model.toLowerCase();
+  let best: string | null = null;
+  for (const key of Object.keys(prices)) {
+    if (lower.includes(key.toLowerCase()) && (!best || key.length > best.length)) best = key;
+  }
+  return best ? prices[best] : null;
+}
+
+function costOf(counts: UsageCounts, price: ModelPrice | null, fromTotals: boolean): number | null {
+  if (!price) return null;
+  // Without a split, the whole total is priced as input
+  if (fromTotals) return (counts.total * price.input) / 1e6;
+  return (
+    (counts.input * price.input +
+      counts.output * price.output +
+      counts.cacheRead * (price.cacheRead ?? price.input) +
+      counts.cacheWrite * (price.cacheWrite ?? price.input)) /
+    1e6
+  );
+}
+
+// ─── Report ──────────────────────────────────────────────────
+
+type SessionsFile = Record<string, { sessionId?: string; sessionFile?: string; updatedAt?: number; tokenCount?: number; turnCount?: number; model?: string }>;
+
+/** Per-session, per-day, per-model usage of an agent for the last `days` days (today included). */
+export async function collectUsageRows(
+  days: number,
+  agentId: string
+): Promise<{ rows: UsageRow[]; since: string; until: string }> {
+  const now = Date.now();
+  const start = new Date(now);
+  start.setHours(0, 0, 0, 0);
+  start.setDate(start.getDate() - (days - 1));
+  const since = dayKey(start.getTime());
+  const until = dayKey(now);
+
+  let sessions: SessionsFile = {};
+  try {
+    sessions = JSON.parse(await fs.readFile(agentSessionsPath(agentId), "utf-8"));
+  } catch {
+    // no sessions yet
+  }
+  const [names, settings] = await Promise.all([loadAddressBook(), readSettings()]);
+
+  const rows: UsageRow[] = [];
+  for (const [key, entry] of Object.entries(sessions)) {
+    const parsed = parseSessionKey(key);
+    const base = {
+      sessionKey: key,
+      type: parsed.type,
+      channel: parsed.channel,
+      contact: parsed.contactId && parsed.channel ? names[`${parsed.channel}:${parsed.contactId}`] : undefined,
+    };
+
+    const file = await ownTranscriptFile(key, entry, agentSessionsDir(agentId));
+    const usage = file ? await scanFileOnce(file).catch(() => null) : null;
+    if (usage && usage.buckets.size > 0) {
+      // Turns that didn't name a model ran on the session's model
+      const merged = new Map<string, UsageCounts>();
+      for (const [bucketKey, counts] of usage.buckets) {
+        const [day, turnModel] = bucketKey.split("\t");
+        if (day < since) continue;
+        const key = `${day}\t${turnModel || entry.model || UNKNOWN_MODEL}`;
+        let into = merged.get(key);
+        if (!into) merged.set(key, (into = emptyCounts()));
+        addCounts(into, counts);
+      }
+      for (const [mergedKey, counts] of merged) {
+        const [day, model] = mergedKey.split("\t");
+        rows.push({ ...base, ...counts, day, model, cost: costOf(counts, priceFor(model, settings.modelPrices), false) });
+      }
+      continue;
+    }
+
+    const total = entry.tokenCount ?? 0;
+    const day = dayKey(entry.updatedAt ?? now);
+    if (total > 0 && day >= since) {
+      const counts = { ...emptyCounts(), total, turns: entry.turnCount ?? 0 };
+      const model = entry.model || UNKNOWN_MODEL;
+      rows.push({
+        ...base,
+        ...counts,
+        day,
+        model,
+        cost: costOf(counts, priceFor(model, settings.modelPrices), true),
+        fromTotals: true,
+      });
+    }
+  }
+  rows.sort((a, b) => a.day.localeCompare(b.day) || b.total - a.total);
+  return { rows, since, until };
+}
+
+function group(rows: UsageRow[], keyOf: (row: UsageRow) => string): Map<string, UsageGroup> {
+  const groups = new Map<string, UsageGroup>();
+  for (const row of rows) {
+    const key = keyOf(row);
+    let g = groups.get(key);
+    if (!g) groups.set(key, (g = { key, ...emptyCounts(), cost: 0, unpricedTokens: 0 }));
+    addCounts(g, row);
+    if (row.cost === null) g.unpricedTokens += row.total;
+    else g.cost += row.cost;
+  }
+  return groups;
+}
+
+function byTotal(groups: Map<string, UsageGroup>): UsageGroup[] {
+  return [...groups.values()].sort((a, b) => b.total - a.total);
+}
+
+export async function getUsageReport(days: number, agentId: string): Promise<UsageReport> {
+  const { rows, since, until } = await collectUsageRows(days, agentId);
+  const settings = await readSettings();
+
+  const perDay = group(rows, (r) => r.day);
+  const byDay: UsageGroup[] = [];
+  const cursor = new Date(`${since}T00:00:00`);
+  for (let i = 0; i < days; i++) {
+    const key = dayKey(cursor.getTime());
+    byDay.push(perDay.get(key) ?? { key, ...emptyCounts(), cost: 0, unpricedTokens: 0 });
+    cursor.setDate(cursor.getDate() + 1);
+  }
+
+  const totals = group(rows, () => "total").get("total") ?? {
+    key: "total",
+    ...emptyCounts(),
+    cost: 0,
+    unpricedTokens: 0,
+  };
+
+  return {
+    agentId,
+    since,
+    until,
+    days,
+    totals,
+    byDay,
+    byChannel: byTotal(group(rows, (r) => r.channel ?? r.type)),
+    byContact: byTotal(group(rows.filter((r) => r.contact), (r) => r.contact!)),
+    byModel: byTotal(group(rows, (r) => r.model)),
+    unpricedModels: [...new Set(rows.filter((r) => r.cost === null).map((r) => r.model))].sort(),
+    prices: settings.modelPrices,
+  };
+}
+
+// ─── Export ──────────────────────────────────────────────────
+
+const CSV_COLUMNS: (keyof UsageRow)[] = [
+  "day",
+  "sessionKey",
+  "type",
+  "channel",
+  "contact",
+  "model",
+  "input",
+  "output",
+  "cacheRead",
+  "cacheWrite",
+  "total",
+  "turns",
+  "cost",
+  "fromTotals",
+];
+
+function csvCell(value: unknown): string {
+  if (value === undefined || value === null) return "";
+  const text = typeof value === "number" ? String(Math.round(value * 1e6) / 1e6) : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function usageRowsToCsv(rows: UsageRow[]): string {
+  const lines = [CSV_COLUMNS.join(",")];
+  for (const row of rows) lines.push(CSV_COLUMNS.map((c) => csvCell(row[c])).join(","));
+  return `${lines.join("\n")}\n`;
+}
@@ -0,0 +1,66 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { AgentListItem } from "@/app/api/agents/route";
+import { clearDashboardCache } from "@/lib/dashboard-cache";
+
+interface AgentsState {
+  agents: AgentListItem[];
+  selected: string;
+}
+
+// One /api/agents request shared by every component on the page
+let pending: Promise<AgentsState | null> | null = null;
+
+function fetchAgents(): Promise<AgentsState | null> {
+  if (!pending) {
+    pending = fetch("/api/agents")
+      .then((r) => r.json())
+      .then((data) => (Array.isArray(data.agents) ? (data as AgentsState) : null))
+      .catch(() => {
+        pending = null;
+        return null;
+      });
+  }
+  return pending;
+}
+
+/**
+ * Every agent and the one this browser's views are scoped to. The server
+ * reads the same selection from its cookie, so API responses already match.
+ */
+export function useAgents() {
+  const [state, setState] = useState<AgentsState | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchAgents().then((s) => {
+      if (!cancelled) setState(s);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const defaultId = state?.agents.find((a) => a.isDefault)?.id ?? null;
+
+  return {
+    agents: state?.agents ?? [],
+    selected: state?.selected ?? null,
+    selectedAgent: state?.agents.find((a) => a.id === state.selected) ?? null,
+    defaultId,
+    /** Whether a cron job runs as the selected agent; true until the agents have loaded. */
+    ownsCronJob: (job: { agentId?: string }) => !state || (job.agentId || defaultId) === state.selected,
+    /** Scopes every view to `agentId`; reloads the page so all data follows. */
+    select: async (agentId: string) => {
+      const res = await fetch("/api/agents", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action: "select", agent: agentId }),
+      });
+      if (!res.ok) throw new Error((await res.json()).error || `HTTP ${res.status}`);
+      clearDashboardCache();
+      window.location.reload();
+    },
+  };
+}
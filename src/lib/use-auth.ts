@@ -0,0 +1,53 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { can, type Permission, type Role } from "@/lib/permissions";
+
+export interface CurrentUser {
+  username: string;
+  role: Role;
+}
+
+// One /api/auth request shared by every component on the page
+let pending: Promise<CurrentUser | null> | null = null;
+
+function fetchCurrentUser(): Promise<CurrentUser | null> {
+  if (!pending) {
+    pending = fetch("/api/auth")
+      .then((r) => r.json())
+      .then((data) => (data.authenticated ? (data.user as CurrentUser) : null))
+      .catch(() => {
+        pending = null;
+        return null;
+      });
+  }
+  return pending;
+}
+
+/**
+ * Current user and role for hiding/disabling controls. This is cosmetic only:
+ * the server enforces the same permission table on every route.
+ */
+export function useCurrentUser() {
+  const [user, setUser] = useState<CurrentUser | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchCurrentUser().then((u) => {
+      if (cancelled) return;
+      setUser(u);
+      setLoading(false);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return {
+    user,
+    role: user?.role ?? null,
+    loading,
+    can: (permission: Permission) => can(user?.role, permission),
+  };
+}
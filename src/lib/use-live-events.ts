@@ -0,0 +1,135 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import { LIVE_TOPICS, type LiveEvent, type LiveTopic } from "@/lib/live-events";
+
+// One EventSource per tab, shared by every hook on the page. It always
+// subscribes to all topics; hooks filter client-side.
+
+type Listener = {
+  topics: Set<LiveTopic>;
+  onEvent: (evt: LiveEvent) => void;
+  onResync?: () => void;
+};
+
+const listeners = new Set<Listener>();
+let source: EventSource | null = null;
+let lastEventId: string | null = null;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+let backoffMs = 1000;
+
+function open() {
+  if (source || typeof EventSource === "undefined") return;
+  // A fresh EventSource doesn't send Last-Event-ID, so pass it explicitly
+  const url = lastEventId
+    ? `/api/events?lastEventId=${encodeURIComponent(lastEventId)}`
+    : "/api/events";
+  const es = new EventSource(url);
+  source = es;
+
+  es.addEventListener("ready", () => {
+    backoffMs = 1000;
+  });
+
+  es.addEventListener("resync", () => {
+    for (const l of listeners) l.onResync?.();
+  });
+
+  for (const topic of LIVE_TOPICS) {
+    es.addEventListener(topic, (ev) => {
+      const msg = ev as MessageEvent<string>;
+      if (msg.lastEventId) lastEventId = msg.lastEventId;
+      let evt: LiveEvent;
+      try {
+        evt = JSON.parse(msg.data);
+      } catch {
+        return;
+      }
+      for (const l of listeners) {
+        if (l.topics.has(evt.topic)) l.onEvent(evt);
+      }
+    });
+  }
+
+  es.addEventListener("error", () => {
+    // The browser retries network drops itself; a closed source (401, server
+    // restart mid-handshake) needs a manual reopen with backoff.
+    if (es.readyState !== EventSource.CLOSED) return;
+    close();
+    if (listeners.size === 0) return;
+    retryTimer = setTimeout(() => {
+      retryTimer = null;
+      open();
+    }, backoffMs);
+    backoffMs = Math.min(backoffMs * 2, 30_000);
+  });
+}
+
+function close() {
+  source?.close();
+  source = null;
+  if (retryTimer) clearTimeout(retryTimer);
+  retryTimer = null;
+}
+
+/**
+ * Call `onEvent` for live gateway events on any of `topics`. `onResync` runs
+ * when events were missed while disconnected and state should be refetched.
+ */
+export function useLiveEvents(
+  topics: LiveTopic[],
+  onEvent: (evt: LiveEvent) => void,
+  onResync?: () => void
+) {
+  const onEventRef = useRef(onEvent);
+  const onResyncRef = useRef(onResync);
+  useEffect(() => {
+    onEventRef.current = onEvent;
+    onResyncRef.current = onResync;
+  });
+
+  const topicKey = topics.join(",");
+
+  useEffect(() => {
+    const listener: Listener = {
+      topics: new Set(topicKey.split(",") as LiveTopic[]),
+      onEvent: (evt) => onEventRef.current(evt),
+      onResync: () => onResyncRef.current?.(),
+    };
+    listeners.add(listener);
+    open();
+    return () => {
+      listeners.delete(listener);
+      if (listeners.size === 0) close();
+    };
+  }, [topicKey]);
+}
+
+/**
+ * Re-run `refresh` when something on `topics` changes, coalescing bursts
+ * (a cron run emits start and finish within moments) into one call.
+ */
+export function useLiveRefresh(topics: LiveTopic[], refresh: () => void, debounceMs = 750) {
+  const timer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const refreshRef = useRef(refresh);
+  useEffect(() => {
+    refreshRef.current = refresh;
+  });
+
+  useEffect(
+    () => () => {
+      if (timer.current) clearTimeout(timer.current);
+    },
+    []
+  );
+
+  const schedule = () => {
+    if (timer.current) clearTimeout(timer.current);
+    timer.current = setTimeout(() => {
+      timer.current = null;
+      refreshRef.current();
+    }, debounceMs);
+  };
+
+  useLiveEvents(topics, schedule, schedule);
+}
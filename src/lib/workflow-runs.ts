@@ -0,0 +1,334 @@
+import { randomBytes } from "node:crypto";
+import fs from "node:fs/promises";
+import path from "node:path";
+import { nextCronRun } from "@/lib/cron-expr";
+import { publishLiveEvent } from "@/lib/event-hub";
+import {
+  cancelScriptRun,
+  prepareScriptInput,
+  ScriptRunError,
+  startScriptRun,
+  waitForScriptRun,
+  type ScriptRunStatus,
+} from "@/lib/script-runs";
+import { findTrustedScript } from "@/lib/trusted-scripts";
+import { loadWorkflows, type Workflow, type WorkflowStep } from "@/lib/workflows";
+
+// Workflow runs: the steps of a workflow executed one after another as
+// ordinary script runs, so each keeps its own output in the script history.
+// The combined record (which steps ran, skipped or failed, and their run
+// ids) goes to command-center/workflow-runs.jsonl when the run ends. Also
+// holds the in-process scheduler for workflows with a "schedule". Server-only;
+// client code imports the types.
+
+const OPENCLAW_ROOT = process.env.OPENCLAW_ROOT || "/home/clawdbot/.openclaw";
+export const WORKFLOW_HISTORY_PATH = path.join(OPENCLAW_ROOT, "command-center", "workflow-runs.jsonl");
+
+const KEEP_FINISHED_RUNS = 20;
+const SCHEDULER_INTERVAL_MS = 30_000;
+
+export type WorkflowStepStatus = "pending" | "running" | "skipped" | Exclude<ScriptRunStatus, "running">;
+
+export interface WorkflowStepResult {
+  index: number;
+  name: string;
+  script: string;
+  status: WorkflowStepStatus;
+  /** Script run id; its output is in the script history. */
+  runId?: string;
+  exitCode?: number | null;
+  /** Why it failed, or why it was skipped. */
+  error?: string;
+  startedAt?: number;
+  finishedAt?: number;
+}
+
+export interface WorkflowRunRecord {
+  id: string;
+  workflowId: string;
+  name: string;
+  trigger: "manual" | "schedule";
+  startedBy?: string;
+  startedAt: number;
+  finishedAt?: number;
+  /** "error" when a failing step stopped the run; failures set to continue don't count. */
+  status: "running" | "ok" | "error" | "cancelled";
+  steps: WorkflowStepResult[];
+}
+
+export class WorkflowRunError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = "WorkflowRunError";
+  }
+}
+
+interface ActiveWorkflowRun {
+  record: WorkflowRunRecord;
+  cancelled: boolean;
+}
+
+// Kept on globalThis so dev-mode module reloads share one registry and one scheduler
+const globalForWorkflows = globalThis as unknown as {
+  __workflowRuns?: Map<string, ActiveWorkflowRun>;
+  __workflowScheduler?: { timer: ReturnType<typeof setInterval>; lastTick: number };
+};
+
+function workflowRuns(): Map<string, ActiveWorkflowRun> {
+  if (!globalForWorkflows.__workflowRuns) globalForWorkflows.__workflowRuns = new Map();
+  return globalForWorkflows.__workflowRuns;
+}
+
+function snapshot(run: ActiveWorkflowRun): WorkflowRunRecord {
+  return { ...run.record, steps: run.record.steps.map((s) => ({ ...s })) };
+}
+
+function pruneFinished() {
+  const finished = [...workflowRuns().values()].filter((r) => r.record.finishedAt !== undefined);
+  for (const run of finished.slice(0, Math.max(0, finished.length - KEEP_FINISHED_RUNS))) {
+    workflowRuns().delete(run.record.id);
+  }
+}
+
+// ─── History ─────────────────────────────────────────────────
+
+async function appendWorkflowRunRecord(record: WorkflowRunRecord): Promise<void> {
+  await fs.mkdir(path.dirname(WORKFLOW_HISTORY_PATH), { recursive: true, mode: 0o700 });
+  await fs.appendFile(WORKFLOW_HISTORY_PATH, `${JSON.stringify(record)}\n`, { mode: 0o600 });
+}
+
+/** Finished runs from the history file, or only those of `workflowId`, newest first. */
+export async function readWorkflowRunRecords(workflowId?: string): Promise<WorkflowRunRecord[]> {
+  let raw: string;
+  try {
+    raw = await fs.readFile(WORKFLOW_HISTORY_PATH, "utf-8");
+  } catch {
+    return [];
+  }
+  const records: WorkflowRunRecord[] = [];
+  for (const line of raw.split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      const record = JSON.parse(line) as WorkflowRunRecord;
+      if (typeof record?.id !== "string" || !Array.isArray(record.steps)) continue;
+      if (!workflowId || record.workflowId === workflowId) records.push(record);
+    } catch {
+      // Skip a torn line
+    }
+  }
+  return records.sort((a, b) => b.startedAt - a.startedAt);
+}
+
+/** Runs in progress, then recorded ones, newest first. */
+export async function listWorkflowRuns(workflowId?: string): Promise<WorkflowRunRecord[]> {
+  const active = [...workflowRuns().values()]
+    .filter((r) => r.record.finishedAt === undefined)
+    .filter((r) => !workflowId || r.record.workflowId === workflowId)
+    .map(snapshot);
+  const recorded = await readWorkflowRunRecords(workflowId);
+  return [...active, ...recorded].sort((a, b) => b.startedAt - a.startedAt);
+}
+
+export async function getWorkflowRun(id: string): Promise<WorkflowRunRecord | null> {
+  const live = workflowRuns().get(id);
+  if (live) return snapshot(live);
+  return (await readWorkflowRunRecords()).find((r) => r.id === id) ?? null;
+}
+
+// ─── Running ─────────────────────────────────────────────────
+
+interface PreviousStep {
+  ok: boolean;
+  exitCode: number | null;
+}
+
+/** Whether `step` runs, given the last step that ran and whether the run has stopped. */
+function shouldRun(step: WorkflowStep, previous: PreviousStep, stopped: boolean): boolean {
+  const when = step.when;
+  if (when === "always") return true;
+  if (when === "failure") return !previous.ok;
+  if (stopped) return false;
+  if (when === undefined) return true;
+  if (when === "success") return previous.ok;
+  const codes = Array.isArray(when) ? when : [when];
+  return previous.exitCode !== null && codes.includes(previous.exitCode);
+}
+
+function skipReason(step: WorkflowStep, stopped: boolean): string {
+  if (stopped && step.when !== "failure") return "Skipped after an earlier step failed";
+  if (step.when === "success") return "Previous step failed";
+  if (step.when === "failure") return "Previous step succeeded";
+  return "Previous exit code didn't match";
+}
+
+function publishStep(run: ActiveWorkflowRun) {
+  publishLiveEvent("scripts", "workflow.step", snapshot(run));
+}
+
+/** Run one step as a script run and wait for it to be recorded. */
+async function runStep(run: ActiveWorkflowRun, step: WorkflowStep, result: WorkflowStepResult) {
+  result.status = "running";
+  result.startedAt = Date.now();
+  publishStep(run);
+  try {
+    const scriptPath = await findTrustedScript(step.script);
+    if (!scriptPath) throw new ScriptRunError(`Script not found or not allowed: ${step.script}`, 404);
+    const prepared = await prepareScriptInput(scriptPath, { args: step.args, params: step.params });
+    if (run.cancelled) {
+      result.status = "cancelled";
+      return;
+    }
+    const started = await startScriptRun(scriptPath, prepared.args, {
+      ...prepared,
+      startedBy: run.record.startedBy ?? run.record.trigger,
+    });
+    result.runId = started.id;
+    // Cancelled while the run was starting
+    if (run.cancelled) cancelScriptRun(started.id);
+    publishStep(run);
+
+    const finished = (await waitForScriptRun(started.id)) ?? started;
+    result.status = finished.status === "running" ? "error" : finished.status;
+    result.exitCode = finished.exitCode ?? null;
+    if (finished.error && result.status !== "ok") result.error = finished.error;
+  } catch (error) {
+    result.status = "error";
+    result.exitCode = null;
+    if (error instanceof ScriptRunError) {
+      const fields = Object.entries(error.fieldErrors ?? {}).map(([name, problem]) => `${name}: ${problem}`);
+      result.error = fields.length > 0 ? `${error.message} (${fields.join("; ")})` : error.message;
+    } else {
+      console.error("Workflow step error:", error);
+      result.error = `Couldn't start: ${(error as Error).message}`;
+    }
+  } finally {
+    result.finishedAt = Date.now();
+    publishStep(run);
+  }
+}
+
+async function executeWorkflow(run: ActiveWorkflowRun, workflow: Workflow) {
+  const { record } = run;
+  let previous: PreviousStep = { ok: true, exitCode: 0 };
+  let stopped = false;
+
+  for (const [i, step] of workflow.steps.entries()) {
+    const result = record.steps[i];
+    if (run.cancelled) {
+      result.status = "skipped";
+      result.error = "Workflow cancelled";
+      continue;
+    }
+    if (!shouldRun(step, previous, stopped)) {
+      result.status = "skipped";
+      result.error = skipReason(step, stopped);
+      continue;
+    }
+
+    await runStep(run, step, result);
+    const ok = result.status === "ok";
+    previous = { ok, exitCode: result.exitCode ?? null };
+    if (!ok && result.status !== "cancelled" && (step.onFailure ?? workflow.onFailure) === "stop") {
+      stopped = true;
+    }
+  }
+
+  record.status = run.cancelled ? "cancelled" : stopped ? "error" : "ok";
+  record.finishedAt = Date.now();
+}
+
+export interface StartWorkflowOptions {
+  trigger?: WorkflowRunRecord["trigger"];
+  startedBy?: string;
+}
+
+/**
+ * Start `workflow` in the background and return its record straight away.
+ * One run per workflow at a time; follow progress through the "scripts"
+ * live events (workflow.started / workflow.step / workflow.finished).
+ */
+export function startWorkflowRun(workflow: Workflow, options: StartWorkflowOptions = {}): WorkflowRunRecord {
+  const busy = [...workflowRuns().values()].some(
+    (r) => r.record.workflowId === workflow.id && r.record.finishedAt === undefined
+  );
+  if (busy) throw new WorkflowRunError(`${workflow.name} is already running`, 409);
+
+  const run: ActiveWorkflowRun = {
+    cancelled: false,
+    record: {
+      id: randomBytes(8).toString("hex"),
+      workflowId: workflow.id,
+      name: workflow.name,
+      trigger: options.trigger ?? "manual",
+      startedBy: options.startedBy,
+      startedAt: Date.now(),
+      status: "running",
+      steps: workflow.steps.map((step, index) => ({
+        index,
+        name: step.name,
+        script: step.script,
+        status: "pending",
+      })),
+    },
+  };
+  workflowRuns().set(run.record.id, run);
+  publishLiveEvent("scripts", "workflow.started", snapshot(run));
+
+  executeWorkflow(run, workflow)
+    .catch((error) => {
+      console.error("Workflow run error:", error);
+      run.record.status = "error";
+      run.record.finishedAt = Date.now();
+    })
+    .then(() => appendWorkflowRunRecord(snapshot(run)))
+    .catch((err) => console.error("Workflow history write error:", err))
+    .finally(() => {
+      pruneFinished();
+      publishLiveEvent("scripts", "workflow.finished", snapshot(run));
+    });
+
+  return snapshot(run);
+}
+
+/** Stop a running workflow: the current step is cancelled and the rest skipped. */
+export function cancelWorkflowRun(id: string): boolean {
+  const run = workflowRuns().get(id);
+  if (!run || run.record.finishedAt !== undefined) return false;
+  run.cancelled = true;
+  const current = run.record.steps.find((s) => s.status === "running");
+  if (current?.runId) cancelScriptRun(current.runId);
+  return true;
+}
+
+// ─── Schedule ────────────────────────────────────────────────
+
+async function runDueWorkflows(from: number, now: number) {
+  const { workflows } = await loadWorkflows();
+  for (const workflow of workflows) {
+    if (!workflow.schedule || !workflow.enabled) continue;
+    const due = nextCronRun(workflow.schedule, { tz: workflow.tz, from });
+    if (due === null || due > now) continue;
+    try {
+      startWorkflowRun(workflow, { trigger: "schedule" });
+    } catch (error) {
+      console.warn(`Scheduled workflow ${workflow.id} not started:`, (error as Error).message);
+    }
+  }
+}
+
+/**
+ * Check workflow schedules every 30 seconds and start the ones that came due
+ * since the last check. Safe to call more than once; only one timer runs.
+ */
+export function startWorkflowScheduler() {
+  if (globalForWorkflows.__workflowScheduler) return;
+  const state = { lastTick: Date.now(), timer: undefined as unknown as ReturnType<typeof setInterval> };
+  state.timer = setInterval(() => {
+    const now = Date.now();
+    const from = state.lastTick;
+    state.lastTick = now;
+    runDueWorkflows(from, now).catch((err) => console.error("Workflow scheduler error:", err));
+  }, SCHEDULER_INTERVAL_MS);
+  state.timer.unref?.();
+  globalForWorkflows.__workflowScheduler = state;
+}
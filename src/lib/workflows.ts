@@ -0,0 +1,221 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { isValidTimeZone, validateCron } from "@/lib/cron-expr";
+import { WORKSPACE_DIR } from "@/lib/trusted-scripts";
+
+// Workflow definitions: named, ordered chains of trusted scripts, read from
+// workflows.json in the workspace. The file is hand-edited, so it is checked
+// on every read and each broken workflow is reported instead of failing the
+// whole file. Server-only; client code imports the types.
+//
+//   {
+//     "workflows": [{
+//       "id": "nightly",
+//       "name": "Nightly maintenance",
+//       "schedule": "30 3 * * *",
+//       "onFailure": "stop",
+//       "steps": [
+//         { "script": "backup.sh", "args": ["--full"] },
+//         { "script": "rotate-logs.sh", "onFailure": "continue" },
+//         { "script": "restart.sh", "params": { "service": "gateway" } },
+//         { "name": "Alert", "script": "notify.sh", "when": "failure" }
+//       ]
+//     }]
+//   }
+
+export const WORKFLOWS_PATH = process.env.WORKFLOWS_PATH || path.join(WORKSPACE_DIR, "workflows.json");
+
+export type WorkflowFailureMode = "stop" | "continue";
+
+/**
+ * When a step runs, judged by the previous step that ran:
+ * "success" / "failure" on its outcome, a number or list of numbers on its
+ * exit code, "always" unconditionally. Without `when` a step runs unless the
+ * workflow has stopped; after a stop only "failure" and "always" steps run.
+ */
+export type WorkflowStepCondition = "success" | "failure" | "always" | number | number[];
+
+export interface WorkflowStep {
+  name: string;
+  script: string;
+  args?: string[];
+  /** For scripts that declare "# @param" lines. */
+  params?: Record<string, unknown>;
+  when?: WorkflowStepCondition;
+  /** Overrides the workflow's onFailure for this step. */
+  onFailure?: WorkflowFailureMode;
+}
+
+export interface Workflow {
+  id: string;
+  name: string;
+  description?: string;
+  /** What a failed step does to the rest of the run; defaults to "stop". */
+  onFailure: WorkflowFailureMode;
+  /** Cron expression; the workflow also runs on its own when set. */
+  schedule?: string;
+  /** Timezone the schedule is evaluated in; defaults to the server's. */
+  tz?: string;
+  /** False pauses the schedule; manual runs still work. */
+  enabled: boolean;
+  steps: WorkflowStep[];
+}
+
+export interface WorkflowFileError {
+  /** Workflow id or position ("#2") the problem belongs to; absent for the file itself. */
+  workflow?: string;
+  message: string;
+}
+
+export interface WorkflowFile {
+  workflows: Workflow[];
+  errors: WorkflowFileError[];
+  /** False when there is no workflows.json yet. */
+  exists: boolean;
+}
+
+const WORKFLOW_ID = /^[a-z0-9][a-z0-9_-]{0,63}$/;
+const SCRIPT_NAME = /^[A-Za-z0-9][\w.-]*\.sh$/;
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isExitCode(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) >= 0 && (value as number) <= 255;
+}
+
+function parseCondition(value: unknown): WorkflowStepCondition | null {
+  if (value === "success" || value === "failure" || value === "always") return value;
+  if (isExitCode(value)) return value;
+  if (Array.isArray(value) && value.length > 0 && value.every(isExitCode)) return value as number[];
+  return null;
+}
+
+function parseFailureMode(value: unknown): WorkflowFailureMode | null {
+  return value === "stop" || value === "continue" ? value : null;
+}
+
+function parseStep(raw: unknown, index: number): WorkflowStep | string {
+  const where = `step ${index + 1}: `;
+  if (!isPlainObject(raw)) return `${where}must be an object`;
+  if (typeof raw.script !== "string" || !SCRIPT_NAME.test(raw.script)) {
+    return `${where}"script" must be a script file name ending in .sh`;
+  }
+  const step: WorkflowStep = {
+    name: typeof raw.name === "string" && raw.name.trim() ? raw.name.trim() : raw.script,
+    script: raw.script,
+  };
+
+  if (raw.args !== undefined) {
+    if (!Array.isArray(raw.args) || raw.args.some((a) => typeof a !== "string")) {
+      return `${where}"args" must be a list of strings`;
+    }
+    step.args = raw.args as string[];
+  }
+  if (raw.params !== undefined) {
+    if (!isPlainObject(raw.params)) return `${where}"params" must be an object`;
+    if (step.args?.length) return `${where}use either "args" or "params", not both`;
+    step.params = raw.params;
+  }
+  if (raw.when !== undefined) {
+    const when = parseCondition(raw.when);
+    if (when === null) {
+      return `${where}"when" must be "success", "failure", "always", an exit code or a list of exit codes`;
+    }
+    step.when = when;
+  }
+  if (raw.onFailure !== undefined) {
+    const mode = parseFailureMode(raw.onFailure);
+    if (!mode) return `${where}"onFailure" must be "stop" or "continue"`;
+    step.onFailure = mode;
+  }
+  return step;
+}
+
+function parseWorkflow(raw: unknown): Workflow | string {
+  if (!isPlainObject(raw)) return "must be an object";
+  if (typeof raw.id !== "string" || !WORKFLOW_ID.test(raw.id)) {
+    return `"id" must be lowercase letters, digits, "-" or "_"`;
+  }
+  if (!Array.isArray(raw.steps) || raw.steps.length === 0) return `"steps" must be a non-empty list`;
+
+  const steps: WorkflowStep[] = [];
+  for (const [i, rawStep] of raw.steps.entries()) {
+    const step = parseStep(rawStep, i);
+    if (typeof step === "string") return step;
+    steps.push(step);
+  }
+
+  const workflow: Workflow = {
+    id: raw.id,
+    name: typeof raw.name === "string" && raw.name.trim() ? raw.name.trim() : raw.id,
+    description: typeof raw.description === "string" ? raw.description : undefined,
+    onFailure: "stop",
+    enabled: raw.enabled !== false,
+    steps,
+  };
+  if (raw.onFailure !== undefined) {
+    const mode = parseFailureMode(raw.onFailure);
+    if (!mode) return `"onFailure" must be "stop" or "continue"`;
+    workflow.onFailure = mode;
+  }
+  if (raw.schedule !== undefined) {
+    if (typeof raw.schedule !== "string") return `"schedule" must be a cron expression`;
+    const problem = validateCron(raw.schedule);
+    if (problem) return `"schedule": ${problem}`;
+    workflow.schedule = raw.schedule.trim();
+  }
+  if (raw.tz !== undefined) {
+    if (typeof raw.tz !== "string" || !isValidTimeZone(raw.tz)) return `Unknown timezone "${String(raw.tz)}"`;
+    workflow.tz = raw.tz;
+  }
+  return workflow;
+}
+
+/** Parse workflows.json content; broken workflows are left out and listed in `errors`. */
+export function parseWorkflowFile(content: string): Omit<WorkflowFile, "exists"> {
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch (error) {
+    return { workflows: [], errors: [{ message: `Invalid JSON: ${(error as Error).message}` }] };
+  }
+  const list = isPlainObject(data) ? data.workflows : data;
+  if (!Array.isArray(list)) {
+    return { workflows: [], errors: [{ message: `Expected { "workflows": [...] }` }] };
+  }
+
+  const workflows: Workflow[] = [];
+  const errors: WorkflowFileError[] = [];
+  const seen = new Set<string>();
+  list.forEach((raw, i) => {
+    const label = isPlainObject(raw) && typeof raw.id === "string" ? raw.id : `#${i + 1}`;
+    const workflow = parseWorkflow(raw);
+    if (typeof workflow === "string") {
+      errors.push({ workflow: label, message: workflow });
+    } else if (seen.has(workflow.id)) {
+      errors.push({ workflow: label, message: "Duplicate id" });
+    } else {
+      seen.add(workflow.id);
+      workflows.push(workflow);
+    }
+  });
+  return { workflows, errors };
+}
+
+export async function loadWorkflows(): Promise<WorkflowFile> {
+  let content: string;
+  try {
+    content = await fs.readFile(WORKFLOWS_PATH, "utf-8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return { workflows: [], errors: [], exists: false };
+    return { workflows: [], errors: [{ message: `Can't read ${WORKFLOWS_PATH}` }], exists: true };
+  }
+  return { ...parseWorkflowFile(content), exists: true };
+}
+
+export async function getWorkflow(id: string): Promise<Workflow | null> {
+  const { workflows } = await loadWorkflows();
+  return workflows.find((w) => w.id === id) ?? null;
+}
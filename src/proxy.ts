@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getSession,
+  getUser,
+  SESSION_COOKIE,
+  AUTH_USER_HEADER,
+  AUTH_SESSION_HEADER,
+  AUTH_ROLE_HEADER,
+} from "@/lib/auth";
+import { hasRole } from "@/lib/permissions";
+
+// Reachable without a session: the login page and the login/setup API
+const PUBLIC_PATHS = ["/login", "/api/auth"];
+
+// POST routes that also serve reads and check permissions per call themselves
+// (gateway calls; picking the agent to view, which every role may do)
+const SELF_CHECKED_WRITE_PATHS = ["/api/gateway", "/api/agents"];
+
+function isPublicPath(pathname: string): boolean {
+  return PUBLIC_PATHS.some((p) => pathname === p || pathname.startsWith(`${p}/`));
+}
+
+/**
+ * Guards every page and /api route behind a command-center session.
+ * API calls get a 401; page loads are redirected to /login.
+ *
+ * Viewers are read-only: any non-GET API call from a viewer is rejected here,
+ * before the route runs. Finer per-action checks live in the routes themselves.
+ */
+export async function proxy(request: NextRequest) {
+  const { pathname, search } = request.nextUrl;
+
+  // Never trust identity headers coming from the client
+  const headers = new Headers(request.headers);
+  headers.delete(AUTH_USER_HEADER);
+  headers.delete(AUTH_SESSION_HEADER);
+  headers.delete(AUTH_ROLE_HEADER);
+
+  const session = await getSession(request.cookies.get(SESSION_COOKIE)?.value).catch(() => null);
+  // A session whose user was deleted no longer counts
+  const user = session ? await getUser(session.username).catch(() => null) : null;
+  if (session && user) {
+    headers.set(AUTH_USER_HEADER, user.username);
+    headers.set(AUTH_SESSION_HEADER, session.id);
+    headers.set(AUTH_ROLE_HEADER, user.role);
+  }
+
+  if (isPublicPath(pathname)) {
+    return NextResponse.next({ request: { headers } });
+  }
+
+  if (user) {
+    const isWrite = !["GET", "HEAD", "OPTIONS"].includes(request.method);
+    if (
+      pathname.startsWith("/api/") &&
+      isWrite &&
+      !SELF_CHECKED_WRITE_PATHS.includes(pathname) &&
+      !hasRole(user.role, "operator")
+    ) {
+      return NextResponse.json(
+        { error: `Forbidden: read-only role (${user.role})` },
+        { status: 403 }
+      );
+    }
+    return NextResponse.next({ request: { headers } });
+  }
+
+  if (pathname.startsWith("/api/")) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const loginUrl = request.nextUrl.clone();
+  loginUrl.pathname = "/login";
+  loginUrl.search = pathname === "/" ? "" : `?next=${encodeURIComponent(pathname + search)}`;
+  return NextResponse.redirect(loginUrl);
+}
+
+export const config = {
+  // Skip Next internals and static public assets (icons, manifest)
+  matcher: [
+    "/((?!_next/static|_next/image|favicon\\.ico|favicon\\.svg|manifest\\.json|.*\\.(?:png|svg|ico|webp)$).*)",
+  ],
+};